@@ -49,32 +49,67 @@ public class AuthController : ControllerBase
     }
 
     /// <summary>
-    /// Login user
+    /// Get the signed-in user. Sign-in itself happens in the web app, which issues the tokens.
     /// </summary>
-    [HttpPost("login")]
-    public async Task<ActionResult<ApiResponse<LoginResponse>>> Login([FromBody] LoginRequest request)
+    [HttpGet("me")]
+    [Authorize]
+    public async Task<ActionResult<UserDto>> GetCurrentUser()
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            var user = await _authService.GetUserAsync(userId);
+            if (user == null)
+            {
+                return NotFound(ApiResponse<object>.ErrorResponse("User not found"));
+            }
+
+            return Ok(user);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting current user");
+            return StatusCode(500, ApiResponse<object>.ErrorResponse("Failed to load user"));
+        }
+    }
+
+    /// <summary>
+    /// Update the signed-in user's name and timezone
+    /// </summary>
+    [HttpPut("me")]
+    [Authorize]
+    public async Task<ActionResult<UserDto>> UpdateCurrentUser([FromBody] UpdateProfileRequest request)
     {
         try
         {
             if (!ModelState.IsValid)
             {
-                return BadRequest(ApiResponse<LoginResponseDto>.ErrorResponse("Invalid request data"));
+                return BadRequest(ApiResponse<object>.ErrorResponse("Invalid request data"));
+            }
+
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
             }
 
-            var result = await _authService.LoginAsync(request);
-            
-            if (result.Success)
+            var user = await _authService.UpdateProfileAsync(userId, request);
+            if (user == null)
             {
-                _logger.LogInformation("User logged in successfully: {Email}", request.Email);
-                return Ok(result);
+                return NotFound(ApiResponse<object>.ErrorResponse("User not found"));
             }
 
-            return Unauthorized(result);
+            return Ok(user);
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error logging in user: {Email}", request.Email);
-            return StatusCode(500, ApiResponse<LoginResponse>.ErrorResponse("Login failed"));
+            _logger.LogError(ex, "Error updating current user");
+            return StatusCode(500, ApiResponse<object>.ErrorResponse("Failed to update user"));
         }
     }
 
@@ -0,0 +1,146 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using System.Security.Claims;
+using System.Text.Json.Serialization;
+using System.Text.RegularExpressions;
+using TradeMentor.Api.Middleware;
+using TradeMentor.Api.Models;
+using TradeMentor.Api.Services;
+
+namespace TradeMentor.Api.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class BreathingSessionsController : ControllerBase
+{
+    private static readonly Regex SessionId = new(@"^[A-Za-z0-9_-]{1,64}$");
+
+    private readonly IBreathingSessionService _breathingSessionService;
+    private readonly ILogger<BreathingSessionsController> _logger;
+
+    public BreathingSessionsController(
+        IBreathingSessionService breathingSessionService,
+        ILogger<BreathingSessionsController> logger)
+    {
+        _breathingSessionService = breathingSessionService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get user's breathing sessions, most recent first
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<BreathingSessionDto>>> GetSessions(
+        [FromQuery] int limit = 100,
+        [FromQuery] int offset = 0)
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+                return Unauthorized();
+
+            var sessions = await _breathingSessionService.GetUserSessionsAsync(
+                userId, Math.Clamp(limit, 1, 500), Math.Max(offset, 0));
+            return Ok(sessions.Select(ToDto));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting breathing sessions");
+            return StatusCode(500, "Internal server error");
+        }
+    }
+
+    /// <summary>
+    /// Record a completed session; posting the same id again returns the stored session
+    /// </summary>
+    [HttpPost]
+    [Idempotent]
+    public async Task<ActionResult<BreathingSessionDto>> CreateSession([FromBody] CreateBreathingSessionRequest request)
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+                return Unauthorized();
+
+            if (string.IsNullOrEmpty(request.Id) || !SessionId.IsMatch(request.Id))
+                return BadRequest("Invalid input: Id must be 1 to 64 letters, digits, '-' or '_'");
+
+            if (!BreathingProtocol.All.Contains(request.Protocol))
+                return BadRequest($"Protocol must be one of: {string.Join(", ", BreathingProtocol.All)}");
+
+            if (request.DurationSeconds < 0 || request.DurationSeconds > 3600 ||
+                request.Cycles < 0 || request.Cycles > 1000)
+            {
+                return BadRequest("Duration must be at most an hour and cycles at most 1000");
+            }
+
+            if (request.CompletedAt < request.StartedAt)
+                return BadRequest("CompletedAt must not be before StartedAt");
+
+            var existing = await _breathingSessionService.GetSessionAsync(request.Id);
+            if (existing != null)
+            {
+                if (existing.UserId != userId)
+                    return Conflict("A breathing session with this id already exists");
+                return Ok(ToDto(existing));
+            }
+
+            var session = await _breathingSessionService.CreateSessionAsync(new BreathingSession
+            {
+                Id = request.Id,
+                UserId = userId,
+                Protocol = request.Protocol,
+                DurationSeconds = request.DurationSeconds,
+                Cycles = request.Cycles,
+                StartedAt = request.StartedAt.ToUniversalTime(),
+                CompletedAt = request.CompletedAt.ToUniversalTime()
+            });
+
+            return Ok(ToDto(session));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating breathing session {Id}", request.Id);
+            return StatusCode(500, "Internal server error");
+        }
+    }
+
+    private static BreathingSessionDto ToDto(BreathingSession session) => new()
+    {
+        Id = session.Id,
+        UserId = session.UserId,
+        Protocol = session.Protocol,
+        DurationSeconds = session.DurationSeconds,
+        Cycles = session.Cycles,
+        StartedAt = session.StartedAt,
+        CompletedAt = session.CompletedAt,
+        EmotionCheckId = session.EmotionCheckId
+    };
+}
+
+public class BreathingSessionDto
+{
+    public string Id { get; set; } = string.Empty;
+    public string UserId { get; set; } = string.Empty;
+    public string Protocol { get; set; } = string.Empty;
+    public int DurationSeconds { get; set; }
+    public int Cycles { get; set; }
+    public DateTime StartedAt { get; set; }
+    public DateTime CompletedAt { get; set; }
+
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public Guid? EmotionCheckId { get; set; }
+}
+
+public class CreateBreathingSessionRequest
+{
+    public string Id { get; set; } = string.Empty;
+    public string Protocol { get; set; } = string.Empty;
+    public int DurationSeconds { get; set; }
+    public int Cycles { get; set; }
+    public DateTime StartedAt { get; set; }
+    public DateTime CompletedAt { get; set; }
+}
@@ -0,0 +1,214 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using System.Globalization;
+using System.Security.Claims;
+using System.Text.Json;
+using System.Text.Json.Serialization;
+using TradeMentor.Api.Models;
+using TradeMentor.Api.Services;
+using TradeMentor.Api.Validation;
+
+namespace TradeMentor.Api.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class DailySessionsController : ControllerBase
+{
+    private static readonly string[] ValidBiases = { "bullish", "bearish", "neutral" };
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    private readonly IDailySessionService _dailySessionService;
+    private readonly ILogger<DailySessionsController> _logger;
+
+    public DailySessionsController(
+        IDailySessionService dailySessionService,
+        ILogger<DailySessionsController> logger)
+    {
+        _dailySessionService = dailySessionService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get user's sessions between two days (YYYY-MM-DD, inclusive)
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<DailySessionDto>>> GetSessions(
+        [FromQuery] string? from = null,
+        [FromQuery] string? to = null)
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+                return Unauthorized();
+
+            DateOnly? fromDate = null, toDate = null;
+            if (from != null)
+            {
+                if (!TryParseDay(from, out var day)) return BadRequest("Dates must be YYYY-MM-DD");
+                fromDate = day;
+            }
+            if (to != null)
+            {
+                if (!TryParseDay(to, out var day)) return BadRequest("Dates must be YYYY-MM-DD");
+                toDate = day;
+            }
+
+            var sessions = await _dailySessionService.GetUserSessionsAsync(userId, fromDate, toDate);
+            return Ok(sessions.Select(ToDto));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting daily sessions");
+            return StatusCode(500, "Internal server error");
+        }
+    }
+
+    /// <summary>
+    /// Get the session for one day
+    /// </summary>
+    [HttpGet("{date}")]
+    public async Task<ActionResult<DailySessionDto>> GetSession(string date)
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+                return Unauthorized();
+
+            if (!TryParseDay(date, out var day))
+                return BadRequest("Dates must be YYYY-MM-DD");
+
+            var session = await _dailySessionService.GetSessionAsync(userId, day);
+            if (session == null)
+                return NotFound();
+
+            return Ok(ToDto(session));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting daily session for {Date}", date);
+            return StatusCode(500, "Internal server error");
+        }
+    }
+
+    /// <summary>
+    /// Create or update the session for one day; the plan and review are saved separately
+    /// </summary>
+    [HttpPut("{date}")]
+    public async Task<ActionResult<DailySessionDto>> SaveSession(string date, [FromBody] SaveDailySessionRequest request)
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+                return Unauthorized();
+
+            if (!TryParseDay(date, out var day))
+                return BadRequest("Dates must be YYYY-MM-DD");
+
+            if (request.Plan == null && request.Review == null)
+                return BadRequest("Send a plan, a review or both");
+
+            var error = ValidatePlan(request.Plan) ?? ValidateReview(request.Review);
+            if (error != null)
+                return BadRequest(error);
+
+            var session = await _dailySessionService.SaveSessionAsync(
+                userId,
+                day,
+                request.Plan != null ? JsonSerializer.Serialize(request.Plan, JsonOptions) : null,
+                request.Review != null ? JsonSerializer.Serialize(request.Review, JsonOptions) : null);
+            return Ok(ToDto(session));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error saving daily session for {Date}", date);
+            return StatusCode(500, "Internal server error");
+        }
+    }
+
+    private static bool TryParseDay(string value, out DateOnly day)
+    {
+        return DateOnly.TryParseExact(value, "yyyy-MM-dd", CultureInfo.InvariantCulture, DateTimeStyles.None, out day);
+    }
+
+    private static string? ValidatePlan(DailySessionPlanDto? plan)
+    {
+        if (plan == null) return null;
+        if (!ValidBiases.Contains(plan.Bias))
+            return "Bias must be bullish, bearish or neutral";
+        if (plan.Watchlist.Count > 30 || plan.Watchlist.Any(symbol => !InputValidator.IsValidText(symbol, 10)))
+            return "A watchlist holds up to 30 symbols of at most 10 characters";
+        if (plan.MaxLoss < 0)
+            return "Max loss cannot be negative";
+        if (!InputValidator.IsValidText(plan.SetupFocus ?? string.Empty, 200))
+            return "Invalid input: Setup focus must be less than 200 characters";
+        return null;
+    }
+
+    private static string? ValidateReview(DailySessionReviewDto? review)
+    {
+        if (review == null) return null;
+        if (review.PlanAdherence < 1 || review.PlanAdherence > 5)
+            return "Plan adherence must be between 1 and 5";
+        if (review.Mistakes.Count > 20 || review.Mistakes.Any(mistake => !InputValidator.IsValidText(mistake, 200)))
+            return "A review lists up to 20 mistakes of at most 200 characters";
+        if (!InputValidator.IsValidText(review.Notes ?? string.Empty, 2000))
+            return "Invalid input: Notes must be less than 2000 characters";
+        if (review.Screenshots.Count > 10 || review.Screenshots.Any(shot => !InputValidator.IsValidText(shot, 500)))
+            return "A review holds up to 10 screenshots of at most 500 characters";
+        return null;
+    }
+
+    private static DailySessionDto ToDto(DailySession session) => new()
+    {
+        Id = session.Id,
+        UserId = session.UserId,
+        Date = session.Date.ToString("yyyy-MM-dd", CultureInfo.InvariantCulture),
+        Plan = session.Plan != null ? JsonSerializer.Deserialize<DailySessionPlanDto>(session.Plan, JsonOptions) : null,
+        Review = session.Review != null ? JsonSerializer.Deserialize<DailySessionReviewDto>(session.Review, JsonOptions) : null,
+        CreatedAt = session.CreatedAt,
+        UpdatedAt = session.UpdatedAt
+    };
+}
+
+// Optional fields are left out of responses rather than sent as null, as the client expects
+public class DailySessionPlanDto
+{
+    public string Bias { get; set; } = "neutral";
+    public List<string> Watchlist { get; set; } = new();
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public decimal? MaxLoss { get; set; }
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public string? SetupFocus { get; set; }
+}
+
+public class DailySessionReviewDto
+{
+    public int PlanAdherence { get; set; }
+    public List<string> Mistakes { get; set; } = new();
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public string? Notes { get; set; }
+    public List<string> Screenshots { get; set; } = new();
+}
+
+public class DailySessionDto
+{
+    public Guid Id { get; set; }
+    public string UserId { get; set; } = string.Empty;
+    public string Date { get; set; } = string.Empty;
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public DailySessionPlanDto? Plan { get; set; }
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public DailySessionReviewDto? Review { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+}
+
+public class SaveDailySessionRequest
+{
+    public DailySessionPlanDto? Plan { get; set; }
+    public DailySessionReviewDto? Review { get; set; }
+}
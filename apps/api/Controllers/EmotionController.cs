@@ -2,6 +2,7 @@ using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using System.Security.Claims;
 using TradeMentor.Api.Data.Repositories;
+using TradeMentor.Api.Middleware;
 using TradeMentor.Api.Models;
 using TradeMentor.Api.Services;
 
@@ -15,17 +16,20 @@ public class EmotionController : ControllerBase
     private readonly IEmotionCheckRepository _emotionRepository;
     private readonly IUserRepository _userRepository;
     private readonly IEmotionService _emotionService;
+    private readonly IBreathingSessionService _breathingSessionService;
     private readonly ILogger<EmotionController> _logger;
 
     public EmotionController(
         IEmotionCheckRepository emotionRepository,
         IUserRepository userRepository,
         IEmotionService emotionService,
+        IBreathingSessionService breathingSessionService,
         ILogger<EmotionController> logger)
     {
         _emotionRepository = emotionRepository;
         _userRepository = userRepository;
         _emotionService = emotionService;
+        _breathingSessionService = breathingSessionService;
         _logger = logger;
     }
 
@@ -63,6 +67,12 @@ public class EmotionController : ControllerBase
                     Context = e.Context,
                     Symbol = e.Symbol,
                     Notes = e.Notes,
+                    BreathingSessionId = e.BreathingSessionId,
+                    Emotions = e.Emotions,
+                    Confidence = e.Confidence,
+                    Focus = e.Focus,
+                    SleepHours = e.SleepHours,
+                    PhysicalTension = e.PhysicalTension,
                     Timestamp = _emotionService.ConvertToUserTimezone(e.Timestamp, timezone ?? "UTC"),
                     CreatedAt = _emotionService.ConvertToUserTimezone(e.CreatedAt, timezone ?? "UTC"),
                     UserId = e.UserId
@@ -105,7 +115,13 @@ public class EmotionController : ControllerBase
                 Context = emotion.Context,
                 Timestamp = emotion.Timestamp,
                 Notes = emotion.Notes,
-                Symbol = emotion.Symbol
+                Symbol = emotion.Symbol,
+                BreathingSessionId = emotion.BreathingSessionId,
+                Emotions = emotion.Emotions,
+                Confidence = emotion.Confidence,
+                Focus = emotion.Focus,
+                SleepHours = emotion.SleepHours,
+                PhysicalTension = emotion.PhysicalTension
             };
 
             return Ok(ApiResponse<EmotionCheckDto>.SuccessResponse(emotionDto));
@@ -121,6 +137,7 @@ public class EmotionController : ControllerBase
     /// Create a new emotion check (max 50 per day)
     /// </summary>
     [HttpPost]
+    [Idempotent]
     public async Task<ActionResult<ApiResponse<EmotionResponseDto>>> CreateEmotionCheck(
         [FromBody] EmotionCheckDto emotionDto,
         [FromQuery] string? timezone = "UTC")
@@ -152,6 +169,12 @@ public class EmotionController : ControllerBase
                 Context = emotionDto.Context,
                 Symbol = emotionDto.Symbol?.ToUpper(),
                 Notes = emotionDto.Notes,
+                BreathingSessionId = emotionDto.BreathingSessionId,
+                Emotions = NormalizeEmotions(emotionDto.Emotions),
+                Confidence = emotionDto.Confidence,
+                Focus = emotionDto.Focus,
+                SleepHours = emotionDto.SleepHours,
+                PhysicalTension = emotionDto.PhysicalTension,
                 Timestamp = timestamp,
                 CreatedAt = DateTime.UtcNow,
                 UserId = userId
@@ -159,6 +182,14 @@ public class EmotionController : ControllerBase
 
             await _emotionRepository.AddAsync(emotionCheck);
 
+            // Point the cool-down at this check; a session still queued on the
+            // device picks the link up from BreathingSessionId when it arrives
+            if (!string.IsNullOrEmpty(emotionCheck.BreathingSessionId))
+            {
+                await _breathingSessionService.LinkEmotionCheckAsync(
+                    userId, emotionCheck.BreathingSessionId, emotionCheck.Id);
+            }
+
             // Update user streak
             await UpdateUserStreak(userId);
 
@@ -169,6 +200,12 @@ public class EmotionController : ControllerBase
                 Context = emotionCheck.Context,
                 Symbol = emotionCheck.Symbol,
                 Notes = emotionCheck.Notes,
+                BreathingSessionId = emotionCheck.BreathingSessionId,
+                Emotions = emotionCheck.Emotions,
+                Confidence = emotionCheck.Confidence,
+                Focus = emotionCheck.Focus,
+                SleepHours = emotionCheck.SleepHours,
+                PhysicalTension = emotionCheck.PhysicalTension,
                 Timestamp = _emotionService.ConvertToUserTimezone(emotionCheck.Timestamp, timezone ?? "UTC"),
                 CreatedAt = _emotionService.ConvertToUserTimezone(emotionCheck.CreatedAt, timezone ?? "UTC"),
                 UserId = emotionCheck.UserId
@@ -216,6 +253,11 @@ public class EmotionController : ControllerBase
             emotion.Context = request.Context;
             emotion.Notes = request.Notes;
             emotion.Symbol = request.Symbol?.ToUpper();
+            emotion.Emotions = NormalizeEmotions(request.Emotions);
+            emotion.Confidence = request.Confidence;
+            emotion.Focus = request.Focus;
+            emotion.SleepHours = request.SleepHours;
+            emotion.PhysicalTension = request.PhysicalTension;
 
             await _emotionRepository.UpdateAsync(emotion);
 
@@ -226,7 +268,13 @@ public class EmotionController : ControllerBase
                 Context = emotion.Context,
                 Timestamp = emotion.Timestamp,
                 Notes = emotion.Notes,
-                Symbol = emotion.Symbol
+                Symbol = emotion.Symbol,
+                BreathingSessionId = emotion.BreathingSessionId,
+                Emotions = emotion.Emotions,
+                Confidence = emotion.Confidence,
+                Focus = emotion.Focus,
+                SleepHours = emotion.SleepHours,
+                PhysicalTension = emotion.PhysicalTension
             };
 
             return Ok(ApiResponse<EmotionCheckDto>.SuccessResponse(emotionDto, "Emotion check updated successfully"));
@@ -310,7 +358,13 @@ public class EmotionController : ControllerBase
                 Context = emotion.Context,
                 Timestamp = emotion.Timestamp,
                 Notes = emotion.Notes,
-                Symbol = emotion.Symbol
+                Symbol = emotion.Symbol,
+                BreathingSessionId = emotion.BreathingSessionId,
+                Emotions = emotion.Emotions,
+                Confidence = emotion.Confidence,
+                Focus = emotion.Focus,
+                SleepHours = emotion.SleepHours,
+                PhysicalTension = emotion.PhysicalTension
             };
 
             return Ok(ApiResponse<EmotionCheckDto?>.SuccessResponse(emotionDto));
@@ -322,6 +376,19 @@ public class EmotionController : ControllerBase
         }
     }
 
+    // Known emotion names only, each once; no names is stored as null
+    private static string[]? NormalizeEmotions(IEnumerable<string>? emotions)
+    {
+        if (emotions == null)
+            return null;
+        var names = emotions
+            .Select(name => name.ToLowerInvariant())
+            .Where(name => NamedEmotion.All.Contains(name))
+            .Distinct()
+            .ToArray();
+        return names.Length > 0 ? names : null;
+    }
+
     private string GetCurrentUserId()
     {
         return User.FindFirst(ClaimTypes.NameIdentifier)?.Value 
@@ -0,0 +1,92 @@
+using Microsoft.AspNetCore.Mvc;
+using TradeMentor.Api.Middleware;
+using TradeMentor.Api.Models;
+using TradeMentor.Api.Services;
+
+namespace TradeMentor.Api.Controllers;
+
+/// <summary>
+/// Account lookups for the web app's sign-in, 2FA and password reset routes,
+/// which issue the tokens this API accepts. Not reachable with a user token.
+/// </summary>
+[ApiController]
+[Route("api/internal/accounts")]
+[InternalApiKey]
+[ApiExplorerSettings(IgnoreApi = true)]
+public class InternalAccountsController : ControllerBase
+{
+    private readonly IAuthService _authService;
+    private readonly ILogger<InternalAccountsController> _logger;
+
+    public InternalAccountsController(IAuthService authService, ILogger<InternalAccountsController> logger)
+    {
+        _authService = authService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Check an email and password, returning the account when they match
+    /// </summary>
+    [HttpPost("verify")]
+    public async Task<ActionResult<ApiResponse<UserDto>>> Verify([FromBody] LoginRequest request)
+    {
+        var user = await _authService.VerifyCredentialsAsync(request.Email, request.Password);
+        if (user == null)
+        {
+            return Unauthorized(ApiResponse<UserDto>.ErrorResponse("Invalid email or password"));
+        }
+
+        return Ok(ApiResponse<UserDto>.SuccessResponse(user));
+    }
+
+    /// <summary>
+    /// Find an active account by email
+    /// </summary>
+    [HttpGet("by-email")]
+    public async Task<ActionResult<ApiResponse<UserDto>>> GetByEmail([FromQuery] string email)
+    {
+        var user = await _authService.FindUserByEmailAsync(email);
+        if (user == null)
+        {
+            return NotFound(ApiResponse<UserDto>.ErrorResponse("Account not found"));
+        }
+
+        return Ok(ApiResponse<UserDto>.SuccessResponse(user));
+    }
+
+    /// <summary>
+    /// Get an active account by id
+    /// </summary>
+    [HttpGet("{id}")]
+    public async Task<ActionResult<ApiResponse<UserDto>>> GetById(string id)
+    {
+        var user = await _authService.GetUserAsync(id);
+        if (user == null)
+        {
+            return NotFound(ApiResponse<UserDto>.ErrorResponse("Account not found"));
+        }
+
+        return Ok(ApiResponse<UserDto>.SuccessResponse(user));
+    }
+
+    /// <summary>
+    /// Replace the password, e.g. after a confirmed reset
+    /// </summary>
+    [HttpPut("{id}/password")]
+    public async Task<ActionResult<ApiResponse>> SetPassword(string id, [FromBody] SetPasswordRequest request)
+    {
+        if (await _authService.GetUserAsync(id) == null)
+        {
+            return NotFound(ApiResponse.ErrorResponse("Account not found"));
+        }
+
+        var result = await _authService.SetPasswordAsync(id, request.Password);
+        if (!result.Success)
+        {
+            return BadRequest(result);
+        }
+
+        _logger.LogInformation("Password replaced for user: {UserId}", id);
+        return Ok(result);
+    }
+}
@@ -1,6 +1,9 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using System.Globalization;
 using System.Security.Claims;
+using System.Text.Json.Serialization;
+using TradeMentor.Api.Middleware;
 using TradeMentor.Api.Models;
 using TradeMentor.Api.Services;
 using TradeMentor.Api.Validation;
@@ -27,7 +30,7 @@ public class MonthlyGoalsController : ControllerBase
     /// Get monthly goal for specific month
     /// </summary>
     [HttpGet("{targetMonth:datetime}")]
-    public async Task<ActionResult<MonthlyGoal>> GetMonthlyGoal(DateTime targetMonth)
+    public async Task<ActionResult<MonthlyGoalDto>> GetMonthlyGoal(DateTime targetMonth)
     {
         try
         {
@@ -40,7 +43,7 @@ public class MonthlyGoalsController : ControllerBase
             if (goal == null)
                 return NotFound();
 
-            return Ok(goal);
+            return Ok(ToDto(goal));
         }
         catch (Exception ex)
         {
@@ -53,7 +56,7 @@ public class MonthlyGoalsController : ControllerBase
     /// Get current month's goal
     /// </summary>
     [HttpGet("current")]
-    public async Task<ActionResult<MonthlyGoal>> GetCurrentMonthGoal()
+    public async Task<ActionResult<MonthlyGoalDto>> GetCurrentMonthGoal()
     {
         try
         {
@@ -66,7 +69,7 @@ public class MonthlyGoalsController : ControllerBase
             if (goal == null)
                 return NotFound();
 
-            return Ok(goal);
+            return Ok(ToDto(goal));
         }
         catch (Exception ex)
         {
@@ -79,7 +82,7 @@ public class MonthlyGoalsController : ControllerBase
     /// Get user's goals
     /// </summary>
     [HttpGet]
-    public async Task<ActionResult<IEnumerable<MonthlyGoal>>> GetUserGoals([FromQuery] int limit = 12)
+    public async Task<ActionResult<IEnumerable<MonthlyGoalDto>>> GetUserGoals([FromQuery] int limit = 12)
     {
         try
         {
@@ -88,7 +91,7 @@ public class MonthlyGoalsController : ControllerBase
                 return Unauthorized();
 
             var goals = await _monthlyGoalService.GetUserGoalsAsync(userId, limit);
-            return Ok(goals);
+            return Ok(goals.Select(ToDto));
         }
         catch (Exception ex)
         {
@@ -101,7 +104,7 @@ public class MonthlyGoalsController : ControllerBase
     /// Get completed goals
     /// </summary>
     [HttpGet("completed")]
-    public async Task<ActionResult<IEnumerable<MonthlyGoal>>> GetCompletedGoals()
+    public async Task<ActionResult<IEnumerable<MonthlyGoalDto>>> GetCompletedGoals()
     {
         try
         {
@@ -110,7 +113,7 @@ public class MonthlyGoalsController : ControllerBase
                 return Unauthorized();
 
             var goals = await _monthlyGoalService.GetCompletedGoalsAsync(userId);
-            return Ok(goals);
+            return Ok(goals.Select(ToDto));
         }
         catch (Exception ex)
         {
@@ -123,7 +126,7 @@ public class MonthlyGoalsController : ControllerBase
     /// Get pending goals
     /// </summary>
     [HttpGet("pending")]
-    public async Task<ActionResult<IEnumerable<MonthlyGoal>>> GetPendingGoals()
+    public async Task<ActionResult<IEnumerable<MonthlyGoalDto>>> GetPendingGoals()
     {
         try
         {
@@ -132,7 +135,7 @@ public class MonthlyGoalsController : ControllerBase
                 return Unauthorized();
 
             var goals = await _monthlyGoalService.GetPendingGoalsAsync(userId);
-            return Ok(goals);
+            return Ok(goals.Select(ToDto));
         }
         catch (Exception ex)
         {
@@ -142,10 +145,11 @@ public class MonthlyGoalsController : ControllerBase
     }
 
     /// <summary>
-    /// Create or update monthly goal
+    /// Create a monthly goal
     /// </summary>
     [HttpPost]
-    public async Task<ActionResult<MonthlyGoal>> CreateOrUpdateGoal([FromBody] CreateMonthlyGoalRequest request)
+    [Idempotent]
+    public async Task<ActionResult<MonthlyGoalDto>> CreateGoal([FromBody] CreateMonthlyGoalRequest request)
     {
         try
         {
@@ -165,20 +169,101 @@ public class MonthlyGoalsController : ControllerBase
                 return BadRequest("Progress must be between 0 and 100");
             }
 
+            if (!TryParseMonth(request.TargetMonth, out var targetMonth))
+            {
+                return BadRequest("Target month must be YYYY-MM");
+            }
+
+            var metricError = ValidateMetric(request.Metric, request.Target, request.TagId);
+            if (metricError != null)
+            {
+                return BadRequest(metricError);
+            }
+
             var goal = new MonthlyGoal
             {
                 Goal = request.Goal,
                 Progress = request.Progress,
                 IsCompleted = request.IsCompleted,
-                TargetMonth = request.TargetMonth
+                TargetMonth = targetMonth,
+                Metric = request.Metric,
+                Target = request.Metric != null ? request.Target : null,
+                TagId = request.Metric == GoalMetric.MistakeTagCount ? request.TagId : null
             };
 
-            var result = await _monthlyGoalService.CreateOrUpdateGoalAsync(userId, goal);
-            return Ok(result);
+            var result = await _monthlyGoalService.CreateGoalAsync(userId, goal);
+            return Ok(ToDto(result));
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error creating/updating monthly goal");
+            _logger.LogError(ex, "Error creating monthly goal");
+            return StatusCode(500, "Internal server error");
+        }
+    }
+
+    /// <summary>
+    /// Update a goal; fields left out keep their stored value
+    /// </summary>
+    [HttpPut("{goalId:guid}")]
+    public async Task<ActionResult<MonthlyGoalDto>> UpdateGoal(Guid goalId, [FromBody] UpdateMonthlyGoalRequest request)
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+                return Unauthorized();
+
+            if (request.Goal != null && !InputValidator.IsValidText(request.Goal, 500))
+            {
+                return BadRequest("Invalid input: Goal must be less than 500 characters");
+            }
+
+            if (request.Progress is < 0 or > 100)
+            {
+                return BadRequest("Progress must be between 0 and 100");
+            }
+
+            DateTime? targetMonth = null;
+            if (request.TargetMonth != null)
+            {
+                if (!TryParseMonth(request.TargetMonth, out var month))
+                    return BadRequest("Target month must be YYYY-MM");
+                targetMonth = month;
+            }
+
+            if (request.Metric != null)
+            {
+                var metricError = ValidateMetric(request.Metric, request.Target, request.TagId);
+                if (metricError != null)
+                    return BadRequest(metricError);
+            }
+
+            var goal = await _monthlyGoalService.UpdateGoalAsync(userId, goalId, existing =>
+            {
+                existing.Goal = request.Goal ?? existing.Goal;
+                existing.Progress = request.Progress ?? existing.Progress;
+                existing.IsCompleted = request.IsCompleted ?? existing.IsCompleted;
+                existing.TargetMonth = targetMonth ?? existing.TargetMonth;
+                if (request.Metric != null)
+                {
+                    existing.Metric = request.Metric;
+                    existing.Target = request.Target;
+                    existing.TagId = request.Metric == GoalMetric.MistakeTagCount ? request.TagId : null;
+                }
+                else if (request.Target.HasValue && existing.Metric != null)
+                {
+                    existing.Target = request.Target;
+                }
+            });
+
+            if (goal == null)
+                return NotFound();
+
+            return Ok(ToDto(goal));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating monthly goal {GoalId}", goalId);
             return StatusCode(500, "Internal server error");
         }
     }
@@ -186,8 +271,9 @@ public class MonthlyGoalsController : ControllerBase
     /// <summary>
     /// Update goal progress
     /// </summary>
+    [HttpPut("{goalId:guid}/progress")]
     [HttpPatch("{goalId:guid}/progress")]
-    public async Task<IActionResult> UpdateGoalProgress(Guid goalId, [FromBody] UpdateProgressRequest request)
+    public async Task<ActionResult<MonthlyGoalDto>> UpdateGoalProgress(Guid goalId, [FromBody] UpdateProgressRequest request)
     {
         try
         {
@@ -201,12 +287,12 @@ public class MonthlyGoalsController : ControllerBase
                 return BadRequest("Progress must be between 0 and 100");
             }
 
-            var success = await _monthlyGoalService.UpdateGoalProgressAsync(userId, goalId, request.Progress);
+            var goal = await _monthlyGoalService.UpdateGoalProgressAsync(userId, goalId, request.Progress);
             
-            if (!success)
+            if (goal == null)
                 return NotFound();
 
-            return Ok();
+            return Ok(ToDto(goal));
         }
         catch (Exception ex)
         {
@@ -266,6 +352,74 @@ public class MonthlyGoalsController : ControllerBase
             return StatusCode(500, "Internal server error");
         }
     }
+
+    // The client keys goals by YYYY-MM; a full date is cut down to its month
+    private static bool TryParseMonth(string? value, out DateTime month)
+    {
+        month = default;
+        if (value == null || value.Length < 7)
+            return false;
+
+        if (!DateTime.TryParseExact(value[..7], "yyyy-MM", CultureInfo.InvariantCulture, DateTimeStyles.None, out var parsed))
+            return false;
+
+        month = new DateTime(parsed.Year, parsed.Month, 1, 0, 0, 0, DateTimeKind.Utc);
+        return true;
+    }
+
+    private static string? ValidateMetric(string? metric, decimal? target, string? tagId)
+    {
+        if (metric == null)
+            return null;
+
+        if (!GoalMetric.All.Contains(metric))
+            return $"Metric must be one of: {string.Join(", ", GoalMetric.All)}";
+
+        if (!target.HasValue || target < 0 || target > 100)
+            return "A measurable goal needs a target between 0 and 100";
+
+        if (metric == GoalMetric.MistakeTagCount && (string.IsNullOrEmpty(tagId) || tagId.Length > 60))
+            return "A mistake count goal needs the id of the mistake tag it counts";
+
+        return null;
+    }
+
+    private static MonthlyGoalDto ToDto(MonthlyGoal goal) => new()
+    {
+        Id = goal.Id,
+        UserId = goal.UserId,
+        Goal = goal.Goal,
+        Progress = goal.Progress,
+        IsCompleted = goal.IsCompleted,
+        TargetMonth = goal.TargetMonth.ToString("yyyy-MM", CultureInfo.InvariantCulture),
+        Metric = goal.Metric,
+        Target = goal.Target,
+        TagId = goal.TagId,
+        CreatedAt = goal.CreatedAt,
+        UpdatedAt = goal.UpdatedAt
+    };
+}
+
+public class MonthlyGoalDto
+{
+    public Guid Id { get; set; }
+    public string UserId { get; set; } = string.Empty;
+    public string Goal { get; set; } = string.Empty;
+    public int Progress { get; set; }
+    public bool IsCompleted { get; set; }
+    public string TargetMonth { get; set; } = string.Empty; // YYYY-MM
+
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public string? Metric { get; set; }
+
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public decimal? Target { get; set; }
+
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public string? TagId { get; set; }
+
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
 }
 
 public class CreateMonthlyGoalRequest
@@ -273,7 +427,21 @@ public class CreateMonthlyGoalRequest
     public required string Goal { get; set; }
     public int Progress { get; set; } = 0;
     public bool IsCompleted { get; set; } = false;
-    public DateTime TargetMonth { get; set; }
+    public string TargetMonth { get; set; } = string.Empty; // YYYY-MM
+    public string? Metric { get; set; }
+    public decimal? Target { get; set; }
+    public string? TagId { get; set; }
+}
+
+public class UpdateMonthlyGoalRequest
+{
+    public string? Goal { get; set; }
+    public int? Progress { get; set; }
+    public bool? IsCompleted { get; set; }
+    public string? TargetMonth { get; set; }
+    public string? Metric { get; set; }
+    public decimal? Target { get; set; }
+    public string? TagId { get; set; }
 }
 
 public class UpdateProgressRequest
@@ -1,6 +1,7 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using System.Security.Claims;
+using TradeMentor.Api.Middleware;
 using TradeMentor.Api.Models;
 using TradeMentor.Api.Data.Repositories;
 
@@ -64,8 +65,14 @@ public class TradeController : ControllerBase
                 EntryPrice = t.EntryPrice,
                 ExitPrice = t.ExitPrice,
                 Quantity = t.Quantity,
+                Fees = t.Fees,
+                StopLoss = t.StopLoss,
                 EntryTime = t.EntryTime,
                 ExitTime = t.ExitTime,
+                MistakeTags = t.MistakeTags ?? Array.Empty<string>(),
+                SetupTag = t.SetupTag,
+                EmotionCheckId = t.EmotionCheckId,
+                PostEmotionCheckId = t.PostEmotionCheckId,
                 EmotionCheck = t.EmotionCheck != null ? new EmotionCheckDto
                 {
                     Id = t.EmotionCheck.Id,
@@ -112,8 +119,14 @@ public class TradeController : ControllerBase
                 EntryPrice = trade.EntryPrice,
                 ExitPrice = trade.ExitPrice,
                 Quantity = trade.Quantity,
+                Fees = trade.Fees,
+                StopLoss = trade.StopLoss,
                 EntryTime = trade.EntryTime,
                 ExitTime = trade.ExitTime,
+                MistakeTags = trade.MistakeTags ?? Array.Empty<string>(),
+                SetupTag = trade.SetupTag,
+                EmotionCheckId = trade.EmotionCheckId,
+                PostEmotionCheckId = trade.PostEmotionCheckId,
                 EmotionCheck = trade.EmotionCheck != null ? new EmotionCheckDto
                 {
                     Id = trade.EmotionCheck.Id,
@@ -138,6 +151,7 @@ public class TradeController : ControllerBase
     /// Create a new trade
     /// </summary>
     [HttpPost]
+    [Idempotent]
     public async Task<ActionResult<ApiResponse<TradeDto>>> CreateTrade([FromBody] TradeRequest request)
     {
         try
@@ -150,14 +164,21 @@ public class TradeController : ControllerBase
 
             var userId = GetCurrentUserId();
 
-            // Validate emotion check exists if provided
-            if (request.EmotionCheckId.HasValue)
+            var tagError = ValidateTags(request.MistakeTags, request.SetupTag);
+            if (tagError != null)
             {
-                var emotionCheck = await _emotionRepository.GetByIdAsync(request.EmotionCheckId.Value);
-                if (emotionCheck == null || emotionCheck.UserId != userId)
-                {
-                    return BadRequest(ApiResponse<TradeDto>.ErrorResponse("Invalid emotion check ID"));
-                }
+                return BadRequest(ApiResponse<TradeDto>.ErrorResponse(tagError));
+            }
+
+            // Validate linked emotion checks exist if provided
+            if (!await IsOwnEmotionCheckAsync(request.EmotionCheckId, userId))
+            {
+                return BadRequest(ApiResponse<TradeDto>.ErrorResponse("Invalid emotion check ID"));
+            }
+
+            if (!await IsOwnEmotionCheckAsync(request.PostEmotionCheckId, userId))
+            {
+                return BadRequest(ApiResponse<TradeDto>.ErrorResponse("Invalid post-trade emotion check ID"));
             }
 
             var trade = new Trade
@@ -171,9 +192,14 @@ public class TradeController : ControllerBase
                 EntryPrice = request.EntryPrice,
                 ExitPrice = request.ExitPrice,
                 Quantity = request.Quantity,
+                Fees = request.Fees,
+                StopLoss = request.StopLoss,
                 EmotionCheckId = request.EmotionCheckId,
+                PostEmotionCheckId = request.PostEmotionCheckId,
                 EntryTime = request.EntryTime ?? DateTime.UtcNow,
                 ExitTime = request.ExitTime,
+                MistakeTags = NormalizeTags(request.MistakeTags),
+                SetupTag = string.IsNullOrEmpty(request.SetupTag) ? null : request.SetupTag,
                 CreatedAt = DateTime.UtcNow
             };
 
@@ -195,8 +221,14 @@ public class TradeController : ControllerBase
                 EntryPrice = trade.EntryPrice,
                 ExitPrice = trade.ExitPrice,
                 Quantity = trade.Quantity,
+                Fees = trade.Fees,
+                StopLoss = trade.StopLoss,
                 EntryTime = trade.EntryTime,
                 ExitTime = trade.ExitTime,
+                MistakeTags = trade.MistakeTags ?? Array.Empty<string>(),
+                SetupTag = trade.SetupTag,
+                EmotionCheckId = trade.EmotionCheckId,
+                PostEmotionCheckId = trade.PostEmotionCheckId,
                 EmotionCheck = trade.EmotionCheck != null ? new EmotionCheckDto
                 {
                     Id = trade.EmotionCheck.Id,
@@ -222,7 +254,7 @@ public class TradeController : ControllerBase
     /// Update an existing trade
     /// </summary>
     [HttpPut("{id}")]
-    public async Task<ActionResult<ApiResponse<TradeDto>>> UpdateTrade(Guid id, [FromBody] TradeRequest request)
+    public async Task<ActionResult<ApiResponse<TradeDto>>> UpdateTrade(Guid id, [FromBody] UpdateTradeRequest request)
     {
         try
         {
@@ -240,26 +272,40 @@ public class TradeController : ControllerBase
                 return NotFound(ApiResponse<TradeDto>.ErrorResponse("Trade not found"));
             }
 
-            // Validate emotion check exists if provided
-            if (request.EmotionCheckId.HasValue)
+            var tagError = ValidateTags(request.MistakeTags, request.SetupTag);
+            if (tagError != null)
             {
-                var emotionCheck = await _emotionRepository.GetByIdAsync(request.EmotionCheckId.Value);
-                if (emotionCheck == null || emotionCheck.UserId != userId)
-                {
-                    return BadRequest(ApiResponse<TradeDto>.ErrorResponse("Invalid emotion check ID"));
-                }
+                return BadRequest(ApiResponse<TradeDto>.ErrorResponse(tagError));
             }
 
-            trade.Symbol = request.Symbol.ToUpper();
-            trade.Type = request.Type;
-            trade.Outcome = request.Outcome;
-            trade.Pnl = request.Pnl;
-            trade.EntryPrice = request.EntryPrice;
-            trade.ExitPrice = request.ExitPrice;
-            trade.Quantity = request.Quantity;
-            trade.EmotionCheckId = request.EmotionCheckId;
+            // Validate linked emotion checks exist if provided
+            if (!await IsOwnEmotionCheckAsync(request.EmotionCheckId, userId))
+            {
+                return BadRequest(ApiResponse<TradeDto>.ErrorResponse("Invalid emotion check ID"));
+            }
+
+            if (!await IsOwnEmotionCheckAsync(request.PostEmotionCheckId, userId))
+            {
+                return BadRequest(ApiResponse<TradeDto>.ErrorResponse("Invalid post-trade emotion check ID"));
+            }
+
+            trade.Symbol = request.Symbol?.ToUpper() ?? trade.Symbol;
+            trade.Type = request.Type ?? trade.Type;
+            trade.Outcome = request.Outcome ?? trade.Outcome;
+            trade.Pnl = request.Pnl ?? trade.Pnl;
+            trade.EntryPrice = request.EntryPrice ?? trade.EntryPrice;
+            trade.ExitPrice = request.ExitPrice ?? trade.ExitPrice;
+            trade.Quantity = request.Quantity ?? trade.Quantity;
+            trade.Fees = request.Fees ?? trade.Fees;
+            trade.StopLoss = request.StopLoss ?? trade.StopLoss;
+            trade.EmotionCheckId = request.EmotionCheckId ?? trade.EmotionCheckId;
+            trade.PostEmotionCheckId = request.PostEmotionCheckId ?? trade.PostEmotionCheckId;
             trade.EntryTime = request.EntryTime ?? trade.EntryTime;
-            trade.ExitTime = request.ExitTime;
+            trade.ExitTime = request.ExitTime ?? trade.ExitTime;
+            if (request.MistakeTags != null)
+                trade.MistakeTags = NormalizeTags(request.MistakeTags);
+            if (request.SetupTagProvided)
+                trade.SetupTag = string.IsNullOrEmpty(request.SetupTag) ? null : request.SetupTag;
 
             await _tradeRepository.UpdateAsync(trade);
 
@@ -279,8 +325,14 @@ public class TradeController : ControllerBase
                 EntryPrice = trade.EntryPrice,
                 ExitPrice = trade.ExitPrice,
                 Quantity = trade.Quantity,
+                Fees = trade.Fees,
+                StopLoss = trade.StopLoss,
                 EntryTime = trade.EntryTime,
                 ExitTime = trade.ExitTime,
+                MistakeTags = trade.MistakeTags ?? Array.Empty<string>(),
+                SetupTag = trade.SetupTag,
+                EmotionCheckId = trade.EmotionCheckId,
+                PostEmotionCheckId = trade.PostEmotionCheckId,
                 EmotionCheck = trade.EmotionCheck != null ? new EmotionCheckDto
                 {
                     Id = trade.EmotionCheck.Id,
@@ -370,6 +422,43 @@ public class TradeController : ControllerBase
         }
     }
 
+    private async Task<bool> IsOwnEmotionCheckAsync(Guid? emotionCheckId, string userId)
+    {
+        if (!emotionCheckId.HasValue)
+            return true;
+
+        var emotionCheck = await _emotionRepository.GetByIdAsync(emotionCheckId.Value);
+        return emotionCheck != null && emotionCheck.UserId == userId;
+    }
+
+    private const int MaxMistakeTags = 20;
+    private const int MaxTagIdLength = 60;
+
+    private static string? ValidateTags(IEnumerable<string>? mistakeTags, string? setupTag)
+    {
+        if (mistakeTags != null)
+        {
+            var tags = mistakeTags.ToList();
+            if (tags.Count > MaxMistakeTags)
+                return $"A trade can carry at most {MaxMistakeTags} mistake tags";
+            if (tags.Any(tag => string.IsNullOrWhiteSpace(tag) || tag.Length > MaxTagIdLength))
+                return $"Mistake tags must be 1 to {MaxTagIdLength} characters";
+        }
+
+        if (setupTag != null && setupTag.Length > MaxTagIdLength)
+            return $"Setup tag must be at most {MaxTagIdLength} characters";
+
+        return null;
+    }
+
+    private static string[]? NormalizeTags(IEnumerable<string>? tags)
+    {
+        if (tags == null)
+            return null;
+        var distinct = tags.Select(tag => tag.Trim()).Distinct().ToArray();
+        return distinct.Length > 0 ? distinct : null;
+    }
+
     private string GetCurrentUserId()
     {
         return User.FindFirst(ClaimTypes.NameIdentifier)?.Value 
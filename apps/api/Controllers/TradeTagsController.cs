@@ -0,0 +1,125 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using System.Security.Claims;
+using TradeMentor.Api.Models;
+using TradeMentor.Api.Services;
+using TradeMentor.Api.Validation;
+
+namespace TradeMentor.Api.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class TradeTagsController : ControllerBase
+{
+    private const int MaxTags = 200;
+    private static readonly string[] ValidKinds = { "mistake", "setup" };
+
+    private readonly ITradeTagService _tradeTagService;
+    private readonly ILogger<TradeTagsController> _logger;
+
+    public TradeTagsController(
+        ITradeTagService tradeTagService,
+        ILogger<TradeTagsController> logger)
+    {
+        _tradeTagService = tradeTagService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get the user's tag list; empty until a device first saves one
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<TradeTagDto>>> GetTags()
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+                return Unauthorized();
+
+            var tags = await _tradeTagService.GetUserTagsAsync(userId);
+            return Ok(tags.Select(ToDto));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting trade tags");
+            return StatusCode(500, "Internal server error");
+        }
+    }
+
+    /// <summary>
+    /// Replace the user's tag list, keeping the order given
+    /// </summary>
+    [HttpPut]
+    public async Task<ActionResult<IEnumerable<TradeTagDto>>> SaveTags([FromBody] SaveTradeTagsRequest request)
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+                return Unauthorized();
+
+            if (request.Tags.Count > MaxTags)
+            {
+                return BadRequest($"A tag list can hold at most {MaxTags} tags");
+            }
+
+            var seenIds = new HashSet<string>();
+            foreach (var tag in request.Tags)
+            {
+                if (string.IsNullOrWhiteSpace(tag.Id) || tag.Id.Length > 60 || !seenIds.Add(tag.Id))
+                {
+                    return BadRequest("Each tag needs a unique id of at most 60 characters");
+                }
+
+                if (string.IsNullOrWhiteSpace(tag.Label) || !InputValidator.IsValidText(tag.Label, 40))
+                {
+                    return BadRequest("Invalid input: Tag labels must be 1 to 40 characters");
+                }
+
+                if (!ValidKinds.Contains(tag.Kind))
+                {
+                    return BadRequest("Tag kind must be mistake or setup");
+                }
+            }
+
+            var tags = request.Tags.Select(tag => new TradeTag
+            {
+                Id = tag.Id,
+                Label = tag.Label.Trim(),
+                Kind = tag.Kind,
+                IsArchived = tag.Archived
+            }).ToList();
+
+            var result = await _tradeTagService.ReplaceUserTagsAsync(userId, tags);
+            return Ok(result.Select(ToDto));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error saving trade tags");
+            return StatusCode(500, "Internal server error");
+        }
+    }
+
+    private static TradeTagDto ToDto(TradeTag tag) => new()
+    {
+        Id = tag.Id,
+        Label = tag.Label,
+        Kind = tag.Kind,
+        Archived = tag.IsArchived
+    };
+}
+
+public class TradeTagDto
+{
+    public string Id { get; set; } = string.Empty;
+    public string Label { get; set; } = string.Empty;
+    public string Kind { get; set; } = string.Empty;
+    public bool Archived { get; set; }
+}
+
+public class SaveTradeTagsRequest
+{
+    public List<TradeTagDto> Tags { get; set; } = new();
+}
@@ -0,0 +1,162 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using System.Security.Claims;
+using System.Text.RegularExpressions;
+using TradeMentor.Api.Models;
+using TradeMentor.Api.Services;
+using TradeMentor.Api.Validation;
+
+namespace TradeMentor.Api.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class WeeklyPromptsController : ControllerBase
+{
+    private static readonly Regex WeekKey = new(@"^\d{4}-W\d{2}$");
+
+    private readonly IWeeklyPromptService _weeklyPromptService;
+    private readonly ILogger<WeeklyPromptsController> _logger;
+
+    public WeeklyPromptsController(
+        IWeeklyPromptService weeklyPromptService,
+        ILogger<WeeklyPromptsController> logger)
+    {
+        _weeklyPromptService = weeklyPromptService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get the week's prompt, assigning the next question in the rotation on first request
+    /// </summary>
+    [HttpGet("current")]
+    public async Task<ActionResult<WeeklyPromptDto>> GetCurrentPrompt([FromQuery] string week)
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+                return Unauthorized();
+
+            if (string.IsNullOrEmpty(week) || !WeekKey.IsMatch(week))
+                return BadRequest("Week must be an ISO week key like 2026-W42");
+
+            var prompt = await _weeklyPromptService.GetOrAssignPromptAsync(userId, week);
+            return Ok(ToDto(prompt));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting weekly prompt for week {Week}", week);
+            return StatusCode(500, "Internal server error");
+        }
+    }
+
+    /// <summary>
+    /// Get user's prompts, newest week first
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<WeeklyPromptDto>>> GetUserPrompts([FromQuery] int limit = 52)
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+                return Unauthorized();
+
+            var prompts = await _weeklyPromptService.GetUserPromptsAsync(userId, Math.Clamp(limit, 1, 520));
+            return Ok(prompts.Select(ToDto));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting weekly prompts");
+            return StatusCode(500, "Internal server error");
+        }
+    }
+
+    /// <summary>
+    /// Save the answer for a week; saving again replaces it
+    /// </summary>
+    [HttpPut("{week}")]
+    public async Task<ActionResult<WeeklyPromptDto>> SaveAnswer(string week, [FromBody] SaveWeeklyPromptAnswerRequest request)
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+                return Unauthorized();
+
+            if (!WeekKey.IsMatch(week))
+                return BadRequest("Week must be an ISO week key like 2026-W42");
+
+            if (string.IsNullOrWhiteSpace(request.Question) || !InputValidator.IsValidText(request.Question, 500))
+                return BadRequest("Invalid input: Question must be 1 to 500 characters");
+
+            if (!InputValidator.IsValidText(request.Answer ?? string.Empty, 2000))
+                return BadRequest("Invalid input: Answer must be less than 2000 characters");
+
+            if (!InputValidator.IsValidText(request.Reason ?? string.Empty, 300) ||
+                (request.TemplateId?.Length ?? 0) > 50 ||
+                (request.Theme?.Length ?? 0) > 20)
+            {
+                return BadRequest("Invalid input: Question details are too long");
+            }
+
+            var answer = new WeeklyPrompt
+            {
+                Question = request.Question,
+                TemplateId = request.TemplateId,
+                Theme = request.Theme,
+                Reason = request.Reason,
+                Answer = request.Skipped ? null : request.Answer,
+                AnsweredAt = request.AnsweredAt?.ToUniversalTime()
+            };
+
+            var prompt = await _weeklyPromptService.SaveAnswerAsync(userId, week, answer);
+            return Ok(ToDto(prompt));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error saving weekly prompt answer for week {Week}", week);
+            return StatusCode(500, "Internal server error");
+        }
+    }
+
+    private static WeeklyPromptDto ToDto(WeeklyPrompt prompt) => new()
+    {
+        Id = prompt.Id,
+        Week = prompt.Week,
+        Question = prompt.Question,
+        TemplateId = prompt.TemplateId,
+        Theme = prompt.Theme,
+        Reason = prompt.Reason,
+        IsAnswered = prompt.IsAnswered,
+        Answer = prompt.Answer,
+        AnsweredAt = prompt.AnsweredAt,
+        CreatedAt = prompt.CreatedAt
+    };
+}
+
+public class WeeklyPromptDto
+{
+    public Guid Id { get; set; }
+    public string Week { get; set; } = string.Empty;
+    public string Question { get; set; } = string.Empty;
+    public string? TemplateId { get; set; }
+    public string? Theme { get; set; }
+    public string? Reason { get; set; }
+    public bool IsAnswered { get; set; }
+    public string? Answer { get; set; }
+    public DateTime? AnsweredAt { get; set; }
+    public DateTime CreatedAt { get; set; }
+}
+
+public class SaveWeeklyPromptAnswerRequest
+{
+    public string Question { get; set; } = string.Empty;
+    public string? TemplateId { get; set; }
+    public string? Theme { get; set; }
+    public string? Reason { get; set; }
+    public string? Answer { get; set; }
+    public bool Skipped { get; set; }
+    public DateTime? AnsweredAt { get; set; }
+}
@@ -1,6 +1,7 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using System.Security.Claims;
+using TradeMentor.Api.Middleware;
 using TradeMentor.Api.Models;
 using TradeMentor.Api.Services;
 using TradeMentor.Api.Validation;
@@ -127,6 +128,7 @@ public class WeeklyReflectionsController : ControllerBase
     /// Create or update weekly reflection
     /// </summary>
     [HttpPost]
+    [Idempotent]
     public async Task<ActionResult<WeeklyReflection>> CreateOrUpdateReflection([FromBody] CreateWeeklyReflectionRequest request)
     {
         try
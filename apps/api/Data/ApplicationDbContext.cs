@@ -14,6 +14,11 @@ public class ApplicationDbContext : IdentityDbContext<User>
     public DbSet<Trade> Trades { get; set; }
     public DbSet<WeeklyReflection> WeeklyReflections { get; set; }
     public DbSet<MonthlyGoal> MonthlyGoals { get; set; }
+    public DbSet<TradeTag> TradeTags { get; set; }
+    public DbSet<WeeklyPrompt> WeeklyPrompts { get; set; }
+    public DbSet<DailySession> DailySessions { get; set; }
+    public DbSet<BreathingSession> BreathingSessions { get; set; }
+    public DbSet<IdempotencyRecord> IdempotencyRecords { get; set; }
 
     protected override void OnModelCreating(ModelBuilder builder)
     {
@@ -41,6 +46,9 @@ public class ApplicationDbContext : IdentityDbContext<User>
             entity.Property(e => e.Context).IsRequired().HasMaxLength(20);
             entity.Property(e => e.Symbol).HasMaxLength(10);
             entity.Property(e => e.Notes).HasMaxLength(1000);
+            entity.Property(e => e.BreathingSessionId).HasMaxLength(64);
+            entity.Property(e => e.Emotions).HasColumnType("text[]");
+            entity.Property(e => e.SleepHours).HasColumnType("decimal(3,1)");
             
             entity.HasOne(e => e.User)
                   .WithMany(u => u.EmotionChecks)
@@ -68,6 +76,8 @@ public class ApplicationDbContext : IdentityDbContext<User>
             entity.Property(e => e.Pnl).HasColumnType("decimal(18,2)");
             entity.Property(e => e.EntryPrice).HasColumnType("decimal(18,2)");
             entity.Property(e => e.ExitPrice).HasColumnType("decimal(18,2)");
+            entity.Property(e => e.MistakeTags).HasColumnType("text[]");
+            entity.Property(e => e.SetupTag).HasMaxLength(60);
             
             entity.HasOne(e => e.User)
                   .WithMany(u => u.Trades)
@@ -79,6 +89,11 @@ public class ApplicationDbContext : IdentityDbContext<User>
                   .HasForeignKey(e => e.EmotionCheckId)
                   .OnDelete(DeleteBehavior.SetNull);
 
+            entity.HasOne(e => e.PostEmotionCheck)
+                  .WithMany()
+                  .HasForeignKey(e => e.PostEmotionCheckId)
+                  .OnDelete(DeleteBehavior.SetNull);
+
             entity.HasIndex(e => new { e.UserId, e.EntryTime });
             entity.HasIndex(e => e.Symbol);
             entity.HasIndex(e => e.Outcome);
@@ -132,6 +147,9 @@ public class ApplicationDbContext : IdentityDbContext<User>
             entity.Property(e => e.Progress).HasDefaultValue(0);
             entity.Property(e => e.IsCompleted).HasDefaultValue(false);
             entity.Property(e => e.TargetMonth).IsRequired();
+            entity.Property(e => e.Metric).HasMaxLength(30);
+            entity.Property(e => e.Target).HasColumnType("decimal(18,2)");
+            entity.Property(e => e.TagId).HasMaxLength(60);
             
             entity.HasOne(e => e.User)
                   .WithMany(u => u.MonthlyGoals)
@@ -144,5 +162,109 @@ public class ApplicationDbContext : IdentityDbContext<User>
             entity.ToTable(t => t.HasCheckConstraint("CK_MonthlyGoal_Progress", 
                 "\"Progress\" >= 0 AND \"Progress\" <= 100"));
         });
+
+        // Configure TradeTag entity
+        builder.Entity<TradeTag>(entity =>
+        {
+            entity.HasKey(e => new { e.UserId, e.Id });
+            entity.Property(e => e.Id).HasMaxLength(60);
+            entity.Property(e => e.Label).IsRequired().HasMaxLength(40);
+            entity.Property(e => e.Kind).IsRequired().HasMaxLength(10);
+            entity.Property(e => e.IsArchived).HasDefaultValue(false);
+            entity.Property(e => e.UpdatedAt).HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+            entity.HasOne(e => e.User)
+                  .WithMany(u => u.TradeTags)
+                  .HasForeignKey(e => e.UserId)
+                  .OnDelete(DeleteBehavior.Cascade);
+
+            entity.ToTable(t => t.HasCheckConstraint("CK_TradeTag_Kind", "\"Kind\" IN ('mistake', 'setup')"));
+        });
+
+        // Configure WeeklyPrompt entity
+        builder.Entity<WeeklyPrompt>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).ValueGeneratedOnAdd();
+            entity.Property(e => e.CreatedAt).HasDefaultValueSql("CURRENT_TIMESTAMP");
+            entity.Property(e => e.UpdatedAt).HasDefaultValueSql("CURRENT_TIMESTAMP");
+            entity.Property(e => e.Week).IsRequired().HasMaxLength(10);
+            entity.Property(e => e.Question).IsRequired().HasMaxLength(500);
+            entity.Property(e => e.TemplateId).HasMaxLength(50);
+            entity.Property(e => e.Theme).HasMaxLength(20);
+            entity.Property(e => e.Reason).HasMaxLength(300);
+            entity.Property(e => e.Answer).HasMaxLength(2000);
+            entity.Property(e => e.IsAnswered).HasDefaultValue(false);
+
+            entity.HasOne(e => e.User)
+                  .WithMany(u => u.WeeklyPrompts)
+                  .HasForeignKey(e => e.UserId)
+                  .OnDelete(DeleteBehavior.Cascade);
+
+            // One prompt per week, so devices asking at the same time get the same question
+            entity.HasIndex(e => new { e.UserId, e.Week }).IsUnique();
+        });
+
+        // Configure DailySession entity
+        builder.Entity<DailySession>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).ValueGeneratedOnAdd();
+            entity.Property(e => e.CreatedAt).HasDefaultValueSql("CURRENT_TIMESTAMP");
+            entity.Property(e => e.UpdatedAt).HasDefaultValueSql("CURRENT_TIMESTAMP");
+            entity.Property(e => e.Date).IsRequired();
+            entity.Property(e => e.Plan).HasColumnType("jsonb");
+            entity.Property(e => e.Review).HasColumnType("jsonb");
+
+            entity.HasOne(e => e.User)
+                  .WithMany(u => u.DailySessions)
+                  .HasForeignKey(e => e.UserId)
+                  .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => new { e.UserId, e.Date }).IsUnique();
+        });
+
+        // Configure BreathingSession entity
+        builder.Entity<BreathingSession>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).HasMaxLength(64).ValueGeneratedNever();
+            entity.Property(e => e.CreatedAt).HasDefaultValueSql("CURRENT_TIMESTAMP");
+            entity.Property(e => e.Protocol).IsRequired().HasMaxLength(20);
+
+            entity.HasOne(e => e.User)
+                  .WithMany(u => u.BreathingSessions)
+                  .HasForeignKey(e => e.UserId)
+                  .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.EmotionCheck)
+                  .WithMany()
+                  .HasForeignKey(e => e.EmotionCheckId)
+                  .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasIndex(e => new { e.UserId, e.CompletedAt });
+
+            entity.ToTable(t => t.HasCheckConstraint("CK_BreathingSession_Protocol",
+                "\"Protocol\" IN ('relax-478', 'box', 'physiological-sigh', 'custom')"));
+            entity.ToTable(t => t.HasCheckConstraint("CK_BreathingSession_DurationSeconds",
+                "\"DurationSeconds\" >= 0"));
+        });
+
+        // Configure IdempotencyRecord entity
+        builder.Entity<IdempotencyRecord>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).ValueGeneratedOnAdd();
+            entity.Property(e => e.CreatedAt).HasDefaultValueSql("CURRENT_TIMESTAMP");
+            entity.Property(e => e.Key).IsRequired().HasMaxLength(100);
+            entity.Property(e => e.Request).IsRequired().HasMaxLength(200);
+
+            entity.HasOne(e => e.User)
+                  .WithMany(u => u.IdempotencyRecords)
+                  .HasForeignKey(e => e.UserId)
+                  .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => new { e.UserId, e.Key }).IsUnique();
+        });
     }
 }
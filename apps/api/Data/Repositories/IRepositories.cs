@@ -14,6 +14,7 @@ public interface IRepository<T> where T : class
 
 public interface IUserRepository : IRepository<User>
 {
+    Task<User?> GetByIdAsync(string id);
     Task<User?> GetByEmailAsync(string email);
     Task<bool> EmailExistsAsync(string email);
     Task<IEnumerable<User>> GetActiveUsersAsync();
@@ -58,6 +58,12 @@ public class UserRepository : Repository<User>, IUserRepository
 {
     public UserRepository(ApplicationDbContext context) : base(context) { }
 
+    // Identity keys users by string, so the Guid lookup from Repository<T> can't find them
+    public async Task<User?> GetByIdAsync(string id)
+    {
+        return await _dbSet.FirstOrDefaultAsync(u => u.Id == id);
+    }
+
     public async Task<User?> GetByEmailAsync(string email)
     {
         return await _dbSet.FirstOrDefaultAsync(u => u.Email == email);
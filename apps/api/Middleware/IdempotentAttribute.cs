@@ -0,0 +1,118 @@
+using System.Security.Claims;
+using System.Text.Json;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Mvc.Filters;
+using Microsoft.Extensions.Options;
+using TradeMentor.Api.Services;
+
+namespace TradeMentor.Api.Middleware;
+
+/// <summary>
+/// Makes a create action safe to retry. A request carrying an Idempotency-Key
+/// header the user already sent gets the first response back instead of
+/// creating the record again. Requests without the header run as usual.
+/// </summary>
+[AttributeUsage(AttributeTargets.Method)]
+public class IdempotentAttribute : Attribute, IAsyncActionFilter
+{
+    public const string HeaderName = "Idempotency-Key";
+    private const int MaxKeyLength = 100;
+
+    public async Task OnActionExecutionAsync(ActionExecutingContext context, ActionExecutionDelegate next)
+    {
+        var httpContext = context.HttpContext;
+        var key = httpContext.Request.Headers[HeaderName].FirstOrDefault();
+        var userId = httpContext.User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+
+        if (string.IsNullOrEmpty(key) || string.IsNullOrEmpty(userId))
+        {
+            await next();
+            return;
+        }
+
+        if (key.Length > MaxKeyLength)
+        {
+            context.Result = new BadRequestObjectResult($"{HeaderName} must be at most {MaxKeyLength} characters");
+            return;
+        }
+
+        var idempotency = httpContext.RequestServices.GetRequiredService<IIdempotencyService>();
+        var request = $"{httpContext.Request.Method} {httpContext.Request.Path}";
+
+        var existing = await idempotency.FindAsync(userId, key);
+        if (existing == null && await idempotency.TryReserveAsync(userId, key, request))
+        {
+            await ExecuteAndRecordAsync(context, next, idempotency, userId, key);
+            return;
+        }
+
+        existing ??= await idempotency.FindAsync(userId, key);
+        if (existing != null && existing.Request != request)
+        {
+            context.Result = new UnprocessableEntityObjectResult(
+                $"{HeaderName} was already used for a different request");
+        }
+        else if (existing?.StatusCode == null)
+        {
+            // The first request is still running; 429 makes clients retry shortly
+            httpContext.Response.Headers.RetryAfter = "1";
+            context.Result = new ObjectResult($"A request with this {HeaderName} is still in progress")
+            {
+                StatusCode = StatusCodes.Status429TooManyRequests
+            };
+        }
+        else
+        {
+            httpContext.Response.Headers["Idempotent-Replayed"] = "true";
+            context.Result = new ContentResult
+            {
+                StatusCode = existing.StatusCode,
+                Content = existing.ResponseBody,
+                ContentType = "application/json"
+            };
+        }
+    }
+
+    private static async Task ExecuteAndRecordAsync(
+        ActionExecutingContext context,
+        ActionExecutionDelegate next,
+        IIdempotencyService idempotency,
+        string userId,
+        string key)
+    {
+        ActionExecutedContext executed;
+        try
+        {
+            executed = await next();
+        }
+        catch
+        {
+            await idempotency.ReleaseAsync(userId, key);
+            throw;
+        }
+
+        var statusCode = executed.Result switch
+        {
+            ObjectResult objectResult => objectResult.StatusCode ?? StatusCodes.Status200OK,
+            StatusCodeResult statusCodeResult => statusCodeResult.StatusCode,
+            _ => StatusCodes.Status200OK
+        };
+
+        // Only a write that happened is remembered; anything else may be retried as is
+        if ((executed.Exception != null && !executed.ExceptionHandled) || statusCode < 200 || statusCode >= 300)
+        {
+            await idempotency.ReleaseAsync(userId, key);
+            return;
+        }
+
+        string? body = null;
+        if (executed.Result is ObjectResult { Value: not null } result)
+        {
+            var jsonOptions = context.HttpContext.RequestServices
+                .GetRequiredService<IOptions<JsonOptions>>().Value.JsonSerializerOptions;
+            body = JsonSerializer.Serialize(result.Value, result.Value.GetType(), jsonOptions);
+        }
+
+        await idempotency.CompleteAsync(userId, key, statusCode, body);
+    }
+}
@@ -0,0 +1,30 @@
+using System.Security.Cryptography;
+using System.Text;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Mvc.Filters;
+
+namespace TradeMentor.Api.Middleware;
+
+/// <summary>
+/// Restricts an endpoint to the web app's server, which sends the shared
+/// INTERNAL_API_KEY in the X-Internal-Api-Key header.
+/// </summary>
+[AttributeUsage(AttributeTargets.Class | AttributeTargets.Method)]
+public class InternalApiKeyAttribute : Attribute, IAuthorizationFilter
+{
+    public const string HeaderName = "X-Internal-Api-Key";
+
+    public void OnAuthorization(AuthorizationFilterContext context)
+    {
+        var configuration = context.HttpContext.RequestServices.GetRequiredService<IConfiguration>();
+        var expected = Environment.GetEnvironmentVariable("INTERNAL_API_KEY") ?? configuration["InternalApi:Key"];
+        var provided = context.HttpContext.Request.Headers[HeaderName].FirstOrDefault();
+
+        if (string.IsNullOrEmpty(expected) || string.IsNullOrEmpty(provided) ||
+            !CryptographicOperations.FixedTimeEquals(Encoding.UTF8.GetBytes(expected), Encoding.UTF8.GetBytes(provided)))
+        {
+            // 403 rather than 401, which the endpoints use for failed credential checks
+            context.Result = new StatusCodeResult(StatusCodes.Status403Forbidden);
+        }
+    }
+}
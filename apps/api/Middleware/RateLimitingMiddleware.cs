@@ -20,8 +20,8 @@ public class RateLimitingMiddleware
         var endpoint = context.Request.Path.Value?.ToLower();
         var clientId = GetClientIdentifier(context);
 
-        // Apply rate limiting to auth endpoints
-        if (endpoint?.Contains("/api/auth") == true)
+        // Apply rate limiting to auth endpoints; reading the signed-in user is an ordinary request
+        if (endpoint?.Contains("/api/auth") == true && !endpoint.EndsWith("/api/auth/me"))
         {
             if (!IsRequestAllowed(clientId, endpoint))
             {
@@ -0,0 +1,42 @@
+﻿using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+using TradeMentor.Api.Data;
+
+#nullable disable
+
+namespace TradeMentor.Api.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(ApplicationDbContext))]
+    [Migration("20250701090000_AddTradeFeesAndStopLoss")]
+    public partial class AddTradeFeesAndStopLoss : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<decimal>(
+                name: "Fees",
+                table: "Trades",
+                type: "decimal(18,2)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "StopLoss",
+                table: "Trades",
+                type: "decimal(18,2)",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "Fees",
+                table: "Trades");
+
+            migrationBuilder.DropColumn(
+                name: "StopLoss",
+                table: "Trades");
+        }
+    }
+}
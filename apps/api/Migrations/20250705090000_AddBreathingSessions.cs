@@ -0,0 +1,80 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+using TradeMentor.Api.Data;
+
+#nullable disable
+
+namespace TradeMentor.Api.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(ApplicationDbContext))]
+    [Migration("20250705090000_AddBreathingSessions")]
+    public partial class AddBreathingSessions : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "BreathingSessionId",
+                table: "EmotionChecks",
+                type: "character varying(64)",
+                maxLength: 64,
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "BreathingSessions",
+                columns: table => new
+                {
+                    Id = table.Column<string>(type: "character varying(64)", maxLength: 64, nullable: false),
+                    UserId = table.Column<string>(type: "text", nullable: false),
+                    Protocol = table.Column<string>(type: "character varying(20)", maxLength: 20, nullable: false),
+                    DurationSeconds = table.Column<int>(type: "integer", nullable: false),
+                    Cycles = table.Column<int>(type: "integer", nullable: false),
+                    StartedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    CompletedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    EmotionCheckId = table.Column<Guid>(type: "uuid", nullable: true),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false, defaultValueSql: "CURRENT_TIMESTAMP")
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_BreathingSessions", x => x.Id);
+                    table.CheckConstraint("CK_BreathingSession_DurationSeconds", "\"DurationSeconds\" >= 0");
+                    table.CheckConstraint("CK_BreathingSession_Protocol", "\"Protocol\" IN ('relax-478', 'box', 'physiological-sigh', 'custom')");
+                    table.ForeignKey(
+                        name: "FK_BreathingSessions_AspNetUsers_UserId",
+                        column: x => x.UserId,
+                        principalTable: "AspNetUsers",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_BreathingSessions_EmotionChecks_EmotionCheckId",
+                        column: x => x.EmotionCheckId,
+                        principalTable: "EmotionChecks",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.SetNull);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_BreathingSessions_EmotionCheckId",
+                table: "BreathingSessions",
+                column: "EmotionCheckId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_BreathingSessions_UserId_CompletedAt",
+                table: "BreathingSessions",
+                columns: new[] { "UserId", "CompletedAt" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "BreathingSessions");
+
+            migrationBuilder.DropColumn(
+                name: "BreathingSessionId",
+                table: "EmotionChecks");
+        }
+    }
+}
@@ -0,0 +1,54 @@
+﻿using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+using TradeMentor.Api.Data;
+
+#nullable disable
+
+namespace TradeMentor.Api.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(ApplicationDbContext))]
+    [Migration("20250707090000_AddMonthlyGoalMetrics")]
+    public partial class AddMonthlyGoalMetrics : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "Metric",
+                table: "MonthlyGoals",
+                type: "character varying(30)",
+                maxLength: 30,
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "Target",
+                table: "MonthlyGoals",
+                type: "decimal(18,2)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "TagId",
+                table: "MonthlyGoals",
+                type: "character varying(60)",
+                maxLength: 60,
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "Metric",
+                table: "MonthlyGoals");
+
+            migrationBuilder.DropColumn(
+                name: "Target",
+                table: "MonthlyGoals");
+
+            migrationBuilder.DropColumn(
+                name: "TagId",
+                table: "MonthlyGoals");
+        }
+    }
+}
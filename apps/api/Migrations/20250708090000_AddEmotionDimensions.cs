@@ -0,0 +1,72 @@
+﻿using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+using TradeMentor.Api.Data;
+
+#nullable disable
+
+namespace TradeMentor.Api.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(ApplicationDbContext))]
+    [Migration("20250708090000_AddEmotionDimensions")]
+    public partial class AddEmotionDimensions : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string[]>(
+                name: "Emotions",
+                table: "EmotionChecks",
+                type: "text[]",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "Confidence",
+                table: "EmotionChecks",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "Focus",
+                table: "EmotionChecks",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "SleepHours",
+                table: "EmotionChecks",
+                type: "decimal(3,1)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "PhysicalTension",
+                table: "EmotionChecks",
+                type: "integer",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "Emotions",
+                table: "EmotionChecks");
+
+            migrationBuilder.DropColumn(
+                name: "Confidence",
+                table: "EmotionChecks");
+
+            migrationBuilder.DropColumn(
+                name: "Focus",
+                table: "EmotionChecks");
+
+            migrationBuilder.DropColumn(
+                name: "SleepHours",
+                table: "EmotionChecks");
+
+            migrationBuilder.DropColumn(
+                name: "PhysicalTension",
+                table: "EmotionChecks");
+        }
+    }
+}
@@ -0,0 +1,54 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+using TradeMentor.Api.Data;
+
+#nullable disable
+
+namespace TradeMentor.Api.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(ApplicationDbContext))]
+    [Migration("20250709090000_AddTradePostEmotionCheck")]
+    public partial class AddTradePostEmotionCheck : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<Guid>(
+                name: "PostEmotionCheckId",
+                table: "Trades",
+                type: "uuid",
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Trades_PostEmotionCheckId",
+                table: "Trades",
+                column: "PostEmotionCheckId");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_Trades_EmotionChecks_PostEmotionCheckId",
+                table: "Trades",
+                column: "PostEmotionCheckId",
+                principalTable: "EmotionChecks",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_Trades_EmotionChecks_PostEmotionCheckId",
+                table: "Trades");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Trades_PostEmotionCheckId",
+                table: "Trades");
+
+            migrationBuilder.DropColumn(
+                name: "PostEmotionCheckId",
+                table: "Trades");
+        }
+    }
+}
@@ -154,12 +154,105 @@ namespace TradeMentor.Api.Migrations
                     b.ToTable("AspNetUserTokens", (string)null);
                 });
 
+            modelBuilder.Entity("TradeMentor.Api.Models.BreathingSession", b =>
+                {
+                    b.Property<string>("Id")
+                        .HasMaxLength(64)
+                        .HasColumnType("character varying(64)");
+
+                    b.Property<DateTime>("CompletedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("timestamp with time zone")
+                        .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+                    b.Property<int>("Cycles")
+                        .HasColumnType("integer");
+
+                    b.Property<int>("DurationSeconds")
+                        .HasColumnType("integer");
+
+                    b.Property<Guid?>("EmotionCheckId")
+                        .HasColumnType("uuid");
+
+                    b.Property<string>("Protocol")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
+                    b.Property<DateTime>("StartedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<string>("UserId")
+                        .IsRequired()
+                        .HasColumnType("text");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("EmotionCheckId");
+
+                    b.HasIndex("UserId", "CompletedAt");
+
+                    b.ToTable("BreathingSessions", t =>
+                        {
+                            t.HasCheckConstraint("CK_BreathingSession_DurationSeconds", "\"DurationSeconds\" >= 0");
+
+                            t.HasCheckConstraint("CK_BreathingSession_Protocol", "\"Protocol\" IN ('relax-478', 'box', 'physiological-sigh', 'custom')");
+                        });
+                });
+
+            modelBuilder.Entity("TradeMentor.Api.Models.DailySession", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("timestamp with time zone")
+                        .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+                    b.Property<DateOnly>("Date")
+                        .HasColumnType("date");
+
+                    b.Property<string>("Plan")
+                        .HasColumnType("jsonb");
+
+                    b.Property<string>("Review")
+                        .HasColumnType("jsonb");
+
+                    b.Property<DateTime>("UpdatedAt")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("timestamp with time zone")
+                        .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+                    b.Property<string>("UserId")
+                        .IsRequired()
+                        .HasColumnType("text");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("UserId", "Date")
+                        .IsUnique();
+
+                    b.ToTable("DailySessions");
+                });
+
             modelBuilder.Entity("TradeMentor.Api.Models.EmotionCheck", b =>
                 {
                     b.Property<Guid>("Id")
                         .ValueGeneratedOnAdd()
                         .HasColumnType("uuid");
 
+                    b.Property<string>("BreathingSessionId")
+                        .HasMaxLength(64)
+                        .HasColumnType("character varying(64)");
+
+                    b.Property<int?>("Confidence")
+                        .HasColumnType("integer");
+
                     b.Property<string>("Context")
                         .IsRequired()
                         .HasMaxLength(20)
@@ -170,6 +263,12 @@ namespace TradeMentor.Api.Migrations
                         .HasColumnType("timestamp with time zone")
                         .HasDefaultValueSql("CURRENT_TIMESTAMP");
 
+                    b.PrimitiveCollection<string[]>("Emotions")
+                        .HasColumnType("text[]");
+
+                    b.Property<int?>("Focus")
+                        .HasColumnType("integer");
+
                     b.Property<int>("Level")
                         .HasColumnType("integer");
 
@@ -177,6 +276,12 @@ namespace TradeMentor.Api.Migrations
                         .HasMaxLength(1000)
                         .HasColumnType("character varying(1000)");
 
+                    b.Property<int?>("PhysicalTension")
+                        .HasColumnType("integer");
+
+                    b.Property<decimal?>("SleepHours")
+                        .HasColumnType("decimal(3,1)");
+
                     b.Property<string>("Symbol")
                         .HasMaxLength(10)
                         .HasColumnType("character varying(10)");
@@ -204,6 +309,45 @@ namespace TradeMentor.Api.Migrations
                         });
                 });
 
+            modelBuilder.Entity("TradeMentor.Api.Models.IdempotencyRecord", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("timestamp with time zone")
+                        .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+                    b.Property<string>("Key")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)");
+
+                    b.Property<string>("Request")
+                        .IsRequired()
+                        .HasMaxLength(200)
+                        .HasColumnType("character varying(200)");
+
+                    b.Property<string>("ResponseBody")
+                        .HasColumnType("text");
+
+                    b.Property<int?>("StatusCode")
+                        .HasColumnType("integer");
+
+                    b.Property<string>("UserId")
+                        .IsRequired()
+                        .HasColumnType("text");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("UserId", "Key")
+                        .IsUnique();
+
+                    b.ToTable("IdempotencyRecords");
+                });
+
             modelBuilder.Entity("TradeMentor.Api.Models.MonthlyGoal", b =>
                 {
                     b.Property<Guid>("Id")
@@ -225,11 +369,22 @@ namespace TradeMentor.Api.Migrations
                         .HasColumnType("boolean")
                         .HasDefaultValue(false);
 
+                    b.Property<string>("Metric")
+                        .HasMaxLength(30)
+                        .HasColumnType("character varying(30)");
+
                     b.Property<int>("Progress")
                         .ValueGeneratedOnAdd()
                         .HasColumnType("integer")
                         .HasDefaultValue(0);
 
+                    b.Property<string>("TagId")
+                        .HasMaxLength(60)
+                        .HasColumnType("character varying(60)");
+
+                    b.Property<decimal?>("Target")
+                        .HasColumnType("decimal(18,2)");
+
                     b.Property<DateTime>("TargetMonth")
                         .HasColumnType("timestamp with time zone");
 
@@ -282,6 +437,12 @@ namespace TradeMentor.Api.Migrations
                     b.Property<DateTime?>("ExitTime")
                         .HasColumnType("timestamp with time zone");
 
+                    b.Property<decimal?>("Fees")
+                        .HasColumnType("decimal(18,2)");
+
+                    b.PrimitiveCollection<string[]>("MistakeTags")
+                        .HasColumnType("text[]");
+
                     b.Property<string>("Outcome")
                         .IsRequired()
                         .HasMaxLength(20)
@@ -290,9 +451,19 @@ namespace TradeMentor.Api.Migrations
                     b.Property<decimal?>("Pnl")
                         .HasColumnType("decimal(18,2)");
 
+                    b.Property<Guid?>("PostEmotionCheckId")
+                        .HasColumnType("uuid");
+
                     b.Property<int?>("Quantity")
                         .HasColumnType("integer");
 
+                    b.Property<string>("SetupTag")
+                        .HasMaxLength(60)
+                        .HasColumnType("character varying(60)");
+
+                    b.Property<decimal?>("StopLoss")
+                        .HasColumnType("decimal(18,2)");
+
                     b.Property<string>("Symbol")
                         .IsRequired()
                         .HasMaxLength(10)
@@ -313,6 +484,8 @@ namespace TradeMentor.Api.Migrations
 
                     b.HasIndex("Outcome");
 
+                    b.HasIndex("PostEmotionCheckId");
+
                     b.HasIndex("Symbol");
 
                     b.HasIndex("UserId", "EntryTime");
@@ -325,6 +498,46 @@ namespace TradeMentor.Api.Migrations
                         });
                 });
 
+            modelBuilder.Entity("TradeMentor.Api.Models.TradeTag", b =>
+                {
+                    b.Property<string>("UserId")
+                        .HasColumnType("text");
+
+                    b.Property<string>("Id")
+                        .HasMaxLength(60)
+                        .HasColumnType("character varying(60)");
+
+                    b.Property<bool>("IsArchived")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("boolean")
+                        .HasDefaultValue(false);
+
+                    b.Property<string>("Kind")
+                        .IsRequired()
+                        .HasMaxLength(10)
+                        .HasColumnType("character varying(10)");
+
+                    b.Property<string>("Label")
+                        .IsRequired()
+                        .HasMaxLength(40)
+                        .HasColumnType("character varying(40)");
+
+                    b.Property<int>("SortOrder")
+                        .HasColumnType("integer");
+
+                    b.Property<DateTime>("UpdatedAt")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("timestamp with time zone")
+                        .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+                    b.HasKey("UserId", "Id");
+
+                    b.ToTable("TradeTags", t =>
+                        {
+                            t.HasCheckConstraint("CK_TradeTag_Kind", "\"Kind\" IN ('mistake', 'setup')");
+                        });
+                });
+
             modelBuilder.Entity("TradeMentor.Api.Models.User", b =>
                 {
                     b.Property<string>("Id")
@@ -436,6 +649,68 @@ namespace TradeMentor.Api.Migrations
                     b.ToTable("AspNetUsers", (string)null);
                 });
 
+            modelBuilder.Entity("TradeMentor.Api.Models.WeeklyPrompt", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid");
+
+                    b.Property<string>("Answer")
+                        .HasMaxLength(2000)
+                        .HasColumnType("character varying(2000)");
+
+                    b.Property<DateTime?>("AnsweredAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("timestamp with time zone")
+                        .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+                    b.Property<bool>("IsAnswered")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("boolean")
+                        .HasDefaultValue(false);
+
+                    b.Property<string>("Question")
+                        .IsRequired()
+                        .HasMaxLength(500)
+                        .HasColumnType("character varying(500)");
+
+                    b.Property<string>("Reason")
+                        .HasMaxLength(300)
+                        .HasColumnType("character varying(300)");
+
+                    b.Property<string>("TemplateId")
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)");
+
+                    b.Property<string>("Theme")
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
+                    b.Property<DateTime>("UpdatedAt")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("timestamp with time zone")
+                        .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+                    b.Property<string>("UserId")
+                        .IsRequired()
+                        .HasColumnType("text");
+
+                    b.Property<string>("Week")
+                        .IsRequired()
+                        .HasMaxLength(10)
+                        .HasColumnType("character varying(10)");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("UserId", "Week")
+                        .IsUnique();
+
+                    b.ToTable("WeeklyPrompts");
+                });
+
             modelBuilder.Entity("TradeMentor.Api.Models.WeeklyReflection", b =>
                 {
                     b.Property<Guid>("Id")
@@ -567,6 +842,35 @@ namespace TradeMentor.Api.Migrations
                         .IsRequired();
                 });
 
+            modelBuilder.Entity("TradeMentor.Api.Models.BreathingSession", b =>
+                {
+                    b.HasOne("TradeMentor.Api.Models.EmotionCheck", "EmotionCheck")
+                        .WithMany()
+                        .HasForeignKey("EmotionCheckId")
+                        .OnDelete(DeleteBehavior.SetNull);
+
+                    b.HasOne("TradeMentor.Api.Models.User", "User")
+                        .WithMany("BreathingSessions")
+                        .HasForeignKey("UserId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("EmotionCheck");
+
+                    b.Navigation("User");
+                });
+
+            modelBuilder.Entity("TradeMentor.Api.Models.DailySession", b =>
+                {
+                    b.HasOne("TradeMentor.Api.Models.User", "User")
+                        .WithMany("DailySessions")
+                        .HasForeignKey("UserId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("User");
+                });
+
             modelBuilder.Entity("TradeMentor.Api.Models.EmotionCheck", b =>
                 {
                     b.HasOne("TradeMentor.Api.Models.User", "User")
@@ -578,6 +882,17 @@ namespace TradeMentor.Api.Migrations
                     b.Navigation("User");
                 });
 
+            modelBuilder.Entity("TradeMentor.Api.Models.IdempotencyRecord", b =>
+                {
+                    b.HasOne("TradeMentor.Api.Models.User", "User")
+                        .WithMany("IdempotencyRecords")
+                        .HasForeignKey("UserId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("User");
+                });
+
             modelBuilder.Entity("TradeMentor.Api.Models.MonthlyGoal", b =>
                 {
                     b.HasOne("TradeMentor.Api.Models.User", "User")
@@ -596,6 +911,11 @@ namespace TradeMentor.Api.Migrations
                         .HasForeignKey("EmotionCheckId")
                         .OnDelete(DeleteBehavior.SetNull);
 
+                    b.HasOne("TradeMentor.Api.Models.EmotionCheck", "PostEmotionCheck")
+                        .WithMany()
+                        .HasForeignKey("PostEmotionCheckId")
+                        .OnDelete(DeleteBehavior.SetNull);
+
                     b.HasOne("TradeMentor.Api.Models.User", "User")
                         .WithMany("Trades")
                         .HasForeignKey("UserId")
@@ -604,6 +924,30 @@ namespace TradeMentor.Api.Migrations
 
                     b.Navigation("EmotionCheck");
 
+                    b.Navigation("PostEmotionCheck");
+
+                    b.Navigation("User");
+                });
+
+            modelBuilder.Entity("TradeMentor.Api.Models.TradeTag", b =>
+                {
+                    b.HasOne("TradeMentor.Api.Models.User", "User")
+                        .WithMany("TradeTags")
+                        .HasForeignKey("UserId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("User");
+                });
+
+            modelBuilder.Entity("TradeMentor.Api.Models.WeeklyPrompt", b =>
+                {
+                    b.HasOne("TradeMentor.Api.Models.User", "User")
+                        .WithMany("WeeklyPrompts")
+                        .HasForeignKey("UserId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
                     b.Navigation("User");
                 });
 
@@ -620,12 +964,22 @@ namespace TradeMentor.Api.Migrations
 
             modelBuilder.Entity("TradeMentor.Api.Models.User", b =>
                 {
+                    b.Navigation("BreathingSessions");
+
+                    b.Navigation("DailySessions");
+
                     b.Navigation("EmotionChecks");
 
+                    b.Navigation("IdempotencyRecords");
+
                     b.Navigation("MonthlyGoals");
 
+                    b.Navigation("TradeTags");
+
                     b.Navigation("Trades");
 
+                    b.Navigation("WeeklyPrompts");
+
                     b.Navigation("WeeklyReflections");
                 });
 #pragma warning restore 612, 618
@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations;
+using System.Text.Json.Serialization;
 
 namespace TradeMentor.Api.Models;
 
@@ -83,31 +84,52 @@ public class RegisterRequest
     public string LastName { get; set; } = string.Empty;
 }
 
-public class LoginResponse
-{
-    public string Token { get; set; } = string.Empty;
-    public string RefreshToken { get; set; } = string.Empty;
-    public DateTime ExpiresAt { get; set; }
-    public UserDto User { get; set; } = null!;
-}
-
 public class UserDto
 {
     public string Id { get; set; } = string.Empty;
     public string Email { get; set; } = string.Empty;
     public string? FirstName { get; set; }
     public string? LastName { get; set; }
+    public string Timezone { get; set; } = "UTC";
     public int StreakCount { get; set; }
+    public bool IsActive { get; set; }
     public DateTime CreatedAt { get; set; }
     public DateTime? LastLoginAt { get; set; }
 }
 
+public class UpdateProfileRequest
+{
+    [MaxLength(100)]
+    public string? FirstName { get; set; }
+
+    [MaxLength(100)]
+    public string? LastName { get; set; }
+
+    [MaxLength(50)]
+    public string? Timezone { get; set; }
+}
+
+public class SetPasswordRequest
+{
+    public string Password { get; set; } = string.Empty;
+}
+
 public class EmotionCheckRequest
 {
     public int Level { get; set; }
     public string Context { get; set; } = string.Empty;
     public string? Notes { get; set; }
     public string? Symbol { get; set; }
+    public string? BreathingSessionId { get; set; }
+    public List<string>? Emotions { get; set; }
+    [Range(1, 10, ErrorMessage = "Confidence must be between 1 and 10")]
+    public int? Confidence { get; set; }
+    [Range(1, 10, ErrorMessage = "Focus must be between 1 and 10")]
+    public int? Focus { get; set; }
+    [Range(0, 24, ErrorMessage = "Sleep hours must be between 0 and 24")]
+    public decimal? SleepHours { get; set; }
+    [Range(1, 10, ErrorMessage = "Physical tension must be between 1 and 10")]
+    public int? PhysicalTension { get; set; }
 }
 
 public class EmotionCheckDto
@@ -129,6 +151,23 @@ public class EmotionCheckDto
     public string? Notes { get; set; }
 
     public DateTime? Timestamp { get; set; }
+
+    [StringLength(64, ErrorMessage = "Breathing session id must not exceed 64 characters")]
+    public string? BreathingSessionId { get; set; }
+
+    public string[]? Emotions { get; set; }
+
+    [Range(1, 10, ErrorMessage = "Confidence must be between 1 and 10")]
+    public int? Confidence { get; set; }
+
+    [Range(1, 10, ErrorMessage = "Focus must be between 1 and 10")]
+    public int? Focus { get; set; }
+
+    [Range(0, 24, ErrorMessage = "Sleep hours must be between 0 and 24")]
+    public decimal? SleepHours { get; set; }
+
+    [Range(1, 10, ErrorMessage = "Physical tension must be between 1 and 10")]
+    public int? PhysicalTension { get; set; }
 }
 
 public class EmotionResponseDto
@@ -138,6 +177,12 @@ public class EmotionResponseDto
     public string Context { get; set; } = string.Empty;
     public string? Symbol { get; set; }
     public string? Notes { get; set; }
+    public string? BreathingSessionId { get; set; }
+    public string[]? Emotions { get; set; }
+    public int? Confidence { get; set; }
+    public int? Focus { get; set; }
+    public decimal? SleepHours { get; set; }
+    public int? PhysicalTension { get; set; }
     public DateTime Timestamp { get; set; }
     public DateTime CreatedAt { get; set; }
     public string UserId { get; set; } = string.Empty;
@@ -172,10 +217,56 @@ public class TradeRequest
     public decimal? Pnl { get; set; }
     public decimal? EntryPrice { get; set; }
     public decimal? ExitPrice { get; set; }
+    [Range(1, int.MaxValue, ErrorMessage = "Quantity must be a positive whole number")]
     public int? Quantity { get; set; }
+    [Range(0, double.MaxValue, ErrorMessage = "Fees cannot be negative")]
+    public decimal? Fees { get; set; }
+    [Range(0.01, double.MaxValue, ErrorMessage = "Stop loss must be a positive price")]
+    public decimal? StopLoss { get; set; }
     public Guid? EmotionCheckId { get; set; }
+    public Guid? PostEmotionCheckId { get; set; }
     public DateTime? EntryTime { get; set; }
     public DateTime? ExitTime { get; set; }
+    public List<string>? MistakeTags { get; set; }
+    public string? SetupTag { get; set; }
+}
+
+// Fields left out of an update keep their stored value
+public class UpdateTradeRequest
+{
+    private string? _setupTag;
+
+    public string? Symbol { get; set; }
+    public string? Type { get; set; }
+    public string? Outcome { get; set; }
+    public decimal? Pnl { get; set; }
+    public decimal? EntryPrice { get; set; }
+    public decimal? ExitPrice { get; set; }
+    [Range(1, int.MaxValue, ErrorMessage = "Quantity must be a positive whole number")]
+    public int? Quantity { get; set; }
+    [Range(0, double.MaxValue, ErrorMessage = "Fees cannot be negative")]
+    public decimal? Fees { get; set; }
+    [Range(0.01, double.MaxValue, ErrorMessage = "Stop loss must be a positive price")]
+    public decimal? StopLoss { get; set; }
+    public Guid? EmotionCheckId { get; set; }
+    public Guid? PostEmotionCheckId { get; set; }
+    public DateTime? EntryTime { get; set; }
+    public DateTime? ExitTime { get; set; }
+    public List<string>? MistakeTags { get; set; }
+
+    // An explicit null clears the setup tag, so remember whether it was sent
+    public string? SetupTag
+    {
+        get => _setupTag;
+        set
+        {
+            _setupTag = value;
+            SetupTagProvided = true;
+        }
+    }
+
+    [JsonIgnore]
+    public bool SetupTagProvided { get; private set; }
 }
 
 public class TradeDto
@@ -188,8 +279,14 @@ public class TradeDto
     public decimal? EntryPrice { get; set; }
     public decimal? ExitPrice { get; set; }
     public int? Quantity { get; set; }
+    public decimal? Fees { get; set; }
+    public decimal? StopLoss { get; set; }
     public DateTime EntryTime { get; set; }
     public DateTime? ExitTime { get; set; }
+    public string[] MistakeTags { get; set; } = Array.Empty<string>();
+    public string? SetupTag { get; set; }
+    public Guid? EmotionCheckId { get; set; }
+    public Guid? PostEmotionCheckId { get; set; }
     public EmotionCheckDto? EmotionCheck { get; set; }
 }
 
@@ -0,0 +1,47 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace TradeMentor.Api.Models;
+
+// A completed cool-down exercise. The id is generated on the device so a
+// session recorded offline keeps the same id when it is replayed.
+public class BreathingSession
+{
+    [MaxLength(64)]
+    public string Id { get; set; } = string.Empty;
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(20)]
+    public string Protocol { get; set; } = string.Empty;
+
+    public int DurationSeconds { get; set; }
+    public int Cycles { get; set; }
+
+    public DateTime StartedAt { get; set; }
+    public DateTime CompletedAt { get; set; }
+
+    // The emotion check logged right after the exercise, if any
+    public Guid? EmotionCheckId { get; set; }
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    [ForeignKey("UserId")]
+    public virtual User User { get; set; } = null!;
+
+    [ForeignKey("EmotionCheckId")]
+    public virtual EmotionCheck? EmotionCheck { get; set; }
+}
+
+public static class BreathingProtocol
+{
+    public const string Relax478 = "relax-478";
+    public const string Box = "box";
+    public const string PhysiologicalSigh = "physiological-sigh";
+    public const string Custom = "custom";
+
+    public static readonly string[] All = { Relax478, Box, PhysiologicalSigh, Custom };
+}
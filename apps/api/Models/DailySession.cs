@@ -0,0 +1,27 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace TradeMentor.Api.Models;
+
+// One journal entry per trading day: the pre-market plan and the post-market
+// review, each stored as a JSON document and saved independently.
+public class DailySession
+{
+    public Guid Id { get; set; }
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+
+    // The trading day in the user's timezone
+    public DateOnly Date { get; set; }
+
+    public string? Plan { get; set; }
+    public string? Review { get; set; }
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    [ForeignKey("UserId")]
+    public virtual User User { get; set; } = null!;
+}
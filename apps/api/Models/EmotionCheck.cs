@@ -25,6 +25,25 @@ public class EmotionCheck
     
     [MaxLength(10)]
     public string? Symbol { get; set; }
+
+    // Cool-down completed just before this check
+    [MaxLength(64)]
+    public string? BreathingSessionId { get; set; }
+
+    // Optional structured detail recorded alongside the overall level
+    public string[]? Emotions { get; set; }
+
+    [Range(1, 10)]
+    public int? Confidence { get; set; }
+
+    [Range(1, 10)]
+    public int? Focus { get; set; }
+
+    [Column(TypeName = "decimal(3,1)")]
+    public decimal? SleepHours { get; set; }
+
+    [Range(1, 10)]
+    public int? PhysicalTension { get; set; }
     
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
 
@@ -39,3 +58,14 @@ public static class EmotionContext
     public const string PostTrade = "post-trade";
     public const string MarketEvent = "market-event";
 }
+
+public static class NamedEmotion
+{
+    public const string Fear = "fear";
+    public const string Greed = "greed";
+    public const string Fomo = "fomo";
+    public const string Revenge = "revenge";
+    public const string Boredom = "boredom";
+
+    public static readonly string[] All = { Fear, Greed, Fomo, Revenge, Boredom };
+}
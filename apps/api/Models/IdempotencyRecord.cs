@@ -0,0 +1,34 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace TradeMentor.Api.Models;
+
+// A write sent with an Idempotency-Key header and the response it produced, so
+// a client retrying the same write gets that response back instead of a duplicate.
+public class IdempotencyRecord
+{
+    public Guid Id { get; set; }
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(100)]
+    public string Key { get; set; } = string.Empty;
+
+    // Method and path the key was first used for, e.g. "POST /api/trade"
+    [Required]
+    [MaxLength(200)]
+    public string Request { get; set; } = string.Empty;
+
+    // Null while the first request is still running
+    public int? StatusCode { get; set; }
+
+    public string? ResponseBody { get; set; }
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    [ForeignKey("UserId")]
+    public virtual User User { get; set; } = null!;
+}
@@ -33,7 +33,22 @@ public class Trade
     
     public int? Quantity { get; set; }
     
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal? Fees { get; set; }
+    
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal? StopLoss { get; set; }
+    
     public Guid? EmotionCheckId { get; set; }
+
+    // The check logged after the trade closed
+    public Guid? PostEmotionCheckId { get; set; }
+    
+    // Tag ids from the user's taxonomy (see TradeTag)
+    public string[]? MistakeTags { get; set; }
+
+    [MaxLength(60)]
+    public string? SetupTag { get; set; }
     
     public DateTime EntryTime { get; set; } = DateTime.UtcNow;
     public DateTime? ExitTime { get; set; }
@@ -45,6 +60,9 @@ public class Trade
     
     [ForeignKey("EmotionCheckId")]
     public virtual EmotionCheck? EmotionCheck { get; set; }
+
+    [ForeignKey("PostEmotionCheckId")]
+    public virtual EmotionCheck? PostEmotionCheck { get; set; }
 }
 
 public static class TradeType
@@ -0,0 +1,35 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace TradeMentor.Api.Models;
+
+// A mistake or setup tag from the user's taxonomy. Trades refer to tags by Id,
+// a slug the client derives from the original label, so it's unique per user only.
+public class TradeTag
+{
+    [Required]
+    [MaxLength(60)]
+    public string Id { get; set; } = string.Empty;
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(40)]
+    public string Label { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(10)]
+    public string Kind { get; set; } = string.Empty; // mistake, setup
+
+    public bool IsArchived { get; set; } = false;
+
+    // Position in the user's list, so every device shows the same order
+    public int SortOrder { get; set; }
+
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    [ForeignKey("UserId")]
+    public virtual User User { get; set; } = null!;
+}
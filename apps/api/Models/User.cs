@@ -28,4 +28,9 @@ public class User : IdentityUser
     public virtual ICollection<Trade> Trades { get; set; } = new List<Trade>();
     public virtual ICollection<WeeklyReflection> WeeklyReflections { get; set; } = new List<WeeklyReflection>();
     public virtual ICollection<MonthlyGoal> MonthlyGoals { get; set; } = new List<MonthlyGoal>();
+    public virtual ICollection<TradeTag> TradeTags { get; set; } = new List<TradeTag>();
+    public virtual ICollection<WeeklyPrompt> WeeklyPrompts { get; set; } = new List<WeeklyPrompt>();
+    public virtual ICollection<DailySession> DailySessions { get; set; } = new List<DailySession>();
+    public virtual ICollection<BreathingSession> BreathingSessions { get; set; } = new List<BreathingSession>();
+    public virtual ICollection<IdempotencyRecord> IdempotencyRecords { get; set; } = new List<IdempotencyRecord>();
 }
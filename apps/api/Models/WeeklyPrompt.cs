@@ -0,0 +1,45 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace TradeMentor.Api.Models;
+
+// The weekly reflection question assigned to a user, and their answer.
+// One per ISO week, so every device shows the same question.
+public class WeeklyPrompt
+{
+    public Guid Id { get; set; }
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(10)]
+    public string Week { get; set; } = string.Empty; // ISO week key, e.g. 2026-W42
+
+    [Required]
+    [MaxLength(500)]
+    public string Question { get; set; } = string.Empty;
+
+    [MaxLength(50)]
+    public string? TemplateId { get; set; }
+
+    [MaxLength(20)]
+    public string? Theme { get; set; }
+
+    [MaxLength(300)]
+    public string? Reason { get; set; }
+
+    [MaxLength(2000)]
+    public string? Answer { get; set; }
+
+    // Skipped prompts count as answered with no text
+    public bool IsAnswered { get; set; } = false;
+    public DateTime? AnsweredAt { get; set; }
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    [ForeignKey("UserId")]
+    public virtual User User { get; set; } = null!;
+}
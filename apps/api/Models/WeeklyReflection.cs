@@ -74,6 +74,17 @@ public class MonthlyGoal
     [Required]
     public DateTime TargetMonth { get; set; }
     
+    // Measurable goals track a metric against a target; free-text goals leave these empty
+    [MaxLength(30)]
+    public string? Metric { get; set; }
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal? Target { get; set; }
+
+    // Mistake tag counted by the mistakeTagCount metric
+    [MaxLength(60)]
+    public string? TagId { get; set; }
+    
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
     public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
 
@@ -81,3 +92,13 @@ public class MonthlyGoal
     [ForeignKey("UserId")]
     public virtual User User { get; set; } = null!;
 }
+
+public static class GoalMetric
+{
+    public const string PreTradeCheckRate = "preTradeCheckRate";
+    public const string JournaledTradeRate = "journaledTradeRate";
+    public const string MistakeTagCount = "mistakeTagCount";
+    public const string AveragePreTradeLevel = "averagePreTradeLevel";
+
+    public static readonly string[] All = { PreTradeCheckRate, JournaledTradeRate, MistakeTagCount, AveragePreTradeLevel };
+}
@@ -48,8 +48,11 @@ builder.Services.AddIdentity<User, IdentityRole>(options =>
 .AddDefaultTokenProviders();
 
 // JWT Configuration
-var jwtSecret = builder.Configuration["Jwt:Secret"] ?? 
-    Environment.GetEnvironmentVariable("JWT_SECRET") ?? 
+// Access tokens are issued by the web app's /api/auth routes, which sign them with
+// the same JWT_SECRET; the environment wins so both processes can share one value.
+// Tokens revoked there stay valid here until they expire (at most 15 minutes).
+var jwtSecret = Environment.GetEnvironmentVariable("JWT_SECRET") ??
+    builder.Configuration["Jwt:Secret"] ??
     "your-super-secret-key-change-this-in-production";
 
 builder.Services.AddAuthentication(options =>
@@ -61,6 +64,7 @@ builder.Services.AddAuthentication(options =>
 .AddJwtBearer(options =>
 {
     options.SaveToken = true;
+    options.MapInboundClaims = true; // The web app's "sub" claim becomes ClaimTypes.NameIdentifier
     options.RequireHttpsMetadata = false; // Set to true in production
     options.TokenValidationParameters = new TokenValidationParameters()
     {
@@ -85,6 +89,11 @@ builder.Services.AddScoped<IPatternService, PatternService>();
 builder.Services.AddScoped<IEmotionService, EmotionService>();
 builder.Services.AddScoped<IWeeklyReflectionService, WeeklyReflectionService>();
 builder.Services.AddScoped<IMonthlyGoalService, MonthlyGoalService>();
+builder.Services.AddScoped<ITradeTagService, TradeTagService>();
+builder.Services.AddScoped<IWeeklyPromptService, WeeklyPromptService>();
+builder.Services.AddScoped<IDailySessionService, DailySessionService>();
+builder.Services.AddScoped<IBreathingSessionService, BreathingSessionService>();
+builder.Services.AddScoped<IIdempotencyService, IdempotencyService>();
 
 // Memory Cache for analytics
 builder.Services.AddMemoryCache();
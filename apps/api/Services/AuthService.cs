@@ -1,7 +1,3 @@
-using Microsoft.IdentityModel.Tokens;
-using System.IdentityModel.Tokens.Jwt;
-using System.Security.Claims;
-using System.Text;
 using TradeMentor.Api.Data;
 using TradeMentor.Api.Models;
 using TradeMentor.Api.Data.Repositories;
@@ -12,81 +8,33 @@ namespace TradeMentor.Api.Services;
 
 public interface IAuthService
 {
-    Task<ApiResponse<LoginResponse>> LoginAsync(LoginRequest request);
     Task<ApiResponse<UserDto>> RegisterAsync(RegisterRequest request);
-    Task<ApiResponse<LoginResponse>> RefreshTokenAsync(string refreshToken);
     Task<ApiResponse> LogoutAsync(string userId);
-    string GenerateJwtToken(User user);
-    string GenerateRefreshToken();
+    Task<UserDto?> VerifyCredentialsAsync(string email, string password);
+    Task<UserDto?> FindUserByEmailAsync(string email);
+    Task<UserDto?> GetUserAsync(string userId);
+    Task<ApiResponse> SetPasswordAsync(string userId, string password);
+    Task<UserDto?> UpdateProfileAsync(string userId, UpdateProfileRequest request);
     string HashPassword(string password);
     bool VerifyPassword(string password, string hash);
 }
 
 public class AuthService : IAuthService
 {
+    // Checked against when the email is unknown, so it takes as long as a wrong password
+    private static readonly string UnknownAccountHash = BCrypt.Net.BCrypt.HashPassword(Guid.NewGuid().ToString(), 12);
+
     private readonly IUserRepository _userRepository;
-    private readonly IConfiguration _configuration;
     private readonly ILogger<AuthService> _logger;
 
     public AuthService(
         IUserRepository userRepository,
-        IConfiguration configuration,
         ILogger<AuthService> logger)
     {
         _userRepository = userRepository;
-        _configuration = configuration;
         _logger = logger;
     }
 
-    public async Task<ApiResponse<LoginResponse>> LoginAsync(LoginRequest request)
-    {
-        try
-        {
-            var user = await _userRepository.GetByEmailAsync(request.Email);
-            if (user == null || !user.IsActive)
-            {
-                return ApiResponse<LoginResponse>.ErrorResponse("Invalid email or password");
-            }
-
-            // SECURITY FIX: Enable password verification
-            if (string.IsNullOrEmpty(user.PasswordHash) || !VerifyPassword(request.Password, user.PasswordHash))
-            {
-                _logger.LogWarning("Failed password verification for user: {UserId}", user.Id);
-                return ApiResponse<LoginResponse>.ErrorResponse("Invalid email or password");
-            }
-
-            user.LastLoginAt = DateTime.UtcNow;
-            await _userRepository.UpdateAsync(user);
-
-            var token = GenerateJwtToken(user);
-            var refreshToken = GenerateRefreshToken();
-
-            var response = new LoginResponse
-            {
-                Token = token,
-                RefreshToken = refreshToken,
-                ExpiresAt = DateTime.UtcNow.AddHours(24),
-                User = new UserDto
-                {
-                    Id = user.Id,
-                    Email = user.Email!,
-                    FirstName = user.FirstName,
-                    LastName = user.LastName,
-                    StreakCount = user.StreakCount,
-                    CreatedAt = user.CreatedAt,
-                    LastLoginAt = user.LastLoginAt
-                }
-            };
-
-            return ApiResponse<LoginResponse>.SuccessResponse(response, "Login successful");
-        }
-        catch (Exception ex)
-        {
-            _logger.LogError(ex, "Error during login for user {Email}", request.Email);
-            return ApiResponse<LoginResponse>.ErrorResponse("An error occurred during login");
-        }
-    }
-
     public async Task<ApiResponse<UserDto>> RegisterAsync(RegisterRequest request)
     {
         try
@@ -150,51 +98,76 @@ public class AuthService : IAuthService
         }
     }
 
-    public async Task<ApiResponse<LoginResponse>> RefreshTokenAsync(string refreshToken)
+    public async Task<ApiResponse> LogoutAsync(string userId)
     {
         await Task.CompletedTask;
-        return ApiResponse<LoginResponse>.ErrorResponse("Refresh token not implemented yet");
+        return ApiResponse.SuccessResponse("Logout successful");
     }
 
-    public async Task<ApiResponse> LogoutAsync(string userId)
+    public async Task<UserDto?> VerifyCredentialsAsync(string email, string password)
     {
-        await Task.CompletedTask;
-        return ApiResponse.SuccessResponse("Logout successful");
+        var user = await _userRepository.GetByEmailAsync(NormalizeEmail(email));
+        var hash = string.IsNullOrEmpty(user?.PasswordHash) ? UnknownAccountHash : user.PasswordHash;
+        var isValid = VerifyPassword(password, hash);
+
+        if (user == null || !user.IsActive || !isValid)
+        {
+            return null;
+        }
+
+        user.LastLoginAt = DateTime.UtcNow;
+        await _userRepository.UpdateAsync(user);
+        return ToUserDto(user);
     }
 
-    public string GenerateJwtToken(User user)
+    public async Task<UserDto?> FindUserByEmailAsync(string email)
     {
-        var jwtSecret = _configuration["Jwt:Secret"] ?? 
-            Environment.GetEnvironmentVariable("JWT_SECRET") ?? 
-            "your-super-secret-key-change-this-in-production-make-it-256-bit";
+        var user = await _userRepository.GetByEmailAsync(NormalizeEmail(email));
+        return user != null && user.IsActive ? ToUserDto(user) : null;
+    }
 
-        var key = new SymmetricSecurityKey(Encoding.UTF8.GetBytes(jwtSecret));
-        var credentials = new SigningCredentials(key, SecurityAlgorithms.HmacSha256);
+    public async Task<UserDto?> GetUserAsync(string userId)
+    {
+        var user = await _userRepository.GetByIdAsync(userId);
+        return user != null && user.IsActive ? ToUserDto(user) : null;
+    }
 
-        var claims = new[]
+    public async Task<ApiResponse> SetPasswordAsync(string userId, string password)
+    {
+        if (!IsValidPassword(password))
         {
-            new Claim(ClaimTypes.NameIdentifier, user.Id.ToString()),
-            new Claim(ClaimTypes.Email, user.Email!),
-            new Claim(ClaimTypes.Name, $"{user.FirstName} {user.LastName}".Trim()),
-            new Claim("userId", user.Id),
-            new Claim("streakCount", user.StreakCount.ToString()),
-            new Claim("timezone", user.Timezone)
-        };
+            return ApiResponse.ErrorResponse(
+                "Password must be at least 8 characters long and contain uppercase, lowercase, number, and special character");
+        }
 
-        var token = new JwtSecurityToken(
-            issuer: null, // Remove issuer requirement
-            audience: null, // Remove audience requirement
-            claims: claims,
-            expires: DateTime.UtcNow.AddDays(7),
-            signingCredentials: credentials
-        );
+        var user = await _userRepository.GetByIdAsync(userId);
+        if (user == null || !user.IsActive)
+        {
+            return ApiResponse.ErrorResponse("Account not found");
+        }
 
-        return new JwtSecurityTokenHandler().WriteToken(token);
+        user.PasswordHash = HashPassword(password);
+        user.UpdatedAt = DateTime.UtcNow;
+        await _userRepository.UpdateAsync(user);
+        return ApiResponse.SuccessResponse("Password updated");
     }
 
-    public string GenerateRefreshToken()
+    public async Task<UserDto?> UpdateProfileAsync(string userId, UpdateProfileRequest request)
     {
-        return Guid.NewGuid().ToString();
+        var user = await _userRepository.GetByIdAsync(userId);
+        if (user == null || !user.IsActive)
+        {
+            return null;
+        }
+
+        // Only the fields that were sent change
+        if (request.FirstName != null) user.FirstName = request.FirstName.Trim();
+        if (request.LastName != null) user.LastName = request.LastName.Trim();
+        if (!string.IsNullOrWhiteSpace(request.Timezone)) user.Timezone = request.Timezone.Trim();
+        user.UpdatedAt = DateTime.UtcNow;
+
+        await _userRepository.UpdateAsync(user);
+        return ToUserDto(user);
     }
 
     public string HashPassword(string password)
@@ -216,6 +189,28 @@ public class AuthService : IAuthService
         }
     }
 
+    // Registration stores emails lower-cased and trimmed
+    private static string NormalizeEmail(string email)
+    {
+        return (email ?? string.Empty).Trim().ToLowerInvariant();
+    }
+
+    private static UserDto ToUserDto(User user)
+    {
+        return new UserDto
+        {
+            Id = user.Id,
+            Email = user.Email!,
+            FirstName = user.FirstName,
+            LastName = user.LastName,
+            Timezone = user.Timezone,
+            StreakCount = user.StreakCount,
+            IsActive = user.IsActive,
+            CreatedAt = user.CreatedAt,
+            LastLoginAt = user.LastLoginAt
+        };
+    }
+
     private bool IsValidEmail(string email)
     {
         if (string.IsNullOrWhiteSpace(email) || email.Length > 254)
@@ -0,0 +1,96 @@
+using Microsoft.EntityFrameworkCore;
+using TradeMentor.Api.Data;
+using TradeMentor.Api.Models;
+
+namespace TradeMentor.Api.Services;
+
+public class BreathingSessionService : IBreathingSessionService
+{
+    private readonly ApplicationDbContext _context;
+    private readonly ILogger<BreathingSessionService> _logger;
+
+    public BreathingSessionService(
+        ApplicationDbContext context,
+        ILogger<BreathingSessionService> logger)
+    {
+        _context = context;
+        _logger = logger;
+    }
+
+    public async Task<IEnumerable<BreathingSession>> GetUserSessionsAsync(string userId, int limit, int offset)
+    {
+        try
+        {
+            return await _context.BreathingSessions
+                .Where(bs => bs.UserId == userId)
+                .OrderByDescending(bs => bs.CompletedAt)
+                .Skip(offset)
+                .Take(limit)
+                .ToListAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting breathing sessions for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    public async Task<BreathingSession?> GetSessionAsync(string id)
+    {
+        try
+        {
+            return await _context.BreathingSessions.FindAsync(id);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting breathing session {Id}", id);
+            throw;
+        }
+    }
+
+    public async Task<BreathingSession> CreateSessionAsync(BreathingSession session)
+    {
+        try
+        {
+            // A check that named this session may have reached the server first
+            var linkedCheck = await _context.EmotionChecks
+                .Where(ec => ec.UserId == session.UserId && ec.BreathingSessionId == session.Id)
+                .OrderBy(ec => ec.Timestamp)
+                .Select(ec => (Guid?)ec.Id)
+                .FirstOrDefaultAsync();
+
+            session.EmotionCheckId = linkedCheck;
+            session.CreatedAt = DateTime.UtcNow;
+
+            _context.BreathingSessions.Add(session);
+            await _context.SaveChangesAsync();
+            return session;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating breathing session {Id} for user {UserId}", session.Id, session.UserId);
+            throw;
+        }
+    }
+
+    public async Task<bool> LinkEmotionCheckAsync(string userId, string sessionId, Guid emotionCheckId)
+    {
+        try
+        {
+            var session = await _context.BreathingSessions
+                .FirstOrDefaultAsync(bs => bs.Id == sessionId && bs.UserId == userId);
+            if (session == null)
+                return false;
+
+            session.EmotionCheckId = emotionCheckId;
+            await _context.SaveChangesAsync();
+            return true;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error linking breathing session {Id} to emotion check {EmotionCheckId}",
+                sessionId, emotionCheckId);
+            throw;
+        }
+    }
+}
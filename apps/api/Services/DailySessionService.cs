@@ -0,0 +1,89 @@
+using Microsoft.EntityFrameworkCore;
+using TradeMentor.Api.Data;
+using TradeMentor.Api.Models;
+
+namespace TradeMentor.Api.Services;
+
+public class DailySessionService : IDailySessionService
+{
+    private readonly ApplicationDbContext _context;
+    private readonly ILogger<DailySessionService> _logger;
+
+    public DailySessionService(
+        ApplicationDbContext context,
+        ILogger<DailySessionService> logger)
+    {
+        _context = context;
+        _logger = logger;
+    }
+
+    public async Task<IEnumerable<DailySession>> GetUserSessionsAsync(string userId, DateOnly? from, DateOnly? to)
+    {
+        try
+        {
+            var query = _context.DailySessions.Where(ds => ds.UserId == userId);
+            if (from.HasValue)
+                query = query.Where(ds => ds.Date >= from.Value);
+            if (to.HasValue)
+                query = query.Where(ds => ds.Date <= to.Value);
+
+            return await query
+                .OrderByDescending(ds => ds.Date)
+                .Take(366)
+                .ToListAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting daily sessions for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    public async Task<DailySession?> GetSessionAsync(string userId, DateOnly date)
+    {
+        try
+        {
+            return await _context.DailySessions
+                .FirstOrDefaultAsync(ds => ds.UserId == userId && ds.Date == date);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting daily session for user {UserId} and date {Date}", userId, date);
+            throw;
+        }
+    }
+
+    public async Task<DailySession> SaveSessionAsync(string userId, DateOnly date, string? plan, string? review)
+    {
+        try
+        {
+            var session = await GetSessionAsync(userId, date);
+            if (session == null)
+            {
+                session = new DailySession
+                {
+                    Id = Guid.NewGuid(),
+                    UserId = userId,
+                    Date = date,
+                    CreatedAt = DateTime.UtcNow
+                };
+                _context.DailySessions.Add(session);
+            }
+
+            // A section left out of the request keeps its stored value
+            if (plan != null)
+                session.Plan = plan;
+            if (review != null)
+                session.Review = review;
+            session.UpdatedAt = DateTime.UtcNow;
+
+            await _context.SaveChangesAsync();
+            return session;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error saving daily session for user {UserId} and date {Date}", userId, date);
+            throw;
+        }
+    }
+}
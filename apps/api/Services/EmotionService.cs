@@ -195,6 +195,12 @@ public class EmotionService : IEmotionService
             Context = emotion.Context,
             Symbol = emotion.Symbol,
             Notes = emotion.Notes,
+            BreathingSessionId = emotion.BreathingSessionId,
+            Emotions = emotion.Emotions,
+            Confidence = emotion.Confidence,
+            Focus = emotion.Focus,
+            SleepHours = emotion.SleepHours,
+            PhysicalTension = emotion.PhysicalTension,
             Timestamp = ConvertToUserTimezone(emotion.Timestamp, userTimezone),
             CreatedAt = ConvertToUserTimezone(emotion.CreatedAt, userTimezone),
             UserId = emotion.UserId
@@ -0,0 +1,11 @@
+using TradeMentor.Api.Models;
+
+namespace TradeMentor.Api.Services;
+
+public interface IBreathingSessionService
+{
+    Task<IEnumerable<BreathingSession>> GetUserSessionsAsync(string userId, int limit, int offset);
+    Task<BreathingSession?> GetSessionAsync(string id);
+    Task<BreathingSession> CreateSessionAsync(BreathingSession session);
+    Task<bool> LinkEmotionCheckAsync(string userId, string sessionId, Guid emotionCheckId);
+}
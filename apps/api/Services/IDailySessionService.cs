@@ -0,0 +1,10 @@
+using TradeMentor.Api.Models;
+
+namespace TradeMentor.Api.Services;
+
+public interface IDailySessionService
+{
+    Task<IEnumerable<DailySession>> GetUserSessionsAsync(string userId, DateOnly? from, DateOnly? to);
+    Task<DailySession?> GetSessionAsync(string userId, DateOnly date);
+    Task<DailySession> SaveSessionAsync(string userId, DateOnly date, string? plan, string? review);
+}
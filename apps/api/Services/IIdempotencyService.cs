@@ -0,0 +1,11 @@
+using TradeMentor.Api.Models;
+
+namespace TradeMentor.Api.Services;
+
+public interface IIdempotencyService
+{
+    Task<IdempotencyRecord?> FindAsync(string userId, string key);
+    Task<bool> TryReserveAsync(string userId, string key, string request);
+    Task CompleteAsync(string userId, string key, int statusCode, string? responseBody);
+    Task ReleaseAsync(string userId, string key);
+}
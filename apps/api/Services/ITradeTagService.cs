@@ -0,0 +1,9 @@
+using TradeMentor.Api.Models;
+
+namespace TradeMentor.Api.Services;
+
+public interface ITradeTagService
+{
+    Task<IEnumerable<TradeTag>> GetUserTagsAsync(string userId);
+    Task<IEnumerable<TradeTag>> ReplaceUserTagsAsync(string userId, IList<TradeTag> tags);
+}
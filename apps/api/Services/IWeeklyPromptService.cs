@@ -0,0 +1,10 @@
+using TradeMentor.Api.Models;
+
+namespace TradeMentor.Api.Services;
+
+public interface IWeeklyPromptService
+{
+    Task<WeeklyPrompt> GetOrAssignPromptAsync(string userId, string week);
+    Task<IEnumerable<WeeklyPrompt>> GetUserPromptsAsync(string userId, int limit = 52);
+    Task<WeeklyPrompt> SaveAnswerAsync(string userId, string week, WeeklyPrompt answer);
+}
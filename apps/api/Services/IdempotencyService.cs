@@ -0,0 +1,112 @@
+using Microsoft.EntityFrameworkCore;
+using TradeMentor.Api.Data;
+using TradeMentor.Api.Models;
+
+namespace TradeMentor.Api.Services;
+
+public class IdempotencyService : IIdempotencyService
+{
+    // Clients retry queued writes for a while, but not for days
+    private static readonly TimeSpan RecordLifetime = TimeSpan.FromHours(24);
+
+    private readonly ApplicationDbContext _context;
+    private readonly ILogger<IdempotencyService> _logger;
+
+    public IdempotencyService(
+        ApplicationDbContext context,
+        ILogger<IdempotencyService> logger)
+    {
+        _context = context;
+        _logger = logger;
+    }
+
+    public async Task<IdempotencyRecord?> FindAsync(string userId, string key)
+    {
+        try
+        {
+            var record = await _context.IdempotencyRecords
+                .AsNoTracking()
+                .FirstOrDefaultAsync(ir => ir.UserId == userId && ir.Key == key);
+
+            if (record == null || record.CreatedAt >= DateTime.UtcNow - RecordLifetime)
+                return record;
+
+            // An expired key may be used again
+            await _context.IdempotencyRecords
+                .Where(ir => ir.Id == record.Id)
+                .ExecuteDeleteAsync();
+            return null;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error finding idempotency key for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    public async Task<bool> TryReserveAsync(string userId, string key, string request)
+    {
+        var record = new IdempotencyRecord
+        {
+            Id = Guid.NewGuid(),
+            UserId = userId,
+            Key = key,
+            Request = request,
+            CreatedAt = DateTime.UtcNow
+        };
+
+        try
+        {
+            _context.IdempotencyRecords.Add(record);
+            await _context.SaveChangesAsync();
+            return true;
+        }
+        catch (DbUpdateException)
+        {
+            // The unique (UserId, Key) index: another request holds the key
+            return false;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error reserving idempotency key for user {UserId}", userId);
+            throw;
+        }
+        finally
+        {
+            // Keep the reservation out of the action's own SaveChanges
+            _context.Entry(record).State = EntityState.Detached;
+        }
+    }
+
+    public async Task CompleteAsync(string userId, string key, int statusCode, string? responseBody)
+    {
+        try
+        {
+            await _context.IdempotencyRecords
+                .Where(ir => ir.UserId == userId && ir.Key == key)
+                .ExecuteUpdateAsync(setters => setters
+                    .SetProperty(ir => ir.StatusCode, statusCode)
+                    .SetProperty(ir => ir.ResponseBody, responseBody));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error completing idempotency key for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    public async Task ReleaseAsync(string userId, string key)
+    {
+        try
+        {
+            await _context.IdempotencyRecords
+                .Where(ir => ir.UserId == userId && ir.Key == key)
+                .ExecuteDeleteAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error releasing idempotency key for user {UserId}", userId);
+            throw;
+        }
+    }
+}
@@ -53,46 +53,51 @@ public class MonthlyGoalService : IMonthlyGoalService
         }
     }
 
-    public async Task<MonthlyGoal> CreateOrUpdateGoalAsync(string userId, MonthlyGoal goal)
+    public async Task<MonthlyGoal> CreateGoalAsync(string userId, MonthlyGoal goal)
     {
         try
         {
-            var monthStart = new DateTime(goal.TargetMonth.Year, goal.TargetMonth.Month, 1, 0, 0, 0, DateTimeKind.Utc);
+            // A month can hold several goals, e.g. a free-text goal next to measurable ones
+            goal.Id = Guid.NewGuid();
+            goal.UserId = userId;
+            goal.TargetMonth = new DateTime(goal.TargetMonth.Year, goal.TargetMonth.Month, 1, 0, 0, 0, DateTimeKind.Utc);
+            goal.CreatedAt = DateTime.UtcNow;
+            goal.UpdatedAt = DateTime.UtcNow;
+
+            _context.MonthlyGoals.Add(goal);
+            await _context.SaveChangesAsync();
 
-            // Check if goal already exists for this month
-            var existingGoal = await GetMonthlyGoalAsync(userId, monthStart);
+            return goal;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating monthly goal for user {UserId}", userId);
+            throw;
+        }
+    }
 
-            if (existingGoal != null)
-            {
-                // Update existing goal
-                existingGoal.Goal = goal.Goal;
-                existingGoal.Progress = goal.Progress;
-                existingGoal.IsCompleted = goal.IsCompleted;
-                existingGoal.UpdatedAt = DateTime.UtcNow;
+    public async Task<MonthlyGoal?> UpdateGoalAsync(string userId, Guid goalId, Action<MonthlyGoal> update)
+    {
+        try
+        {
+            var goal = await _context.MonthlyGoals
+                .Where(mg => mg.Id == goalId && mg.UserId == userId)
+                .FirstOrDefaultAsync();
 
-                _context.MonthlyGoals.Update(existingGoal);
-                await _context.SaveChangesAsync();
+            if (goal == null)
+                return null;
 
-                return existingGoal;
-            }
-            else
-            {
-                // Create new goal
-                goal.Id = Guid.NewGuid();
-                goal.UserId = userId;
-                goal.TargetMonth = monthStart;
-                goal.CreatedAt = DateTime.UtcNow;
-                goal.UpdatedAt = DateTime.UtcNow;
+            update(goal);
+            goal.TargetMonth = new DateTime(goal.TargetMonth.Year, goal.TargetMonth.Month, 1, 0, 0, 0, DateTimeKind.Utc);
+            goal.UpdatedAt = DateTime.UtcNow;
 
-                _context.MonthlyGoals.Add(goal);
-                await _context.SaveChangesAsync();
+            await _context.SaveChangesAsync();
 
-                return goal;
-            }
+            return goal;
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error creating/updating monthly goal for user {UserId}", userId);
+            _logger.LogError(ex, "Error updating monthly goal {GoalId} for user {UserId}", goalId, userId);
             throw;
         }
     }
@@ -126,7 +131,7 @@ public class MonthlyGoalService : IMonthlyGoalService
         return await GetMonthlyGoalAsync(userId, currentMonth);
     }
 
-    public async Task<bool> UpdateGoalProgressAsync(string userId, Guid goalId, int progress)
+    public async Task<MonthlyGoal?> UpdateGoalProgressAsync(string userId, Guid goalId, int progress)
     {
         try
         {
@@ -138,7 +143,7 @@ public class MonthlyGoalService : IMonthlyGoalService
                 .FirstOrDefaultAsync();
 
             if (goal == null)
-                return false;
+                return null;
 
             goal.Progress = progress;
             goal.IsCompleted = progress >= 100;
@@ -147,7 +152,7 @@ public class MonthlyGoalService : IMonthlyGoalService
             _context.MonthlyGoals.Update(goal);
             await _context.SaveChangesAsync();
 
-            return true;
+            return goal;
         }
         catch (Exception ex)
         {
@@ -0,0 +1,78 @@
+using Microsoft.EntityFrameworkCore;
+using TradeMentor.Api.Data;
+using TradeMentor.Api.Models;
+
+namespace TradeMentor.Api.Services;
+
+public class TradeTagService : ITradeTagService
+{
+    private readonly ApplicationDbContext _context;
+    private readonly ILogger<TradeTagService> _logger;
+
+    public TradeTagService(
+        ApplicationDbContext context,
+        ILogger<TradeTagService> logger)
+    {
+        _context = context;
+        _logger = logger;
+    }
+
+    public async Task<IEnumerable<TradeTag>> GetUserTagsAsync(string userId)
+    {
+        try
+        {
+            return await _context.TradeTags
+                .Where(tt => tt.UserId == userId)
+                .OrderBy(tt => tt.SortOrder)
+                .ToListAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting trade tags for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    public async Task<IEnumerable<TradeTag>> ReplaceUserTagsAsync(string userId, IList<TradeTag> tags)
+    {
+        try
+        {
+            var existing = await _context.TradeTags
+                .Where(tt => tt.UserId == userId)
+                .ToDictionaryAsync(tt => tt.Id);
+
+            var now = DateTime.UtcNow;
+            for (var i = 0; i < tags.Count; i++)
+            {
+                var tag = tags[i];
+                if (existing.Remove(tag.Id, out var stored))
+                {
+                    // Updated in place; removing and re-adding the same key in one save isn't allowed
+                    stored.Label = tag.Label;
+                    stored.Kind = tag.Kind;
+                    stored.IsArchived = tag.IsArchived;
+                    stored.SortOrder = i;
+                    stored.UpdatedAt = now;
+                }
+                else
+                {
+                    tag.UserId = userId;
+                    tag.SortOrder = i;
+                    tag.UpdatedAt = now;
+                    _context.TradeTags.Add(tag);
+                }
+            }
+
+            // Tags left out of the list are gone; trades keep their ids and show them humanized
+            _context.TradeTags.RemoveRange(existing.Values);
+            await _context.SaveChangesAsync();
+
+            return await GetUserTagsAsync(userId);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error saving trade tags for user {UserId}", userId);
+            throw;
+        }
+    }
+}
@@ -0,0 +1,163 @@
+using Microsoft.EntityFrameworkCore;
+using TradeMentor.Api.Data;
+using TradeMentor.Api.Models;
+
+namespace TradeMentor.Api.Services;
+
+public class WeeklyPromptService : IWeeklyPromptService
+{
+    // The general questions from the client's bank; ids match its template ids.
+    // Data-driven questions are chosen on the device and arrive with the answer.
+    private static readonly (string Id, string Theme, string Text)[] Questions =
+    {
+        ("proud-decision", "discipline", "What trading decision this week are you most proud of, and what mindset led to that decision?"),
+        ("advice-to-self", "preparation", "If you could give advice to yourself at the beginning of this week, what would it be?"),
+        ("emotion-pattern", "emotion", "What pattern in your emotions did you notice this week that affected your trading?"),
+        ("teaching-trade", "risk", "Which trade this week taught you the most, regardless of its outcome?"),
+        ("risk-evolution", "risk", "How did your risk management evolve this week compared to last week?"),
+        ("external-factor", "emotion", "What external factor (news, market conditions, personal life) most influenced your trading mindset this week?"),
+        ("three-words", "emotion", "If you had to describe your emotional state while trading this week in three words, what would they be?"),
+        ("habit-change", "discipline", "What's one habit you developed or broke this week that impacted your trading?"),
+        ("preparation-diff", "preparation", "How did your pre-trade preparation differ this week from previous weeks?"),
+        ("repeat-week", "preparation", "What would you change about your trading approach if you could repeat this week?"),
+        ("helpful-emotion", "emotion", "Which emotion served you best this week while trading, and which held you back?"),
+        ("self-lesson", "emotion", "What's the most important lesson about yourself as a trader that you learned this week?"),
+        ("money-relationship", "risk", "How did your relationship with money/profit/loss evolve this week?"),
+        ("mentor-view", "discipline", "What would your best trading mentor say about your performance this week?"),
+        ("one-insight", "preparation", "If you could only keep one trading insight from this week, what would it be?"),
+        ("patience", "discipline", "How did your patience and discipline show up in your trading this week?"),
+        ("emotional-surprise", "emotion", "What surprised you most about your emotional responses to trades this week?"),
+        ("uncertainty", "risk", "How did you handle uncertainty in the markets this week?"),
+        ("next-week-focus", "preparation", "What's one thing about your trading psychology that you want to work on next week?"),
+        ("movie-lesson", "discipline", "If this week's trading was a movie, what would be the key lesson of the story?"),
+    };
+
+    private readonly ApplicationDbContext _context;
+    private readonly ILogger<WeeklyPromptService> _logger;
+
+    public WeeklyPromptService(
+        ApplicationDbContext context,
+        ILogger<WeeklyPromptService> logger)
+    {
+        _context = context;
+        _logger = logger;
+    }
+
+    public async Task<WeeklyPrompt> GetOrAssignPromptAsync(string userId, string week)
+    {
+        try
+        {
+            var existing = await FindPromptAsync(userId, week);
+            if (existing != null)
+                return existing;
+
+            var question = await PickNextQuestionAsync(userId);
+            var prompt = new WeeklyPrompt
+            {
+                Id = Guid.NewGuid(),
+                UserId = userId,
+                Week = week,
+                Question = question.Text,
+                TemplateId = question.Id,
+                Theme = question.Theme,
+                CreatedAt = DateTime.UtcNow,
+                UpdatedAt = DateTime.UtcNow
+            };
+
+            _context.WeeklyPrompts.Add(prompt);
+            try
+            {
+                await _context.SaveChangesAsync();
+                return prompt;
+            }
+            catch (DbUpdateException)
+            {
+                // Another device assigned this week's question first; use theirs
+                _context.Entry(prompt).State = EntityState.Detached;
+                return (await FindPromptAsync(userId, week))!;
+            }
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error assigning weekly prompt for user {UserId} and week {Week}", userId, week);
+            throw;
+        }
+    }
+
+    public async Task<IEnumerable<WeeklyPrompt>> GetUserPromptsAsync(string userId, int limit = 52)
+    {
+        try
+        {
+            return await _context.WeeklyPrompts
+                .Where(wp => wp.UserId == userId)
+                .OrderByDescending(wp => wp.Week)
+                .Take(limit)
+                .ToListAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting weekly prompts for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    public async Task<WeeklyPrompt> SaveAnswerAsync(string userId, string week, WeeklyPrompt answer)
+    {
+        try
+        {
+            var prompt = await FindPromptAsync(userId, week);
+            if (prompt == null)
+            {
+                prompt = new WeeklyPrompt
+                {
+                    Id = Guid.NewGuid(),
+                    UserId = userId,
+                    Week = week,
+                    CreatedAt = DateTime.UtcNow
+                };
+                _context.WeeklyPrompts.Add(prompt);
+            }
+
+            // The device may have asked a question picked from the week's data instead
+            prompt.Question = answer.Question;
+            prompt.TemplateId = answer.TemplateId;
+            prompt.Theme = answer.Theme;
+            prompt.Reason = answer.Reason;
+            prompt.Answer = answer.Answer;
+            prompt.IsAnswered = true;
+            prompt.AnsweredAt = answer.AnsweredAt ?? DateTime.UtcNow;
+            prompt.UpdatedAt = DateTime.UtcNow;
+
+            await _context.SaveChangesAsync();
+            return prompt;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error saving weekly prompt answer for user {UserId} and week {Week}", userId, week);
+            throw;
+        }
+    }
+
+    private Task<WeeklyPrompt?> FindPromptAsync(string userId, string week)
+    {
+        return _context.WeeklyPrompts
+            .FirstOrDefaultAsync(wp => wp.UserId == userId && wp.Week == week);
+    }
+
+    // A question the user hasn't had yet, or else the one asked longest ago
+    private async Task<(string Id, string Theme, string Text)> PickNextQuestionAsync(string userId)
+    {
+        var history = await _context.WeeklyPrompts
+            .Where(wp => wp.UserId == userId && wp.TemplateId != null)
+            .Select(wp => new { wp.TemplateId, wp.Week })
+            .ToListAsync();
+
+        var lastAsked = history
+            .GroupBy(h => h.TemplateId!)
+            .ToDictionary(g => g.Key, g => g.Max(h => h.Week));
+
+        return Questions
+            .OrderBy(q => lastAsked.TryGetValue(q.Id, out var week) ? week : string.Empty, StringComparer.Ordinal)
+            .First();
+    }
+}
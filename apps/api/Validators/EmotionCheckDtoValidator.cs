@@ -28,6 +28,15 @@ public class EmotionCheckDtoValidator : AbstractValidator<EmotionCheckDto>
             .MaximumLength(1000)
             .WithMessage("Notes must not exceed 1000 characters");
 
+        RuleForEach(x => x.Emotions)
+            .Must(name => NamedEmotion.All.Contains(name.ToLower()))
+            .WithMessage($"Emotions must be from: {string.Join(", ", NamedEmotion.All)}");
+
+        RuleFor(x => x.SleepHours)
+            .Must(hours => hours % 0.5m == 0)
+            .When(x => x.SleepHours.HasValue)
+            .WithMessage("Sleep hours must be in half-hour steps");
+
         RuleFor(x => x.Timestamp)
             .LessThanOrEqualTo(DateTime.UtcNow.AddMinutes(5))
             .When(x => x.Timestamp.HasValue)
@@ -2,6 +2,7 @@
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useOutboxStore } from '@/lib/outbox-store';
 import { useEmotionStore, type EmotionContext } from '@/lib/emotion-store';
 import { useToast } from '@/hooks/use-toast';
 import { EmotionSlider } from '@/components/EmotionSlider';
@@ -17,6 +18,11 @@ import { OfflineStatusCard, OfflineIndicator } from '@/components/offline/Offlin
 import { getContextualToast } from '@/components/ui/enhanced-toast';
 import { ErrorBoundary } from '@/components/ui/error-boundary';
 import { usePerformanceMonitor } from '@/hooks/use-performance-monitor';
+import { ValidationError } from '@/lib/security/input-validation';
+import { hasDimensions } from '@/lib/emotion-dimensions';
+import { getMilestoneForStreak, getNextMilestone, StreakMilestone } from '@/lib/analytics/streaks';
+import { useSettingsStore } from '@/lib/settings-store';
+import { useAuthStore } from '@/lib/auth-store';
 import {
   Flame,
   TrendingUp,
@@ -29,6 +35,8 @@ import {
   Sparkles,
   Trophy,
   Target,
+  ChevronDown,
+  ChevronUp,
 } from 'lucide-react';
 
 // Context configuration
@@ -64,21 +72,22 @@ const popularSymbols = ['AAPL', 'TSLA', 'NVDA', 'SPY', 'QQQ', 'BTC', 'ETH'];
 
 interface CelebrationModalProps {
   streakCount: number;
+  milestone: StreakMilestone | null;
   onClose: () => void;
 }
 
-function CelebrationModal({ streakCount, onClose }: CelebrationModalProps) {
+function CelebrationModal({ streakCount, milestone, onClose }: CelebrationModalProps) {
+  // Fall back to the highest milestone passed when the store did not record which one fired
+  const reached = milestone || getMilestoneForStreak(streakCount);
+  const next = getNextMilestone(streakCount);
+
   const getMessage = () => {
-    if (streakCount === 7) return "Amazing! 7 days in a row! 🔥";
-    if (streakCount === 30) return "Incredible! 30 day streak! 🏆";
-    if (streakCount === 100) return "LEGENDARY! 100 day streak! 🚀";
+    if (reached && reached.days === streakCount) return reached.title;
     return `${streakCount} day streak! Keep going! ✨`;
   };
 
   const getDetailMessage = () => {
-    if (streakCount >= 100) return 'You\'ve achieved the ultimate trading discipline milestone. Your emotional awareness is extraordinary!';
-    if (streakCount >= 30) return 'One month of consistent emotion tracking! You\'re building the habits of successful traders.';
-    if (streakCount >= 7) return 'One week of daily emotion checks! Consistency is the foundation of trading excellence.';
+    if (reached) return reached.detail;
     return 'Great start! Keep building this powerful habit for better trading results.';
   };
 
@@ -113,7 +122,7 @@ function CelebrationModal({ streakCount, onClose }: CelebrationModalProps) {
           
           <div className="relative z-10">
             <div className="text-7xl mb-4 animate-pulse">
-              {streakCount >= 100 ? '🚀' : streakCount >= 30 ? '🏆' : '🔥'}
+              {reached?.icon || '🔥'}
             </div>
             <h3 className="text-2xl font-bold mb-3">
               {getMessage()}
@@ -126,6 +135,11 @@ function CelebrationModal({ streakCount, onClose }: CelebrationModalProps) {
               <span>{streakCount} Days Strong</span>
               <Flame className="h-5 w-5" />
             </div>
+            {next && (
+              <p className="text-sm text-muted-foreground mt-3">
+                {next.days - streakCount} more day{next.days - streakCount === 1 ? '' : 's'} to the {next.days} day milestone
+              </p>
+            )}
           </div>
           
           {/* Close button */}
@@ -215,30 +229,32 @@ export default function EmotionCheckPage() {
     selectedContext,
     symbol,
     notes,
+    dimensions,
     isSubmitting,
     streakCount,
     totalChecks,
     showCelebration,
-    isOnline,
+    celebrationMilestone,
     setLevel,
     setContext,
     setSymbol,
     setNotes,
+    setDimensions,
     setSubmitting,
-    addPendingEntry,
-    incrementStreak,
+    refreshStreak,
     setCelebration,
     reset,
     canSubmit,
     submitEmotionCheck,
-    syncPendingEntries,
   } = useEmotionStore();
+  const flushOutbox = useOutboxStore(state => state.flush);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const sliderRef = useRef<HTMLDivElement>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [showDetails, setShowDetails] = useState(() => hasDimensions(dimensions));
 
   const validateSymbolField = useCallback((symbolValue: string): string => {
     if (symbolValue && symbolValue.length > 10) return 'Symbol too long (max 10 characters)';
@@ -301,24 +317,47 @@ export default function EmotionCheckPage() {
     }
 
     try {
-      await submitEmotionCheck();
-      const toastContent = getContextualToast('emotion-check', 'success', `Level ${currentLevel} recorded for ${selectedContext}`);
+      const queued = await submitEmotionCheck();
+      const toastContent = queued
+        ? getContextualToast('emotion-check', 'error')
+        : getContextualToast('emotion-check', 'success', `Level ${currentLevel} recorded for ${selectedContext}`);
       toast({
         title: toastContent.title,
         description: toastContent.description,
-        variant: 'default',
+        variant: 'default', // Use default instead of destructive for offline saves
       });
-    } catch (error) {
+    } catch (error: any) {
+      if (error instanceof ValidationError) {
+        const issueErrors: Record<string, string> = {};
+        error.issues.forEach(issue => {
+          const field = String(issue.path[0] ?? 'form');
+          if (!issueErrors[field]) issueErrors[field] = issue.message;
+        });
+        setFieldErrors(issueErrors);
+        toast({
+          title: 'Please fix the errors',
+          description: error.issues[0]?.message || 'Check the form for validation errors.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
       console.error('Failed to submit emotion check:', error);
-      const toastContent = getContextualToast('emotion-check', 'error');
       toast({
-        title: toastContent.title,
-        description: toastContent.description,
-        variant: 'default', // Use default instead of destructive for offline saves
+        title: 'Unable to Save',
+        description: error?.message || 'Your emotion check was rejected. Please review it and try again.',
+        variant: 'destructive',
       });
     }
   }, [selectedContext, currentLevel, symbol, notes, submitEmotionCheck, toast, validateSymbolField, validateNotesField]);
 
+  // Recompute the streak for today in the profile timezone
+  const timezone = useAuthStore(state => state.user?.timezone);
+  const streakGraceDays = useSettingsStore(state => state.streakGraceDays);
+  useEffect(() => {
+    refreshStreak();
+  }, [refreshStreak, timezone, streakGraceDays]);
+
   // Auto-focus on emotion slider when page loads
   useEffect(() => {
     if (sliderRef.current) {
@@ -326,20 +365,6 @@ export default function EmotionCheckPage() {
     }
   }, []);
 
-  // Listen for online/offline status
-  useEffect(() => {
-    const handleOnline = () => useEmotionStore.getState().setOnlineStatus(true);
-    const handleOffline = () => useEmotionStore.getState().setOnlineStatus(false);
-
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
-  }, []);
-
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -381,18 +406,19 @@ export default function EmotionCheckPage() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [setLevel, canSubmit, reset, handleSubmit]);
 
-  // Auto-sync pending entries when coming online
-  useEffect(() => {
-    if (isOnline) {
-      syncPendingEntries().catch(console.error);
-    }
-  }, [isOnline, syncPendingEntries]);
-
   const handleRefresh = async () => {
     setIsRefreshing(true);
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    // Sync pending entries or refresh data
-    setIsRefreshing(false);
+    try {
+      // Replay anything queued offline, then pull fresh data
+      const result = await flushOutbox({ force: true });
+      if (result.replayed.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ['emotions'] });
+      }
+    } catch (error) {
+      console.error('Failed to sync queued operations:', error);
+    } finally {
+      setIsRefreshing(false);
+    }
   };
 
   const handleQuickSymbol = (selectedSymbol: string) => {
@@ -407,6 +433,7 @@ export default function EmotionCheckPage() {
           {showCelebration && (
             <CelebrationModal
               streakCount={streakCount}
+              milestone={celebrationMilestone}
               onClose={() => setCelebration(false)}
             />
           )}
@@ -470,7 +497,22 @@ export default function EmotionCheckPage() {
                 disabled={isSubmitting}
                 size="lg"
                 className="focus-within:ring-2 focus-within:ring-primary focus-within:ring-offset-2 rounded-lg"
+                dimensions={showDetails ? dimensions : undefined}
+                onDimensionsChange={setDimensions}
+                dimensionErrors={fieldErrors}
               />
+              <div className="flex justify-center mt-6">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowDetails(!showDetails)}
+                  disabled={isSubmitting}
+                >
+                  {showDetails ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+                  {showDetails ? 'Hide details' : 'Add detail: emotions, focus, sleep (optional)'}
+                </Button>
+              </div>
             </CardContent>
           </Card>
 
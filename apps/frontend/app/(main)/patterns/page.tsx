@@ -17,6 +17,7 @@ import {
   BarChart,
   Bar,
   Cell,
+  ErrorBar,
 } from 'recharts';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -24,7 +25,35 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { PatternInsightsCard } from '@/components/pattern-insights/PatternInsightsCard';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
+import {
+  analyzePatterns,
+  CooldownComparison,
+  CooldownGroup,
+  fetchAllEmotionChecks,
+  fetchAllTrades,
+  DateRangeKey,
+  EmotionLevelBucket,
+  EmotionPerformancePoint,
+  filterByDateRange,
+  PatternInsights,
+  WeeklyTrendPoint,
+} from '@/lib/analytics/pattern-analytics';
+import { formatRMultiple, getTradeTime } from '@/lib/trade-metrics';
+import { getMostExpensiveHabits, TagCost } from '@/lib/analytics/mistake-costs';
+import { useTradeTagStore } from '@/lib/trade-tag-store';
+import { useLinkWindowMs, useWeekOptions } from '@/lib/settings-store';
+import {
+  DIMENSION_BANDS,
+  DimensionBand,
+  EmotionDimensionFilter,
+  isDimensionFilterActive,
+  NAMED_EMOTIONS,
+  SCALE_DIMENSIONS,
+  SLEEP_BANDS,
+  SleepBand,
+} from '@/lib/emotion-dimensions';
+import { NamedEmotion } from '@/lib/types';
 import {
   TrendingUp,
   TrendingDown,
@@ -37,37 +66,12 @@ import {
   RefreshCw,
   Clock,
   Award,
+  Wind,
+  Flame,
 } from 'lucide-react';
 
-// Types for our data structures
-interface EmotionPerformanceData {
-  emotionLevel: number;
-  tradeOutcome: number; // Percentage return
-  tradeType: 'win' | 'loss' | 'breakeven';
-  date: string;
-  symbol?: string;
-  size: number; // For bubble size in scatter plot
-}
-
-interface WeeklyTrendData {
-  week: string;
-  avgEmotion: number;
-  winRate: number;
-  totalTrades: number;
-  avgReturn: number;
-}
-
-interface PatternInsights {
-  highEmotionWinRate: number;
-  bestTradingDays: string[];
-  anxietyThreshold: number;
-  optimalEmotionRange: [number, number];
-  correlationStrength: number;
-  totalPatterns: number;
-}
-
 // Date range options
-const dateRanges = [
+const dateRanges: { value: DateRangeKey; label: string }[] = [
   { value: '7d', label: 'Last 7 days' },
   { value: '30d', label: 'Last 30 days' },
   { value: '90d', label: 'Last 3 months' },
@@ -75,69 +79,8 @@ const dateRanges = [
   { value: 'all', label: 'All time' },
 ];
 
-// Mock API functions (replace with real API calls)
-const fetchEmotionPerformance = async (dateRange: string): Promise<EmotionPerformanceData[]> => {
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 1000));
-  
-  // Generate mock data based on realistic trading patterns
-  const mockData: EmotionPerformanceData[] = [];
-  const now = new Date();
-  
-  for (let i = 0; i < 50; i++) {
-    const emotionLevel = Math.floor(Math.random() * 10) + 1;
-    const date = new Date(now.getTime() - Math.random() * 90 * 24 * 60 * 60 * 1000);
-    
-    // Simulate correlation: higher emotion levels tend to have better outcomes
-    const baseReturn = (emotionLevel - 5) * 2 + (Math.random() - 0.5) * 20;
-    const tradeOutcome = Math.max(-15, Math.min(25, baseReturn));
-    
-    let tradeType: 'win' | 'loss' | 'breakeven';
-    if (tradeOutcome > 1) tradeType = 'win';
-    else if (tradeOutcome < -1) tradeType = 'loss';
-    else tradeType = 'breakeven';
-    
-    mockData.push({
-      emotionLevel,
-      tradeOutcome,
-      tradeType,
-      date: date.toISOString(),
-      symbol: ['AAPL', 'TSLA', 'NVDA', 'SPY', 'QQQ'][Math.floor(Math.random() * 5)],
-      size: Math.abs(tradeOutcome) + 5, // For bubble size
-    });
-  }
-  
-  return mockData;
-};
-
-const fetchWeeklyTrend = async (dateRange: string): Promise<WeeklyTrendData[]> => {
-  await new Promise(resolve => setTimeout(resolve, 800));
-  
-  const weeks = ['Week 1', 'Week 2', 'Week 3', 'Week 4', 'Week 5', 'Week 6'];
-  return weeks.map(week => ({
-    week,
-    avgEmotion: 4 + Math.random() * 4,
-    winRate: 40 + Math.random() * 40,
-    totalTrades: Math.floor(5 + Math.random() * 20),
-    avgReturn: -5 + Math.random() * 15,
-  }));
-};
-
-const fetchPatternInsights = async (dateRange: string): Promise<PatternInsights> => {
-  await new Promise(resolve => setTimeout(resolve, 600));
-  
-  return {
-    highEmotionWinRate: 65 + Math.random() * 20,
-    bestTradingDays: ['Tuesday', 'Thursday'],
-    anxietyThreshold: 6,
-    optimalEmotionRange: [6, 8],
-    correlationStrength: 0.65 + Math.random() * 0.25,
-    totalPatterns: Math.floor(45 + Math.random() * 30),
-  };
-};
-
 // Chart components
-function EmotionPerformanceScatter({ data, isLoading }: { data: EmotionPerformanceData[]; isLoading: boolean }) {
+function EmotionPerformanceScatter({ data, isLoading }: { data: EmotionPerformancePoint[]; isLoading: boolean }) {
   // Calculate trend line data
   const trendData = useMemo(() => {
     if (data.length === 0) return [];
@@ -145,11 +88,14 @@ function EmotionPerformanceScatter({ data, isLoading }: { data: EmotionPerforman
     // Simple linear regression
     const n = data.length;
     const sumX = data.reduce((sum, d) => sum + d.emotionLevel, 0);
-    const sumY = data.reduce((sum, d) => sum + d.tradeOutcome, 0);
-    const sumXY = data.reduce((sum, d) => sum + d.emotionLevel * d.tradeOutcome, 0);
+    const sumY = data.reduce((sum, d) => sum + d.pnl, 0);
+    const sumXY = data.reduce((sum, d) => sum + d.emotionLevel * d.pnl, 0);
     const sumXX = data.reduce((sum, d) => sum + d.emotionLevel * d.emotionLevel, 0);
     
-    const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
+    const denominator = n * sumXX - sumX * sumX;
+    if (denominator === 0) return [];
+
+    const slope = (n * sumXY - sumX * sumY) / denominator;
     const intercept = (sumY - slope * sumX) / n;
     
     return [
@@ -187,19 +133,25 @@ function EmotionPerformanceScatter({ data, isLoading }: { data: EmotionPerforman
         />
         <YAxis
           type="number"
-          domain={[-20, 30]}
-          label={{ value: 'Trade Return (%)', angle: -90, position: 'insideLeft' }}
+          dataKey="pnl"
+          domain={['auto', 'auto']}
+          label={{ value: 'P&L ($)', angle: -90, position: 'insideLeft' }}
         />
         <Tooltip
           content={({ active, payload }) => {
             if (active && payload && payload.length) {
-              const data = payload[0].payload as EmotionPerformanceData;
+              const data = payload[0].payload as EmotionPerformancePoint;
               return (
                 <div className="bg-white p-3 border rounded-lg shadow-lg">
                   <p className="font-medium">{data.symbol}</p>
                   <p>Emotion Level: {data.emotionLevel}</p>
-                  <p>Return: {data.tradeOutcome.toFixed(1)}%</p>
+                  <p>P&L: {formatCurrency(data.pnl)}</p>
+                  {data.returnPercent !== null && <p>Return: {data.returnPercent.toFixed(1)}%</p>}
+                  {data.rMultiple !== null && <p>R-Multiple: {formatRMultiple(data.rMultiple)}</p>}
                   <p>Date: {new Date(data.date).toLocaleDateString()}</p>
+                  {!data.linked && (
+                    <p className="text-xs text-muted-foreground">Matched by time to nearest pre-trade check</p>
+                  )}
                 </div>
               );
             }
@@ -256,7 +208,73 @@ function EmotionPerformanceScatter({ data, isLoading }: { data: EmotionPerforman
   );
 }
 
-function WeeklyTrendChart({ data, isLoading }: { data: WeeklyTrendData[]; isLoading: boolean }) {
+function WinRateByLevelChart({ data, isLoading }: { data: EmotionLevelBucket[]; isLoading: boolean }) {
+  if (isLoading) {
+    return (
+      <div className="h-80 w-full">
+        <Skeleton className="h-full w-full" />
+      </div>
+    );
+  }
+
+  if (data.length === 0) {
+    return (
+      <div className="h-80 w-full flex flex-col items-center justify-center text-center">
+        <AlertTriangle className="h-10 w-10 text-amber-500 mb-3" />
+        <p className="font-medium">Not enough data</p>
+        <p className="text-sm text-muted-foreground">
+          Log trades after a pre-trade emotion check to see win rates by level.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={320}>
+      <BarChart data={data} margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          dataKey="emotionLevel"
+          label={{ value: 'Emotion Level', position: 'insideBottom', offset: -10 }}
+        />
+        <YAxis
+          domain={[0, 100]}
+          label={{ value: 'Win Rate (%)', angle: -90, position: 'insideLeft' }}
+        />
+        <Tooltip
+          content={({ active, payload }) => {
+            if (active && payload && payload.length) {
+              const bucket = payload[0].payload as EmotionLevelBucket;
+              return (
+                <div className="bg-white p-3 border rounded-lg shadow-lg">
+                  <p className="font-medium">Level {bucket.emotionLevel}</p>
+                  <p>Win Rate: {bucket.winRate.toFixed(1)}%</p>
+                  <p>
+                    95% CI: {bucket.winRateInterval.lower.toFixed(0)}-{bucket.winRateInterval.upper.toFixed(0)}%
+                  </p>
+                  <p>Trades: {bucket.tradeCount}</p>
+                  {bucket.warning && <p className="text-xs text-amber-600">{bucket.warning}</p>}
+                </div>
+              );
+            }
+            return null;
+          }}
+        />
+        <Bar dataKey="winRate">
+          {data.map(bucket => (
+            <Cell
+              key={bucket.emotionLevel}
+              fill={bucket.warning ? '#d1d5db' : '#8b5cf6'}
+            />
+          ))}
+          <ErrorBar dataKey="errorY" width={6} strokeWidth={1.5} stroke="#374151" />
+        </Bar>
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
+
+function WeeklyTrendChart({ data, isLoading }: { data: WeeklyTrendPoint[]; isLoading: boolean }) {
   if (isLoading) {
     return (
       <div className="h-80 w-full">
@@ -296,6 +314,7 @@ function WeeklyTrendChart({ data, isLoading }: { data: WeeklyTrendData[]; isLoad
           stroke="#8b5cf6"
           strokeWidth={3}
           name="Avg Emotion"
+          connectNulls
           dot={{ fill: '#8b5cf6', strokeWidth: 2, r: 4 }}
         />
         <Line
@@ -305,6 +324,7 @@ function WeeklyTrendChart({ data, isLoading }: { data: WeeklyTrendData[]; isLoad
           stroke="#22c55e"
           strokeWidth={3}
           name="Win Rate"
+          connectNulls
           dot={{ fill: '#22c55e', strokeWidth: 2, r: 4 }}
         />
         <Legend />
@@ -354,61 +374,69 @@ function InsightsCard({ insights, isLoading }: { insights: PatternInsights | und
           Key Insights
         </CardTitle>
         <CardDescription>
-          AI-powered analysis of your trading patterns
+          Computed from your logged emotion checks and trades
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
         {/* High Emotion Performance */}
-        <div className="flex items-start space-x-3 p-3 bg-green-50 rounded-lg border border-green-200">
-          <TrendingUp className="h-5 w-5 text-green-600 mt-0.5" />
-          <div>
-            <p className="text-sm font-medium text-green-900">
-              High Emotion Performance
-            </p>
-            <p className="text-sm text-green-700">
-              You win <span className="font-semibold">{insights.highEmotionWinRate.toFixed(0)}%</span> of trades when emotion level is 7+
-            </p>
+        {insights.highEmotionWinRate !== null && (
+          <div className="flex items-start space-x-3 p-3 bg-green-50 rounded-lg border border-green-200">
+            <TrendingUp className="h-5 w-5 text-green-600 mt-0.5" />
+            <div>
+              <p className="text-sm font-medium text-green-900">
+                High Emotion Performance
+              </p>
+              <p className="text-sm text-green-700">
+                You win <span className="font-semibold">{insights.highEmotionWinRate.toFixed(0)}%</span> of trades when emotion level is 7+
+              </p>
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Best Trading Days */}
-        <div className="flex items-start space-x-3 p-3 bg-blue-50 rounded-lg border border-blue-200">
-          <Calendar className="h-5 w-5 text-blue-600 mt-0.5" />
-          <div>
-            <p className="text-sm font-medium text-blue-900">
-              Optimal Trading Days
-            </p>
-            <p className="text-sm text-blue-700">
-              Your best performance: <span className="font-semibold">{insights.bestTradingDays.join(', ')}</span>
-            </p>
+        {insights.bestTradingDays.length > 0 && (
+          <div className="flex items-start space-x-3 p-3 bg-blue-50 rounded-lg border border-blue-200">
+            <Calendar className="h-5 w-5 text-blue-600 mt-0.5" />
+            <div>
+              <p className="text-sm font-medium text-blue-900">
+                Optimal Trading Days
+              </p>
+              <p className="text-sm text-blue-700">
+                Your best performance: <span className="font-semibold">{insights.bestTradingDays.join(', ')}</span>
+              </p>
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Anxiety Warning */}
-        <div className="flex items-start space-x-3 p-3 bg-red-50 rounded-lg border border-red-200">
-          <AlertTriangle className="h-5 w-5 text-red-600 mt-0.5" />
-          <div>
-            <p className="text-sm font-medium text-red-900">
-              Anxiety Threshold Alert
-            </p>
-            <p className="text-sm text-red-700">
-              Consider avoiding trades when anxiety exceeds level <span className="font-semibold">{insights.anxietyThreshold}</span>
-            </p>
+        {insights.anxietyThreshold !== null && (
+          <div className="flex items-start space-x-3 p-3 bg-red-50 rounded-lg border border-red-200">
+            <AlertTriangle className="h-5 w-5 text-red-600 mt-0.5" />
+            <div>
+              <p className="text-sm font-medium text-red-900">
+                Anxiety Threshold Alert
+              </p>
+              <p className="text-sm text-red-700">
+                Consider avoiding trades when your emotion level is <span className="font-semibold">{insights.anxietyThreshold}</span> or below
+              </p>
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Optimal Range */}
-        <div className="flex items-start space-x-3 p-3 bg-purple-50 rounded-lg border border-purple-200">
-          <Target className="h-5 w-5 text-purple-600 mt-0.5" />
-          <div>
-            <p className="text-sm font-medium text-purple-900">
-              Sweet Spot Range
-            </p>
-            <p className="text-sm text-purple-700">
-              Optimal emotion range: <span className="font-semibold">{insights.optimalEmotionRange[0]}-{insights.optimalEmotionRange[1]}</span>
-            </p>
+        {insights.optimalEmotionRange && (
+          <div className="flex items-start space-x-3 p-3 bg-purple-50 rounded-lg border border-purple-200">
+            <Target className="h-5 w-5 text-purple-600 mt-0.5" />
+            <div>
+              <p className="text-sm font-medium text-purple-900">
+                Sweet Spot Range
+              </p>
+              <p className="text-sm text-purple-700">
+                Optimal emotion range: <span className="font-semibold">{insights.optimalEmotionRange[0]}-{insights.optimalEmotionRange[1]}</span>
+              </p>
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Correlation Strength */}
         <div className="flex items-center justify-between pt-3 border-t">
@@ -416,10 +444,21 @@ function InsightsCard({ insights, isLoading }: { insights: PatternInsights | und
             <BarChart3 className="h-4 w-4 text-gray-500" />
             <span className="text-sm text-gray-600">Correlation Strength:</span>
           </div>
-          <Badge variant="outline" className={getCorrelationColor(insights.correlationStrength)}>
-            {getCorrelationLabel(insights.correlationStrength)} ({(insights.correlationStrength * 100).toFixed(0)}%)
-          </Badge>
+          {insights.correlationTest.warning || insights.correlationStrength === null ? (
+            <Badge variant="secondary">Not enough data</Badge>
+          ) : (
+            <Badge variant="outline" className={getCorrelationColor(insights.correlationStrength)}>
+              {getCorrelationLabel(insights.correlationStrength)} ({(insights.correlationStrength * 100).toFixed(0)}%)
+            </Badge>
+          )}
         </div>
+        {insights.correlationTest.warning ? (
+          <p className="text-xs text-amber-600">{insights.correlationTest.warning}</p>
+        ) : !insights.correlationTest.isSignificant && insights.correlationTest.pValue !== null && (
+          <p className="text-xs text-amber-600">
+            Not statistically significant yet (p = {insights.correlationTest.pValue.toFixed(2)})
+          </p>
+        )}
 
         {/* Total Patterns */}
         <div className="flex items-center justify-between">
@@ -434,50 +473,289 @@ function InsightsCard({ insights, isLoading }: { insights: PatternInsights | und
   );
 }
 
+const ANY = 'any';
+
+function CooldownStat({ title, group }: { title: string; group: CooldownGroup }) {
+  return (
+    <div className="p-4 rounded-lg border bg-gray-50 space-y-2">
+      <p className="text-sm font-medium">{title}</p>
+      {group.tradeCount === 0 ? (
+        <p className="text-sm text-muted-foreground">No trades yet</p>
+      ) : (
+        <>
+          <p className="text-2xl font-bold">
+            {group.winRate !== null ? `${group.winRate.toFixed(0)}%` : '—'}
+            <span className="ml-1 text-sm font-normal text-muted-foreground">win rate</span>
+          </p>
+          {group.winRateInterval && (
+            <p className="text-xs text-muted-foreground">
+              95% CI {group.winRateInterval.lower.toFixed(0)}–{group.winRateInterval.upper.toFixed(0)}%
+            </p>
+          )}
+          <div className="grid grid-cols-3 gap-2 text-xs">
+            <div>
+              <p className="text-muted-foreground">Trades</p>
+              <p className="font-medium">{group.tradeCount}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Avg P&amp;L</p>
+              <p className={cn('font-medium', (group.avgPnL ?? 0) >= 0 ? 'text-green-600' : 'text-red-600')}>
+                {group.avgPnL !== null ? formatCurrency(group.avgPnL) : '—'}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Avg level</p>
+              <p className="font-medium">{group.avgEmotionLevel !== null ? group.avgEmotionLevel.toFixed(1) : '—'}</p>
+            </div>
+          </div>
+          {group.warning && <p className="text-xs text-amber-600">{group.warning}</p>}
+        </>
+      )}
+    </div>
+  );
+}
+
+function CooldownCard({ comparison, isLoading }: { comparison: CooldownComparison; isLoading: boolean }) {
+  const { withCooldown, withoutCooldown, winRateDifference } = comparison;
+  const reliable = !withCooldown.warning && !withoutCooldown.warning;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Wind className="h-5 w-5 mr-2 text-blue-500" />
+          Cool-down Effect
+        </CardTitle>
+        <CardDescription>
+          Trades whose pre-trade check followed a breathing session, compared with the rest
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <CooldownStat title="After a cool-down" group={withCooldown} />
+              <CooldownStat title="Without a cool-down" group={withoutCooldown} />
+            </div>
+            {winRateDifference !== null && (
+              <p className="text-sm">
+                {Math.abs(winRateDifference) < 1
+                  ? 'Cool-downs have made no difference to your win rate so far.'
+                  : `You win ${Math.abs(winRateDifference).toFixed(0)} points ${winRateDifference > 0 ? 'more' : 'less'} often after a cool-down.`}
+                {!reliable && (
+                  <span className="text-muted-foreground"> Too few trades to be sure yet.</span>
+                )}
+              </p>
+            )}
+            {withCooldown.tradeCount === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Finish a breathing exercise before your next pre-trade check to start comparing.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const HABIT_MONTHS = 6;
+
+function HabitMonths({ habit }: { habit: TagCost }) {
+  const recent = habit.months.slice(-HABIT_MONTHS);
+  const worst = Math.max(...recent.map(month => Math.abs(Math.min(0, month.pnl))), 1);
+
+  return (
+    <div className="flex items-end gap-1 h-8" aria-hidden="true">
+      {recent.map(month => (
+        <div
+          key={month.month}
+          title={`${month.month}: ${formatCurrency(month.pnl)} over ${month.tradeCount} trade${month.tradeCount === 1 ? '' : 's'}`}
+          className={cn('w-3 rounded-sm', month.pnl < 0 ? 'bg-red-400' : 'bg-green-300')}
+          style={{ height: `${Math.max(10, (Math.abs(Math.min(0, month.pnl)) / worst) * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ExpensiveHabitsCard({ habits, isLoading }: { habits: TagCost[]; isLoading: boolean }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Flame className="h-5 w-5 mr-2 text-red-500" />
+          Most Expensive Habits
+        </CardTitle>
+        <CardDescription>
+          Net P&amp;L of trades tagged with each mistake, with the last few months for each
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : habits.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No costly mistakes in this period. Tag your trades with mistakes to see what they cost you.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {habits.map((habit, index) => (
+              <div key={habit.tagId} className="flex items-center justify-between gap-4 p-3 rounded-lg border bg-gray-50">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">
+                    {index + 1}. {habit.label}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {habit.tradeCount} trade{habit.tradeCount === 1 ? '' : 's'} · avg {formatCurrency(habit.averagePnL)} · {habit.winRate.toFixed(0)}% win rate
+                  </p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <HabitMonths habit={habit} />
+                  <p className="text-lg font-bold text-red-600 whitespace-nowrap">-{formatCurrency(habit.cost)}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function DimensionFilterBar({
+  filter,
+  onChange,
+}: {
+  filter: EmotionDimensionFilter;
+  onChange: (filter: EmotionDimensionFilter) => void;
+}) {
+  const update = (changes: EmotionDimensionFilter) => onChange({ ...filter, ...changes });
+  const fromSelect = <T extends string>(value: string) => (value === ANY ? undefined : (value as T));
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center text-sm font-medium">
+            <Filter className="h-4 w-4 mr-2 text-muted-foreground" />
+            Filter by emotion detail
+          </div>
+          {isDimensionFilterActive(filter) && (
+            <Button variant="ghost" size="sm" onClick={() => onChange({})}>
+              Clear filters
+            </Button>
+          )}
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Emotion</p>
+            <Select
+              value={filter.emotion ?? ANY}
+              onValueChange={(value) => update({ emotion: fromSelect<NamedEmotion>(value) })}
+            >
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                {NAMED_EMOTIONS.map(emotion => (
+                  <SelectItem key={emotion.value} value={emotion.value}>{emotion.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {SCALE_DIMENSIONS.map(dimension => (
+            <div key={dimension.key} className="space-y-1">
+              <p className="text-xs text-muted-foreground">{dimension.label}</p>
+              <Select
+                value={filter[dimension.key] ?? ANY}
+                onValueChange={(value) => update({ [dimension.key]: fromSelect<DimensionBand>(value) })}
+              >
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  {DIMENSION_BANDS.map(band => (
+                    <SelectItem key={band.value} value={band.value}>{band.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Sleep</p>
+            <Select
+              value={filter.sleep ?? ANY}
+              onValueChange={(value) => update({ sleep: fromSelect<SleepBand>(value) })}
+            >
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                {SLEEP_BANDS.map(band => (
+                  <SelectItem key={band.value} value={band.value}>{band.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        {isDimensionFilterActive(filter) && (
+          <p className="text-xs text-muted-foreground mt-3">
+            Only trades whose pre-trade check recorded the selected details are included.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function PatternsPage() {
-  const [dateRange, setDateRange] = useState('30d');
+  const [dateRange, setDateRange] = useState<DateRangeKey>('30d');
+  const [dimensionFilter, setDimensionFilter] = useState<EmotionDimensionFilter>({});
 
-  // Data fetching with TanStack Query
+  // Data fetching with TanStack Query - the date range is applied client-side
   const {
-    data: emotionPerformanceData,
-    isLoading: isLoadingPerformance,
-    refetch: refetchPerformance,
+    data: emotionChecks,
+    isLoading: isLoadingChecks,
+    refetch: refetchChecks,
   } = useQuery({
-    queryKey: ['emotion-performance', dateRange],
-    queryFn: () => fetchEmotionPerformance(dateRange),
+    queryKey: ['emotions', 'all'],
+    queryFn: fetchAllEmotionChecks,
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes (formerly cacheTime)
   });
 
   const {
-    data: weeklyTrendData,
-    isLoading: isLoadingTrend,
-    refetch: refetchTrend,
+    data: trades,
+    isLoading: isLoadingTrades,
+    refetch: refetchTrades,
   } = useQuery({
-    queryKey: ['weekly-trend', dateRange],
-    queryFn: () => fetchWeeklyTrend(dateRange),
+    queryKey: ['trades', 'all'],
+    queryFn: fetchAllTrades,
     staleTime: 5 * 60 * 1000,
     gcTime: 10 * 60 * 1000,
   });
 
-  const {
-    data: insightsData,
-    isLoading: isLoadingInsights,
-    refetch: refetchInsights,
-  } = useQuery({
-    queryKey: ['pattern-insights', dateRange],
-    queryFn: () => fetchPatternInsights(dateRange),
-    staleTime: 5 * 60 * 1000,
-    gcTime: 10 * 60 * 1000,
-  });
+  const linkWindowMs = useLinkWindowMs();
+  const weekOptions = useWeekOptions();
+  const analysis = useMemo(
+    () => analyzePatterns(
+      emotionChecks || [], trades || [], dateRange, new Date(), linkWindowMs, dimensionFilter, weekOptions
+    ),
+    [emotionChecks, trades, dateRange, linkWindowMs, dimensionFilter, weekOptions]
+  );
+
+  const tradeTags = useTradeTagStore(state => state.tags);
+  const expensiveHabits = useMemo(
+    () => getMostExpensiveHabits(
+      filterByDateRange(trades || [], getTradeTime, dateRange), tradeTags, weekOptions.timezone
+    ),
+    [trades, dateRange, tradeTags, weekOptions.timezone]
+  );
 
   const handleRefresh = () => {
-    refetchPerformance();
-    refetchTrend();
-    refetchInsights();
+    refetchChecks();
+    refetchTrades();
   };
 
-  const isAnyLoading = isLoadingPerformance || isLoadingTrend || isLoadingInsights;
+  const isAnyLoading = isLoadingChecks || isLoadingTrades;
+  const emotionPerformanceData = analysis.points;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 p-4 pb-24">
@@ -493,7 +771,7 @@ export default function PatternsPage() {
           
           <div className="flex items-center space-x-3">
             {/* Date Range Filter */}
-            <Select value={dateRange} onValueChange={setDateRange}>
+            <Select value={dateRange} onValueChange={(value) => setDateRange(value as DateRangeKey)}>
               <SelectTrigger className="w-40">
                 <SelectValue />
               </SelectTrigger>
@@ -518,6 +796,8 @@ export default function PatternsPage() {
           </div>
         </div>
 
+        <DimensionFilterBar filter={dimensionFilter} onChange={setDimensionFilter} />
+
         {/* Stats Overview */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <Card>
@@ -526,10 +806,10 @@ export default function PatternsPage() {
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Total Patterns</p>
                   <p className="text-2xl font-bold">
-                    {isLoadingInsights ? (
+                    {isAnyLoading ? (
                       <Skeleton className="h-8 w-16" />
                     ) : (
-                      insightsData?.totalPatterns || 0
+                      analysis.insights.totalPatterns
                     )}
                   </p>
                 </div>
@@ -544,10 +824,10 @@ export default function PatternsPage() {
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Data Points</p>
                   <p className="text-2xl font-bold">
-                    {isLoadingPerformance ? (
+                    {isAnyLoading ? (
                       <Skeleton className="h-8 w-16" />
                     ) : (
-                      emotionPerformanceData?.length || 0
+                      emotionPerformanceData.length
                     )}
                   </p>
                 </div>
@@ -578,23 +858,44 @@ export default function PatternsPage() {
             <CardHeader>
               <CardTitle>Emotion vs Trade Performance</CardTitle>
               <CardDescription>
-                Each point represents a trade. Higher emotion levels tend to correlate with better outcomes.
+                Each point is a trade plotted against the emotion level of its pre-trade check.
               </CardDescription>
             </CardHeader>
             <CardContent>
               <EmotionPerformanceScatter
-                data={emotionPerformanceData || []}
-                isLoading={isLoadingPerformance}
+                data={emotionPerformanceData}
+                isLoading={isAnyLoading}
               />
             </CardContent>
           </Card>
 
           {/* Key Insights */}
-          <div>
-            <PatternInsightsCard />
+          <div className="space-y-6">
+            <InsightsCard insights={analysis.insights} isLoading={isAnyLoading} />
+            <PatternInsightsCard dateRange={dateRange} />
           </div>
         </div>
 
+        {/* Win Rate by Emotion Level */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Win Rate by Emotion Level</CardTitle>
+            <CardDescription>
+              Error bars show the 95% bootstrap confidence interval. Grey bars have too few trades to rely on.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WinRateByLevelChart
+              data={analysis.buckets}
+              isLoading={isAnyLoading}
+            />
+          </CardContent>
+        </Card>
+
+        <CooldownCard comparison={analysis.cooldown} isLoading={isAnyLoading} />
+
+        <ExpensiveHabitsCard habits={expensiveHabits} isLoading={isLoadingTrades} />
+
         {/* Weekly Trend Chart */}
         <Card>
           <CardHeader>
@@ -605,14 +906,14 @@ export default function PatternsPage() {
           </CardHeader>
           <CardContent>
             <WeeklyTrendChart
-              data={weeklyTrendData || []}
-              isLoading={isLoadingTrend}
+              data={analysis.weeklyTrend}
+              isLoading={isAnyLoading}
             />
           </CardContent>
         </Card>
 
         {/* Empty State */}
-        {!isAnyLoading && (!emotionPerformanceData || emotionPerformanceData.length === 0) && (
+        {!isAnyLoading && emotionPerformanceData.length === 0 && (
           <Card className="text-center py-12">
             <CardContent>
               <BarChart3 className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
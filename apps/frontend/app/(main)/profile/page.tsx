@@ -1,49 +1,146 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ValidatedInput } from '@/components/form/ValidatedInput';
+import { DataExportCard } from '@/components/profile/DataExportCard';
+import { ReadinessRulesCard } from '@/components/profile/ReadinessRulesCard';
+import { BreathingSettingsCard } from '@/components/profile/BreathingSettingsCard';
+import { TradeTagsCard } from '@/components/profile/TradeTagsCard';
+import { TwoFactorCard } from '@/components/profile/TwoFactorCard';
+import { useToast } from '@/hooks/use-toast';
+import { apiClient } from '@/lib/api-client';
+import { useAuthStore } from '@/lib/auth-store';
+import { clearSession } from '@/lib/auth/session';
+import { fetchAllEmotionChecks, fetchAllTrades } from '@/lib/analytics/pattern-analytics';
+import { computeProfileStats } from '@/lib/analytics/profile-stats';
+import { MAX_GRACE_DAYS } from '@/lib/analytics/streaks';
+import { getDeviceTimezone, isValidTimezone, WEEKDAY_NAMES, WeekStartDay } from '@/lib/calendar';
+import { useOutboxStore } from '@/lib/outbox-store';
+import { useSettingsStore } from '@/lib/settings-store';
+import { UserUpdateRequest } from '@/lib/types';
+import { formatCurrency, getEmotionLabel } from '@/lib/utils';
 import { User, Mail, Clock, Target, TrendingUp, Calendar, Settings, LogOut } from 'lucide-react';
 
-// Mock user data
-const userData = {
-  id: '1',
-  email: 'trader@example.com',
-  createdAt: new Date('2024-01-15'),
-  timezone: 'America/New_York',
-  streakCount: 12,
-  lastCheckDate: new Date(),
-  isActive: true,
-  stats: {
-    totalTrades: 156,
-    totalEmotionChecks: 189,
-    avgEmotionLevel: 6.2,
-    winRate: 0.68,
-    totalPnL: 2450,
-    bestStreak: 15,
-    currentStreak: 12
-  }
-};
+function StatValue({ loading, children }: { loading: boolean; children: React.ReactNode }) {
+  if (loading) return <Skeleton className="h-8 w-16 mx-auto" />;
+  return <>{children}</>;
+}
 
 export default function ProfilePage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user: storedUser, updateUser } = useAuthStore();
   const [isEditing, setIsEditing] = useState(false);
-  const [email, setEmail] = useState(userData.email);
-  const [timezone, setTimezone] = useState(userData.timezone);
+  const [firstName, setFirstName] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [timezone, setTimezone] = useState('');
+  const [timezoneError, setTimezoneError] = useState<string | undefined>();
+
+  const { data: fetchedUser, isLoading: userLoading } = useQuery({
+    queryKey: ['user', 'me'],
+    queryFn: () => apiClient.getCurrentUser(),
+  });
+
+  const { data: emotionChecks = [], isLoading: emotionsLoading } = useQuery({
+    queryKey: ['emotions', 'all'],
+    queryFn: fetchAllEmotionChecks,
+  });
+
+  const { data: trades = [], isLoading: tradesLoading } = useQuery({
+    queryKey: ['trades', 'all'],
+    queryFn: fetchAllTrades,
+  });
+
+  // Fall back to the persisted login user until /auth/me responds
+  const user = fetchedUser || storedUser;
+  const statsLoading = emotionsLoading || tradesLoading;
+  const { streakGraceDays, setStreakGraceDays, weekStartsOn, setWeekStartsOn } = useSettingsStore();
+  const unsyncedCount = useOutboxStore(state => state.operations.length);
+  const stats = useMemo(
+    () => computeProfileStats(emotionChecks, trades, { timezone: user?.timezone, graceDays: streakGraceDays }),
+    [emotionChecks, trades, user?.timezone, streakGraceDays]
+  );
+
+  useEffect(() => {
+    if (fetchedUser) updateUser(fetchedUser);
+  }, [fetchedUser, updateUser]);
+
+  const resetForm = () => {
+    setFirstName(user?.firstName || '');
+    setLastName(user?.lastName || '');
+    setTimezone(user?.timezone || getDeviceTimezone());
+    setTimezoneError(undefined);
+  };
+
+  const updateProfileMutation = useMutation({
+    mutationFn: (data: UserUpdateRequest) => apiClient.updateCurrentUser(data),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['user', 'me'], updated);
+      updateUser(updated);
+      setIsEditing(false);
+      toast({
+        title: 'Profile updated',
+        description: 'Your account details have been saved.',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Could not save profile',
+        description: error?.message || 'Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleEdit = () => {
+    resetForm();
+    setIsEditing(true);
+  };
 
   const handleSave = () => {
-    // TODO: Implement API call to update user profile
-    setIsEditing(false);
+    const trimmedTimezone = timezone.trim();
+    if (!isValidTimezone(trimmedTimezone)) {
+      setTimezoneError('Enter an IANA timezone such as America/New_York');
+      return;
+    }
+
+    updateProfileMutation.mutate({
+      firstName: firstName.trim() || undefined,
+      lastName: lastName.trim() || undefined,
+      timezone: trimmedTimezone,
+    });
   };
 
   const handleLogout = () => {
-    // TODO: Implement logout functionality
-    console.log('Logging out...');
+    // Queued writes stay on this device under the user's id until they sign back in
+    if (
+      unsyncedCount > 0 &&
+      !confirm(
+        `${unsyncedCount} change${unsyncedCount === 1 ? " hasn't" : "s haven't"} synced yet. ` +
+        'They will stay on this device and sync the next time you sign in. Sign out anyway?'
+      )
+    ) {
+      return;
+    }
+
+    clearSession(queryClient);
+    router.push('/auth/login');
   };
 
+  const displayName = [user?.firstName, user?.lastName].filter(Boolean).join(' ');
+  const consistency = stats.checkedTradeRate;
+
   return (
     <div className="container mx-auto p-4 space-y-6">
       <div className="space-y-2">
@@ -72,50 +169,72 @@ export default function ProfilePage() {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="flex items-center justify-between">
-                <div className="space-y-1">
-                  <Label className="text-sm font-medium">Email</Label>
-                  <p className="text-sm text-muted-foreground">{userData.email}</p>
+              {!user && userLoading ? (
+                <div className="space-y-3">
+                  <Skeleton className="h-10 w-full" />
+                  <Skeleton className="h-10 w-full" />
+                  <Skeleton className="h-10 w-full" />
                 </div>
-                <Mail className="h-4 w-4 text-muted-foreground" />
-              </div>
-              
-              <div className="flex items-center justify-between">
-                <div className="space-y-1">
-                  <Label className="text-sm font-medium">Member Since</Label>
-                  <p className="text-sm text-muted-foreground">
-                    {userData.createdAt.toLocaleDateString('en-US', { 
-                      year: 'numeric', 
-                      month: 'long', 
-                      day: 'numeric' 
-                    })}
-                  </p>
-                </div>
-                <Calendar className="h-4 w-4 text-muted-foreground" />
-              </div>
+              ) : (
+                <>
+                  {displayName && (
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-1">
+                        <Label className="text-sm font-medium">Name</Label>
+                        <p className="text-sm text-muted-foreground">{displayName}</p>
+                      </div>
+                      <User className="h-4 w-4 text-muted-foreground" />
+                    </div>
+                  )}
 
-              <div className="flex items-center justify-between">
-                <div className="space-y-1">
-                  <Label className="text-sm font-medium">Current Streak</Label>
-                  <div className="flex items-center gap-2">
-                    <Badge variant="default" className="bg-success text-white">
-                      {userData.streakCount} days
-                    </Badge>
-                    <span className="text-xs text-muted-foreground">
-                      Keep it up!
-                    </span>
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-1">
+                      <Label className="text-sm font-medium">Email</Label>
+                      <p className="text-sm text-muted-foreground">{user?.email || '—'}</p>
+                    </div>
+                    <Mail className="h-4 w-4 text-muted-foreground" />
                   </div>
-                </div>
-                <Target className="h-4 w-4 text-muted-foreground" />
-              </div>
 
-              <div className="flex items-center justify-between">
-                <div className="space-y-1">
-                  <Label className="text-sm font-medium">Timezone</Label>
-                  <p className="text-sm text-muted-foreground">{userData.timezone}</p>
-                </div>
-                <Clock className="h-4 w-4 text-muted-foreground" />
-              </div>
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-1">
+                      <Label className="text-sm font-medium">Member Since</Label>
+                      <p className="text-sm text-muted-foreground">
+                        {user?.createdAt
+                          ? new Date(user.createdAt).toLocaleDateString('en-US', {
+                              year: 'numeric',
+                              month: 'long',
+                              day: 'numeric'
+                            })
+                          : '—'}
+                      </p>
+                    </div>
+                    <Calendar className="h-4 w-4 text-muted-foreground" />
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-1">
+                      <Label className="text-sm font-medium">Current Streak</Label>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="default" className="bg-success text-white">
+                          {stats.currentStreak} days
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {stats.currentStreak > 0 ? 'Keep it up!' : 'Check in today to start a streak'}
+                        </span>
+                      </div>
+                    </div>
+                    <Target className="h-4 w-4 text-muted-foreground" />
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-1">
+                      <Label className="text-sm font-medium">Timezone</Label>
+                      <p className="text-sm text-muted-foreground">{user?.timezone || getDeviceTimezone()}</p>
+                    </div>
+                    <Clock className="h-4 w-4 text-muted-foreground" />
+                  </div>
+                </>
+              )}
             </CardContent>
           </Card>
 
@@ -127,25 +246,33 @@ export default function ProfilePage() {
             <CardContent>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 <div className="text-center space-y-1">
-                  <p className="text-2xl font-bold text-primary">{userData.stats.totalTrades}</p>
+                  <StatValue loading={statsLoading}>
+                    <p className="text-2xl font-bold text-primary">{stats.totalTrades}</p>
+                  </StatValue>
                   <p className="text-xs text-muted-foreground">Total Trades</p>
                 </div>
                 <div className="text-center space-y-1">
-                  <p className="text-2xl font-bold text-success">
-                    {(userData.stats.winRate * 100).toFixed(1)}%
-                  </p>
+                  <StatValue loading={statsLoading}>
+                    <p className="text-2xl font-bold text-success">
+                      {stats.winRate !== null ? `${(stats.winRate * 100).toFixed(1)}%` : '—'}
+                    </p>
+                  </StatValue>
                   <p className="text-xs text-muted-foreground">Win Rate</p>
                 </div>
                 <div className="text-center space-y-1">
-                  <p className="text-2xl font-bold text-primary">
-                    ${userData.stats.totalPnL.toLocaleString()}
-                  </p>
+                  <StatValue loading={statsLoading}>
+                    <p className={`text-2xl font-bold ${stats.totalPnL >= 0 ? 'text-primary' : 'text-destructive'}`}>
+                      {formatCurrency(stats.totalPnL)}
+                    </p>
+                  </StatValue>
                   <p className="text-xs text-muted-foreground">Total P&L</p>
                 </div>
                 <div className="text-center space-y-1">
-                  <p className="text-2xl font-bold text-warning">
-                    {userData.stats.avgEmotionLevel.toFixed(1)}
-                  </p>
+                  <StatValue loading={statsLoading}>
+                    <p className="text-2xl font-bold text-warning">
+                      {stats.avgEmotionLevel !== null ? stats.avgEmotionLevel.toFixed(1) : '—'}
+                    </p>
+                  </StatValue>
                   <p className="text-xs text-muted-foreground">Avg Emotion</p>
                 </div>
               </div>
@@ -163,23 +290,23 @@ export default function ProfilePage() {
               <CardContent className="space-y-4">
                 <div className="flex justify-between items-center">
                   <span className="text-sm font-medium">Total Trades</span>
-                  <Badge variant="outline">{userData.stats.totalTrades}</Badge>
+                  <Badge variant="outline">{stats.totalTrades}</Badge>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-sm font-medium">Win Rate</span>
-                  <Badge variant={userData.stats.winRate >= 0.6 ? "default" : "secondary"}>
-                    {(userData.stats.winRate * 100).toFixed(1)}%
+                  <Badge variant={stats.winRate !== null && stats.winRate >= 0.6 ? "default" : "secondary"}>
+                    {stats.winRate !== null ? `${(stats.winRate * 100).toFixed(1)}%` : '—'}
                   </Badge>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-sm font-medium">Total P&L</span>
-                  <Badge variant={userData.stats.totalPnL >= 0 ? "default" : "destructive"}>
-                    ${userData.stats.totalPnL.toLocaleString()}
+                  <Badge variant={stats.totalPnL >= 0 ? "default" : "destructive"}>
+                    {formatCurrency(stats.totalPnL)}
                   </Badge>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-sm font-medium">Best Streak</span>
-                  <Badge variant="outline">{userData.stats.bestStreak} days</Badge>
+                  <Badge variant="outline">{stats.bestStreak} days</Badge>
                 </div>
               </CardContent>
             </Card>
@@ -192,22 +319,22 @@ export default function ProfilePage() {
               <CardContent className="space-y-4">
                 <div className="flex justify-between items-center">
                   <span className="text-sm font-medium">Total Checks</span>
-                  <Badge variant="outline">{userData.stats.totalEmotionChecks}</Badge>
+                  <Badge variant="outline">{stats.totalEmotionChecks}</Badge>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-sm font-medium">Average Level</span>
                   <Badge variant="secondary">
-                    {userData.stats.avgEmotionLevel.toFixed(1)}/10
+                    {stats.avgEmotionLevel !== null ? `${stats.avgEmotionLevel.toFixed(1)}/10` : '—'}
                   </Badge>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-sm font-medium">Current Streak</span>
-                  <Badge variant="default">{userData.stats.currentStreak} days</Badge>
+                  <Badge variant="default">{stats.currentStreak} days</Badge>
                 </div>
                 <div className="flex justify-between items-center">
-                  <span className="text-sm font-medium">Consistency</span>
+                  <span className="text-sm font-medium">Trades With a Check</span>
                   <Badge variant="default">
-                    {((userData.stats.totalEmotionChecks / userData.stats.totalTrades) * 100).toFixed(0)}%
+                    {consistency !== null ? `${(consistency * 100).toFixed(0)}%` : '—'}
                   </Badge>
                 </div>
               </CardContent>
@@ -220,35 +347,59 @@ export default function ProfilePage() {
               <CardDescription>Key metrics about your trading journey</CardDescription>
             </CardHeader>
             <CardContent className="space-y-3">
-              <div className="p-4 bg-green-50 rounded-lg border border-green-200">
-                <div className="flex items-center gap-2">
-                  <TrendingUp className="h-4 w-4 text-green-600" />
-                  <h4 className="font-semibold text-green-900">Strong Performance</h4>
-                </div>
-                <p className="text-sm text-green-700 mt-1">
-                  Your {(userData.stats.winRate * 100).toFixed(1)}% win rate is above the typical 60% benchmark for successful traders.
+              {stats.totalTrades === 0 && stats.totalEmotionChecks === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Log emotion checks and trades to see insights about your trading journey.
                 </p>
-              </div>
-              
-              <div className="p-4 bg-blue-50 rounded-lg border border-blue-200">
-                <div className="flex items-center gap-2">
-                  <Target className="h-4 w-4 text-blue-600" />
-                  <h4 className="font-semibold text-blue-900">Consistent Tracking</h4>
+              )}
+
+              {stats.winRate !== null && (
+                stats.winRate >= 0.6 ? (
+                  <div className="p-4 bg-green-50 rounded-lg border border-green-200">
+                    <div className="flex items-center gap-2">
+                      <TrendingUp className="h-4 w-4 text-green-600" />
+                      <h4 className="font-semibold text-green-900">Strong Performance</h4>
+                    </div>
+                    <p className="text-sm text-green-700 mt-1">
+                      Your {(stats.winRate * 100).toFixed(1)}% win rate is above the typical 60% benchmark for successful traders.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="p-4 bg-slate-50 rounded-lg border border-slate-200">
+                    <div className="flex items-center gap-2">
+                      <TrendingUp className="h-4 w-4 text-slate-600" />
+                      <h4 className="font-semibold text-slate-900">Room to Grow</h4>
+                    </div>
+                    <p className="text-sm text-slate-700 mt-1">
+                      Your win rate is {(stats.winRate * 100).toFixed(1)}% across {stats.totalTrades} trades. Check the Patterns tab to see which emotional states hurt your results.
+                    </p>
+                  </div>
+                )
+              )}
+
+              {stats.currentStreak > 0 && (
+                <div className="p-4 bg-blue-50 rounded-lg border border-blue-200">
+                  <div className="flex items-center gap-2">
+                    <Target className="h-4 w-4 text-blue-600" />
+                    <h4 className="font-semibold text-blue-900">Consistent Tracking</h4>
+                  </div>
+                  <p className="text-sm text-blue-700 mt-1">
+                    You&apos;ve maintained a {stats.currentStreak}-day streak of emotion tracking. Keep building this habit!
+                  </p>
                 </div>
-                <p className="text-sm text-blue-700 mt-1">
-                  You&apos;ve maintained a {userData.streakCount}-day streak of emotion tracking. Keep building this habit!
-                </p>
-              </div>
+              )}
 
-              <div className="p-4 bg-amber-50 rounded-lg border border-amber-200">
-                <div className="flex items-center gap-2">
-                  <User className="h-4 w-4 text-amber-600" />
-                  <h4 className="font-semibold text-amber-900">Emotional Awareness</h4>
+              {stats.avgEmotionLevel !== null && (
+                <div className="p-4 bg-amber-50 rounded-lg border border-amber-200">
+                  <div className="flex items-center gap-2">
+                    <User className="h-4 w-4 text-amber-600" />
+                    <h4 className="font-semibold text-amber-900">Emotional Awareness</h4>
+                  </div>
+                  <p className="text-sm text-amber-700 mt-1">
+                    Your average emotion level is {stats.avgEmotionLevel.toFixed(1)} ({getEmotionLabel(Math.round(stats.avgEmotionLevel)).toLowerCase()}) across {stats.totalEmotionChecks} checks.
+                  </p>
                 </div>
-                <p className="text-sm text-amber-700 mt-1">
-                  Your average emotion level of {userData.stats.avgEmotionLevel.toFixed(1)} suggests good emotional control during trading.
-                </p>
-              </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -270,37 +421,136 @@ export default function ProfilePage() {
                 <Input
                   id="email"
                   type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
+                  value={user?.email || ''}
+                  disabled
+                />
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <ValidatedInput
+                  id="firstName"
+                  label="First Name"
+                  value={isEditing ? firstName : user?.firstName || ''}
+                  onChange={(e) => setFirstName(e.target.value)}
+                  disabled={!isEditing}
+                  maxLength={50}
+                />
+                <ValidatedInput
+                  id="lastName"
+                  label="Last Name"
+                  value={isEditing ? lastName : user?.lastName || ''}
+                  onChange={(e) => setLastName(e.target.value)}
                   disabled={!isEditing}
+                  maxLength={50}
                 />
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="timezone">Timezone</Label>
-                <Input
+                <ValidatedInput
                   id="timezone"
-                  value={timezone}
-                  onChange={(e) => setTimezone(e.target.value)}
+                  label="Timezone"
+                  value={isEditing ? timezone : user?.timezone || ''}
+                  onChange={(e) => {
+                    setTimezone(e.target.value);
+                    setTimezoneError(undefined);
+                  }}
                   disabled={!isEditing}
+                  error={timezoneError}
+                  hint="Used for streaks and weekly reflections"
                 />
+                {isEditing && timezone !== getDeviceTimezone() && (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0"
+                    onClick={() => {
+                      setTimezone(getDeviceTimezone());
+                      setTimezoneError(undefined);
+                    }}
+                  >
+                    Use this device&apos;s timezone ({getDeviceTimezone()})
+                  </Button>
+                )}
               </div>
 
               <div className="flex gap-2 pt-4">
                 {isEditing ? (
                   <>
-                    <Button onClick={handleSave}>Save Changes</Button>
-                    <Button variant="outline" onClick={() => setIsEditing(false)}>
+                    <Button onClick={handleSave} disabled={updateProfileMutation.isPending}>
+                      {updateProfileMutation.isPending ? 'Saving...' : 'Save Changes'}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => setIsEditing(false)}
+                      disabled={updateProfileMutation.isPending}
+                    >
                       Cancel
                     </Button>
                   </>
                 ) : (
-                  <Button onClick={() => setIsEditing(true)}>Edit Profile</Button>
+                  <Button onClick={handleEdit} disabled={!user}>Edit Profile</Button>
                 )}
               </div>
             </CardContent>
           </Card>
 
+          <TwoFactorCard />
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calendar className="h-5 w-5" />
+                Calendar &amp; Streaks
+              </CardTitle>
+              <CardDescription>
+                Days and weeks are counted in your profile timezone
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Label htmlFor="weekStartsOn">Week starts on</Label>
+              <Select
+                id="weekStartsOn"
+                value={String(weekStartsOn)}
+                onValueChange={(value) => setWeekStartsOn(Number(value) as WeekStartDay)}
+              >
+                <SelectContent>
+                  {WEEKDAY_NAMES.map((name, day) => (
+                    <SelectItem key={name} value={String(day)}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground pb-2">
+                Weekly prompts, reflections and weekly charts all use this week.
+              </p>
+
+              <Label htmlFor="streakGraceDays">Streak freeze</Label>
+              <Select
+                id="streakGraceDays"
+                value={String(streakGraceDays)}
+                onValueChange={(value) => setStreakGraceDays(Number(value))}
+              >
+                <SelectContent>
+                  {Array.from({ length: MAX_GRACE_DAYS + 1 }, (_, days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days === 0 ? 'Off - every day counts' : `Allow ${days} missed day${days === 1 ? '' : 's'} in a row`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                Missed days within the allowance keep your streak alive but are not added to it.
+              </p>
+            </CardContent>
+          </Card>
+
+          <ReadinessRulesCard />
+
+          <BreathingSettingsCard />
+
+          <TradeTagsCard />
+
+          <DataExportCard />
+
           <Card>
             <CardHeader>
               <CardTitle>Account Actions</CardTitle>
@@ -309,16 +559,6 @@ export default function ProfilePage() {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <Button variant="outline" className="w-full justify-start">
-                <Settings className="h-4 w-4 mr-2" />
-                Export Data
-              </Button>
-              
-              <Button variant="outline" className="w-full justify-start">
-                <User className="h-4 w-4 mr-2" />
-                Reset Statistics
-              </Button>
-              
               <Button 
                 variant="destructive" 
                 className="w-full justify-start"
@@ -327,6 +567,12 @@ export default function ProfilePage() {
                 <LogOut className="h-4 w-4 mr-2" />
                 Sign Out
               </Button>
+              {unsyncedCount > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {unsyncedCount} change{unsyncedCount === 1 ? ' is' : 's are'} waiting to sync.
+                  Reconnect before signing out to send them now.
+                </p>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -9,12 +9,22 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { apiClient } from '@/lib/api-client';
-import { WeeklyReflection, MonthlyGoal, WeeklyReflectionRequest, MonthlyGoalRequest } from '@/lib/types';
+import { WeeklyReflection, WeeklyReflectionRequest } from '@/lib/types';
+import { WeeklySessionSummary } from '@/components/session/WeeklySessionSummary';
+import { DraftSuggestion } from '@/components/reflection/DraftSuggestion';
+import { MonthlyGoalsSection } from '@/components/goals/MonthlyGoalsSection';
 import { WeeklyPromptCard } from '@/components/weekly-prompt/WeeklyPrompt';
+import { dayKeyToDate, getWeekKey, getWeekRange, getWeekStartKey } from '@/lib/calendar';
+import { fetchAllEmotionChecks, fetchAllTrades } from '@/lib/analytics/pattern-analytics';
+import { buildWeeklySessionSummary } from '@/lib/analytics/daily-session';
+import { buildReflectionDraft, formatDraftBullets, REFLECTION_FIELDS, ReflectionDraft, ReflectionField } from '@/lib/analytics/reflection-draft';
+import { useTradeTagStore } from '@/lib/trade-tag-store';
+import { useAuthStore } from '@/lib/auth-store';
+import { useLinkWindowMs, useWeekOptions } from '@/lib/settings-store';
+import { useWeeklyPromptStore } from '@/lib/weekly-prompt-store';
 import { 
   BookOpen, 
   Brain, 
-  Target, 
   TrendingUp, 
   Clock, 
   Calendar,
@@ -22,11 +32,13 @@ import {
   Edit3,
   Save,
   X,
-  Loader2
+  Loader2,
+  Sparkles
 } from 'lucide-react';
 
 export default function ReflectionPage() {
-  const [isEditing, setIsEditing] = useState(false);
+  // The new-reflection form is a tab without a trigger, opened from the buttons below
+  const [activeTab, setActiveTab] = useState('weekly');
   const [newReflection, setNewReflection] = useState({
     wins: '',
     losses: '',
@@ -34,9 +46,15 @@ export default function ReflectionPage() {
     emotionalInsights: '',
     nextWeekGoals: ''
   });
-  const [newGoal, setNewGoal] = useState('');
 
   const queryClient = useQueryClient();
+  const weekOptions = useWeekOptions();
+  const answeredPrompts = useWeeklyPromptStore(state => state.answeredPrompts);
+
+  const findPromptForReflection = (reflection: WeeklyReflection) => {
+    const week = getWeekKey(reflection.weekStartDate.slice(0, 10), weekOptions);
+    return answeredPrompts.find(prompt => prompt.week === week && prompt.isAnswered);
+  };
 
   // Fetch weekly reflections
   const { data: weeklyReflections, isLoading: reflectionsLoading, error: reflectionsError } = useQuery({
@@ -50,12 +68,80 @@ export default function ReflectionPage() {
     queryFn: () => apiClient.getMonthlyGoals(),
   });
 
+  // Daily sessions, checks and trades behind each week's session summary
+  const timezone = useAuthStore(state => state.user?.timezone);
+  const currentWeek = getWeekRange(new Date(), weekOptions);
+  const sessionsFrom = (weeklyReflections || []).reduce(
+    (earliest, reflection) => (reflection.weekStartDate.slice(0, 10) < earliest ? reflection.weekStartDate.slice(0, 10) : earliest),
+    currentWeek.start
+  );
+  const { data: dailySessions } = useQuery({
+    queryKey: ['dailySessions', sessionsFrom, currentWeek.end],
+    queryFn: () => apiClient.getDailySessions(sessionsFrom, currentWeek.end),
+    enabled: !!weeklyReflections,
+  });
+  const { data: allChecks } = useQuery({
+    queryKey: ['emotions', 'all'],
+    queryFn: fetchAllEmotionChecks,
+    staleTime: 5 * 60 * 1000,
+  });
+  const { data: allTrades } = useQuery({
+    queryKey: ['trades', 'all'],
+    queryFn: fetchAllTrades,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const getSessionSummary = (weekStart: string) => {
+    if (!dailySessions || !allChecks || !allTrades) return null;
+    return buildWeeklySessionSummary(getWeekRange(weekStart, weekOptions), dailySessions, allChecks, allTrades, timezone);
+  };
+  const currentSessionSummary = getSessionSummary(currentWeek.start);
+  const tradeTags = useTradeTagStore(state => state.tags);
+
+  const windowMs = useLinkWindowMs();
+  const [draft, setDraft] = useState<ReflectionDraft | null>(null);
+
+  // Suggested bullets for each field from the week's trades, checks, sessions and goals
+  const generateDraft = () => {
+    if (!allChecks || !allTrades) return;
+    setDraft(buildReflectionDraft({
+      week: currentWeek,
+      checks: allChecks,
+      trades: allTrades,
+      goals: monthlyGoals || [],
+      tags: tradeTags,
+      sessionSummary: currentSessionSummary,
+      timezone,
+      windowMs,
+    }));
+  };
+
+  const openNewReflection = () => {
+    if (!draft) generateDraft();
+    setActiveTab('new');
+  };
+
+  // Accepted bullets go under anything already written so the user can edit them in place
+  const acceptSuggestion = (field: ReflectionField) => {
+    if (!draft) return;
+    const bullets = formatDraftBullets(draft[field]);
+    setNewReflection(prev => ({ ...prev, [field]: prev[field].trim() ? `${prev[field].trimEnd()}\n${bullets}` : bullets }));
+    dismissSuggestion(field);
+  };
+
+  const dismissSuggestion = (field: ReflectionField) => {
+    setDraft(prev => (prev ? { ...prev, [field]: [] } : prev));
+  };
+
+  const hasSuggestions = !!draft && REFLECTION_FIELDS.some(field => draft[field].length > 0);
+
   // Create weekly reflection mutation
   const createReflectionMutation = useMutation({
     mutationFn: (data: WeeklyReflectionRequest) => apiClient.createWeeklyReflection(data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['weeklyReflections'] });
-      setIsEditing(false);
+      setActiveTab('weekly');
+      setDraft(null);
       setNewReflection({
         wins: '',
         losses: '',
@@ -66,68 +152,18 @@ export default function ReflectionPage() {
     },
   });
 
-  // Create monthly goal mutation
-  const createGoalMutation = useMutation({
-    mutationFn: (data: MonthlyGoalRequest) => apiClient.createMonthlyGoal(data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['monthlyGoals'] });
-      setNewGoal('');
-    },
-  });
-
-  // Update monthly goal mutation
-  const updateGoalMutation = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<MonthlyGoalRequest> }) => 
-      apiClient.updateMonthlyGoal(id, data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['monthlyGoals'] });
-    },
-  });
-
   const handleSaveReflection = () => {
     if (!newReflection.wins || !newReflection.losses || !newReflection.lessons) {
       return; // Basic validation
     }
 
-    // Calculate the start of the current week (Monday)
-    const now = new Date();
-    const dayOfWeek = now.getDay();
-    const diff = now.getDate() - dayOfWeek + (dayOfWeek === 0 ? -6 : 1); // Adjust for Sunday
-    const weekStart = new Date(now.setDate(diff));
-    
     createReflectionMutation.mutate({
       wins: newReflection.wins,
       losses: newReflection.losses,
       lessons: newReflection.lessons,
       emotionalInsights: newReflection.emotionalInsights,
       nextWeekGoals: newReflection.nextWeekGoals,
-      weekStartDate: weekStart.toISOString().split('T')[0],
-    });
-  };
-
-  const handleCreateGoal = () => {
-    if (!newGoal.trim()) return;
-
-    const now = new Date();
-    const targetMonth = now.toISOString().substring(0, 7); // YYYY-MM format
-
-    createGoalMutation.mutate({
-      goal: newGoal,
-      targetMonth,
-      progress: 0,
-      isCompleted: false,
-    });
-  };
-
-  const handleToggleGoal = (goal: MonthlyGoal) => {
-    updateGoalMutation.mutate({
-      id: goal.id,
-      data: {
-        goal: goal.goal,
-        targetMonth: goal.targetMonth,
-        isCompleted: !goal.isCompleted,
-        progress: goal.isCompleted ? 0 : 100,
-      },
+      weekStartDate: getWeekStartKey(new Date(), weekOptions),
     });
   };
 
@@ -162,7 +198,7 @@ export default function ReflectionPage() {
         </p>
       </div>
 
-      <Tabs defaultValue="weekly" className="space-y-4">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
         <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="weekly">Weekly</TabsTrigger>
           <TabsTrigger value="prompt">Sunday Prompt</TabsTrigger>
@@ -173,7 +209,7 @@ export default function ReflectionPage() {
         <TabsContent value="weekly" className="space-y-4">
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-semibold">Weekly Reflections</h2>
-            <Button onClick={() => setIsEditing(true)} size="sm">
+            <Button onClick={openNewReflection} size="sm">
               <Plus className="h-4 w-4 mr-2" />
               New Reflection
             </Button>
@@ -181,66 +217,84 @@ export default function ReflectionPage() {
 
           <div className="space-y-4">
             {weeklyReflections && weeklyReflections.length > 0 ? (
-              weeklyReflections.map((reflection: WeeklyReflection) => (
-                <Card key={reflection.id}>
-                  <CardHeader>
-                    <div className="flex items-start justify-between">
-                      <div className="space-y-1">
-                        <CardTitle className="text-lg">
-                          Week of {new Date(reflection.weekStartDate).toLocaleDateString()}
-                        </CardTitle>
-                        <CardDescription className="flex items-center gap-4">
-                          <span className="flex items-center gap-1">
-                            <Calendar className="h-4 w-4" />
-                            {new Date(reflection.createdAt).toLocaleDateString()}
-                          </span>
-                        </CardDescription>
+              weeklyReflections.map((reflection: WeeklyReflection) => {
+                const prompt = findPromptForReflection(reflection);
+                const sessionSummary = getSessionSummary(reflection.weekStartDate.slice(0, 10));
+                return (
+                  <Card key={reflection.id}>
+                    <CardHeader>
+                      <div className="flex items-start justify-between">
+                        <div className="space-y-1">
+                          <CardTitle className="text-lg">
+                            Week of {dayKeyToDate(reflection.weekStartDate.slice(0, 10)).toLocaleDateString()}
+                          </CardTitle>
+                          <CardDescription className="flex items-center gap-4">
+                            <span className="flex items-center gap-1">
+                              <Calendar className="h-4 w-4" />
+                              {new Date(reflection.createdAt).toLocaleDateString()}
+                            </span>
+                          </CardDescription>
+                        </div>
+                        <Button variant="ghost" size="sm">
+                          <Edit3 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="grid gap-4 md:grid-cols-2">
+                        <div className="space-y-2">
+                          <Label className="text-sm font-medium text-success">✅ What Went Well</Label>
+                          <p className="text-sm text-muted-foreground bg-green-50 p-3 rounded-md">
+                            {reflection.wins}
+                          </p>
+                        </div>
+                        
+                        <div className="space-y-2">
+                          <Label className="text-sm font-medium text-destructive">❌ What Didn&apos;t Work</Label>
+                          <p className="text-sm text-muted-foreground bg-red-50 p-3 rounded-md">
+                            {reflection.losses}
+                          </p>
+                        </div>
                       </div>
-                      <Button variant="ghost" size="sm">
-                        <Edit3 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <div className="grid gap-4 md:grid-cols-2">
+
                       <div className="space-y-2">
-                        <Label className="text-sm font-medium text-success">✅ What Went Well</Label>
-                        <p className="text-sm text-muted-foreground bg-green-50 p-3 rounded-md">
-                          {reflection.wins}
+                        <Label className="text-sm font-medium text-primary">🧠 Key Lessons</Label>
+                        <p className="text-sm text-muted-foreground bg-blue-50 p-3 rounded-md">
+                          {reflection.lessons}
                         </p>
                       </div>
-                      
+
                       <div className="space-y-2">
-                        <Label className="text-sm font-medium text-destructive">❌ What Didn&apos;t Work</Label>
-                        <p className="text-sm text-muted-foreground bg-red-50 p-3 rounded-md">
-                          {reflection.losses}
+                        <Label className="text-sm font-medium text-warning">💭 Emotional Insights</Label>
+                        <p className="text-sm text-muted-foreground bg-amber-50 p-3 rounded-md">
+                          {reflection.emotionalInsights}
                         </p>
                       </div>
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label className="text-sm font-medium text-primary">🧠 Key Lessons</Label>
-                      <p className="text-sm text-muted-foreground bg-blue-50 p-3 rounded-md">
-                        {reflection.lessons}
-                      </p>
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label className="text-sm font-medium text-warning">💭 Emotional Insights</Label>
-                      <p className="text-sm text-muted-foreground bg-amber-50 p-3 rounded-md">
-                        {reflection.emotionalInsights}
-                      </p>
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label className="text-sm font-medium text-purple-600">🎯 Next Week Goals</Label>
-                      <p className="text-sm text-muted-foreground bg-purple-50 p-3 rounded-md">
-                        {reflection.nextWeekGoals}
-                      </p>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))
+
+                      <div className="space-y-2">
+                        <Label className="text-sm font-medium text-purple-600">🎯 Next Week Goals</Label>
+                        <p className="text-sm text-muted-foreground bg-purple-50 p-3 rounded-md">
+                          {reflection.nextWeekGoals}
+                        </p>
+                      </div>
+
+                      {prompt && (
+                        <div className="space-y-2">
+                          <Label className="text-sm font-medium">📝 Weekly Prompt</Label>
+                          <div className="bg-gray-50 p-3 rounded-md space-y-1">
+                            <p className="text-sm font-medium">{prompt.question}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {prompt.answer || <span className="italic">Skipped</span>}
+                            </p>
+                          </div>
+                        </div>
+                      )}
+
+                      {sessionSummary && <WeeklySessionSummary summary={sessionSummary} />}
+                    </CardContent>
+                  </Card>
+                  );
+              })
             ) : (
               <Card>
                 <CardContent className="flex flex-col items-center justify-center py-12">
@@ -249,7 +303,7 @@ export default function ReflectionPage() {
                   <p className="text-muted-foreground text-center mb-4">
                     Start your reflection journey by creating your first weekly reflection.
                   </p>
-                  <Button onClick={() => setIsEditing(true)}>
+                  <Button onClick={openNewReflection}>
                     <Plus className="h-4 w-4 mr-2" />
                     Create First Reflection
                   </Button>
@@ -270,77 +324,7 @@ export default function ReflectionPage() {
         </TabsContent>
 
         <TabsContent value="goals" className="space-y-4">
-          <div className="flex items-center justify-between">
-            <h2 className="text-xl font-semibold">Monthly Goals</h2>
-            <div className="flex gap-2">
-              <div className="flex gap-2">
-                <input
-                  type="text"
-                  placeholder="Enter new goal..."
-                  value={newGoal}
-                  onChange={(e) => setNewGoal(e.target.value)}
-                  className="px-3 py-1 text-sm border rounded-md"
-                  onKeyPress={(e) => e.key === 'Enter' && handleCreateGoal()}
-                />
-                <Button size="sm" onClick={handleCreateGoal} disabled={!newGoal.trim()}>
-                  <Target className="h-4 w-4 mr-2" />
-                  Add Goal
-                </Button>
-              </div>
-            </div>
-          </div>
-
-          <div className="grid gap-4 md:grid-cols-2">
-            {monthlyGoals && monthlyGoals.length > 0 ? (
-              monthlyGoals.map((goal: MonthlyGoal) => (
-                <Card key={goal.id}>
-                  <CardHeader className="pb-3">
-                    <div className="flex items-start justify-between">
-                      <CardTitle className="text-base">{goal.goal}</CardTitle>
-                      <div className="flex items-center gap-2">
-                        <Badge variant={goal.isCompleted ? "default" : "secondary"}>
-                          {goal.isCompleted ? "Complete" : "In Progress"}
-                        </Badge>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleToggleGoal(goal)}
-                        >
-                          {goal.isCompleted ? <X className="h-4 w-4" /> : <Save className="h-4 w-4" />}
-                        </Button>
-                      </div>
-                    </div>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-2">
-                      <div className="flex justify-between text-sm">
-                        <span>Progress</span>
-                        <span>{goal.progress || 0}%</span>
-                      </div>
-                      <div className="w-full bg-gray-200 rounded-full h-2">
-                        <div 
-                          className={`h-2 rounded-full transition-all ${
-                            goal.isCompleted ? 'bg-green-500' : (goal.progress || 0) >= 80 ? 'bg-yellow-500' : 'bg-blue-500'
-                          }`}
-                          style={{ width: `${goal.progress || 0}%` }}
-                        />
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))
-            ) : (
-              <Card className="md:col-span-2">
-                <CardContent className="flex flex-col items-center justify-center py-12">
-                  <Target className="h-12 w-12 text-muted-foreground mb-4" />
-                  <h3 className="text-lg font-medium mb-2">No goals set</h3>
-                  <p className="text-muted-foreground text-center mb-4">
-                    Set your first monthly goal to track your progress.
-                  </p>
-                </CardContent>
-              </Card>
-            )}
-          </div>
+          <MonthlyGoalsSection goals={monthlyGoals || []} />
         </TabsContent>
 
         <TabsContent value="insights" className="space-y-4">
@@ -375,6 +359,21 @@ export default function ReflectionPage() {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
+              {currentSessionSummary && <WeeklySessionSummary summary={currentSessionSummary} />}
+
+              {!hasSuggestions && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={generateDraft}
+                  disabled={!allChecks || !allTrades}
+                  className="flex items-center gap-2"
+                >
+                  <Sparkles className="h-4 w-4" />
+                  {draft ? 'Suggest again from this week' : 'Draft from this week'}
+                </Button>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="wins">What went well this week? ✅</Label>
                 <Textarea
@@ -384,6 +383,11 @@ export default function ReflectionPage() {
                   onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setNewReflection(prev => ({ ...prev, wins: e.target.value }))}
                   rows={3}
                 />
+                <DraftSuggestion
+                  bullets={draft?.wins || []}
+                  onAccept={() => acceptSuggestion('wins')}
+                  onDismiss={() => dismissSuggestion('wins')}
+                />
               </div>
 
               <div className="space-y-2">
@@ -395,6 +399,11 @@ export default function ReflectionPage() {
                   onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setNewReflection(prev => ({ ...prev, losses: e.target.value }))}
                   rows={3}
                 />
+                <DraftSuggestion
+                  bullets={draft?.losses || []}
+                  onAccept={() => acceptSuggestion('losses')}
+                  onDismiss={() => dismissSuggestion('losses')}
+                />
               </div>
 
               <div className="space-y-2">
@@ -406,6 +415,11 @@ export default function ReflectionPage() {
                   onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setNewReflection(prev => ({ ...prev, lessons: e.target.value }))}
                   rows={3}
                 />
+                <DraftSuggestion
+                  bullets={draft?.lessons || []}
+                  onAccept={() => acceptSuggestion('lessons')}
+                  onDismiss={() => dismissSuggestion('lessons')}
+                />
               </div>
 
               <div className="space-y-2">
@@ -417,6 +431,11 @@ export default function ReflectionPage() {
                   onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setNewReflection(prev => ({ ...prev, emotionalInsights: e.target.value }))}
                   rows={3}
                 />
+                <DraftSuggestion
+                  bullets={draft?.emotionalInsights || []}
+                  onAccept={() => acceptSuggestion('emotionalInsights')}
+                  onDismiss={() => dismissSuggestion('emotionalInsights')}
+                />
               </div>
 
               <div className="space-y-2">
@@ -428,6 +447,11 @@ export default function ReflectionPage() {
                   onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setNewReflection(prev => ({ ...prev, nextWeekGoals: e.target.value }))}
                   rows={3}
                 />
+                <DraftSuggestion
+                  bullets={draft?.nextWeekGoals || []}
+                  onAccept={() => acceptSuggestion('nextWeekGoals')}
+                  onDismiss={() => dismissSuggestion('nextWeekGoals')}
+                />
               </div>
 
               <div className="flex gap-2 pt-4">
@@ -0,0 +1,347 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DailyRollupCard } from '@/components/session/DailyRollupCard';
+import { useToast } from '@/hooks/use-toast';
+import { apiClient } from '@/lib/api-client';
+import { useAuthStore } from '@/lib/auth-store';
+import { useOutboxStore } from '@/lib/outbox-store';
+import { useWeekOptions } from '@/lib/settings-store';
+import { addDays, dayKeyToDate, getDayKey, getWeekRange } from '@/lib/calendar';
+import { fetchAllEmotionChecks, fetchAllTrades } from '@/lib/analytics/pattern-analytics';
+import { ADHERENCE_LABELS, buildDailyRollup, parseWatchlist } from '@/lib/analytics/daily-session';
+import { DailySession, DailySessionPlan, DailySessionRequest, DailySessionReview, MarketBias } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { ChevronLeft, ChevronRight, ClipboardList, Loader2, Save, Sunrise } from 'lucide-react';
+
+const BIASES: { value: MarketBias; label: string; className: string }[] = [
+  { value: 'bullish', label: 'Bullish', className: 'border-green-300 bg-green-50 text-green-700' },
+  { value: 'neutral', label: 'Neutral', className: 'border-gray-300 bg-gray-50 text-gray-700' },
+  { value: 'bearish', label: 'Bearish', className: 'border-red-300 bg-red-50 text-red-700' },
+];
+
+const emptyPlan = { bias: 'neutral' as MarketBias, watchlist: '', maxLoss: '', setupFocus: '' };
+const emptyReview = { planAdherence: 0, mistakes: '', notes: '', screenshots: '' };
+
+function splitLines(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+function planToForm(plan?: DailySessionPlan) {
+  if (!plan) return emptyPlan;
+  return {
+    bias: plan.bias,
+    watchlist: plan.watchlist.join(', '),
+    maxLoss: plan.maxLoss !== undefined ? plan.maxLoss.toString() : '',
+    setupFocus: plan.setupFocus || '',
+  };
+}
+
+function reviewToForm(review?: DailySessionReview) {
+  if (!review) return emptyReview;
+  return {
+    planAdherence: review.planAdherence,
+    mistakes: review.mistakes.join('\n'),
+    notes: review.notes || '',
+    screenshots: review.screenshots.join('\n'),
+  };
+}
+
+export default function DailySessionPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const timezone = useAuthStore(state => state.user?.timezone);
+  const weekOptions = useWeekOptions();
+  const submitToOutbox = useOutboxStore(state => state.submit);
+
+  const today = getDayKey(new Date(), timezone);
+  const [date, setDate] = useState(today);
+  const [plan, setPlan] = useState(emptyPlan);
+  const [review, setReview] = useState(emptyReview);
+
+  // Sessions are fetched a week at a time so stepping through days rarely refetches
+  const week = getWeekRange(date, weekOptions);
+  const { data: sessions, isLoading: sessionsLoading } = useQuery({
+    queryKey: ['dailySessions', week.start, week.end],
+    queryFn: () => apiClient.getDailySessions(week.start, week.end),
+  });
+  const session = sessions?.find((entry: DailySession) => entry.date === date);
+
+  const { data: checks, isLoading: checksLoading } = useQuery({
+    queryKey: ['emotions', 'all'],
+    queryFn: fetchAllEmotionChecks,
+    staleTime: 5 * 60 * 1000,
+  });
+  const { data: trades, isLoading: tradesLoading } = useQuery({
+    queryKey: ['trades', 'all'],
+    queryFn: fetchAllTrades,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Load the saved entry whenever the day changes or a changed copy arrives;
+  // structural sharing keeps `session` stable across refetches of other days
+  useEffect(() => {
+    setPlan(planToForm(session?.plan));
+    setReview(reviewToForm(session?.review));
+  }, [date, session]);
+
+  const savedPlan = session?.plan;
+  const rollup = useMemo(
+    () => buildDailyRollup(date, checks || [], trades || [], timezone, savedPlan),
+    [date, checks, trades, timezone, savedPlan]
+  );
+
+  const saveMutation = useMutation({
+    // Falls back to the offline outbox when the network is unavailable
+    mutationFn: (data: DailySessionRequest) => submitToOutbox('dailySession.save', { date, ...data }),
+    onSuccess: (result, data) => {
+      queryClient.invalidateQueries({ queryKey: ['dailySessions'] });
+      toast(result.queued
+        ? {
+            title: 'Session saved offline',
+            description: 'It will sync to your account when you are back online.',
+          }
+        : {
+            title: data.review ? 'Review saved 📝' : 'Plan saved 🌅',
+            description: data.review ? 'Your post-market review has been recorded.' : 'Trade your plan today.',
+          });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Failed to save session',
+        description: error.message || 'Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSavePlan = () => {
+    const maxLoss = Number(plan.maxLoss);
+    saveMutation.mutate({
+      plan: {
+        bias: plan.bias,
+        watchlist: parseWatchlist(plan.watchlist),
+        maxLoss: plan.maxLoss !== '' && maxLoss > 0 ? maxLoss : undefined,
+        setupFocus: plan.setupFocus.trim() || undefined,
+      },
+    });
+  };
+
+  const handleSaveReview = () => {
+    if (review.planAdherence === 0) return;
+    saveMutation.mutate({
+      review: {
+        planAdherence: review.planAdherence,
+        mistakes: splitLines(review.mistakes),
+        notes: review.notes.trim() || undefined,
+        screenshots: splitLines(review.screenshots),
+      },
+    });
+  };
+
+  const isFuture = date > today;
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">Daily Session</h1>
+        <p className="text-muted-foreground">
+          Plan before the open, review after the close
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => setDate(addDays(date, -1))} aria-label="Previous day">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Input
+          type="date"
+          value={date}
+          max={addDays(today, 1)}
+          onChange={(e) => e.target.value && setDate(e.target.value)}
+          className="w-auto"
+          aria-label="Session date"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setDate(addDays(date, 1))}
+          disabled={date >= addDays(today, 1)}
+          aria-label="Next day"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          {date === today ? 'Today' : dayKeyToDate(date).toLocaleDateString(undefined, { weekday: 'long' })}
+        </span>
+        {sessionsLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Sunrise className="h-5 w-5" />
+            Pre-market Plan
+          </CardTitle>
+          <CardDescription>
+            Decide what you will and won&apos;t trade before emotions get a vote
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Market bias</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {BIASES.map(bias => (
+                <button
+                  key={bias.value}
+                  type="button"
+                  onClick={() => setPlan(prev => ({ ...prev, bias: bias.value }))}
+                  className={cn(
+                    'rounded-md border p-2 text-sm font-medium transition-colors',
+                    plan.bias === bias.value ? bias.className : 'border-border text-muted-foreground hover:bg-gray-50'
+                  )}
+                  aria-pressed={plan.bias === bias.value}
+                >
+                  {bias.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="watchlist">Watchlist</Label>
+            <Input
+              id="watchlist"
+              placeholder="AAPL, MSFT, ES"
+              value={plan.watchlist}
+              onChange={(e) => setPlan(prev => ({ ...prev, watchlist: e.target.value }))}
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="maxLoss">Max loss ($)</Label>
+              <Input
+                id="maxLoss"
+                type="number"
+                min={0}
+                step="any"
+                placeholder="e.g. 300"
+                value={plan.maxLoss}
+                onChange={(e) => setPlan(prev => ({ ...prev, maxLoss: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="setupFocus">Setup focus</Label>
+              <Input
+                id="setupFocus"
+                placeholder="e.g. Opening range breakouts only"
+                value={plan.setupFocus}
+                maxLength={200}
+                onChange={(e) => setPlan(prev => ({ ...prev, setupFocus: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <Button onClick={handleSavePlan} disabled={saveMutation.isPending} className="flex items-center gap-2">
+            {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            {savedPlan ? 'Update Plan' : 'Save Plan'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <DailyRollupCard rollup={rollup} isLoading={checksLoading || tradesLoading} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Post-market Review
+          </CardTitle>
+          <CardDescription>
+            {isFuture ? 'Come back after the session to review it' : 'How well did you stick to the plan?'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Plan adherence</Label>
+            <div className="grid grid-cols-5 gap-2">
+              {ADHERENCE_LABELS.map((label, index) => {
+                const score = index + 1;
+                return (
+                  <button
+                    key={score}
+                    type="button"
+                    disabled={isFuture}
+                    onClick={() => setReview(prev => ({ ...prev, planAdherence: score }))}
+                    className={cn(
+                      'rounded-md border p-2 text-center transition-colors disabled:opacity-50',
+                      review.planAdherence === score
+                        ? 'border-primary bg-primary/10 text-primary'
+                        : 'border-border text-muted-foreground hover:bg-gray-50'
+                    )}
+                    aria-pressed={review.planAdherence === score}
+                  >
+                    <div className="text-lg font-semibold">{score}</div>
+                    <div className="text-[10px] leading-tight">{label}</div>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="mistakes">Mistakes (one per line)</Label>
+            <Textarea
+              id="mistakes"
+              placeholder={'Moved my stop\nChased an extended move'}
+              value={review.mistakes}
+              disabled={isFuture}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setReview(prev => ({ ...prev, mistakes: e.target.value }))}
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sessionNotes">Notes</Label>
+            <Textarea
+              id="sessionNotes"
+              placeholder="What stood out about today's session?"
+              value={review.notes}
+              disabled={isFuture}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setReview(prev => ({ ...prev, notes: e.target.value }))}
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="screenshots">Screenshots (one link or description per line)</Label>
+            <Textarea
+              id="screenshots"
+              placeholder={'https://www.tradingview.com/x/...\nES 5m: failed breakout at the open'}
+              value={review.screenshots}
+              disabled={isFuture}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setReview(prev => ({ ...prev, screenshots: e.target.value }))}
+              rows={3}
+            />
+          </div>
+
+          <Button
+            onClick={handleSaveReview}
+            disabled={isFuture || saveMutation.isPending || review.planAdherence === 0}
+            className="flex items-center gap-2"
+          >
+            {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            {session?.review ? 'Update Review' : 'Save Review'}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
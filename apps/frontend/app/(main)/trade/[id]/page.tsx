@@ -0,0 +1,301 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import { useParams } from 'next/navigation';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { TradeTagPicker, TradeTagSelection } from '@/components/trade/TradeTagPicker';
+import { useToast } from '@/hooks/use-toast';
+import { apiClient } from '@/lib/api-client';
+import { fetchAllEmotionChecks } from '@/lib/analytics/pattern-analytics';
+import { resolveTradeEmotionLinks } from '@/lib/analytics/trade-linking';
+import { useLinkWindowMs } from '@/lib/settings-store';
+import { formatDuration, formatRMultiple, getTradeMetrics, getTradeTime } from '@/lib/trade-metrics';
+import { EmotionCheck, Trade, TradeRequest } from '@/lib/types';
+import { cn, formatCurrency, formatDate, getEmotionColor, getEmotionLabel } from '@/lib/utils';
+import { ArrowLeft, ArrowRight, Link2, Save, Tags } from 'lucide-react';
+
+function EmotionCheckPanel({
+  title,
+  check,
+  linked,
+  onLink,
+  linking,
+  emptyText,
+}: {
+  title: string;
+  check: EmotionCheck | null;
+  linked: boolean;
+  onLink: () => void;
+  linking: boolean;
+  emptyText: string;
+}) {
+  return (
+    <div className="flex-1 p-4 rounded-lg border bg-white space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{title}</p>
+        {check && (
+          <Badge variant={linked ? 'default' : 'outline'} className="text-xs">
+            {linked ? 'Linked' : 'Suggested'}
+          </Badge>
+        )}
+      </div>
+      {check ? (
+        <>
+          <p className="text-3xl font-bold" style={{ color: getEmotionColor(check.level) }}>
+            {check.level}
+            <span className="text-sm font-normal text-muted-foreground">/10</span>
+          </p>
+          <p className="text-sm font-medium">{getEmotionLabel(check.level)}</p>
+          <p className="text-xs text-muted-foreground">
+            {formatDate(new Date(check.timestamp))}
+            {check.symbol && ` · ${check.symbol}`}
+          </p>
+          {check.notes && <p className="text-xs text-muted-foreground italic">&ldquo;{check.notes}&rdquo;</p>}
+          {!linked && (
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onLink} disabled={linking}>
+              <Link2 className="h-3 w-3 mr-1" />
+              Link to trade
+            </Button>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">{emptyText}</p>
+      )}
+    </div>
+  );
+}
+
+function TradeTagsCard({ trade }: { trade: Trade }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [selection, setSelection] = useState<TradeTagSelection>({
+    mistakeTags: trade.mistakeTags || [],
+    setupTag: trade.setupTag,
+  });
+
+  const saved = (trade.mistakeTags || []).slice().sort().join(',') === selection.mistakeTags.slice().sort().join(',') &&
+    (trade.setupTag || undefined) === selection.setupTag;
+
+  const tagMutation = useMutation({
+    mutationFn: () => apiClient.updateTrade(trade.id, {
+      mistakeTags: selection.mistakeTags,
+      setupTag: selection.setupTag ?? null,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trades'] });
+      toast({ title: 'Tags saved', description: 'Mistake costs on the Patterns page will include this trade.' });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Could not save tags',
+        description: error?.message || 'Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Tags className="h-5 w-5" />
+          Setup &amp; Mistakes
+        </CardTitle>
+        <CardDescription>What you were trading and what went wrong</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <TradeTagPicker value={selection} onChange={setSelection} disabled={tagMutation.isPending} />
+        <Button size="sm" onClick={() => tagMutation.mutate()} disabled={saved || tagMutation.isPending}>
+          <Save className="h-4 w-4 mr-2" />
+          {tagMutation.isPending ? 'Saving...' : 'Save Tags'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function TradeDetailPage() {
+  const params = useParams<{ id: string }>();
+  const tradeId = params?.id;
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const windowMs = useLinkWindowMs();
+
+  const { data: trade, isLoading: tradeLoading, error: tradeError } = useQuery({
+    queryKey: ['trades', 'detail', tradeId],
+    queryFn: () => apiClient.getTrade(tradeId as string),
+    enabled: !!tradeId,
+  });
+
+  const { data: checks = [], isLoading: checksLoading } = useQuery({
+    queryKey: ['emotions', 'all'],
+    queryFn: fetchAllEmotionChecks,
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: (data: Partial<TradeRequest>) => apiClient.updateTrade(tradeId as string, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trades'] });
+      toast({ title: 'Emotion check linked', description: 'Pattern analysis will use this link.' });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Could not link check',
+        description: error?.message || 'Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (tradeLoading || checksLoading) {
+    return (
+      <div className="max-w-md mx-auto py-8 space-y-4">
+        <Skeleton className="h-8 w-40" />
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  if (tradeError || !trade) {
+    return (
+      <div className="max-w-md mx-auto py-8 space-y-4">
+        <p className="text-muted-foreground">This trade could not be loaded.</p>
+        <Button variant="outline" asChild>
+          <Link href="/trade">Back to trades</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const metrics = getTradeMetrics(trade);
+  const links = resolveTradeEmotionLinks(trade, checks, windowMs);
+  const outcome = metrics.outcome ?? trade.outcome;
+
+  return (
+    <div className="max-w-md mx-auto py-8 space-y-6">
+      {/* Header */}
+      <div className="flex items-center space-x-3">
+        <Link href="/trade" className="text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="h-5 w-5" />
+        </Link>
+        <div className="flex-1">
+          <div className="flex items-center gap-2">
+            <h1 className="text-2xl font-bold font-mono text-gray-900">{trade.symbol}</h1>
+            <span className={cn(
+              'text-xs px-2 py-1 rounded',
+              outcome === 'win' ? 'bg-green-100 text-green-700' :
+              outcome === 'loss' ? 'bg-red-100 text-red-700' :
+              'bg-gray-100 text-gray-700'
+            )}>
+              {outcome}
+            </span>
+          </div>
+          <p className="text-muted-foreground text-sm">
+            {trade.type === 'buy' ? 'Long' : 'Short'} · {formatDate(new Date(getTradeTime(trade)))}
+          </p>
+        </div>
+        {metrics.pnl !== null && (
+          <p className={cn(
+            'text-xl font-bold',
+            metrics.pnl > 0 ? 'text-green-600' : metrics.pnl < 0 ? 'text-red-600' : 'text-gray-600'
+          )}>
+            {formatCurrency(metrics.pnl)}
+          </p>
+        )}
+      </div>
+
+      {/* Execution */}
+      <Card>
+        <CardContent className="p-4 grid grid-cols-3 gap-3 text-center">
+          <div>
+            <p className="text-xs text-muted-foreground">Entry</p>
+            <p className="text-sm font-medium">{trade.entryPrice ?? '—'}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Exit</p>
+            <p className="text-sm font-medium">{trade.exitPrice ?? '—'}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Quantity</p>
+            <p className="text-sm font-medium">{trade.quantity ?? '—'}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Return</p>
+            <p className="text-sm font-medium">
+              {metrics.returnPercent !== null ? `${metrics.returnPercent.toFixed(2)}%` : '—'}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">R-Multiple</p>
+            <p className="text-sm font-medium">
+              {metrics.rMultiple !== null ? formatRMultiple(metrics.rMultiple) : '—'}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Held</p>
+            <p className="text-sm font-medium">
+              {metrics.holdingMs !== null ? formatDuration(metrics.holdingMs) : '—'}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Emotional arc */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Emotional Arc</CardTitle>
+          <CardDescription>How you felt going into and coming out of this trade</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-stretch gap-2">
+            <EmotionCheckPanel
+              title="Before"
+              check={links.pre}
+              linked={links.preLinked}
+              linking={linkMutation.isPending}
+              onLink={() => links.pre && linkMutation.mutate({ emotionCheckId: links.pre.id })}
+              emptyText="No pre-trade check found"
+            />
+            <div className="flex items-center">
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+            </div>
+            <EmotionCheckPanel
+              title="After"
+              check={links.post}
+              linked={links.postLinked}
+              linking={linkMutation.isPending}
+              onLink={() => links.post && linkMutation.mutate({ postEmotionCheckId: links.post.id })}
+              emptyText="No post-trade check yet"
+            />
+          </div>
+
+          {links.delta ? (
+            <div className={cn(
+              'p-3 rounded-lg border',
+              links.delta.direction === 'more-anxious' ? 'bg-red-50 border-red-200' :
+              links.delta.direction === 'more-confident' ? 'bg-amber-50 border-amber-200' :
+              'bg-blue-50 border-blue-200'
+            )}>
+              <p className="text-sm font-medium">
+                Emotional delta: {links.delta.change > 0 ? '+' : ''}{links.delta.change}
+              </p>
+              <p className="text-sm text-muted-foreground">{links.delta.summary}</p>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Log both a pre-trade and a post-trade check to see how this trade shifted your emotions.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <TradeTagsCard key={trade.id} trade={trade} />
+    </div>
+  );
+}
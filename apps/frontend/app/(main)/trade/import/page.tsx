@@ -0,0 +1,404 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem } from '@/components/ui/select';
+import { ValidatedInput } from '@/components/form/ValidatedInput';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/lib/auth-store';
+import { fetchAllTrades } from '@/lib/analytics/pattern-analytics';
+import { parseCsv, ParsedCsv } from '@/lib/import/csv';
+import {
+  autoDetectMapping,
+  batchCreateTrades,
+  buildImportPreview,
+  getImportableRequests,
+  getMissingRequiredFields,
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+} from '@/lib/import/trade-import';
+import { useImportPresetStore } from '@/lib/import-preset-store';
+import { cn, formatCurrency } from '@/lib/utils';
+import { ArrowLeft, CheckCircle, Copy, FileUp, Trash2, XCircle } from 'lucide-react';
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'done';
+
+const PREVIEW_LIMIT = 50;
+
+export default function TradeImportPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuthStore();
+  const { presets, savePreset, deletePreset, findPresetForHeaders } = useImportPresetStore();
+
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [presetName, setPresetName] = useState('');
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<{ created: number; queued: number; failed: string[] } | null>(null);
+  // Flagged duplicates the user chose to import anyway, by row index
+  const [keptDuplicates, setKeptDuplicates] = useState<Record<number, boolean>>({});
+
+  // Existing trades are needed for duplicate detection
+  const { data: existingTrades, isLoading: isLoadingTrades } = useQuery({
+    queryKey: ['trades', 'all'],
+    queryFn: fetchAllTrades,
+    enabled: !!user,
+  });
+
+  const preview = useMemo(() => {
+    if (!csv || step === 'upload' || step === 'map') return [];
+    return buildImportPreview(csv.rows, mapping, existingTrades || []);
+  }, [csv, mapping, existingTrades, step]);
+
+  const importable = useMemo(() => getImportableRequests(preview, keptDuplicates), [preview, keptDuplicates]);
+  const invalidCount = preview.filter(row => row.errors.length > 0).length;
+  const duplicateCount = preview.filter(row => row.duplicateOf && !keptDuplicates[row.index]).length;
+  const missingFields = getMissingRequiredFields(mapping);
+
+  const handleFile = async (file: File) => {
+    const text = await file.text();
+    const parsed = parseCsv(text);
+
+    if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+      toast({
+        title: 'Empty file',
+        description: 'No rows were found in this CSV file.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const preset = findPresetForHeaders(parsed.headers);
+    setFileName(file.name);
+    setCsv(parsed);
+    setMapping(preset ? preset.mapping : autoDetectMapping(parsed.headers));
+    setPresetName(preset ? preset.name : '');
+    setKeptDuplicates({});
+    setStep('map');
+
+    if (preset) {
+      toast({
+        title: `Applied preset "${preset.name}"`,
+        description: 'Column mapping was restored from a saved preset.',
+      });
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, column: string) => {
+    setMapping(prev => ({ ...prev, [field]: column || undefined }));
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    savePreset(presetName, mapping);
+    toast({
+      title: 'Preset saved',
+      description: `"${presetName.trim()}" will be applied to matching files automatically.`,
+    });
+  };
+
+  const handleImport = async () => {
+    if (importable.length === 0) return;
+
+    setIsImporting(true);
+    setProgress({ completed: 0, total: importable.length });
+
+    try {
+      const batch = await batchCreateTrades(importable, (completed, total) => {
+        setProgress({ completed, total });
+      });
+
+      setResult({
+        created: batch.created.length,
+        queued: batch.queued.length,
+        failed: batch.failed.map(f => `${f.request.symbol}: ${f.error}`),
+      });
+      setStep('done');
+      queryClient.invalidateQueries({ queryKey: ['trades'] });
+
+      toast({
+        title: `Imported ${batch.created.length} trades 📈`,
+        description: batch.failed.length > 0
+          ? `${batch.failed.length} trades could not be saved.`
+          : batch.queued.length > 0
+            ? `${batch.queued.length} trades are saved offline and will sync when you're back online.`
+            : 'All selected trades were recorded.',
+        variant: batch.failed.length > 0 ? 'destructive' : undefined,
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const reset = () => {
+    setStep('upload');
+    setCsv(null);
+    setFileName('');
+    setMapping({});
+    setResult(null);
+    setKeptDuplicates({});
+  };
+
+  const toggleDuplicate = (index: number) => {
+    setKeptDuplicates(prev => ({ ...prev, [index]: !prev[index] }));
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto py-8 space-y-6">
+      {/* Header */}
+      <div className="flex items-center space-x-3">
+        <Link href="/trade" className="text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="h-5 w-5" />
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Import Trades</h1>
+          <p className="text-muted-foreground">Upload a CSV export from your broker</p>
+        </div>
+      </div>
+
+      {/* Upload */}
+      {step === 'upload' && (
+        <Card>
+          <CardContent className="p-6">
+            <label
+              htmlFor="csv-file"
+              className="flex flex-col items-center justify-center py-12 border-2 border-dashed rounded-lg cursor-pointer hover:border-primary/50"
+            >
+              <FileUp className="h-10 w-10 text-muted-foreground mb-3" />
+              <p className="font-medium">Choose a CSV file</p>
+              <p className="text-sm text-muted-foreground">Comma, semicolon or tab separated</p>
+              <input
+                id="csv-file"
+                type="file"
+                accept=".csv,text/csv,text/plain"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                }}
+              />
+            </label>
+
+            {presets.length > 0 && (
+              <div className="mt-6 space-y-2">
+                <h3 className="text-sm font-medium">Saved presets</h3>
+                {presets.map(preset => (
+                  <div key={preset.id} className="flex items-center justify-between p-2 border rounded-lg">
+                    <span className="text-sm">{preset.name}</span>
+                    <Button variant="ghost" size="sm" onClick={() => deletePreset(preset.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Column Mapping */}
+      {step === 'map' && csv && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Map Columns</CardTitle>
+            <CardDescription>
+              {fileName} · {csv.rows.length} rows. Match your broker&apos;s columns to trade fields.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map(definition => (
+                <div key={definition.field} className="space-y-1">
+                  <label className="text-sm font-medium">
+                    {definition.label}
+                    {definition.required && <span className="text-destructive ml-1">*</span>}
+                  </label>
+                  <Select
+                    value={mapping[definition.field] || ''}
+                    onValueChange={(value) => handleMappingChange(definition.field, value)}
+                  >
+                    <SelectContent>
+                      <SelectItem value="">— Not mapped —</SelectItem>
+                      {csv.headers.map(header => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-end space-x-2 pt-2 border-t">
+              <div className="flex-1">
+                <ValidatedInput
+                  id="presetName"
+                  label="Save mapping as preset"
+                  placeholder="e.g., Interactive Brokers"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                />
+              </div>
+              <Button variant="outline" onClick={handleSavePreset} disabled={!presetName.trim()}>
+                Save
+              </Button>
+            </div>
+
+            {missingFields.length > 0 && (
+              <p className="text-sm text-destructive">
+                Map required fields: {missingFields.map(f => f.label).join(', ')}
+              </p>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={reset}>Back</Button>
+              <Button onClick={() => setStep('preview')} disabled={missingFields.length > 0}>
+                Preview
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Preview */}
+      {step === 'preview' && csv && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Preview</CardTitle>
+            <CardDescription>
+              {importable.length} ready to import · {invalidCount} with errors · {duplicateCount} duplicates skipped
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoadingTrades && (
+              <p className="text-sm text-muted-foreground">Checking against your existing trades…</p>
+            )}
+
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {preview.slice(0, PREVIEW_LIMIT).map(row => (
+                <div
+                  key={row.index}
+                  className={cn(
+                    'p-3 border rounded-lg text-sm',
+                    row.errors.length > 0 ? 'bg-red-50 border-red-200' :
+                    row.duplicateOf && !keptDuplicates[row.index] ? 'bg-gray-50 border-gray-200 opacity-70' :
+                    'bg-white'
+                  )}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      {row.errors.length > 0 ? (
+                        <XCircle className="h-4 w-4 text-red-600" />
+                      ) : row.duplicateOf && !keptDuplicates[row.index] ? (
+                        <Copy className="h-4 w-4 text-gray-500" />
+                      ) : (
+                        <CheckCircle className="h-4 w-4 text-green-600" />
+                      )}
+                      <span className="text-muted-foreground">Row {row.index + 2}</span>
+                      {row.request && (
+                        <>
+                          <span className="font-mono font-bold">{row.request.symbol}</span>
+                          <span>{row.request.type}</span>
+                          <Badge variant="outline">{row.request.outcome}</Badge>
+                        </>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      {row.request?.pnl !== undefined && (
+                        <span className={cn(
+                          'font-medium',
+                          row.request.pnl > 0 ? 'text-green-600' : row.request.pnl < 0 ? 'text-red-600' : 'text-gray-600'
+                        )}>
+                          {formatCurrency(row.request.pnl)}
+                        </span>
+                      )}
+                      {row.duplicateOf && row.errors.length === 0 && (
+                        <div className="flex items-center justify-end space-x-2">
+                          <p className="text-xs text-muted-foreground">
+                            {row.duplicateOf === 'existing' ? 'Already logged' : 'Duplicate row in file'}
+                          </p>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => toggleDuplicate(row.index)}
+                            disabled={isImporting}
+                          >
+                            {keptDuplicates[row.index] ? 'Skip' : 'Import anyway'}
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  {row.errors.length > 0 && (
+                    <ul className="mt-1 ml-6 list-disc text-xs text-red-700">
+                      {row.errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                  )}
+                </div>
+              ))}
+              {preview.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-muted-foreground text-center">
+                  Showing first {PREVIEW_LIMIT} of {preview.length} rows
+                </p>
+              )}
+            </div>
+
+            {isImporting && (
+              <div className="space-y-1">
+                <Progress value={(progress.completed / Math.max(progress.total, 1)) * 100} />
+                <p className="text-xs text-muted-foreground text-center">
+                  {progress.completed} of {progress.total}
+                </p>
+              </div>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep('map')} disabled={isImporting}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={isImporting || isLoadingTrades || importable.length === 0}>
+                {isImporting ? 'Importing...' : `Import ${importable.length} Trades`}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Done */}
+      {step === 'done' && result && (
+        <Card>
+          <CardContent className="p-6 text-center space-y-4">
+            <CheckCircle className="h-12 w-12 text-green-600 mx-auto" />
+            <h3 className="text-lg font-semibold">{result.created} trades imported</h3>
+            {result.queued > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {result.queued} more are saved offline and will sync when you&apos;re back online.
+              </p>
+            )}
+            {result.failed.length > 0 && (
+              <ul className="text-sm text-red-700 text-left list-disc ml-6">
+                {result.failed.map((failure, index) => <li key={index}>{failure}</li>)}
+              </ul>
+            )}
+            <div className="flex justify-center space-x-3">
+              <Button variant="outline" onClick={reset}>Import another file</Button>
+              <Link href="/trade">
+                <Button>Back to Trade Log</Button>
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,36 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { useAuthStore } from '@/lib/auth-store';
 import { apiClient } from '@/lib/api-client';
+import { useOutboxStore } from '@/lib/outbox-store';
 import { cn, formatCurrency, formatRelativeTime } from '@/lib/utils';
-import { Trade } from '@/lib/types';
+import { Trade, TradeRequest } from '@/lib/types';
+import {
+  computeTradeMetrics,
+  formatDuration,
+  formatRMultiple,
+  getTradeMetrics,
+  getTradeTime,
+} from '@/lib/trade-metrics';
 import { ValidatedInput } from '@/components/form/ValidatedInput';
+import { EmotionLinkPicker, EmotionLinkChoice } from '@/components/trade/EmotionLinkPicker';
+import { PostTradeCheckPrompt } from '@/components/trade/PostTradeCheckPrompt';
+import { ReadinessGate } from '@/components/trade/ReadinessGate';
+import { EMPTY_TAG_SELECTION, TradeTagPicker, TradeTagSelection } from '@/components/trade/TradeTagPicker';
+import { findNearestPreTradeCheck } from '@/lib/analytics/trade-linking';
+import { useSettingsStore } from '@/lib/settings-store';
+import { evaluateReadiness } from '@/lib/analytics/readiness';
+import { useReadinessStore } from '@/lib/readiness-store';
+import { useBreathingStore } from '@/lib/breathing-store';
+import { FileUp } from 'lucide-react';
+
+// Enough of the latest trades to cover a busy day for the readiness rules
+const READINESS_TRADE_LIMIT = 100;
 
 const tradeTypes = [
   { value: 'buy', label: 'Buy', color: 'text-green-600' },
@@ -26,12 +48,22 @@ export default function TradeLogPage() {
   const queryClient = useQueryClient();
   const { user } = useAuthStore();
   
-  const [formData, setFormData] = useState({
+  const emptyForm = {
     symbol: '',
     type: 'buy' as 'buy' | 'sell',
     outcome: 'win' as 'win' | 'loss' | 'breakeven',
     pnl: '',
-  });
+    entryPrice: '',
+    exitPrice: '',
+    quantity: '',
+    fees: '',
+    stopLoss: '',
+    entryTime: '',
+    exitTime: '',
+  };
+
+  const [formData, setFormData] = useState(emptyForm);
+  const [tagSelection, setTagSelection] = useState<TradeTagSelection>(EMPTY_TAG_SELECTION);
 
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
@@ -57,10 +89,63 @@ export default function TradeLogPage() {
     return '';
   };
 
+  const validatePositiveField = (value: string, label: string): string => {
+    if (!value) return '';
+    const num = parseFloat(value);
+    if (isNaN(num) || num <= 0) return `${label} must be a positive number`;
+    return '';
+  };
+
+  // The API stores quantities as whole units
+  const validateQuantityField = (quantity: string): string => {
+    if (!quantity) return '';
+    const num = Number(quantity);
+    if (!Number.isInteger(num) || num <= 0) return 'Quantity must be a positive whole number';
+    return '';
+  };
+
+  const validateFeesField = (fees: string): string => {
+    if (!fees) return '';
+    const num = parseFloat(fees);
+    if (isNaN(num) || num < 0) return 'Fees cannot be negative';
+    return '';
+  };
+
+  const validateExitTimeField = (entryTime: string, exitTime: string): string => {
+    if (entryTime && exitTime && new Date(exitTime) < new Date(entryTime)) {
+      return 'Exit time must be after entry time';
+    }
+    return '';
+  };
+
+  const parseOptionalNumber = (value: string): number | undefined => {
+    return value ? parseFloat(value) : undefined;
+  };
+
+  // P&L, R-multiple and outcome are derived whenever prices and size are filled in
+  const metrics = useMemo(() => computeTradeMetrics({
+    type: formData.type,
+    entryPrice: parseOptionalNumber(formData.entryPrice),
+    exitPrice: parseOptionalNumber(formData.exitPrice),
+    quantity: parseOptionalNumber(formData.quantity),
+    fees: parseOptionalNumber(formData.fees),
+    stopLoss: parseOptionalNumber(formData.stopLoss),
+    entryTime: formData.entryTime || undefined,
+    exitTime: formData.exitTime || undefined,
+  }), [formData]);
+
+  const manualPnl = parseOptionalNumber(formData.pnl);
+  const effectivePnl = metrics.pnl ?? (manualPnl !== undefined && !isNaN(manualPnl) ? manualPnl : null);
+  const isPnlComputed = metrics.pnl !== null;
+  const derivedOutcome = effectivePnl === null
+    ? null
+    : effectivePnl > 0 ? 'win' : effectivePnl < 0 ? 'loss' : 'breakeven';
+  const effectiveOutcome = derivedOutcome ?? formData.outcome;
+
   // Fetch recent emotion checks to link with trades
   const { data: recentEmotions } = useQuery({
     queryKey: ['emotions', 'recent'],
-    queryFn: () => apiClient.getEmotionChecks(5, 0),
+    queryFn: () => apiClient.getEmotionChecks(20, 0),
     enabled: !!user,
   });
 
@@ -71,20 +156,84 @@ export default function TradeLogPage() {
     enabled: !!user,
   });
 
+  const { data: latestTrades } = useQuery({
+    queryKey: ['trades', 'latest', READINESS_TRADE_LIMIT],
+    queryFn: () => apiClient.getTrades(READINESS_TRADE_LIMIT, 0),
+    enabled: !!user,
+  });
+
+  const readinessRules = useReadinessStore(state => state.rules);
+  const lastBreathingAt = useBreathingStore(state => state.lastSession?.completedAt);
+  const [readinessOverridden, setReadinessOverridden] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  // Time-based rules (recent check-in, a new day) change without any data changing
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const readiness = useMemo(() => evaluateReadiness(readinessRules, {
+    checks: recentEmotions || [],
+    trades: latestTrades || [],
+    lastBreathingAt,
+    timezone: user?.timezone,
+    now,
+  }), [readinessRules, recentEmotions, latestTrades, lastBreathingAt, user?.timezone, now]);
+
+  const isGated = !readiness.ready && !readinessOverridden;
+
+  const submitToOutbox = useOutboxStore(state => state.submit);
+  const { linkWindowMinutes, setLinkWindowMinutes } = useSettingsStore();
+  const [linkChoice, setLinkChoice] = useState<EmotionLinkChoice>('auto');
+  const [postTradePromptFor, setPostTradePromptFor] = useState<Trade | null>(null);
+
+  // Pre-trade checks inside the window before the entry time (or now)
+  const linkCandidates = useMemo(() => {
+    const linkTime = formData.entryTime ? new Date(formData.entryTime).getTime() : Date.now();
+    const windowMs = linkWindowMinutes * 60000;
+    return (recentEmotions || []).filter(check => {
+      const age = linkTime - new Date(check.timestamp).getTime();
+      return check.context === 'pre-trade' && age >= 0 && age <= windowMs;
+    });
+  }, [recentEmotions, formData.entryTime, linkWindowMinutes]);
+
+  // Candidates are already limited to the window, so only the symbol preference remains
+  const suggestedCheck = useMemo(
+    () => findNearestPreTradeCheck(linkCandidates, {
+      symbol: formData.symbol,
+      time: new Date(),
+      windowMs: Infinity,
+    }),
+    [linkCandidates, formData.symbol]
+  );
+
+  const linkedCheck = linkChoice === 'auto'
+    ? suggestedCheck
+    : linkChoice === 'none'
+      ? null
+      : (recentEmotions || []).find(check => check.id === linkChoice) || null;
+
   const createTradeMutation = useMutation({
-    mutationFn: apiClient.createTrade,
-    onSuccess: () => {
+    // Falls back to the offline outbox when the network is unavailable
+    mutationFn: (data: TradeRequest) => submitToOutbox('trade.create', data),
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['trades'] });
-      toast({
-        title: 'Trade logged successfully! 📈',
-        description: 'Your trade has been recorded.',
-      });
-      setFormData({
-        symbol: '',
-        type: 'buy',
-        outcome: 'win',
-        pnl: '',
-      });
+      // Only trades that reached the server have an id to link a post-trade check to
+      if (!result.queued) setPostTradePromptFor(result.result as Trade);
+      setLinkChoice('auto');
+      setReadinessOverridden(false);
+      toast(result.queued
+        ? {
+            title: 'Trade saved offline',
+            description: 'It will sync to your account when you are back online.',
+          }
+        : {
+            title: 'Trade logged successfully! 📈',
+            description: 'Your trade has been recorded.',
+          });
+      setFormData(emptyForm);
+      setTagSelection(EMPTY_TAG_SELECTION);
     },
     onError: (error: any) => {
       toast({
@@ -107,10 +256,18 @@ export default function TradeLogPage() {
       return;
     }
 
+    if (isGated) return;
+
     // Validate all fields
     const errors = {
       symbol: validateSymbolField(formData.symbol),
       pnl: validatePnlField(formData.pnl),
+      entryPrice: validatePositiveField(formData.entryPrice, 'Entry price'),
+      exitPrice: validatePositiveField(formData.exitPrice, 'Exit price'),
+      quantity: validateQuantityField(formData.quantity),
+      stopLoss: validatePositiveField(formData.stopLoss, 'Stop loss'),
+      fees: validateFeesField(formData.fees),
+      exitTime: validateExitTimeField(formData.entryTime, formData.exitTime),
     };
 
     setFieldErrors(errors);
@@ -126,16 +283,23 @@ export default function TradeLogPage() {
       return;
     }
 
-    // Link to most recent emotion check if available
-    const latestEmotion = recentEmotions?.[0];
-    const emotionCheckId = latestEmotion?.id;
+    const emotionCheckId = linkedCheck?.id;
 
     createTradeMutation.mutate({
       symbol: formData.symbol.toUpperCase(),
       type: formData.type,
-      outcome: formData.outcome,
-      pnl: formData.pnl ? parseFloat(formData.pnl) : undefined,
+      outcome: effectiveOutcome,
+      pnl: effectivePnl ?? undefined,
+      entryPrice: parseOptionalNumber(formData.entryPrice),
+      exitPrice: parseOptionalNumber(formData.exitPrice),
+      quantity: parseOptionalNumber(formData.quantity),
+      fees: parseOptionalNumber(formData.fees),
+      stopLoss: parseOptionalNumber(formData.stopLoss),
+      entryTime: formData.entryTime ? new Date(formData.entryTime).toISOString() : undefined,
+      exitTime: formData.exitTime ? new Date(formData.exitTime).toISOString() : undefined,
       emotionCheckId,
+      mistakeTags: tagSelection.mistakeTags.length > 0 ? tagSelection.mistakeTags : undefined,
+      setupTag: tagSelection.setupTag,
     });
   };
 
@@ -149,8 +313,20 @@ export default function TradeLogPage() {
         <p className="text-muted-foreground">
           Quick trade entry with emotion linking
         </p>
+        <Link href="/trade/import" className="inline-flex items-center mt-2 text-sm text-primary hover:underline">
+          <FileUp className="h-4 w-4 mr-1" />
+          Import from broker CSV
+        </Link>
       </div>
 
+      {isGated && (
+        <ReadinessGate
+          result={readiness}
+          onBreathingComplete={() => setNow(new Date())}
+          onOverride={() => setReadinessOverridden(true)}
+        />
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-6">
         {/* Symbol Input */}
         <div className="space-y-2">
@@ -192,22 +368,110 @@ export default function TradeLogPage() {
           </div>
         </div>
 
+        {/* Prices & Size */}
+        <div className="space-y-3">
+          <label className="text-sm font-medium">Prices & Size (optional)</label>
+          <div className="grid grid-cols-2 gap-3">
+            <ValidatedInput
+              id="entryPrice"
+              label="Entry Price"
+              type="number"
+              step="any"
+              placeholder="0.00"
+              value={formData.entryPrice}
+              onChange={(e) => handleFieldChange('entryPrice', e.target.value)}
+              error={fieldErrors.entryPrice}
+              disabled={createTradeMutation.isPending}
+            />
+            <ValidatedInput
+              id="exitPrice"
+              label="Exit Price"
+              type="number"
+              step="any"
+              placeholder="0.00"
+              value={formData.exitPrice}
+              onChange={(e) => handleFieldChange('exitPrice', e.target.value)}
+              error={fieldErrors.exitPrice}
+              disabled={createTradeMutation.isPending}
+            />
+            <ValidatedInput
+              id="quantity"
+              label="Quantity"
+              type="number"
+              min="1"
+              step="1"
+              placeholder="0"
+              value={formData.quantity}
+              onChange={(e) => handleFieldChange('quantity', e.target.value)}
+              error={fieldErrors.quantity}
+              disabled={createTradeMutation.isPending}
+            />
+            <ValidatedInput
+              id="fees"
+              label="Fees"
+              type="number"
+              step="0.01"
+              placeholder="0.00"
+              value={formData.fees}
+              onChange={(e) => handleFieldChange('fees', e.target.value)}
+              error={fieldErrors.fees}
+              disabled={createTradeMutation.isPending}
+            />
+            <ValidatedInput
+              id="stopLoss"
+              label="Stop Loss"
+              type="number"
+              step="any"
+              placeholder="0.00"
+              hint="Used to compute the R-multiple"
+              value={formData.stopLoss}
+              onChange={(e) => handleFieldChange('stopLoss', e.target.value)}
+              error={fieldErrors.stopLoss}
+              disabled={createTradeMutation.isPending}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <ValidatedInput
+              id="entryTime"
+              label="Entry Time"
+              type="datetime-local"
+              value={formData.entryTime}
+              onChange={(e) => handleFieldChange('entryTime', e.target.value)}
+              disabled={createTradeMutation.isPending}
+            />
+            <ValidatedInput
+              id="exitTime"
+              label="Exit Time"
+              type="datetime-local"
+              value={formData.exitTime}
+              onChange={(e) => handleFieldChange('exitTime', e.target.value)}
+              error={fieldErrors.exitTime}
+              disabled={createTradeMutation.isPending}
+            />
+          </div>
+        </div>
+
         {/* Outcome */}
         <div className="space-y-3">
-          <label className="text-sm font-medium">Outcome</label>
+          <label className="text-sm font-medium">
+            Outcome
+            {derivedOutcome && (
+              <span className="ml-2 text-xs font-normal text-muted-foreground">(from P&L)</span>
+            )}
+          </label>
           <div className="grid gap-2">
             {outcomes.map((outcome) => (
               <button
                 key={outcome.value}
                 type="button"
                 onClick={() => handleFieldChange('outcome', outcome.value)}
-                disabled={createTradeMutation.isPending}
+                disabled={createTradeMutation.isPending || !!derivedOutcome}
                 className={cn(
                   'p-3 rounded-lg border text-left transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2',
-                  formData.outcome === outcome.value
+                  effectiveOutcome === outcome.value
                     ? cn(outcome.bg, outcome.color, 'font-medium')
                     : 'border-border hover:border-primary/50',
-                  createTradeMutation.isPending && 'opacity-50 cursor-not-allowed'
+                  (createTradeMutation.isPending || (derivedOutcome && effectiveOutcome !== outcome.value)) && 'opacity-50 cursor-not-allowed'
                 )}
               >
                 {outcome.label}
@@ -218,7 +482,9 @@ export default function TradeLogPage() {
 
         {/* P&L */}
         <div className="space-y-2">
-          <label className="text-sm font-medium">Profit/Loss (optional)</label>
+          <label className="text-sm font-medium">
+            Profit/Loss {isPnlComputed ? '(calculated)' : '(optional)'}
+          </label>
           <div className="relative">
             <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground z-10">
               $
@@ -228,72 +494,128 @@ export default function TradeLogPage() {
               type="number"
               step="0.01"
               placeholder="0.00"
-              value={formData.pnl}
+              value={isPnlComputed ? String(metrics.pnl) : formData.pnl}
               onChange={(e) => handleFieldChange('pnl', e.target.value)}
               error={fieldErrors.pnl}
               disabled={createTradeMutation.isPending}
+              readOnly={isPnlComputed}
               className="pl-8"
             />
           </div>
         </div>
 
-        {/* Emotion Link Info */}
-        {recentEmotions?.[0] && (
-          <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
-            <p className="text-sm text-blue-800">
-              <span className="font-medium">Linked to emotion check:</span>{' '}
-              Level {recentEmotions[0].level} ({formatRelativeTime(new Date(recentEmotions[0].timestamp))})
-            </p>
+        {/* Computed Metrics */}
+        {(isPnlComputed || metrics.holdingMs !== null) && (
+          <div className="grid grid-cols-3 gap-3 p-3 bg-gray-50 border rounded-lg text-center">
+            <div>
+              <p className="text-xs text-muted-foreground">Return</p>
+              <p className="text-sm font-medium">
+                {metrics.returnPercent !== null ? `${metrics.returnPercent.toFixed(2)}%` : '—'}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">R-Multiple</p>
+              <p className="text-sm font-medium">
+                {metrics.rMultiple !== null ? formatRMultiple(metrics.rMultiple) : '—'}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Held</p>
+              <p className="text-sm font-medium">
+                {metrics.holdingMs !== null ? formatDuration(metrics.holdingMs) : '—'}
+              </p>
+            </div>
           </div>
         )}
 
+        {/* Setup & Mistake Tags */}
+        <TradeTagPicker
+          value={tagSelection}
+          onChange={setTagSelection}
+          disabled={createTradeMutation.isPending}
+        />
+
+        {/* Emotion Link */}
+        <EmotionLinkPicker
+          candidates={linkCandidates}
+          suggested={suggestedCheck}
+          selected={linkedCheck}
+          value={linkChoice}
+          onChange={setLinkChoice}
+          windowMinutes={linkWindowMinutes}
+          onWindowChange={setLinkWindowMinutes}
+          disabled={createTradeMutation.isPending}
+        />
+
         {/* Submit Button */}
         <Button
           type="submit"
           size="lg"
-          disabled={createTradeMutation.isPending}
+          disabled={createTradeMutation.isPending || isGated}
           className="w-full h-12 text-base font-medium"
         >
-          {createTradeMutation.isPending ? 'Logging...' : 'Log Trade'}
+          {createTradeMutation.isPending ? 'Logging...' : isGated ? 'Resolve readiness checks first' : 'Log Trade'}
         </Button>
       </form>
 
+      {postTradePromptFor && (
+        <div className="mt-6">
+          <PostTradeCheckPrompt trade={postTradePromptFor} onDone={() => setPostTradePromptFor(null)} />
+        </div>
+      )}
+
       {/* Recent Trades */}
       {recentTrades && recentTrades.length > 0 && (
         <div className="mt-8">
           <h2 className="text-lg font-semibold mb-4">Recent Trades</h2>
           <div className="space-y-2">
-            {recentTrades.slice(0, 5).map((trade: Trade) => (
-              <div
-                key={trade.id}
-                className="flex items-center justify-between p-3 bg-white border rounded-lg"
-              >
-                <div className="flex items-center space-x-3">
-                  <div className="font-mono font-bold">{trade.symbol}</div>
-                  <div className={cn(
-                    'text-xs px-2 py-1 rounded',
-                    trade.outcome === 'win' ? 'bg-green-100 text-green-700' :
-                    trade.outcome === 'loss' ? 'bg-red-100 text-red-700' :
-                    'bg-gray-100 text-gray-700'
-                  )}>
-                    {trade.outcome}
+            {recentTrades.slice(0, 5).map((trade: Trade) => {
+              const tradeMetrics = getTradeMetrics(trade);
+              return (
+                <Link
+                  key={trade.id}
+                  href={`/trade/${trade.id}`}
+                  className="flex items-center justify-between p-3 bg-white border rounded-lg hover:bg-accent transition-colors"
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-3">
+                      <div className="font-mono font-bold">{trade.symbol}</div>
+                      <div className={cn(
+                        'text-xs px-2 py-1 rounded',
+                        trade.outcome === 'win' ? 'bg-green-100 text-green-700' :
+                        trade.outcome === 'loss' ? 'bg-red-100 text-red-700' :
+                        'bg-gray-100 text-gray-700'
+                      )}>
+                        {trade.outcome}
+                      </div>
+                    </div>
+                    {trade.entryPrice != null && trade.quantity != null && (
+                      <div className="text-xs text-muted-foreground">
+                        {trade.type === 'buy' ? 'Long' : 'Short'} {trade.quantity} @ {trade.entryPrice}
+                        {trade.exitPrice != null && ` → ${trade.exitPrice}`}
+                        {tradeMetrics.holdingMs !== null && ` · ${formatDuration(tradeMetrics.holdingMs)}`}
+                      </div>
+                    )}
                   </div>
-                </div>
-                <div className="text-right">
-                  {trade.pnl && (
-                    <div className={cn(
-                      'font-medium',
-                      trade.pnl > 0 ? 'text-green-600' : 'text-red-600'
-                    )}>
-                      {formatCurrency(trade.pnl)}
+                  <div className="text-right">
+                    {tradeMetrics.pnl !== null && (
+                      <div className={cn(
+                        'font-medium',
+                        tradeMetrics.pnl > 0 ? 'text-green-600' : tradeMetrics.pnl < 0 ? 'text-red-600' : 'text-gray-600'
+                      )}>
+                        {formatCurrency(tradeMetrics.pnl)}
+                        {tradeMetrics.rMultiple !== null && (
+                          <span className="ml-1 text-xs">({formatRMultiple(tradeMetrics.rMultiple)})</span>
+                        )}
+                      </div>
+                    )}
+                    <div className="text-xs text-muted-foreground">
+                      {formatRelativeTime(new Date(getTradeTime(trade)))}
                     </div>
-                  )}
-                  <div className="text-xs text-muted-foreground">
-                    {formatRelativeTime(new Date(trade.timestamp))}
                   </div>
-                </div>
-              </div>
-            ))}
+                </Link>
+              );
+            })}
           </div>
         </div>
       )}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiHandler, logSecurityEvent } from '@/lib/security/api-middleware';
+import { twoFactorCodeRequestSchema } from '@/lib/security/input-validation';
+import { TWO_FACTOR_RATE_LIMIT } from '@/lib/security/rate-limiter';
+import { disableTwoFactor, TwoFactorError, twoFactorErrorResponse } from '@/lib/security/two-factor';
+
+async function handleDisable(request: NextRequest, context: any): Promise<NextResponse> {
+  const { code } = context.validatedData as { code: string };
+
+  try {
+    // A stolen session alone can't switch 2FA off
+    await disableTwoFactor(context.user.id, code);
+    logSecurityEvent('suspicious_activity', request, { reason: 'two_factor_disabled', userId: context.user.id });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      if (error.code === 'INVALID_CODE') {
+        logSecurityEvent('auth_failure', request, { reason: 'invalid_two_factor_code', userId: context.user.id });
+      }
+      return twoFactorErrorResponse(error);
+    }
+    throw error;
+  }
+}
+
+export const POST = createApiHandler(handleDisable, {
+  requireAuth: true,
+  rateLimit: TWO_FACTOR_RATE_LIMIT,
+  validateSchema: twoFactorCodeRequestSchema,
+  methods: ['POST'],
+});
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiHandler, logSecurityEvent } from '@/lib/security/api-middleware';
+import { twoFactorCodeRequestSchema } from '@/lib/security/input-validation';
+import { TWO_FACTOR_RATE_LIMIT } from '@/lib/security/rate-limiter';
+import { enableTwoFactor, TwoFactorError, twoFactorErrorResponse } from '@/lib/security/two-factor';
+
+async function handleEnable(request: NextRequest, context: any): Promise<NextResponse> {
+  const { code } = context.validatedData as { code: string };
+
+  try {
+    const backupCodes = await enableTwoFactor(context.user.id, code);
+    return NextResponse.json(
+      { success: true, backupCodes },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      if (error.code === 'INVALID_CODE') {
+        logSecurityEvent('auth_failure', request, { reason: 'invalid_two_factor_setup_code', userId: context.user.id });
+      }
+      return twoFactorErrorResponse(error);
+    }
+    throw error;
+  }
+}
+
+export const POST = createApiHandler(handleEnable, {
+  requireAuth: true,
+  rateLimit: TWO_FACTOR_RATE_LIMIT,
+  validateSchema: twoFactorCodeRequestSchema,
+  methods: ['POST'],
+});
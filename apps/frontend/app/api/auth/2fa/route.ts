@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiHandler } from '@/lib/security/api-middleware';
+import { getTwoFactorStatus } from '@/lib/security/two-factor';
+
+async function handleStatus(request: NextRequest, context: any): Promise<NextResponse> {
+  const status = await getTwoFactorStatus(context.user.id);
+  return NextResponse.json({ success: true, ...status });
+}
+
+export const GET = createApiHandler(handleStatus, {
+  requireAuth: true,
+  methods: ['GET'],
+});
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiHandler } from '@/lib/security/api-middleware';
+import { TWO_FACTOR_RATE_LIMIT } from '@/lib/security/rate-limiter';
+import { beginTwoFactorSetup, TwoFactorError, twoFactorErrorResponse } from '@/lib/security/two-factor';
+
+async function handleSetup(request: NextRequest, context: any): Promise<NextResponse> {
+  try {
+    const { secret, otpauthUri } = await beginTwoFactorSetup(context.user);
+    return NextResponse.json(
+      { success: true, secret, otpauthUri },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    if (error instanceof TwoFactorError) return twoFactorErrorResponse(error);
+    throw error;
+  }
+}
+
+export const POST = createApiHandler(handleSetup, {
+  requireAuth: true,
+  rateLimit: TWO_FACTOR_RATE_LIMIT,
+  methods: ['POST'],
+});
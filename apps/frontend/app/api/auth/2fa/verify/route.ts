@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiHandler, logSecurityEvent } from '@/lib/security/api-middleware';
+import { twoFactorLoginSchema } from '@/lib/security/input-validation';
+import { TWO_FACTOR_RATE_LIMIT } from '@/lib/security/rate-limiter';
+import { getAccountStore, normalizeEmail } from '@/lib/security/account-store';
+import { getLoginStateStore } from '@/lib/security/login-state-store';
+import {
+  completeLogin,
+  getLockoutStatus,
+  getLoginStateKey,
+  lockedResponse,
+  recordFailedLogin,
+} from '@/lib/security/login-guard';
+import { findLoginChallenge, TwoFactorError, verifyLoginChallenge } from '@/lib/security/two-factor';
+import { tokenResponse } from '@/lib/security/token-service';
+
+function challengeExpiredResponse(): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'This sign-in has expired. Please enter your password again.',
+      code: 'CHALLENGE_EXPIRED',
+    },
+    { status: 401 }
+  );
+}
+
+// Second step of a sign-in on an account with 2FA, after /api/auth/login returned a challenge
+async function handleVerify(request: NextRequest, context: any): Promise<NextResponse> {
+  const { challengeToken, code } = context.validatedData as { challengeToken: string; code: string };
+  const now = Date.now();
+
+  const challenge = await findLoginChallenge(challengeToken, now);
+  if (!challenge) return challengeExpiredResponse();
+
+  // Wrong codes count towards the same lockout as wrong passwords
+  const store = getLoginStateStore();
+  const stateKey = getLoginStateKey(normalizeEmail(challenge.email));
+  const loginState = await store.get(stateKey);
+  const lockout = getLockoutStatus(loginState, now);
+  if (lockout.locked) {
+    logSecurityEvent('auth_failure', request, { reason: 'account_locked', lockedUntil: lockout.lockedUntil });
+    return lockedResponse(lockout);
+  }
+
+  let method: 'totp' | 'backup' | null;
+  try {
+    method = await verifyLoginChallenge(challenge, code, now);
+  } catch (error) {
+    if (error instanceof TwoFactorError) return challengeExpiredResponse();
+    throw error;
+  }
+
+  if (!method) {
+    const failed = await store.update(stateKey, current => recordFailedLogin(current, now));
+    logSecurityEvent('auth_failure', request, { reason: 'invalid_two_factor_code', userId: challenge.userId });
+
+    const nowLocked = getLockoutStatus(failed, now);
+    if (nowLocked.locked) return lockedResponse(nowLocked);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'That code is not valid. Check your authenticator app and try again.',
+        code: 'INVALID_TWO_FACTOR_CODE',
+      },
+      { status: 401 }
+    );
+  }
+
+  if (method === 'backup') {
+    logSecurityEvent('suspicious_activity', request, { reason: 'backup_code_used', userId: challenge.userId });
+  }
+
+  // The account may have been closed since the password step
+  const user = await getAccountStore().findById(challenge.userId);
+  if (!user) return challengeExpiredResponse();
+
+  const tokens = await completeLogin(request, user);
+  return tokenResponse(tokens, undefined, { user });
+}
+
+export const POST = createApiHandler(handleVerify, {
+  rateLimit: TWO_FACTOR_RATE_LIMIT,
+  validateSchema: twoFactorLoginSchema,
+  methods: ['POST'],
+});
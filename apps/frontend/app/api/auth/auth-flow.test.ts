@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { jwtDecode } from 'jwt-decode';
+import { POST as login } from './login/route';
+import { POST as refresh } from './refresh/route';
+import { POST as verifyTwoFactor } from './2fa/verify/route';
+import { POST as startSetup } from './2fa/setup/route';
+import { POST as enableTwoFactor } from './2fa/enable/route';
+import { GET as getTwoFactorStatus } from './2fa/route';
+import { POST as requestPasswordReset } from './password-reset/request/route';
+import { MemoryAccountStore, setAccountStore } from '@/lib/security/account-store';
+import { MailMessage, setMailTransport } from '@/lib/security/mail-transport';
+import { generateTotp, getTotpStep } from '@/lib/security/totp';
+import { TokenPayload } from '@/lib/types';
+
+const START = Date.UTC(2024, 0, 1, 9, 0, 0);
+const EMAIL = 'trader@example.com';
+const PASSWORD = 'Correct-Horse-9!';
+
+let ipCounter = 0;
+let ip = '';
+
+function post(path: string, body: unknown, token?: string) {
+  return new NextRequest(`http://localhost${path}`, {
+    method: 'POST',
+    ip,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+function get(path: string, token: string) {
+  return new NextRequest(`http://localhost${path}`, {
+    ip,
+    headers: { Authorization: `Bearer ${token}` },
+  });
+}
+
+async function call(handler: (request: NextRequest, context: any) => Promise<Response>, request: NextRequest) {
+  const response = await handler(request, { params: {} });
+  return { status: response.status, body: await response.json() };
+}
+
+// Signs in with the password and turns 2FA on, returning the authenticator secret
+async function enableTwoFactorForUser(): Promise<string> {
+  const signedIn = await call(login, post('/api/auth/login', { email: EMAIL, password: PASSWORD }));
+  const token = signedIn.body.tokens.accessToken;
+
+  const setup = await call(startSetup, post('/api/auth/2fa/setup', {}, token));
+  expect(setup.status).toBe(200);
+
+  const enabled = await call(
+    enableTwoFactor,
+    post('/api/auth/2fa/enable', { code: generateTotp(setup.body.secret, getTotpStep(Date.now())) }, token)
+  );
+  expect(enabled.status).toBe(200);
+  return setup.body.secret;
+}
+
+describe('sign-in flow', () => {
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(START);
+    ip = `198.51.100.${++ipCounter}`;
+
+    const accounts = new MemoryAccountStore();
+    await accounts.addAccount({ id: `user-${ipCounter}`, email: EMAIL, firstName: 'Dana' }, PASSWORD);
+    setAccountStore(accounts);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns tokens the protected routes accept, with the user', async () => {
+    const { status, body } = await call(login, post('/api/auth/login', { email: EMAIL, password: PASSWORD }));
+
+    expect(status).toBe(200);
+    expect(body.user).toMatchObject({ id: `user-${ipCounter}`, email: EMAIL, firstName: 'Dana' });
+    // The .NET API reads the user id from `sub`
+    expect(jwtDecode<TokenPayload>(body.tokens.accessToken).sub).toBe(`user-${ipCounter}`);
+
+    const statusCheck = await call(getTwoFactorStatus, get('/api/auth/2fa', body.tokens.accessToken));
+    expect(statusCheck.status).toBe(200);
+    expect(statusCheck.body).toMatchObject({ enabled: false, backupCodesRemaining: 0 });
+  });
+
+  it('refreshes with the refresh token the client stored at sign-in', async () => {
+    const signedIn = await call(login, post('/api/auth/login', { email: EMAIL, password: PASSWORD }));
+    vi.setSystemTime(START + 14 * 60 * 1000);
+
+    const refreshed = await call(refresh, post('/api/auth/refresh', { refreshToken: signedIn.body.tokens.refreshToken }));
+    expect(refreshed.status).toBe(200);
+    expect(refreshed.body).toMatchObject({ success: true });
+    expect(jwtDecode<TokenPayload>(refreshed.body.tokens.accessToken).sub).toBe(`user-${ipCounter}`);
+  });
+
+  it('rejects a wrong password without tokens', async () => {
+    const { status, body } = await call(login, post('/api/auth/login', { email: EMAIL, password: 'Wrong-Horse-9!' }));
+    expect(status).toBe(401);
+    expect(body.code).toBe('INVALID_CREDENTIALS');
+    expect(body.tokens).toBeUndefined();
+  });
+
+  it('asks for a code once 2FA is on and signs in after verifying it', async () => {
+    const secret = await enableTwoFactorForUser();
+
+    // The next code window, since the enabling code can't be replayed
+    vi.setSystemTime(START + 60 * 1000);
+
+    const passwordStep = await call(login, post('/api/auth/login', { email: EMAIL, password: PASSWORD }));
+    expect(passwordStep.status).toBe(200);
+    expect(passwordStep.body).toMatchObject({ requiresTwoFactor: true });
+    expect(passwordStep.body.tokens).toBeUndefined();
+    const { challengeToken } = passwordStep.body;
+
+    const wrongCode = await call(verifyTwoFactor, post('/api/auth/2fa/verify', { challengeToken, code: '000000' }));
+    expect(wrongCode.status).toBe(401);
+    expect(wrongCode.body.code).toBe('INVALID_TWO_FACTOR_CODE');
+
+    const code = generateTotp(secret, getTotpStep(Date.now()));
+    const verified = await call(verifyTwoFactor, post('/api/auth/2fa/verify', { challengeToken, code }));
+    expect(verified.status).toBe(200);
+    expect(verified.body.user).toMatchObject({ id: `user-${ipCounter}`, email: EMAIL });
+
+    const statusCheck = await call(getTwoFactorStatus, get('/api/auth/2fa', verified.body.tokens.accessToken));
+    expect(statusCheck.body).toMatchObject({ enabled: true });
+
+    // A challenge finishes one sign-in only
+    const replay = await call(verifyTwoFactor, post('/api/auth/2fa/verify', { challengeToken, code }));
+    expect(replay.status).toBe(401);
+    expect(replay.body.code).toBe('CHALLENGE_EXPIRED');
+  });
+});
+
+describe('password reset request', () => {
+  beforeEach(async () => {
+    ip = `198.51.100.${++ipCounter}`;
+    const accounts = new MemoryAccountStore();
+    await accounts.addAccount({ id: `user-${ipCounter}`, email: EMAIL }, PASSWORD);
+    setAccountStore(accounts);
+  });
+
+  it('answers the same for known and unknown emails when mail fails to send', async () => {
+    const attempts: MailMessage[] = [];
+    setMailTransport({
+      send: async message => {
+        attempts.push(message);
+        throw new Error('Connection refused');
+      },
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const known = await call(requestPasswordReset, post('/api/auth/password-reset/request', { email: EMAIL }));
+    const unknown = await call(requestPasswordReset, post('/api/auth/password-reset/request', { email: 'nobody@example.com' }));
+
+    expect(known).toEqual(unknown);
+    expect(known.status).toBe(200);
+
+    // The send runs after the response
+    await vi.waitFor(() => expect(attempts.map(message => message.to)).toEqual([EMAIL]));
+    await vi.waitFor(() => expect(console.error).toHaveBeenCalled());
+    vi.restoreAllMocks();
+  });
+});
@@ -1,128 +1,77 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { rateLimit } from '@/lib/security/rate-limiter';
-import { validateInput } from '@/lib/security/input-validation';
+import { AUTH_RATE_LIMIT } from '@/lib/security/rate-limiter';
+import { createApiHandler, logSecurityEvent } from '@/lib/security/api-middleware';
+import { tokenResponse } from '@/lib/security/token-service';
+import { getAccountStore, normalizeEmail } from '@/lib/security/account-store';
+import { getLoginStateStore } from '@/lib/security/login-state-store';
+import {
+  completeLogin,
+  getLockoutStatus,
+  getLoginStateKey,
+  lockedResponse,
+  recordFailedLogin,
+} from '@/lib/security/login-guard';
+import { createLoginChallenge, isTwoFactorEnabled } from '@/lib/security/two-factor';
 import { z } from 'zod';
 
-// Rate limiting configuration for auth endpoints
-const authRateLimit = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 5, // 5 attempts per window
-  message: 'Too many authentication attempts, please try again later.',
-  standardHeaders: true,
-  legacyHeaders: false,
-});
-
 const loginSchema = z.object({
   email: z.string().email('Invalid email format'),
   password: z.string().min(8, 'Password must be at least 8 characters'),
 });
 
-const refreshSchema = z.object({
-  refreshToken: z.string().min(1, 'Refresh token required'),
-});
+async function handleLogin(request: NextRequest, context: any): Promise<NextResponse> {
+  const { email, password } = context.validatedData as z.infer<typeof loginSchema>;
 
-export async function POST(request: NextRequest) {
-  try {
-    // Apply rate limiting
-    const rateLimitResult = await authRateLimit(request);
-    if (rateLimitResult) {
-      return rateLimitResult;
-    }
-
-    const body = await request.json();
-    const { email, password } = validateInput(loginSchema, body);
+  const now = Date.now();
+  const store = getLoginStateStore();
+  const stateKey = getLoginStateKey(normalizeEmail(email));
+  const loginState = await store.get(stateKey);
 
-    // Additional security headers
-    const headers = new Headers({
-      'X-Content-Type-Options': 'nosniff',
-      'X-Frame-Options': 'DENY',
-      'X-XSS-Protection': '1; mode=block',
-      'Referrer-Policy': 'strict-origin-when-cross-origin',
-    });
+  const lockout = getLockoutStatus(loginState, now);
+  if (lockout.locked) {
+    logSecurityEvent('auth_failure', request, { reason: 'account_locked', lockedUntil: lockout.lockedUntil });
+    return lockedResponse(lockout);
+  }
 
-    // Mock authentication logic - replace with actual implementation
-    const isValidCredentials = await authenticateUser(email, password);
-    
-    if (!isValidCredentials) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: 'Invalid credentials',
-          code: 'INVALID_CREDENTIALS'
-        },
-        { 
-          status: 401,
-          headers 
-        }
-      );
-    }
+  const account = await getAccountStore().verifyCredentials(email, password);
 
-    // Generate secure tokens
-    const tokens = await generateSecureTokens(email);
-    
-    // Set secure HTTP-only cookie for refresh token
-    const response = NextResponse.json(
-      { 
-        success: true, 
-        tokens: {
-          accessToken: tokens.accessToken,
-          expiresAt: tokens.expiresAt
-        }
-      },
-      { headers }
-    );
+  if (!account) {
+    // Counted against the stored state, not the copy read above, so parallel failures all count
+    const failed = await store.update(stateKey, current => recordFailedLogin(current, now));
+    logSecurityEvent('auth_failure', request, { reason: 'invalid_credentials' });
 
-    response.cookies.set('refreshToken', tokens.refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 7 * 24 * 60 * 60, // 7 days
-      path: '/',
-    });
+    // The attempt that trips the lockout already gets the lockout response
+    const nowLocked = getLockoutStatus(failed, now);
+    if (nowLocked.locked) return lockedResponse(nowLocked);
 
-    return response;
-  } catch (error) {
-    console.error('Login error:', error);
-    
     return NextResponse.json(
-      { 
-        success: false, 
-        error: 'Authentication failed',
-        code: 'AUTH_ERROR'
+      {
+        success: false,
+        error: 'Invalid credentials',
+        code: 'INVALID_CREDENTIALS'
       },
-      { 
-        status: 500,
-        headers: {
-          'X-Content-Type-Options': 'nosniff',
-        }
-      }
+      { status: 401 }
     );
   }
-}
 
-async function authenticateUser(email: string, password: string): Promise<boolean> {
-  // Implement secure password verification
-  // - Use bcrypt or similar for password hashing
-  // - Implement account lockout after failed attempts
-  // - Log authentication attempts for security monitoring
-  
-  // Mock implementation
-  return email.includes('@') && password.length >= 8;
-}
-
-async function generateSecureTokens(email: string) {
-  // Implement JWT token generation with:
-  // - Strong secret keys
-  // - Appropriate expiration times
-  // - Secure payload structure
-  
-  const now = Date.now();
-  const accessTokenExpiry = now + (15 * 60 * 1000); // 15 minutes
-  const refreshTokenExpiry = now + (7 * 24 * 60 * 60 * 1000); // 7 days
+  // The password alone isn't enough: the sign-in finishes at /api/auth/2fa/verify
+  if (await isTwoFactorEnabled(account.id)) {
+    const challenge = await createLoginChallenge(account, now);
+    return NextResponse.json({
+      success: true,
+      requiresTwoFactor: true,
+      challengeToken: challenge.challengeToken,
+      expiresAt: new Date(challenge.expiresAt).toISOString(),
+    });
+  }
 
-  return {
-    accessToken: `mock_access_token_${email}_${now}`,
-    refreshToken: `mock_refresh_token_${email}_${now}`,
-    expiresAt: accessTokenExpiry,
-  };
+  const tokens = await completeLogin(request, account);
+  return tokenResponse(tokens, undefined, { user: account });
 }
+
+// Wrapped like the other auth routes so limits, lockouts and refresh tokens use the shared stores
+export const POST = createApiHandler(handleLogin, {
+  rateLimit: AUTH_RATE_LIMIT,
+  validateSchema: loginSchema,
+  methods: ['POST'],
+});
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiHandler, logSecurityEvent } from '@/lib/security/api-middleware';
+import { passwordResetSchema } from '@/lib/security/input-validation';
+import { getAccountStore, normalizeEmail } from '@/lib/security/account-store';
+import { getLoginStateStore } from '@/lib/security/login-state-store';
+import { redeemPasswordResetToken } from '@/lib/security/password-reset';
+import { emptyLoginState, getLoginStateKey } from '@/lib/security/login-guard';
+import { revokeUserTokens } from '@/lib/security/token-service';
+
+async function handleResetConfirm(request: NextRequest, context: any): Promise<NextResponse> {
+  const { token, password } = context.validatedData as { token: string; password: string };
+  const reset = await redeemPasswordResetToken(token);
+
+  if (!reset) {
+    logSecurityEvent('auth_failure', request, { reason: 'invalid_reset_token' });
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'This reset link is invalid or has expired. Please request a new one.',
+        code: 'INVALID_RESET_TOKEN',
+      },
+      { status: 400 }
+    );
+  }
+
+  await getAccountStore().updatePassword(reset.userId, password);
+
+  // Sign out every existing session and lift any lockout, keeping the known devices
+  await revokeUserTokens(reset.userId);
+  const store = getLoginStateStore();
+  const stateKey = getLoginStateKey(normalizeEmail(reset.email));
+  const loginState = await store.get(stateKey);
+  if (loginState) {
+    const { knownDevices, knownIps } = loginState;
+    await store.save(stateKey, { ...emptyLoginState(), knownDevices, knownIps });
+  }
+
+  return NextResponse.json({
+    success: true,
+    message: 'Your password has been reset. You can now sign in.',
+  });
+}
+
+export const POST = createApiHandler(handleResetConfirm, {
+  rateLimit: { name: 'password-reset-confirm', windowMs: 60 * 60 * 1000, max: 10 },
+  validateSchema: passwordResetSchema,
+  methods: ['POST'],
+});
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiHandler } from '@/lib/security/api-middleware';
+import { passwordResetRequestSchema } from '@/lib/security/input-validation';
+import { PASSWORD_RESET_RATE_LIMIT } from '@/lib/security/rate-limiter';
+import { getAccountStore } from '@/lib/security/account-store';
+import { createPasswordResetToken, RESET_TOKEN_TTL_MS } from '@/lib/security/password-reset';
+import { getMailTransport } from '@/lib/security/mail-transport';
+import { User } from '@/lib/types';
+
+async function sendResetEmail(account: User): Promise<void> {
+  const token = await createPasswordResetToken(account);
+  // Links are built from configuration, never from the request's Host header
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const link = `${appUrl}/auth/reset-password?token=${encodeURIComponent(token)}`;
+
+  await getMailTransport().send({
+    to: account.email,
+    subject: 'Reset your TradeMentor password',
+    text: [
+      'Someone asked to reset the password for your TradeMentor account.',
+      '',
+      `Choose a new password here: ${link}`,
+      '',
+      `The link works once and expires in ${RESET_TOKEN_TTL_MS / 60000} minutes.`,
+      'If you did not ask for this, you can ignore this email; your password has not changed.',
+    ].join('\n'),
+  });
+}
+
+async function handleResetRequest(request: NextRequest, context: any): Promise<NextResponse> {
+  const { email } = context.validatedData as { email: string };
+  const account = await getAccountStore().findByEmail(email);
+
+  if (account) {
+    // Sent after responding, so neither a slow mail server nor a failing one
+    // makes this answer differ from the one for an unknown email
+    sendResetEmail(account).catch(error => {
+      console.error('Failed to send password reset email:', error);
+    });
+  }
+
+  // Same answer whether or not the account exists, so emails can't be probed
+  return NextResponse.json({
+    success: true,
+    message: 'If an account exists for that email, a reset link is on its way.',
+  });
+}
+
+export const POST = createApiHandler(handleResetRequest, {
+  rateLimit: PASSWORD_RESET_RATE_LIMIT,
+  validateSchema: passwordResetRequestSchema,
+  methods: ['POST'],
+});
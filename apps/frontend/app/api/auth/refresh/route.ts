@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createApiHandler, logSecurityEvent } from '@/lib/security/api-middleware';
+import { REFRESH_TOKEN_COOKIE, rotateRefreshToken, TokenError, tokenResponse } from '@/lib/security/token-service';
+
+// JWTManager sends the token in the body; cookie-based clients post an empty object
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token required').optional(),
+});
+
+async function handleRefresh(request: NextRequest, context: any): Promise<NextResponse> {
+  const refreshToken = context.validatedData?.refreshToken || request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json(
+      { success: false, error: 'Refresh token required', code: 'INVALID_TOKEN' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    return tokenResponse(await rotateRefreshToken(refreshToken));
+  } catch (error) {
+    if (!(error instanceof TokenError)) throw error;
+
+    if (error.code === 'TOKEN_REUSED') {
+      logSecurityEvent('suspicious_activity', request, { reason: 'refresh_token_reuse' });
+    }
+
+    const response = NextResponse.json(
+      { success: false, error: error.message, code: error.code },
+      { status: 401 }
+    );
+    response.cookies.delete(REFRESH_TOKEN_COOKIE);
+    return response;
+  }
+}
+
+export const POST = createApiHandler(handleRefresh, {
+  requireAuth: false, // The refresh token is the credential
+  rateLimit: { name: 'auth-refresh', windowMs: 15 * 60 * 1000, max: 30 },
+  validateSchema: refreshSchema,
+  methods: ['POST'],
+});
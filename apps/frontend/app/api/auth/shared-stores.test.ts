@@ -0,0 +1,55 @@
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { rmSync } from 'fs';
+
+// Every security route opens the same database before touching a store
+const dbDir = vi.hoisted(() => {
+  const { mkdtempSync } = require('fs') as typeof import('fs');
+  const { join } = require('path') as typeof import('path');
+  const { tmpdir } = require('os') as typeof import('os');
+  const dir = mkdtempSync(join(tmpdir(), 'auth-stores-'));
+  process.env.SECURITY_DB_PATH = join(dir, 'security.db');
+  return dir;
+});
+
+import { POST as login } from './login/route';
+import { POST as refresh } from './refresh/route';
+import { MemoryAccountStore, setAccountStore } from '@/lib/security/account-store';
+import { getLoginStateStore, SqliteLoginStateStore } from '@/lib/security/login-state-store';
+import { getTokenStore, SqliteTokenStore } from '@/lib/security/token-service';
+
+const EMAIL = 'trader@example.com';
+const PASSWORD = 'Correct-Horse-9!';
+
+function post(path: string, body: unknown) {
+  return new NextRequest(`http://localhost${path}`, {
+    method: 'POST',
+    ip: '203.0.113.7',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+afterAll(() => {
+  delete process.env.SECURITY_DB_PATH;
+  rmSync(dbDir, { recursive: true, force: true });
+});
+
+describe('login with SECURITY_DB_PATH set', () => {
+  it('records failures and issues refresh tokens in the shared database', async () => {
+    const accounts = new MemoryAccountStore();
+    await accounts.addAccount({ id: 'user-1', email: EMAIL }, PASSWORD);
+    setAccountStore(accounts);
+
+    const failed = await login(post('/api/auth/login', { email: EMAIL, password: 'Wrong-Horse-9!' }), { params: {} });
+    expect(failed.status).toBe(401);
+    expect(getLoginStateStore()).toBeInstanceOf(SqliteLoginStateStore);
+
+    const signedIn = await login(post('/api/auth/login', { email: EMAIL, password: PASSWORD }), { params: {} });
+    const { tokens } = await signedIn.json();
+    expect(getTokenStore()).toBeInstanceOf(SqliteTokenStore);
+
+    const refreshed = await refresh(post('/api/auth/refresh', { refreshToken: tokens.refreshToken }), { params: {} });
+    expect(refreshed.status).toBe(200);
+  });
+});
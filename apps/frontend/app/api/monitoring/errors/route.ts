@@ -90,7 +90,8 @@ async function processErrorReport(report: ErrorReport) {
 // Export the handler with security middleware
 export const POST = createApiHandler(handleErrorReports, {
   requireAuth: false, // Public endpoint for error reporting
-  rateLimit: true,
+  // Error storms arrive in bursts; keep them out of the shared API budget
+  rateLimit: { name: 'error-reports', windowMs: 60 * 1000, max: 30 },
   cors: true,
   methods: ['POST'],
 });
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { apiClient } from '@/lib/api-client';
+import { ApiError } from '@/lib/types';
+import { useFormValidation, validationConfigs } from '@/lib/validation';
+import { ValidatedInput } from '@/components/form/ValidatedInput';
+import { MailCheck } from 'lucide-react';
+
+export default function ForgotPasswordPage() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState('');
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const { addField, validateField, validateForm, getFieldError, hasError } = useFormValidation();
+
+  useEffect(() => {
+    addField('email', validationConfigs.forgotPasswordForm.email);
+  }, [addField]);
+
+  const resetMutation = useMutation({
+    mutationFn: (address: string) => apiClient.requestPasswordReset(address),
+    onSuccess: (_, address) => {
+      setSentTo(address);
+    },
+    onError: (error: ApiError) => {
+      toast({
+        title: 'Could not send reset link',
+        description: error.message || 'Please try again in a moment.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm().isValid) return;
+    resetMutation.mutate(email.trim());
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center px-4">
+      <div className="max-w-md w-full">
+        <div className="bg-white rounded-xl shadow-lg p-8">
+          {sentTo ? (
+            <div className="text-center space-y-4">
+              <MailCheck className="h-12 w-12 text-primary mx-auto" />
+              <h1 className="text-2xl font-bold text-gray-900">Check your email</h1>
+              <p className="text-gray-600">
+                If an account exists for <span className="font-medium">{sentTo}</span>, we&apos;ve sent a link
+                to reset your password. It expires in 30 minutes.
+              </p>
+              <Button variant="outline" className="w-full" onClick={() => setSentTo(null)}>
+                Use a different email
+              </Button>
+            </div>
+          ) : (
+            <>
+              {/* Header */}
+              <div className="text-center mb-8">
+                <h1 className="text-3xl font-bold text-gray-900 mb-2">
+                  Forgot Password
+                </h1>
+                <p className="text-gray-600">
+                  Enter your email and we&apos;ll send you a reset link
+                </p>
+              </div>
+
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <ValidatedInput
+                  id="email"
+                  label="Email"
+                  type="email"
+                  placeholder="trader@example.com"
+                  value={email}
+                  onChange={(e) => {
+                    setEmail(e.target.value);
+                    validateField('email', e.target.value);
+                  }}
+                  disabled={resetMutation.isPending}
+                  error={getFieldError('email')}
+                  success={!!email && !hasError('email')}
+                  required
+                />
+
+                <Button
+                  type="submit"
+                  size="lg"
+                  disabled={resetMutation.isPending}
+                  className="w-full h-12 text-base font-medium"
+                >
+                  {resetMutation.isPending ? 'Sending...' : 'Send Reset Link'}
+                </Button>
+              </form>
+            </>
+          )}
+
+          {/* Footer */}
+          <div className="mt-6 text-center">
+            <p className="text-sm text-gray-600">
+              Remembered it?{' '}
+              <Link
+                href="/auth/login"
+                className="text-primary hover:text-primary/80 font-medium"
+              >
+                Sign in
+              </Link>
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,8 +9,15 @@ import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { useAuthStore } from '@/lib/auth-store';
 import { apiClient } from '@/lib/api-client';
+import { ApiError, LoginRequest, TwoFactorChallenge } from '@/lib/types';
 import { useFormValidation, validationConfigs } from '@/lib/validation';
 import { ValidatedInput, PasswordInput } from '@/components/form/ValidatedInput';
+import { Lock, ShieldCheck } from 'lucide-react';
+
+function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
 
 export default function LoginPage() {
   const router = useRouter();
@@ -22,6 +29,31 @@ export default function LoginPage() {
     password: '',
   });
 
+  // Set when the password was right and the account also needs a 2FA code
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [code, setCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const lockRemaining = lockedUntil ? Math.max(0, Math.ceil((lockedUntil - now) / 1000)) : 0;
+  const isLocked = lockRemaining > 0;
+
+  // Ticks the countdown while locked out
+  useEffect(() => {
+    if (!lockedUntil) return;
+    setNow(Date.now());
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lockedUntil) {
+        setLockedUntil(null);
+        clearInterval(interval);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
   const { 
     addField, 
     validateField, 
@@ -36,17 +68,37 @@ export default function LoginPage() {
     addField('password', validationConfigs.loginForm.password);
   }, [addField]);
 
+  // Lockouts and rate limits are shown in the form with a countdown instead of a toast
+  const showLockout = (error: ApiError): boolean => {
+    if (error.retryAfter && (error.code === 'ACCOUNT_LOCKED' || error.status === 423 || error.status === 429)) {
+      setLockedUntil(Date.now() + error.retryAfter * 1000);
+      return true;
+    }
+    return false;
+  };
+
+  const backToPassword = () => {
+    setChallenge(null);
+    setCode('');
+    setUseBackupCode(false);
+  };
+
   const loginMutation = useMutation({
-    mutationFn: apiClient.login,
+    mutationFn: (credentials: LoginRequest) => apiClient.login(credentials),
     onSuccess: (data) => {
-      login(data.data.token, data.data.user);
+      if ('requiresTwoFactor' in data) {
+        setChallenge(data);
+        return;
+      }
+      login(data.tokens.accessToken, data.user, data.tokens.refreshToken);
       toast({
         title: 'Welcome back! 👋',
         description: 'Successfully logged in.',
       });
       router.push('/emotion');
     },
-    onError: (error: any) => {
+    onError: (error: ApiError) => {
+      if (showLockout(error)) return;
       toast({
         title: 'Login failed',
         description: error.message || 'Invalid email or password.',
@@ -55,8 +107,49 @@ export default function LoginPage() {
     },
   });
 
+  const twoFactorMutation = useMutation({
+    mutationFn: ({ challengeToken, code }: { challengeToken: string; code: string }) =>
+      apiClient.verifyTwoFactorLogin(challengeToken, code),
+    onSuccess: ({ tokens, user }) => {
+      login(tokens.accessToken, user, tokens.refreshToken);
+      toast({
+        title: 'Welcome back! 👋',
+        description: 'Successfully logged in.',
+      });
+      router.push('/emotion');
+    },
+    onError: (error: ApiError) => {
+      setCode('');
+      if (showLockout(error)) {
+        backToPassword();
+        return;
+      }
+      if (error.code === 'CHALLENGE_EXPIRED') {
+        backToPassword();
+        toast({
+          title: 'Sign-in expired',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return;
+      }
+      toast({
+        title: 'Verification failed',
+        description: error.message || 'That code is not valid.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleCodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge || !code.trim()) return;
+    twoFactorMutation.mutate({ challengeToken: challenge.challengeToken, code: code.trim() });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (isLocked) return;
     
     const validation = validateForm();
     if (!validation.isValid) {
@@ -80,55 +173,140 @@ export default function LoginPage() {
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center px-4">
       <div className="max-w-md w-full">
         <div className="bg-white rounded-xl shadow-lg p-8">
-          {/* Header */}
-          <div className="text-center mb-8">
-            <h1 className="text-3xl font-bold text-gray-900 mb-2">
-              Welcome Back
-            </h1>
-            <p className="text-gray-600">
-              Sign in to continue your trading journey
-            </p>
-          </div>
+          {challenge ? (
+            <>
+              {/* Header */}
+              <div className="text-center mb-8">
+                <ShieldCheck className="h-10 w-10 text-primary mx-auto mb-3" />
+                <h1 className="text-3xl font-bold text-gray-900 mb-2">
+                  Two-Factor Verification
+                </h1>
+                <p className="text-gray-600">
+                  {useBackupCode
+                    ? 'Enter one of the backup codes you saved when turning on 2FA'
+                    : 'Enter the 6-digit code from your authenticator app'}
+                </p>
+              </div>
+
+              <form onSubmit={handleCodeSubmit} className="space-y-6">
+                <ValidatedInput
+                  id="code"
+                  label={useBackupCode ? 'Backup code' : 'Authentication code'}
+                  placeholder={useBackupCode ? 'xxxx-xxxx' : '123456'}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  disabled={twoFactorMutation.isPending}
+                  inputMode={useBackupCode ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  maxLength={useBackupCode ? 20 : 6}
+                  autoFocus
+                  required
+                />
+
+                <Button
+                  type="submit"
+                  size="lg"
+                  disabled={twoFactorMutation.isPending || !code.trim()}
+                  className="w-full h-12 text-base font-medium"
+                >
+                  {twoFactorMutation.isPending ? 'Verifying...' : 'Verify'}
+                </Button>
+
+                <div className="flex justify-between text-sm">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setUseBackupCode(!useBackupCode);
+                      setCode('');
+                    }}
+                    className="text-primary hover:text-primary/80"
+                  >
+                    {useBackupCode ? 'Use authenticator app' : 'Use a backup code'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={backToPassword}
+                    className="text-gray-600 hover:text-gray-800"
+                  >
+                    Back
+                  </button>
+                </div>
+              </form>
+            </>
+          ) : (
+            <>
+              {/* Header */}
+              <div className="text-center mb-8">
+                <h1 className="text-3xl font-bold text-gray-900 mb-2">
+                  Welcome Back
+                </h1>
+                <p className="text-gray-600">
+                  Sign in to continue your trading journey
+                </p>
+              </div>
+
+              <form onSubmit={handleSubmit} className="space-y-6">
+                {isLocked && (
+                  <div role="alert" className="flex gap-3 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800">
+                    <Lock className="h-5 w-5 flex-shrink-0" />
+                    <div>
+                      <p className="font-medium">Sign-in temporarily locked</p>
+                      <p>
+                        Too many failed attempts. You can try again in {formatCountdown(lockRemaining)}.
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                {/* Email */}
+                <ValidatedInput
+                  id="email"
+                  label="Email"
+                  type="email"
+                  placeholder="trader@example.com"
+                  value={formData.email}
+                  onChange={(e) => updateFormData('email', e.target.value)}
+                  disabled={loginMutation.isPending}
+                  error={getFieldError('email')}
+                  success={!!formData.email && !hasError('email')}
+                  required
+                />
+
+                {/* Password */}
+                <PasswordInput
+                  id="password"
+                  label="Password"
+                  placeholder="••••••••"
+                  value={formData.password}
+                  onChange={(e) => updateFormData('password', e.target.value)}
+                  disabled={loginMutation.isPending}
+                  error={getFieldError('password')}
+                  success={!!formData.password && !hasError('password')}
+                  showStrengthIndicator={false}
+                  required
+                />
+
+                <div className="-mt-3 text-right">
+                  <Link
+                    href="/auth/forgot-password"
+                    className="text-sm text-primary hover:text-primary/80"
+                  >
+                    Forgot password?
+                  </Link>
+                </div>
 
-          <form onSubmit={handleSubmit} className="space-y-6">
-            {/* Email */}
-            <ValidatedInput
-              id="email"
-              label="Email"
-              type="email"
-              placeholder="trader@example.com"
-              value={formData.email}
-              onChange={(e) => updateFormData('email', e.target.value)}
-              disabled={loginMutation.isPending}
-              error={getFieldError('email')}
-              success={!!formData.email && !hasError('email')}
-              required
-            />
-
-            {/* Password */}
-            <PasswordInput
-              id="password"
-              label="Password"
-              placeholder="••••••••"
-              value={formData.password}
-              onChange={(e) => updateFormData('password', e.target.value)}
-              disabled={loginMutation.isPending}
-              error={getFieldError('password')}
-              success={!!formData.password && !hasError('password')}
-              showStrengthIndicator={false}
-              required
-            />
-
-            {/* Submit Button */}
-            <Button
-              type="submit"
-              size="lg"
-              disabled={loginMutation.isPending}
-              className="w-full h-12 text-base font-medium"
-            >
-              {loginMutation.isPending ? 'Signing in...' : 'Sign In'}
-            </Button>
-          </form>
+                {/* Submit Button */}
+                <Button
+                  type="submit"
+                  size="lg"
+                  disabled={loginMutation.isPending || isLocked}
+                  className="w-full h-12 text-base font-medium"
+                >
+                  {loginMutation.isPending ? 'Signing in...' : isLocked ? `Try again in ${formatCountdown(lockRemaining)}` : 'Sign In'}
+                </Button>
+              </form>
+            </>
+          )}
 
           {/* Footer */}
           <div className="mt-6 text-center">
@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { useAuthStore } from '@/lib/auth-store';
 import { apiClient } from '@/lib/api-client';
+import { RegisterRequest } from '@/lib/types';
 import { useFormValidation } from '@/lib/validation';
 import { ValidatedInput, PasswordInput } from '@/components/form/ValidatedInput';
 
@@ -26,9 +27,9 @@ export default function RegisterPage() {
   const { validateField } = useFormValidation();
 
   const registerMutation = useMutation({
-    mutationFn: apiClient.register,
-    onSuccess: (data: any) => {
-      login(data.data.token, data.data.user);
+    mutationFn: (data: RegisterRequest) => apiClient.register(data),
+    onSuccess: ({ tokens, user }) => {
+      login(tokens.accessToken, user, tokens.refreshToken);
       toast({
         title: 'Welcome to TradeMentor! 🎉',
         description: 'Your account has been created successfully.',
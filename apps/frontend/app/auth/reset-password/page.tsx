@@ -0,0 +1,167 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { apiClient } from '@/lib/api-client';
+import { ApiError } from '@/lib/types';
+import { useFormValidation, validationConfigs } from '@/lib/validation';
+import { PasswordInput } from '@/components/form/ValidatedInput';
+import { CheckCircle, AlertCircle } from 'lucide-react';
+
+function ResetPasswordForm() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const { toast } = useToast();
+
+  const [formData, setFormData] = useState({ password: '', confirmPassword: '' });
+  const [linkExpired, setLinkExpired] = useState(false);
+
+  const { addField, validateField, validateForm, getFieldError, hasError } = useFormValidation();
+
+  useEffect(() => {
+    addField('password', validationConfigs.resetPasswordForm.password);
+  }, [addField]);
+
+  const confirmError = formData.confirmPassword && formData.confirmPassword !== formData.password
+    ? 'Passwords do not match'
+    : undefined;
+
+  const resetMutation = useMutation({
+    mutationFn: (password: string) => apiClient.confirmPasswordReset(token as string, password),
+    onError: (error: ApiError) => {
+      if (error.code === 'INVALID_RESET_TOKEN') {
+        setLinkExpired(true);
+        return;
+      }
+      toast({
+        title: 'Could not reset password',
+        description: error.message || 'Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm().isValid || confirmError || !formData.confirmPassword) {
+      toast({
+        title: 'Please fix the errors',
+        description: 'Check the form for validation errors.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    resetMutation.mutate(formData.password);
+  };
+
+  if (!token || linkExpired) {
+    return (
+      <div className="text-center space-y-4">
+        <AlertCircle className="h-12 w-12 text-destructive mx-auto" />
+        <h1 className="text-2xl font-bold text-gray-900">Link invalid or expired</h1>
+        <p className="text-gray-600">
+          Reset links work once and expire after 30 minutes. Request a new one to continue.
+        </p>
+        <Button asChild className="w-full">
+          <Link href="/auth/forgot-password">Request a new link</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  if (resetMutation.isSuccess) {
+    return (
+      <div className="text-center space-y-4">
+        <CheckCircle className="h-12 w-12 text-green-600 mx-auto" />
+        <h1 className="text-2xl font-bold text-gray-900">Password updated</h1>
+        <p className="text-gray-600">
+          You&apos;ve been signed out everywhere else. Sign in with your new password.
+        </p>
+        <Button asChild className="w-full">
+          <Link href="/auth/login">Sign in</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {/* Header */}
+      <div className="text-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          Choose a New Password
+        </h1>
+        <p className="text-gray-600">
+          At least 8 characters with upper and lower case, a number and a symbol
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <PasswordInput
+          id="password"
+          label="New password"
+          placeholder="••••••••"
+          value={formData.password}
+          onChange={(e) => {
+            setFormData(prev => ({ ...prev, password: e.target.value }));
+            validateField('password', e.target.value);
+          }}
+          disabled={resetMutation.isPending}
+          error={getFieldError('password')}
+          success={!!formData.password && !hasError('password')}
+          required
+        />
+
+        <PasswordInput
+          id="confirmPassword"
+          label="Confirm password"
+          placeholder="••••••••"
+          value={formData.confirmPassword}
+          onChange={(e) => setFormData(prev => ({ ...prev, confirmPassword: e.target.value }))}
+          disabled={resetMutation.isPending}
+          error={confirmError}
+          success={!!formData.confirmPassword && !confirmError}
+          showStrengthIndicator={false}
+          required
+        />
+
+        <Button
+          type="submit"
+          size="lg"
+          disabled={resetMutation.isPending}
+          className="w-full h-12 text-base font-medium"
+        >
+          {resetMutation.isPending ? 'Updating...' : 'Reset Password'}
+        </Button>
+      </form>
+    </>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center px-4">
+      <div className="max-w-md w-full">
+        <div className="bg-white rounded-xl shadow-lg p-8">
+          {/* useSearchParams needs a Suspense boundary for static rendering */}
+          <Suspense fallback={<div className="h-64" />}>
+            <ResetPasswordForm />
+          </Suspense>
+        </div>
+
+        <div className="text-center mt-4">
+          <Link
+            href="/auth/login"
+            className="text-sm text-gray-600 hover:text-gray-800"
+          >
+            ← Back to Sign In
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { Inter } from 'next/font/google';
 import { QueryProvider } from '@/lib/query-provider';
 import { Toaster } from '@/components/ui/toaster';
 import ServiceWorkerRegistration from '@/components/ServiceWorkerRegistration';
+import SessionExpiryHandler from '@/components/auth/SessionExpiryHandler';
 import { ProductionProviders } from '@/components/production/ProductionProviders';
 
 const inter = Inter({ 
@@ -51,6 +52,7 @@ export default function RootLayout({
         <ProductionProviders>
           <QueryProvider>
             <ServiceWorkerRegistration />
+            <SessionExpiryHandler />
             {children}
             <Toaster />
           </QueryProvider>
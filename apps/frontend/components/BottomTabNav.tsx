@@ -10,6 +10,7 @@ import {
   TrendingUp,
   BarChart3,
   BookOpen,
+  CalendarCheck,
   User,
   type LucideIcon
 } from 'lucide-react';
@@ -44,6 +45,15 @@ const tabs: TabConfig[] = [
     color: 'text-gray-500',
     activeColor: 'text-green-500'
   },
+  {
+    key: 'session',
+    name: 'Session',
+    label: 'Daily Session Journal',
+    icon: CalendarCheck,
+    href: '/session',
+    color: 'text-gray-500',
+    activeColor: 'text-amber-500'
+  },
   {
     key: 'patterns',
     name: 'Patterns',
@@ -0,0 +1,180 @@
+'use client';
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { EmotionDimensions, NamedEmotion } from '@/lib/types';
+import { MAX_SLEEP_HOURS, NAMED_EMOTIONS, SCALE_DIMENSIONS, ScaleDimension } from '@/lib/emotion-dimensions';
+import { X } from 'lucide-react';
+
+interface EmotionDimensionsPanelProps {
+  value: EmotionDimensions;
+  onChange: (dimensions: Partial<EmotionDimensions>) => void;
+  disabled?: boolean;
+  errors?: Record<string, string>;
+  className?: string;
+}
+
+function ScaleRow({
+  label,
+  low,
+  high,
+  value,
+  onChange,
+  disabled,
+  error,
+}: {
+  label: string;
+  low: string;
+  high: string;
+  value?: number;
+  onChange: (value: number | undefined) => void;
+  disabled?: boolean;
+  error?: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-900">{label}</span>
+        {value !== undefined ? (
+          <button
+            type="button"
+            onClick={() => onChange(undefined)}
+            disabled={disabled}
+            className="inline-flex items-center text-xs text-muted-foreground hover:text-foreground"
+            aria-label={`Clear ${label.toLowerCase()}`}
+          >
+            {value}/10
+            <X className="h-3 w-3 ml-1" />
+          </button>
+        ) : (
+          <span className="text-xs text-muted-foreground">Not set</span>
+        )}
+      </div>
+      <div className="flex gap-1" role="radiogroup" aria-label={label}>
+        {Array.from({ length: 10 }, (_, i) => i + 1).map(level => (
+          <button
+            key={level}
+            type="button"
+            role="radio"
+            aria-checked={value === level}
+            onClick={() => onChange(level)}
+            disabled={disabled}
+            className={cn(
+              'flex-1 h-8 rounded text-xs font-medium transition-colors touch-target',
+              'focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-1',
+              value !== undefined && level <= value
+                ? 'bg-primary text-primary-foreground'
+                : 'bg-gray-100 text-gray-500 hover:bg-gray-200',
+              disabled && 'opacity-50 cursor-not-allowed'
+            )}
+          >
+            {level}
+          </button>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{low}</span>
+        <span>{high}</span>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+// Optional detail for an emotion check: named emotions, body signals and rest
+export function EmotionDimensionsPanel({
+  value,
+  onChange,
+  disabled = false,
+  errors = {},
+  className,
+}: EmotionDimensionsPanelProps) {
+  const selected = value.emotions || [];
+
+  const toggleEmotion = (emotion: NamedEmotion) => {
+    const next = selected.includes(emotion)
+      ? selected.filter(item => item !== emotion)
+      : [...selected, emotion];
+    onChange({ emotions: next });
+  };
+
+  const handleSleepChange = (raw: string) => {
+    if (raw === '') {
+      onChange({ sleepHours: undefined });
+      return;
+    }
+    const hours = Number(raw);
+    if (!isNaN(hours)) onChange({ sleepHours: hours });
+  };
+
+  return (
+    <div className={cn('space-y-5', className)}>
+      <div className="space-y-2">
+        <span className="text-sm font-medium text-gray-900">What&apos;s driving you?</span>
+        <div className="flex flex-wrap gap-2">
+          {NAMED_EMOTIONS.map(emotion => {
+            const isSelected = selected.includes(emotion.value);
+            return (
+              <button
+                key={emotion.value}
+                type="button"
+                onClick={() => toggleEmotion(emotion.value)}
+                disabled={disabled}
+                title={emotion.description}
+                aria-pressed={isSelected}
+                className={cn(
+                  'px-3 py-1.5 rounded-full border text-sm transition-colors touch-target',
+                  'focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-1',
+                  isSelected
+                    ? 'border-primary bg-primary/10 text-primary font-medium'
+                    : 'border-border text-gray-600 hover:border-primary/50',
+                  disabled && 'opacity-50 cursor-not-allowed'
+                )}
+              >
+                {emotion.label}
+              </button>
+            );
+          })}
+        </div>
+        {errors.emotions && <p className="text-xs text-red-600">{errors.emotions}</p>}
+      </div>
+
+      {SCALE_DIMENSIONS.map(dimension => (
+        <ScaleRow
+          key={dimension.key}
+          label={dimension.label}
+          low={dimension.low}
+          high={dimension.high}
+          value={value[dimension.key]}
+          onChange={(level) => onChange({ [dimension.key]: level } as Partial<Record<ScaleDimension, number>>)}
+          disabled={disabled}
+          error={errors[dimension.key]}
+        />
+      ))}
+
+      <div className="space-y-1">
+        <label htmlFor="sleep-hours" className="text-sm font-medium text-gray-900">
+          Sleep last night (hours)
+        </label>
+        <input
+          id="sleep-hours"
+          type="number"
+          inputMode="decimal"
+          min={0}
+          max={MAX_SLEEP_HOURS}
+          step={0.5}
+          placeholder="e.g. 7.5"
+          value={value.sleepHours ?? ''}
+          onChange={(e) => handleSleepChange(e.target.value)}
+          disabled={disabled}
+          className={cn(
+            'flex h-10 w-32 rounded-md border border-input bg-background px-3 py-2 text-sm',
+            'focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-1',
+            errors.sleepHours && 'border-red-500'
+          )}
+        />
+        {errors.sleepHours && <p className="text-xs text-red-600">{errors.sleepHours}</p>}
+      </div>
+    </div>
+  );
+}
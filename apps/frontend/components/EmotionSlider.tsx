@@ -2,6 +2,8 @@
 
 import React, { useCallback, useEffect, useState, useRef } from 'react';
 import { cn, getEmotionColor, getEmotionLabel } from '@/lib/utils';
+import { EmotionDimensions } from '@/lib/types';
+import { EmotionDimensionsPanel } from './EmotionDimensionsPanel';
 
 interface EmotionSliderProps {
   value: number;
@@ -10,6 +12,10 @@ interface EmotionSliderProps {
   size?: 'sm' | 'md' | 'lg';
   showLabels?: boolean;
   className?: string;
+  // When provided, optional emotion dimensions are collected below the scale
+  dimensions?: EmotionDimensions;
+  onDimensionsChange?: (dimensions: Partial<EmotionDimensions>) => void;
+  dimensionErrors?: Record<string, string>;
 }
 
 // Emotion labels for accessibility and user guidance
@@ -46,7 +52,10 @@ export function EmotionSlider({
   disabled = false,
   size = 'md',
   showLabels = true,
-  className 
+  className,
+  dimensions,
+  onDimensionsChange,
+  dimensionErrors,
 }: EmotionSliderProps) {
   const [currentValue, setCurrentValue] = useState(value);
   const [isDragging, setIsDragging] = useState(false);
@@ -159,6 +168,7 @@ export function EmotionSlider({
   };
 
   const config = sizeConfigs[size];
+  const showDimensions = !!dimensions && !!onDimensionsChange;
 
   // Generate gradient background for the track
   const generateGradient = () => {
@@ -172,7 +182,7 @@ export function EmotionSlider({
   };
 
   return (
-    <div className={cn('w-full', config.container, config.spacing, className)}>
+    <div className={cn('w-full', !showDimensions && config.container, config.spacing, className)}>
       {/* Current Value Display */}
       <div className="flex items-center justify-between mb-2">
         <div className="flex items-center space-x-3">
@@ -367,6 +377,17 @@ export function EmotionSlider({
           </button>
         ))}
       </div>
+
+      {/* Optional Dimensions */}
+      {dimensions && onDimensionsChange && (
+        <EmotionDimensionsPanel
+          value={dimensions}
+          onChange={onDimensionsChange}
+          disabled={disabled}
+          errors={dimensionErrors}
+          className="mt-6 pt-6 border-t"
+        />
+      )}
     </div>
   );
 }
@@ -1,6 +1,9 @@
 'use client';
 
 import { useEffect } from 'react';
+import { useInvalidateReplayed } from '@/components/offline/OfflineIndicators';
+import { useEmotionStore } from '@/lib/emotion-store';
+import { OUTBOX_SYNC_TAG, useOutboxStore } from '@/lib/outbox-store';
 
 // Extend ServiceWorkerRegistration interface for background sync
 declare global {
@@ -12,12 +15,59 @@ declare global {
 }
 
 export default function ServiceWorkerRegistration() {
+  const invalidateReplayed = useInvalidateReplayed();
+
   useEffect(() => {
     if (typeof window !== 'undefined' && 'serviceWorker' in navigator) {
       registerServiceWorker();
     }
   }, []);
 
+  // Replay the offline outbox on load, when connectivity returns, and when the
+  // service worker's background sync fires
+  useEffect(() => {
+    const flushOutbox = () => {
+      useOutboxStore.getState().flush().then(invalidateReplayed).catch(console.error);
+    };
+    const handleOnline = () => {
+      useEmotionStore.getState().setOnlineStatus(true);
+      flushOutbox();
+    };
+    const handleOffline = () => useEmotionStore.getState().setOnlineStatus(false);
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'OUTBOX_SYNC') flushOutbox();
+    };
+
+    useEmotionStore.getState().setOnlineStatus(navigator.onLine);
+    flushOutbox();
+
+    // Items waiting on backoff get another chance without needing an online event
+    const interval = setInterval(() => {
+      if (useOutboxStore.getState().operations.some(op => op.status === 'pending')) flushOutbox();
+    }, 30 * 1000);
+
+    // Ask the browser for a background sync whenever new work is queued
+    let previousCount = useOutboxStore.getState().operations.length;
+    const unsubscribe = useOutboxStore.subscribe(state => {
+      if (state.operations.length > previousCount) {
+        PWAUtils.scheduleSync(OUTBOX_SYNC_TAG).catch(console.error);
+      }
+      previousCount = state.operations.length;
+    });
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    };
+  }, [invalidateReplayed]);
+
   const registerServiceWorker = async () => {
     try {
       const registration = await navigator.serviceWorker.register('/sw.js', {
@@ -49,9 +99,9 @@ export default function ServiceWorkerRegistration() {
         console.log('Message from service worker:', event.data);
       });
 
-      // Register for background sync if supported
-      if (registration.sync) {
-        console.log('Background sync is supported');
+      // Register for background sync if supported; the worker posts OUTBOX_SYNC back to us
+      if (registration.sync && useOutboxStore.getState().operations.length > 0) {
+        await registration.sync.register(OUTBOX_SYNC_TAG);
       }
 
       // Request notification permission
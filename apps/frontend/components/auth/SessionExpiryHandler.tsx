@@ -0,0 +1,50 @@
+'use client';
+
+import { useEffect } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { SESSION_EXPIRED_EVENT } from '@/lib/auth/jwt-manager';
+import { clearSession, resumeSession } from '@/lib/auth/session';
+import { useAuthStore } from '@/lib/auth-store';
+import { useEmotionStore } from '@/lib/emotion-store';
+import { useTradeTagStore } from '@/lib/trade-tag-store';
+
+// Sends the user back to sign in when their tokens can no longer be refreshed
+export default function SessionExpiryHandler() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const userId = useAuthStore(state => state.user?.id);
+
+  // Unsynced work outlives the session; hand it back to whoever signs in,
+  // then pull their tag list and check-in history, which sign-out cleared
+  // from this device
+  useEffect(() => {
+    if (!userId) return;
+    resumeSession(userId);
+    useTradeTagStore.getState().syncWithServer();
+    useEmotionStore.getState().syncStreakWithServer();
+  }, [userId]);
+
+  useEffect(() => {
+    const handleExpired = () => {
+      clearSession(queryClient, 'expired');
+      toast({
+        title: 'Session expired',
+        description: 'Please sign in again to continue.',
+        variant: 'destructive',
+      });
+
+      if (!pathname?.startsWith('/auth')) {
+        router.push('/auth/login');
+      }
+    };
+
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+  }, [pathname, queryClient, router, toast]);
+
+  return null;
+}
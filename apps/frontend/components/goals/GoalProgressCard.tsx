@@ -0,0 +1,138 @@
+'use client';
+
+import React from 'react';
+import { Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { GoalEvaluation, GoalHistoryPoint, getGoalDefinition, isMeasurableGoal } from '@/lib/analytics/goal-progress';
+import { MonthlyGoal } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { Save, X } from 'lucide-react';
+
+interface GoalProgressCardProps {
+  goal: MonthlyGoal;
+  // Undefined while the data behind a measurable goal is loading
+  evaluation?: GoalEvaluation;
+  history?: GoalHistoryPoint[];
+  isMonthOver: boolean;
+  onToggle: (goal: MonthlyGoal) => void;
+}
+
+function ProgressBar({ progress, complete }: { progress: number; complete: boolean }) {
+  return (
+    <div className="w-full bg-gray-200 rounded-full h-2">
+      <div
+        className={cn(
+          'h-2 rounded-full transition-all',
+          complete ? 'bg-green-500' : progress >= 80 ? 'bg-yellow-500' : 'bg-blue-500'
+        )}
+        style={{ width: `${progress}%` }}
+      />
+    </div>
+  );
+}
+
+function GoalHistoryChart({ history }: { history: GoalHistoryPoint[] }) {
+  const data = history.map(point => ({ day: Number(point.date.slice(8)), progress: point.progress }));
+
+  return (
+    <div className="h-24" aria-label="Daily progress this month">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 4, right: 4, bottom: 0, left: -28 }}>
+          <XAxis dataKey="day" tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+          <YAxis domain={[0, 100]} ticks={[0, 50, 100]} tick={{ fontSize: 10 }} />
+          <ReferenceLine y={100} stroke="#10b981" strokeDasharray="3 3" />
+          <Tooltip
+            formatter={(value: number) => [`${value}%`, 'Progress']}
+            labelFormatter={(day) => `Day ${day}`}
+          />
+          <Line type="monotone" dataKey="progress" stroke="#3b82f6" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export function GoalProgressCard({ goal, evaluation, history, isMonthOver, onToggle }: GoalProgressCardProps) {
+  // Free-text goals keep the manual toggle and stored progress
+  if (!isMeasurableGoal(goal)) {
+    return (
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-start justify-between">
+            <CardTitle className="text-base">{goal.goal}</CardTitle>
+            <div className="flex items-center gap-2">
+              <Badge variant={goal.isCompleted ? 'default' : 'secondary'}>
+                {goal.isCompleted ? 'Complete' : 'In Progress'}
+              </Badge>
+              <Button variant="ghost" size="sm" onClick={() => onToggle(goal)}>
+                {goal.isCompleted ? <X className="h-4 w-4" /> : <Save className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>Progress</span>
+              <span>{goal.progress || 0}%</span>
+            </div>
+            <ProgressBar progress={goal.progress || 0} complete={goal.isCompleted} />
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const definition = getGoalDefinition(goal.metric!);
+
+  if (!evaluation) {
+    return (
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">{goal.goal}</CardTitle>
+          <CardDescription>{definition.label} · measured automatically</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-8 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // A limit is only "met" once the month is over; until then it is on track
+  const status = isMonthOver
+    ? evaluation.met ? 'Met' : 'Missed'
+    : evaluation.met ? 'On track' : evaluation.value === null ? 'Waiting for data' : 'Behind';
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1">
+            <CardTitle className="text-base">{goal.goal}</CardTitle>
+            <CardDescription>{definition.label} · measured automatically</CardDescription>
+          </div>
+          <Badge
+            variant={evaluation.met ? 'default' : 'secondary'}
+            className={cn(isMonthOver && !evaluation.met && 'bg-red-100 text-red-700')}
+          >
+            {status}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">{evaluation.summary}</span>
+            <span>{definition.direction === 'atMost' ? `${evaluation.progress}% left` : `${evaluation.progress}%`}</span>
+          </div>
+          <ProgressBar progress={evaluation.progress} complete={evaluation.met} />
+        </div>
+        {history && history.length > 1 && <GoalHistoryChart history={history} />}
+      </CardContent>
+    </Card>
+  );
+}
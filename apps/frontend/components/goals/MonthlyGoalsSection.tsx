@@ -0,0 +1,270 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem } from '@/components/ui/select';
+import { GoalProgressCard } from '@/components/goals/GoalProgressCard';
+import { apiClient } from '@/lib/api-client';
+import { useAuthStore } from '@/lib/auth-store';
+import { useOutboxStore } from '@/lib/outbox-store';
+import { useLinkWindowMs } from '@/lib/settings-store';
+import { useTradeTagStore } from '@/lib/trade-tag-store';
+import { getDayKey } from '@/lib/calendar';
+import { fetchAllEmotionChecks, fetchAllTrades } from '@/lib/analytics/pattern-analytics';
+import {
+  GOAL_METRICS,
+  GoalContext,
+  GoalEvaluation,
+  GoalHistoryPoint,
+  buildGoalHistory,
+  describeGoalTarget,
+  evaluateGoal,
+  getGoalDefinition,
+  getGoalMonth,
+  isMeasurableGoal,
+} from '@/lib/analytics/goal-progress';
+import { GoalMetric, MonthlyGoal, MonthlyGoalRequest } from '@/lib/types';
+import { Target } from 'lucide-react';
+
+const FREE_TEXT = 'text';
+
+export function MonthlyGoalsSection({ goals }: { goals: MonthlyGoal[] }) {
+  const queryClient = useQueryClient();
+  const timezone = useAuthStore(state => state.user?.timezone);
+  const windowMs = useLinkWindowMs();
+  const tags = useTradeTagStore(state => state.tags);
+  const submitToOutbox = useOutboxStore(state => state.submit);
+
+  const [kind, setKind] = useState<GoalMetric | typeof FREE_TEXT>(FREE_TEXT);
+  const [newGoal, setNewGoal] = useState('');
+  const [target, setTarget] = useState('');
+  const [tagId, setTagId] = useState('');
+
+  const currentMonth = getDayKey(new Date(), timezone).slice(0, 7);
+  const mistakeTags = tags.filter(tag => tag.kind === 'mistake' && !tag.archived);
+
+  const hasMeasurableGoals = goals.some(isMeasurableGoal);
+  const { data: checks } = useQuery({
+    queryKey: ['emotions', 'all'],
+    queryFn: fetchAllEmotionChecks,
+    staleTime: 5 * 60 * 1000,
+    enabled: hasMeasurableGoals,
+  });
+  const { data: trades } = useQuery({
+    queryKey: ['trades', 'all'],
+    queryFn: fetchAllTrades,
+    staleTime: 5 * 60 * 1000,
+    enabled: hasMeasurableGoals,
+  });
+
+  // Measurable goals are evaluated only once both data sets have loaded
+  const progressById = useMemo(() => {
+    const result: Record<string, { evaluation: GoalEvaluation; history: GoalHistoryPoint[] }> = {};
+    if (!checks || !trades) return result;
+
+    const context: GoalContext = { checks, trades, timezone, windowMs };
+    goals.filter(isMeasurableGoal).forEach(goal => {
+      result[goal.id] = { evaluation: evaluateGoal(goal, context), history: buildGoalHistory(goal, context) };
+    });
+    return result;
+  }, [goals, checks, trades, timezone, windowMs]);
+
+  // Store computed progress on the goal, and settle completion once its month is over
+  const syncedRef = useRef<Record<string, string>>({});
+  useEffect(() => {
+    goals.forEach(goal => {
+      const progress = progressById[goal.id];
+      if (!progress) return;
+
+      const goalMonth = getGoalMonth(goal);
+      const isMonthOver = goalMonth < currentMonth;
+      const isCompleted = isMonthOver && progress.evaluation.met;
+      const key = `${progress.evaluation.progress}:${isCompleted}`;
+      if (syncedRef.current[goal.id] === key) return;
+      syncedRef.current[goal.id] = key;
+
+      if (goalMonth === currentMonth && goal.progress !== progress.evaluation.progress) {
+        submitToOutbox('monthlyGoal.progress', { goalId: goal.id, progress: progress.evaluation.progress })
+          .catch(error => console.error('Failed to save goal progress:', error));
+      } else if (isMonthOver && goal.isCompleted !== isCompleted) {
+        apiClient.updateMonthlyGoal(goal.id, {
+          goal: goal.goal,
+          targetMonth: goalMonth,
+          progress: progress.evaluation.progress,
+          isCompleted,
+        }).then(
+          () => queryClient.invalidateQueries({ queryKey: ['monthlyGoals'] }),
+          error => console.error('Failed to settle goal:', error)
+        );
+      }
+    });
+  }, [goals, progressById, currentMonth, submitToOutbox, queryClient]);
+
+  const createGoalMutation = useMutation({
+    mutationFn: (data: MonthlyGoalRequest) => apiClient.createMonthlyGoal(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['monthlyGoals'] });
+      setNewGoal('');
+      setTarget('');
+    },
+  });
+
+  const updateGoalMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<MonthlyGoalRequest> }) =>
+      apiClient.updateMonthlyGoal(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['monthlyGoals'] });
+    },
+  });
+
+  const definition = kind === FREE_TEXT ? null : getGoalDefinition(kind);
+  const targetValue = definition
+    ? Math.max(definition.min, Math.min(definition.max, target === '' ? definition.defaultTarget : Number(target)))
+    : 0;
+  const selectedTagId = tagId || mistakeTags[0]?.id || '';
+  const canCreate = definition
+    ? !isNaN(targetValue) && (!definition.needsTag || !!selectedTagId)
+    : !!newGoal.trim();
+
+  const handleCreateGoal = () => {
+    if (!canCreate) return;
+
+    if (!definition) {
+      createGoalMutation.mutate({
+        goal: newGoal.trim(),
+        targetMonth: currentMonth,
+        progress: 0,
+        isCompleted: false,
+      });
+      return;
+    }
+
+    const goalTagId = definition.needsTag ? selectedTagId : undefined;
+    createGoalMutation.mutate({
+      goal: newGoal.trim() || describeGoalTarget(definition.metric, targetValue, goalTagId, tags),
+      targetMonth: currentMonth,
+      progress: 0,
+      isCompleted: false,
+      metric: definition.metric,
+      target: targetValue,
+      tagId: goalTagId,
+    });
+  };
+
+  const handleToggleGoal = (goal: MonthlyGoal) => {
+    updateGoalMutation.mutate({
+      id: goal.id,
+      data: {
+        goal: goal.goal,
+        targetMonth: getGoalMonth(goal),
+        isCompleted: !goal.isCompleted,
+        progress: goal.isCompleted ? 0 : 100,
+      },
+    });
+  };
+
+  return (
+    <>
+      <div className="space-y-3">
+        <h2 className="text-xl font-semibold">Monthly Goals</h2>
+        <div className="flex flex-wrap gap-2">
+          <Select
+            value={kind}
+            onValueChange={(value) => {
+              setKind(value as GoalMetric | typeof FREE_TEXT);
+              setTarget('');
+            }}
+            aria-label="Goal type"
+          >
+            <SelectContent>
+              <SelectItem value={FREE_TEXT}>Free text</SelectItem>
+              {GOAL_METRICS.map(metric => (
+                <SelectItem key={metric.metric} value={metric.metric}>{metric.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {definition && (
+            <div className="flex items-center gap-1">
+              <Input
+                type="number"
+                min={definition.min}
+                max={definition.max}
+                step={definition.step}
+                placeholder={definition.defaultTarget.toString()}
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                className="w-20 h-9"
+                aria-label="Target"
+              />
+              <span className="text-sm text-muted-foreground">{definition.unit}</span>
+            </div>
+          )}
+
+          {definition?.needsTag && (
+            mistakeTags.length > 0 ? (
+              <Select value={selectedTagId} onValueChange={setTagId} aria-label="Mistake tag">
+                <SelectContent>
+                  {mistakeTags.map(tag => (
+                    <SelectItem key={tag.id} value={tag.id}>{tag.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <span className="text-sm text-muted-foreground self-center">Add a mistake tag in Profile first</span>
+            )
+          )}
+
+          <input
+            type="text"
+            placeholder={definition
+              ? describeGoalTarget(definition.metric, isNaN(targetValue) ? definition.defaultTarget : targetValue, selectedTagId, tags)
+              : 'Enter new goal...'}
+            value={newGoal}
+            onChange={(e) => setNewGoal(e.target.value)}
+            className="flex-1 min-w-[12rem] px-3 py-1 text-sm border rounded-md"
+            onKeyDown={(e) => e.key === 'Enter' && handleCreateGoal()}
+            aria-label="Goal description"
+          />
+          <Button size="sm" onClick={handleCreateGoal} disabled={!canCreate || createGoalMutation.isPending}>
+            <Target className="h-4 w-4 mr-2" />
+            Add Goal
+          </Button>
+        </div>
+        {definition && (
+          <p className="text-xs text-muted-foreground">
+            Progress is calculated from your emotion checks and trades this month.
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {goals.length > 0 ? (
+          goals.map(goal => (
+            <GoalProgressCard
+              key={goal.id}
+              goal={goal}
+              evaluation={progressById[goal.id]?.evaluation}
+              history={progressById[goal.id]?.history}
+              isMonthOver={getGoalMonth(goal) < currentMonth}
+              onToggle={handleToggleGoal}
+            />
+          ))
+        ) : (
+          <Card className="md:col-span-2">
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <Target className="h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">No goals set</h3>
+              <p className="text-muted-foreground text-center mb-4">
+                Set your first monthly goal to track your progress.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </>
+  );
+}
@@ -1,9 +1,18 @@
 'use client';
 
 import React from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useEmotionStore } from '@/lib/emotion-store';
+import {
+  OUTBOX_HANDLERS,
+  OutboxFlushResult,
+  OutboxOperation,
+  describeOperation,
+  useOutboxStore,
+} from '@/lib/outbox-store';
+import { formatRelativeTime } from '@/lib/utils';
 import { 
   Wifi, 
   WifiOff, 
@@ -13,9 +22,35 @@ import {
   AlertCircle
 } from 'lucide-react';
 
+// Invalidates the queries touched by whatever just reached the server
+export function useInvalidateReplayed() {
+  const queryClient = useQueryClient();
+
+  return React.useCallback((result: OutboxFlushResult) => {
+    const keys: Record<string, string[]> = {};
+    result.replayed.forEach(op => {
+      const queryKey = OUTBOX_HANDLERS[op.type].queryKey;
+      keys[queryKey.join('/')] = queryKey;
+    });
+    Object.keys(keys).forEach(key => queryClient.invalidateQueries({ queryKey: keys[key] }));
+  }, [queryClient]);
+}
+
+function summarizeOperations(operations: OutboxOperation[]): string {
+  const counts: Record<string, number> = {};
+  operations.forEach(op => {
+    const label = OUTBOX_HANDLERS[op.type].label.toLowerCase();
+    counts[label] = (counts[label] || 0) + 1;
+  });
+  return Object.keys(counts)
+    .map(label => `${counts[label]} ${label}${counts[label] > 1 ? 's' : ''}`)
+    .join(', ');
+}
+
 export function OfflineIndicator() {
-  const { isOnline, pendingEntries, syncPendingEntries } = useEmotionStore();
-  const pendingCount = pendingEntries.length;
+  const isOnline = useEmotionStore(state => state.isOnline);
+  const operations = useOutboxStore(state => state.operations);
+  const pendingCount = operations.length;
 
   if (isOnline && pendingCount === 0) {
     return (
@@ -48,24 +83,27 @@ export function OfflineIndicator() {
 }
 
 export function OfflineStatusCard() {
-  const { isOnline, pendingEntries, syncPendingEntries } = useEmotionStore();
-  const pendingCount = pendingEntries.length;
+  const isOnline = useEmotionStore(state => state.isOnline);
+  const { operations, isFlushing, flush } = useOutboxStore();
+  const invalidateReplayed = useInvalidateReplayed();
+  const pending = operations.filter(op => op.status === 'pending');
+  const conflicts = operations.filter(op => op.status === 'conflict');
 
   const handleSync = async () => {
     try {
-      await syncPendingEntries();
+      invalidateReplayed(await flush({ force: true }));
     } catch (error) {
-      console.error('Failed to sync pending entries:', error);
+      console.error('Failed to sync queued operations:', error);
     }
   };
 
-  // Don't show card if online and no pending entries
-  if (isOnline && pendingCount === 0) {
+  // Don't show card if online and nothing is queued
+  if (isOnline && operations.length === 0) {
     return null;
   }
 
   return (
-    <div className="mb-4">
+    <div className="mb-4 space-y-3">
       {/* Offline Mode */}
       {!isOnline && (
         <div className="flex items-center space-x-3 p-4 bg-amber-50 rounded-lg border border-amber-200">
@@ -75,20 +113,22 @@ export function OfflineStatusCard() {
               You&apos;re offline
             </p>
             <p className="text-sm text-amber-700">
-              Your emotion checks will be saved locally and synced when you&apos;re back online.
+              {pending.length > 0
+                ? `${summarizeOperations(pending)} saved on this device and will sync when you're back online.`
+                : "Your entries will be saved locally and synced when you're back online."}
             </p>
           </div>
         </div>
       )}
 
       {/* Pending Sync */}
-      {isOnline && pendingCount > 0 && (
+      {isOnline && pending.length > 0 && (
         <div className="flex items-center justify-between p-4 bg-blue-50 rounded-lg border border-blue-200">
           <div className="flex items-center space-x-3">
             <Clock className="h-5 w-5 text-blue-600 flex-shrink-0" />
             <div>
               <p className="text-sm font-medium text-blue-900">
-                {pendingCount} emotion check{pendingCount > 1 ? 's' : ''} pending sync
+                {summarizeOperations(pending)} pending sync
               </p>
               <p className="text-sm text-blue-700">
                 These will be automatically synced to your account.
@@ -99,72 +139,104 @@ export function OfflineStatusCard() {
             variant="outline"
             size="sm"
             onClick={handleSync}
+            disabled={isFlushing}
             className="bg-white border-blue-300 text-blue-700 hover:bg-blue-50"
           >
-            <RefreshCw className="h-4 w-4 mr-2" />
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFlushing ? 'animate-spin' : ''}`} />
             Sync Now
           </Button>
         </div>
       )}
 
-      {/* Sync Success (show briefly) */}
-      {isOnline && pendingCount === 0 && (
+      {/* Rejected by the server - needs the user to retry or discard */}
+      {conflicts.length > 0 && (
+        <div className="flex items-center space-x-3 p-4 bg-red-50 rounded-lg border border-red-200">
+          <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+          <div>
+            <p className="text-sm font-medium text-red-900">
+              {summarizeOperations(conflicts)} could not be synced
+            </p>
+            <p className="text-sm text-red-700">
+              Review them below to retry or discard.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Everything synced */}
+      {isOnline && operations.length === 0 && (
         <div className="flex items-center space-x-3 p-3 bg-green-50 rounded-lg border border-green-200">
           <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0" />
           <p className="text-sm text-green-700">
-            All emotion checks synced successfully
+            Everything synced successfully
           </p>
         </div>
       )}
+
+      <PendingEntriesList />
     </div>
   );
 }
 
 export function PendingEntriesList() {
-  const { pendingEntries, removePendingEntry } = useEmotionStore();
+  const { operations, remove, retry } = useOutboxStore();
 
-  if (pendingEntries.length === 0) {
+  if (operations.length === 0) {
     return null;
   }
 
   return (
     <div className="space-y-2">
       <h4 className="text-sm font-medium text-muted-foreground">
-        Pending Emotion Checks ({pendingEntries.length})
+        Queued Changes ({operations.length})
       </h4>
       <div className="space-y-2">
-        {pendingEntries.map((entry) => (
-          <div key={entry.id} className="flex items-center justify-between p-3 bg-gray-50 rounded border">
-            <div className="flex items-center space-x-3">
-              <div className="h-8 w-8 bg-gray-200 rounded-full flex items-center justify-center text-sm font-medium">
-                {entry.level}
-              </div>
-              <div>
-                <p className="text-sm font-medium capitalize">
-                  {entry.context.replace('-', ' ')}
-                </p>
+        {operations.map((operation) => {
+          const { label, detail } = describeOperation(operation);
+          const isConflict = operation.status === 'conflict';
+
+          return (
+            <div
+              key={operation.id}
+              className={`flex items-center justify-between p-3 rounded border ${isConflict ? 'bg-red-50 border-red-200' : 'bg-gray-50'}`}
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium">{label}</p>
+                <p className="text-xs text-muted-foreground truncate">{detail}</p>
                 <p className="text-xs text-muted-foreground">
-                  {entry.symbol && `${entry.symbol} • `}
-                  Level {entry.level}
+                  Saved {formatRelativeTime(new Date(operation.createdAt))}
+                  {operation.attempts > 0 && ` • ${operation.attempts} attempt${operation.attempts > 1 ? 's' : ''}`}
                 </p>
+                {operation.lastError && (
+                  <p className={`text-xs ${isConflict ? 'text-red-700' : 'text-muted-foreground'}`}>
+                    {operation.lastError}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                {isConflict ? (
+                  <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => retry(operation.id)}>
+                    Retry
+                  </Button>
+                ) : (
+                  <Badge variant="outline" className="text-xs">
+                    <Clock className="h-3 w-3 mr-1" />
+                    Pending
+                  </Badge>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => remove(operation.id)}
+                  className="h-6 w-6 p-0"
+                  aria-label="Discard"
+                >
+                  ✕
+                </Button>
               </div>
             </div>
-            <div className="flex items-center space-x-2">
-              <Badge variant="outline" className="text-xs">
-                <Clock className="h-3 w-3 mr-1" />
-                Pending
-              </Badge>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => removePendingEntry(entry.id)}
-                className="h-6 w-6 p-0"
-              >
-                ✕
-              </Button>
-            </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
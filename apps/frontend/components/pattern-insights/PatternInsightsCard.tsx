@@ -1,11 +1,20 @@
 'use client';
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
 import { Skeleton } from '@/components/ui/skeleton';
-import { apiClient } from '@/lib/api-client';
+import {
+  analyzePatterns,
+  fetchAllEmotionChecks,
+  fetchAllTrades,
+  DateRangeKey,
+  EmotionLevelBucket,
+} from '@/lib/analytics/pattern-analytics';
+import { CorrelationResult, MIN_CORRELATION_SAMPLE } from '@/lib/analytics/statistics';
+import { useLinkWindowMs } from '@/lib/settings-store';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -16,70 +25,56 @@ import {
   Activity
 } from 'lucide-react';
 
-interface PatternInsight {
-  emotionLevel: number;
-  winRate: number;
-  avgPnL: number;
-  tradeCount: number;
-  confidence: number;
-}
-
 interface PatternInsightsData {
-  insights: PatternInsight[];
-  optimalEmotionRange: [number, number];
-  correlationStrength: number;
-  statisticalSignificance: boolean;
+  insights: EmotionLevelBucket[];
+  optimalEmotionRange: [number, number] | null;
+  correlation: CorrelationResult;
+  rankCorrelation: CorrelationResult;
   recommendations: string[];
   summary: string;
 }
 
-export function PatternInsightsCard() {
-  const { data, isLoading, error } = useQuery<PatternInsightsData>({
-    queryKey: ['pattern-insights'],
-    queryFn: async () => {
-      // Call pattern service to get emotion-performance correlation
-      const correlation = await apiClient.getPatternCorrelation();
-      
-      if (!correlation || !correlation.emotionLevels || correlation.emotionLevels.length === 0) {
-        throw new Error('Insufficient data for pattern analysis');
-      }
-
-      // Transform backend data to frontend format
-      const insights: PatternInsight[] = correlation.emotionLevels.map((level: any) => ({
-        emotionLevel: level.emotionLevel,
-        winRate: level.winRate,
-        avgPnL: level.averageReturn,
-        tradeCount: level.tradeCount,
-        confidence: Math.min(level.tradeCount / 10, 1) // Confidence based on sample size
-      }));
-
-      // Find optimal emotion range (top 3 performing levels)
-      const sortedByWinRate = [...insights].sort((a, b) => b.winRate - a.winRate);
-      const topPerformers = sortedByWinRate.slice(0, 3);
-      const optimalRange: [number, number] = [
-        Math.min(...topPerformers.map(p => p.emotionLevel)),
-        Math.max(...topPerformers.map(p => p.emotionLevel))
-      ];
-
-      // Generate recommendations based on insights
-      const recommendations = generateRecommendations(insights, correlation.correlationCoefficient);
-      
-      // Create summary
-      const summary = generateSummary(insights, correlation.correlationCoefficient, optimalRange);
-
-      return {
-        insights,
-        optimalEmotionRange: optimalRange,
-        correlationStrength: Math.abs(correlation.correlationCoefficient),
-        statisticalSignificance: correlation.isStatisticallySignificant,
-        recommendations,
-        summary
-      };
-    },
+interface PatternInsightsCardProps {
+  dateRange?: DateRangeKey;
+}
+
+export function PatternInsightsCard({ dateRange = 'all' }: PatternInsightsCardProps) {
+  const { data: emotionChecks, isLoading: isLoadingChecks, error: checksError } = useQuery({
+    queryKey: ['emotions', 'all'],
+    queryFn: fetchAllEmotionChecks,
     staleTime: 5 * 60 * 1000, // 5 minutes
     retry: 2
   });
 
+  const { data: trades, isLoading: isLoadingTrades, error: tradesError } = useQuery({
+    queryKey: ['trades', 'all'],
+    queryFn: fetchAllTrades,
+    staleTime: 5 * 60 * 1000,
+    retry: 2
+  });
+
+  const linkWindowMs = useLinkWindowMs();
+  const data = useMemo<PatternInsightsData | undefined>(() => {
+    if (!emotionChecks || !trades) return undefined;
+
+    const analysis = analyzePatterns(emotionChecks, trades, dateRange, new Date(), linkWindowMs);
+    const correlation = analysis.insights.correlationTest;
+    const insights = analysis.buckets;
+    const optimalRange = analysis.insights.optimalEmotionRange;
+
+    return {
+      insights,
+      optimalEmotionRange: optimalRange,
+      correlation,
+      rankCorrelation: analysis.insights.rankCorrelationTest,
+      recommendations: generateRecommendations(insights, correlation),
+      summary: generateSummary(insights, correlation, optimalRange),
+    };
+  }, [emotionChecks, trades, dateRange, linkWindowMs]);
+
+  const isLoading = isLoadingChecks || isLoadingTrades;
+  const error = checksError || tradesError;
+
   if (isLoading) {
     return <PatternInsightsCardSkeleton />;
   }
@@ -96,11 +91,9 @@ export function PatternInsightsCard() {
         <CardContent>
           <div className="flex flex-col items-center justify-center py-8">
             <AlertTriangle className="h-12 w-12 text-amber-500 mb-4" />
-            <h3 className="text-lg font-medium mb-2">Insufficient Data</h3>
+            <h3 className="text-lg font-medium mb-2">Unavailable</h3>
             <p className="text-muted-foreground text-center">
-              {error instanceof Error && error.message.includes('Insufficient data') 
-                ? 'You need at least 10 trades with emotion checks to generate insights.'
-                : 'Unable to load pattern insights. Please try again later.'}
+              Unable to load pattern insights. Please try again later.
             </p>
           </div>
         </CardContent>
@@ -108,6 +101,34 @@ export function PatternInsightsCard() {
     );
   }
 
+  if (data.correlation.sampleSize < MIN_CORRELATION_SAMPLE) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Brain className="h-5 w-5 mr-2 text-blue-500" />
+            Pattern Insights
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col items-center justify-center py-8">
+            <AlertTriangle className="h-12 w-12 text-amber-500 mb-4" />
+            <h3 className="text-lg font-medium mb-2">Not Enough Data Yet</h3>
+            <p className="text-muted-foreground text-center mb-4">
+              You need at least {MIN_CORRELATION_SAMPLE} trades with a P&L and a pre-trade emotion check to generate insights.
+            </p>
+            <div className="w-full max-w-xs space-y-1">
+              <Progress value={(data.correlation.sampleSize / MIN_CORRELATION_SAMPLE) * 100} />
+              <p className="text-xs text-muted-foreground text-center">
+                {data.correlation.sampleSize} of {MIN_CORRELATION_SAMPLE} trades
+              </p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card>
       <CardHeader>
@@ -118,10 +139,10 @@ export function PatternInsightsCard() {
           </div>
           <div className="flex items-center space-x-2">
             <Badge 
-              variant={data.statisticalSignificance ? "default" : "secondary"}
+              variant={data.correlation.isSignificant ? "default" : "secondary"}
               className="text-xs"
             >
-              {data.statisticalSignificance ? (
+              {data.correlation.isSignificant ? (
                 <><CheckCircle className="h-3 w-3 mr-1" />Significant</>
               ) : (
                 <><Activity className="h-3 w-3 mr-1" />Preliminary</>
@@ -130,7 +151,7 @@ export function PatternInsightsCard() {
           </div>
         </CardTitle>
         <CardDescription>
-          AI-powered analysis of your emotion-performance patterns
+          Statistical analysis of your emotion-performance patterns
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -141,25 +162,27 @@ export function PatternInsightsCard() {
         </div>
 
         {/* Optimal Range */}
-        <div className="space-y-3">
-          <h4 className="font-medium flex items-center">
-            <TrendingUp className="h-4 w-4 mr-2 text-green-600" />
-            Optimal Emotion Range
-          </h4>
-          <div className="flex items-center justify-between p-3 bg-green-50 rounded-lg border border-green-200">
-            <div>
-              <p className="text-sm font-medium text-green-900">
-                Sweet Spot: Levels {data.optimalEmotionRange[0]}-{data.optimalEmotionRange[1]}
-              </p>
-              <p className="text-xs text-green-700">
-                Trade when your emotion level is in this range for best results
-              </p>
+        {data.optimalEmotionRange && (
+          <div className="space-y-3">
+            <h4 className="font-medium flex items-center">
+              <TrendingUp className="h-4 w-4 mr-2 text-green-600" />
+              Optimal Emotion Range
+            </h4>
+            <div className="flex items-center justify-between p-3 bg-green-50 rounded-lg border border-green-200">
+              <div>
+                <p className="text-sm font-medium text-green-900">
+                  Sweet Spot: Levels {data.optimalEmotionRange[0]}-{data.optimalEmotionRange[1]}
+                </p>
+                <p className="text-xs text-green-700">
+                  Trade when your emotion level is in this range for best results
+                </p>
+              </div>
+              <Badge variant="outline" className="bg-green-100 text-green-800">
+                {getCorrelationLabel(data.correlation.coefficient)}
+              </Badge>
             </div>
-            <Badge variant="outline" className="bg-green-100 text-green-800">
-              {getCorrelationLabel(data.correlationStrength)}
-            </Badge>
           </div>
-        </div>
+        )}
 
         {/* Top 3 Insights */}
         <div className="space-y-3">
@@ -168,39 +191,45 @@ export function PatternInsightsCard() {
             Performance by Emotion Level
           </h4>
           <div className="space-y-2">
-            {data.insights
+            {[...data.insights]
               .sort((a, b) => b.winRate - a.winRate)
               .slice(0, 3)
               .map((insight, index) => (
                 <div 
                   key={insight.emotionLevel}
-                  className="flex items-center justify-between p-3 rounded-lg bg-gray-50 border"
+                  className="p-3 rounded-lg bg-gray-50 border space-y-2"
                 >
-                  <div className="flex items-center space-x-3">
-                    <div className={`h-8 w-8 rounded-full flex items-center justify-center text-sm font-medium ${
-                      index === 0 ? 'bg-yellow-100 text-yellow-800' :
-                      index === 1 ? 'bg-gray-100 text-gray-800' :
-                      'bg-orange-100 text-orange-800'
-                    }`}>
-                      #{index + 1}
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <div className={`h-8 w-8 rounded-full flex items-center justify-center text-sm font-medium ${
+                        index === 0 ? 'bg-yellow-100 text-yellow-800' :
+                        index === 1 ? 'bg-gray-100 text-gray-800' :
+                        'bg-orange-100 text-orange-800'
+                      }`}>
+                        #{index + 1}
+                      </div>
+                      <div>
+                        <p className="text-sm font-medium">
+                          Level {insight.emotionLevel}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {insight.tradeCount} trades
+                        </p>
+                      </div>
                     </div>
-                    <div>
+                    <div className="text-right">
                       <p className="text-sm font-medium">
-                        Level {insight.emotionLevel}
+                        {insight.winRate.toFixed(1)}% win rate
                       </p>
                       <p className="text-xs text-muted-foreground">
-                        {insight.tradeCount} trades
+                        95% CI {insight.winRateInterval.lower.toFixed(0)}-{insight.winRateInterval.upper.toFixed(0)}%
                       </p>
                     </div>
                   </div>
-                  <div className="text-right">
-                    <p className="text-sm font-medium">
-                      {insight.winRate.toFixed(1)}% win rate
-                    </p>
-                    <p className="text-xs text-muted-foreground">
-                      {insight.avgPnL > 0 ? '+' : ''}{insight.avgPnL.toFixed(2)}% avg
-                    </p>
-                  </div>
+                  <ConfidenceBar bucket={insight} />
+                  {insight.warning && (
+                    <p className="text-xs text-amber-600">{insight.warning}</p>
+                  )}
                 </div>
               ))}
           </div>
@@ -225,16 +254,20 @@ export function PatternInsightsCard() {
         </div>
 
         {/* Correlation Strength Footer */}
-        <div className="pt-4 border-t">
+        <div className="pt-4 border-t space-y-1">
           <div className="flex items-center justify-between text-sm">
             <span className="text-muted-foreground">Correlation Strength:</span>
             <span className="font-medium">
-              {getCorrelationLabel(data.correlationStrength)} ({(data.correlationStrength * 100).toFixed(0)}%)
+              {getCorrelationLabel(data.correlation.coefficient)} (r = {formatCoefficient(data.correlation.coefficient)})
             </span>
           </div>
-          {!data.statisticalSignificance && (
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>p = {formatPValue(data.correlation.pValue)}</span>
+            <span>Spearman ρ = {formatCoefficient(data.rankCorrelation.coefficient)} (p = {formatPValue(data.rankCorrelation.pValue)})</span>
+          </div>
+          {!data.correlation.isSignificant && (
             <p className="text-xs text-amber-600 mt-1">
-              Need more trades for statistically significant results
+              {data.correlation.warning || 'Not statistically significant yet (p ≥ 0.05) - keep logging trades'}
             </p>
           )}
         </div>
@@ -243,6 +276,24 @@ export function PatternInsightsCard() {
   );
 }
 
+// Horizontal 0-100% track showing the win rate and its confidence interval
+function ConfidenceBar({ bucket }: { bucket: EmotionLevelBucket }) {
+  const { lower, upper } = bucket.winRateInterval;
+
+  return (
+    <div className="relative h-2 w-full rounded-full bg-gray-200">
+      <div
+        className={`absolute h-full rounded-full ${bucket.warning ? 'bg-amber-300' : 'bg-purple-300'}`}
+        style={{ left: `${lower}%`, width: `${Math.max(upper - lower, 1)}%` }}
+      />
+      <div
+        className="absolute -top-0.5 h-3 w-1 rounded bg-purple-700"
+        style={{ left: `calc(${bucket.winRate}% - 2px)` }}
+      />
+    </div>
+  );
+}
+
 function PatternInsightsCardSkeleton() {
   return (
     <Card>
@@ -263,63 +314,81 @@ function PatternInsightsCardSkeleton() {
   );
 }
 
-function generateRecommendations(insights: PatternInsight[], correlation: number): string[] {
+function generateRecommendations(insights: EmotionLevelBucket[], correlation: CorrelationResult): string[] {
   const recommendations: string[] = [];
-  
-  // Find best performing levels
-  const bestLevel = insights.reduce((prev, curr) => 
-    curr.winRate > prev.winRate ? curr : prev
-  );
-  
-  // Find worst performing levels
-  const worstLevel = insights.reduce((prev, curr) => 
-    curr.winRate < prev.winRate ? curr : prev
-  );
+  const reliable = insights.filter(i => !i.warning);
 
-  if (Math.abs(correlation) > 0.3) {
-    if (correlation > 0) {
+  if (correlation.isSignificant && correlation.coefficient !== null) {
+    if (correlation.coefficient > 0) {
       recommendations.push(`Higher emotion levels correlate with better performance. Consider trading when feeling more confident and energized.`);
     } else {
       recommendations.push(`Lower emotion levels correlate with better performance. Consider trading when feeling calm and neutral.`);
     }
   }
 
-  if (bestLevel.tradeCount >= 5) {
+  if (reliable.length > 0) {
+    // Find best performing levels
+    const bestLevel = reliable.reduce((prev, curr) => 
+      curr.winRate > prev.winRate ? curr : prev
+    );
+    
+    // Find worst performing levels
+    const worstLevel = reliable.reduce((prev, curr) => 
+      curr.winRate < prev.winRate ? curr : prev
+    );
+
     recommendations.push(`Your emotion level ${bestLevel.emotionLevel} shows the highest win rate (${bestLevel.winRate.toFixed(1)}%). Try to identify what makes you feel this way.`);
-  }
 
-  if (worstLevel.tradeCount >= 5 && worstLevel.winRate < 40) {
-    recommendations.push(`Avoid trading at emotion level ${worstLevel.emotionLevel} - it shows only ${worstLevel.winRate.toFixed(1)}% win rate. Take a break or wait for better emotional state.`);
+    // Only warn when even the optimistic end of the interval is poor
+    if (worstLevel !== bestLevel && worstLevel.winRateInterval.upper < 50) {
+      recommendations.push(`Avoid trading at emotion level ${worstLevel.emotionLevel} - it shows only ${worstLevel.winRate.toFixed(1)}% win rate. Take a break or wait for better emotional state.`);
+    }
   }
 
   // Sample size recommendation
-  if (insights.some(i => i.tradeCount < 5)) {
+  if (insights.some(i => i.warning)) {
     recommendations.push(`Continue tracking emotions with trades to build more reliable patterns. More data will improve insight accuracy.`);
   }
 
   return recommendations.slice(0, 4); // Limit to 4 recommendations
 }
 
-function generateSummary(insights: PatternInsight[], correlation: number, optimalRange: [number, number]): string {
-  const avgWinRate = insights.reduce((sum, insight) => sum + insight.winRate, 0) / insights.length;
+function generateSummary(insights: EmotionLevelBucket[], correlation: CorrelationResult, optimalRange: [number, number] | null): string {
+  const totalTrades = insights.reduce((sum, insight) => sum + insight.tradeCount, 0);
+  const totalWins = insights.reduce((sum, insight) => sum + (insight.winRate / 100) * insight.tradeCount, 0);
+  const avgWinRate = totalTrades > 0 ? (totalWins / totalTrades) * 100 : 0;
   const bestWinRate = Math.max(...insights.map(i => i.winRate));
-  
-  if (Math.abs(correlation) < 0.2) {
-    return `Your emotion levels show weak correlation with trading performance (${(correlation * 100).toFixed(0)}%). Focus on other factors like market analysis and risk management.`;
+  const r = correlation.coefficient;
+
+  if (!correlation.isSignificant || r === null) {
+    return `No statistically significant link between emotion level and P&L yet (r = ${formatCoefficient(r)}, p = ${formatPValue(correlation.pValue)}). Focus on other factors like market analysis and risk management while you gather more data.`;
   }
+
+  const rangeText = optimalRange ? `Trading at emotion levels ${optimalRange[0]}-${optimalRange[1]}` : 'Your best emotion level';
   
-  if (correlation > 0.5) {
-    return `Strong positive correlation detected! Trading at emotion levels ${optimalRange[0]}-${optimalRange[1]} shows ${bestWinRate.toFixed(1)}% win rate vs ${avgWinRate.toFixed(1)}% average. Higher emotion levels improve your performance.`;
+  if (r > 0.5) {
+    return `Strong positive correlation detected! ${rangeText} shows ${bestWinRate.toFixed(1)}% win rate vs ${avgWinRate.toFixed(1)}% average. Higher emotion levels improve your performance.`;
   }
   
-  if (correlation < -0.5) {
-    return `Strong negative correlation detected! Trading at emotion levels ${optimalRange[0]}-${optimalRange[1]} shows ${bestWinRate.toFixed(1)}% win rate vs ${avgWinRate.toFixed(1)}% average. Lower emotion levels improve your performance.`;
+  if (r < -0.5) {
+    return `Strong negative correlation detected! ${rangeText} shows ${bestWinRate.toFixed(1)}% win rate vs ${avgWinRate.toFixed(1)}% average. Lower emotion levels improve your performance.`;
   }
   
-  return `Moderate correlation found. Your optimal emotion range (${optimalRange[0]}-${optimalRange[1]}) shows ${bestWinRate.toFixed(1)}% win rate compared to ${avgWinRate.toFixed(1)}% average across all levels.`;
+  return `Moderate correlation found. ${rangeText} shows ${bestWinRate.toFixed(1)}% win rate compared to ${avgWinRate.toFixed(1)}% average across all levels.`;
+}
+
+function formatPValue(pValue: number | null): string {
+  if (pValue === null) return 'n/a';
+  return pValue < 0.001 ? '< 0.001' : pValue.toFixed(3);
+}
+
+function formatCoefficient(coefficient: number | null): string {
+  return coefficient === null ? 'n/a' : coefficient.toFixed(2);
 }
 
-function getCorrelationLabel(strength: number): string {
+function getCorrelationLabel(coefficient: number | null): string {
+  if (coefficient === null) return 'No variation';
+  const strength = Math.abs(coefficient);
   if (strength >= 0.7) return 'Strong';
   if (strength >= 0.5) return 'Moderate';
   if (strength >= 0.3) return 'Weak';
@@ -0,0 +1,110 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem } from '@/components/ui/select';
+import { BREATHING_PROTOCOLS, BreathingTimings, MAX_PHASE_SECONDS } from '@/lib/breathing';
+import { useSettingsStore } from '@/lib/settings-store';
+import { BreathingProtocolId } from '@/lib/types';
+import { Wind } from 'lucide-react';
+
+const TIMING_FIELDS: { key: keyof BreathingTimings; label: string }[] = [
+  { key: 'inhale', label: 'Inhale' },
+  { key: 'hold', label: 'Hold' },
+  { key: 'exhale', label: 'Exhale' },
+  { key: 'pause', label: 'Pause' },
+];
+
+// Profile settings for the breathing guide used as a pre-trade cool-down
+export function BreathingSettingsCard() {
+  const {
+    breathingProtocol,
+    setBreathingProtocol,
+    customBreathing,
+    setCustomBreathing,
+    breathingAudioCues,
+    setBreathingAudioCues,
+    breathingHapticCues,
+    setBreathingHapticCues,
+  } = useSettingsStore();
+
+  const handleTimingChange = (key: keyof BreathingTimings, raw: string) => {
+    const seconds = Number(raw);
+    if (raw === '' || isNaN(seconds)) return;
+    setCustomBreathing({ [key]: Math.max(0, Math.min(MAX_PHASE_SECONDS, Math.round(seconds))) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wind className="h-5 w-5" />
+          Breathing &amp; Cool-down
+        </CardTitle>
+        <CardDescription>
+          Completed sessions are linked to your next emotion check
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="breathingProtocol">Protocol</Label>
+          <Select
+            id="breathingProtocol"
+            value={breathingProtocol}
+            onValueChange={(value) => setBreathingProtocol(value as BreathingProtocolId)}
+          >
+            <SelectContent>
+              {BREATHING_PROTOCOLS.map(protocol => (
+                <SelectItem key={protocol.id} value={protocol.id}>{protocol.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            {BREATHING_PROTOCOLS.find(protocol => protocol.id === breathingProtocol)?.description}
+          </p>
+        </div>
+
+        {breathingProtocol === 'custom' && (
+          <div className="grid grid-cols-4 gap-2">
+            {TIMING_FIELDS.map(field => (
+              <div key={field.key} className="space-y-1">
+                <Label htmlFor={`breathing-${field.key}`} className="text-xs">{field.label} (s)</Label>
+                <Input
+                  id={`breathing-${field.key}`}
+                  type="number"
+                  min={0}
+                  max={MAX_PHASE_SECONDS}
+                  value={customBreathing[field.key]}
+                  onChange={(e) => handleTimingChange(field.key, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={breathingAudioCues}
+              onChange={(e) => setBreathingAudioCues(e.target.checked)}
+              className="h-4 w-4"
+            />
+            Sound cue at each phase
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={breathingHapticCues}
+              onChange={(e) => setBreathingHapticCues(e.target.checked)}
+              className="h-4 w-4"
+            />
+            Vibrate at each phase (on supported phones)
+          </label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DataExport,
+  buildCsvZip,
+  buildJournalHtml,
+  collectExportData,
+  downloadBlob,
+  getExportFileName,
+  parseDataExport,
+  printJournal,
+  restoreDataExport,
+  serializeDataExport,
+} from '@/lib/export/data-export';
+import { Download, FileArchive, FileJson, Printer, Upload } from 'lucide-react';
+
+type ExportAction = 'csv' | 'json' | 'journal' | 'restore';
+
+export function DataExportCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [activeAction, setActiveAction] = useState<ExportAction | null>(null);
+  const [restoreStatus, setRestoreStatus] = useState<string | null>(null);
+
+  const runExport = async (action: ExportAction, handle: (data: DataExport) => void) => {
+    setActiveAction(action);
+    try {
+      const data = await collectExportData();
+      handle(data);
+      toast({
+        title: 'Export ready',
+        description: `${data.trades.length} trades, ${data.emotionChecks.length} emotion checks and ${data.weeklyReflections.length} reflections exported.`,
+      });
+    } catch (error: any) {
+      toast({
+        title: 'Export failed',
+        description: error?.message || 'Could not load your data. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setActiveAction(null);
+    }
+  };
+
+  const handleRestoreFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setActiveAction('restore');
+    try {
+      const data = parseDataExport(await file.text());
+      const result = await restoreDataExport(data, setRestoreStatus);
+      queryClient.invalidateQueries({ queryKey: ['trades'] });
+      queryClient.invalidateQueries({ queryKey: ['weeklyReflections'] });
+      queryClient.invalidateQueries({ queryKey: ['monthlyGoals'] });
+
+      const failed = result.trades.failed + result.weeklyReflections.failed + result.monthlyGoals.failed;
+      toast({
+        title: failed > 0 ? 'Restore finished with errors' : 'Restore complete',
+        description: `Added ${result.trades.created} trades, ${result.weeklyReflections.created} reflections and ` +
+          `${result.monthlyGoals.created} goals. Skipped ${result.trades.skipped + result.weeklyReflections.skipped + result.monthlyGoals.skipped} already present` +
+          `${failed > 0 ? `, ${failed} failed` : ''}.`,
+        variant: failed > 0 ? 'destructive' : undefined,
+      });
+    } catch (error: any) {
+      toast({
+        title: 'Restore failed',
+        description: error?.message || 'Could not read this export file.',
+        variant: 'destructive',
+      });
+    } finally {
+      setActiveAction(null);
+      setRestoreStatus(null);
+    }
+  };
+
+  const busy = activeAction !== null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Download className="h-5 w-5" />
+          Export Your Data
+        </CardTitle>
+        <CardDescription>
+          Download every emotion check, trade, reflection, goal and weekly prompt answer
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <LoadingButton
+          variant="outline"
+          className="w-full justify-start"
+          loading={activeAction === 'csv'}
+          loadingText="Preparing CSV files..."
+          disabled={busy}
+          icon={<FileArchive className="h-4 w-4" />}
+          onClick={() => runExport('csv', data => downloadBlob(buildCsvZip(data), getExportFileName('zip')))}
+        >
+          Spreadsheet (CSV files, zipped)
+        </LoadingButton>
+
+        <LoadingButton
+          variant="outline"
+          className="w-full justify-start"
+          loading={activeAction === 'json'}
+          loadingText="Preparing backup..."
+          disabled={busy}
+          icon={<FileJson className="h-4 w-4" />}
+          onClick={() => runExport('json', data =>
+            downloadBlob(new Blob([serializeDataExport(data)], { type: 'application/json' }), getExportFileName('json'))
+          )}
+        >
+          Full backup (JSON)
+        </LoadingButton>
+
+        <LoadingButton
+          variant="outline"
+          className="w-full justify-start"
+          loading={activeAction === 'journal'}
+          loadingText="Building journal..."
+          disabled={busy}
+          icon={<Printer className="h-4 w-4" />}
+          onClick={() => runExport('journal', data => printJournal(buildJournalHtml(data)))}
+        >
+          Printable journal
+        </LoadingButton>
+
+        <div className="pt-2 border-t space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Restoring a JSON backup adds trades, reflections and goals that are missing from your account.
+            Emotion checks are kept in the file but cannot be re-created with their original times.
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleRestoreFile}
+          />
+          <LoadingButton
+            variant="ghost"
+            className="w-full justify-start"
+            loading={activeAction === 'restore'}
+            loadingText={restoreStatus || 'Restoring...'}
+            disabled={busy}
+            icon={<Upload className="h-4 w-4" />}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Restore from JSON backup
+          </LoadingButton>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
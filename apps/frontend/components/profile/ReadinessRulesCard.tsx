@@ -0,0 +1,105 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem } from '@/components/ui/select';
+import { READINESS_RULES, ReadinessRuleKind, describeRule, getRuleDefinition } from '@/lib/analytics/readiness';
+import { useReadinessStore } from '@/lib/readiness-store';
+import { ShieldCheck, Trash2, Plus } from 'lucide-react';
+
+// Profile settings for the pre-trade readiness checklist
+export function ReadinessRulesCard() {
+  const { rules, addRule, updateRule, removeRule, resetRules } = useReadinessStore();
+  const [newKind, setNewKind] = useState<ReadinessRuleKind>(READINESS_RULES[0].kind);
+
+  const handleValueChange = (id: string, kind: ReadinessRuleKind, raw: string) => {
+    const definition = getRuleDefinition(kind);
+    const value = Number(raw);
+    if (raw === '' || isNaN(value)) return;
+    updateRule(id, { value: Math.max(definition.min, Math.min(definition.max, value)) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Trade Readiness
+        </CardTitle>
+        <CardDescription>
+          Rules checked before you log a trade, using your latest emotion check and today&apos;s trades
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules.length === 0 && (
+          <p className="text-sm text-muted-foreground">No rules yet - trades are never gated.</p>
+        )}
+
+        {rules.map(rule => {
+          const definition = getRuleDefinition(rule.kind);
+          return (
+            <div key={rule.id} className="p-3 border rounded-lg space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-2 text-sm font-medium">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                    className="h-4 w-4"
+                  />
+                  {definition.label}
+                </label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => removeRule(rule.id)}
+                  aria-label={`Remove ${definition.label.toLowerCase()} rule`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  id={`rule-${rule.id}`}
+                  type="number"
+                  min={definition.min}
+                  max={definition.max}
+                  step={definition.step}
+                  value={rule.value}
+                  onChange={(e) => handleValueChange(rule.id, rule.kind, e.target.value)}
+                  disabled={!rule.enabled}
+                  className="w-28"
+                />
+                <Label htmlFor={`rule-${rule.id}`} className="text-sm text-muted-foreground">
+                  {definition.unit}
+                </Label>
+              </div>
+              <p className="text-xs text-muted-foreground">{describeRule(rule)}</p>
+            </div>
+          );
+        })}
+
+        <div className="flex gap-2">
+          <Select value={newKind} onValueChange={(value) => setNewKind(value as ReadinessRuleKind)}>
+            <SelectContent>
+              {READINESS_RULES.map(definition => (
+                <SelectItem key={definition.kind} value={definition.kind}>{definition.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => addRule(newKind)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+        <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={resetRules}>
+          Restore default rules
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
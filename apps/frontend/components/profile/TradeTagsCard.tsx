@@ -0,0 +1,119 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useTradeTagStore } from '@/lib/trade-tag-store';
+import { MAX_TAG_LABEL_LENGTH, TAG_KIND_LABELS, TradeTag, TradeTagKind } from '@/lib/trade-tags';
+import { Archive, ArchiveRestore, Plus, Tags } from 'lucide-react';
+
+const KINDS: TradeTagKind[] = ['mistake', 'setup'];
+
+function TagRow({ tag }: { tag: TradeTag }) {
+  const { renameTag, setArchived } = useTradeTagStore();
+  const [label, setLabel] = useState(tag.label);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        value={label}
+        maxLength={MAX_TAG_LABEL_LENGTH}
+        onChange={(e) => setLabel(e.target.value)}
+        onBlur={() => (label.trim() ? renameTag(tag.id, label) : setLabel(tag.label))}
+        disabled={tag.archived}
+        aria-label={`Rename ${tag.label}`}
+        className="h-8"
+      />
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={() => setArchived(tag.id, !tag.archived)}
+        aria-label={tag.archived ? `Restore ${tag.label}` : `Archive ${tag.label}`}
+      >
+        {tag.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+      </Button>
+    </div>
+  );
+}
+
+function TagSection({ kind }: { kind: TradeTagKind }) {
+  const { tags, addTag } = useTradeTagStore();
+  const [newLabel, setNewLabel] = useState('');
+  const [error, setError] = useState('');
+
+  const ofKind = tags.filter(tag => tag.kind === kind);
+  const active = ofKind.filter(tag => !tag.archived);
+  const archived = ofKind.filter(tag => tag.archived);
+
+  const handleAdd = () => {
+    if (!newLabel.trim()) return;
+    if (addTag(kind, newLabel)) {
+      setNewLabel('');
+      setError('');
+    } else {
+      setError('That tag already exists.');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">{TAG_KIND_LABELS[kind]}</p>
+      {/* Keyed by label too so a reset or rename elsewhere refreshes the field */}
+      {active.map(tag => <TagRow key={`${tag.id}:${tag.label}`} tag={tag} />)}
+      {archived.length > 0 && (
+        <details className="text-sm">
+          <summary className="cursor-pointer text-muted-foreground">Archived ({archived.length})</summary>
+          <div className="mt-2 space-y-2">
+            {archived.map(tag => <TagRow key={`${tag.id}:${tag.label}`} tag={tag} />)}
+          </div>
+        </details>
+      )}
+      <div className="flex gap-2">
+        <Input
+          placeholder={kind === 'mistake' ? 'e.g. Traded the news' : 'e.g. VWAP reclaim'}
+          value={newLabel}
+          maxLength={MAX_TAG_LABEL_LENGTH}
+          onChange={(e) => {
+            setNewLabel(e.target.value);
+            setError('');
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          aria-label={`New ${kind} tag`}
+          className="h-8"
+        />
+        <Button variant="outline" size="sm" onClick={handleAdd} disabled={!newLabel.trim()}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+// Profile settings for the mistake and setup tags offered when logging trades
+export function TradeTagsCard() {
+  const resetTags = useTradeTagStore(state => state.resetTags);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="h-5 w-5" />
+          Trade Tags
+        </CardTitle>
+        <CardDescription>
+          Archived tags stay on past trades but are no longer offered
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {KINDS.map(kind => <TagSection key={kind} kind={kind} />)}
+        <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={resetTags}>
+          Restore default tags
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
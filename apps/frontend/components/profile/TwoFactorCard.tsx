@@ -0,0 +1,287 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ValidatedInput } from '@/components/form/ValidatedInput';
+import { useToast } from '@/hooks/use-toast';
+import { apiClient } from '@/lib/api-client';
+import { ApiError, TwoFactorSetup } from '@/lib/types';
+import { Copy, KeyRound, ShieldCheck, Smartphone } from 'lucide-react';
+
+// 'confirm-*' steps ask for a current code before a sensitive change
+type Step = 'idle' | 'setup' | 'backup-codes' | 'confirm-disable' | 'confirm-regenerate';
+
+const STATUS_KEY = ['auth', 'twoFactor'];
+
+// Groups the base32 secret in fours so it can be typed into an app by hand
+function formatSecret(secret: string): string {
+  return secret.replace(/(.{4})/g, '$1 ').trim();
+}
+
+export function TwoFactorCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<Step>('idle');
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: STATUS_KEY,
+    queryFn: () => apiClient.getTwoFactorStatus(),
+  });
+
+  const reset = () => {
+    setStep('idle');
+    setSetup(null);
+    setCode('');
+  };
+
+  const showError = (title: string) => (error: ApiError) => {
+    setCode('');
+    toast({ title, description: error.message || 'Please try again.', variant: 'destructive' });
+  };
+
+  const showBackupCodes = (codes: string[]) => {
+    setBackupCodes(codes);
+    setCode('');
+    setStep('backup-codes');
+    queryClient.invalidateQueries({ queryKey: STATUS_KEY });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: () => apiClient.startTwoFactorSetup(),
+    onSuccess: (data) => {
+      setSetup(data);
+      setStep('setup');
+    },
+    onError: showError('Could not start setup'),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: (value: string) => apiClient.enableTwoFactor(value),
+    onSuccess: ({ backupCodes }) => {
+      setSetup(null);
+      showBackupCodes(backupCodes);
+      toast({ title: 'Two-factor authentication on', description: 'You\'ll be asked for a code when you sign in.' });
+    },
+    onError: showError('Could not turn on 2FA'),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: (value: string) => apiClient.regenerateBackupCodes(value),
+    onSuccess: ({ backupCodes }) => showBackupCodes(backupCodes),
+    onError: showError('Could not create new backup codes'),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: (value: string) => apiClient.disableTwoFactor(value),
+    onSuccess: () => {
+      reset();
+      queryClient.invalidateQueries({ queryKey: STATUS_KEY });
+      toast({ title: 'Two-factor authentication off', description: 'Signing in now only needs your password.' });
+    },
+    onError: showError('Could not turn off 2FA'),
+  });
+
+  const busy = setupMutation.isPending || enableMutation.isPending || regenerateMutation.isPending || disableMutation.isPending;
+
+  const copyToClipboard = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: `${what} copied` });
+    } catch {
+      toast({ title: 'Could not copy', description: 'Select the text and copy it instead.', variant: 'destructive' });
+    }
+  };
+
+  const handleCodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = code.trim();
+    if (!value) return;
+    if (step === 'setup') enableMutation.mutate(value);
+    if (step === 'confirm-regenerate') regenerateMutation.mutate(value);
+    if (step === 'confirm-disable') disableMutation.mutate(value);
+  };
+
+  const codeForm = (submitLabel: string, allowBackupCode: boolean) => (
+    <form onSubmit={handleCodeSubmit} className="space-y-3">
+      <ValidatedInput
+        id="twoFactorCode"
+        label={allowBackupCode ? 'Code from your app or a backup code' : 'Code from your app'}
+        placeholder="123456"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        disabled={busy}
+        inputMode={allowBackupCode ? 'text' : 'numeric'}
+        autoComplete="one-time-code"
+        maxLength={allowBackupCode ? 20 : 6}
+      />
+      <div className="flex gap-2">
+        <Button
+          type="submit"
+          variant={step === 'confirm-disable' ? 'destructive' : 'default'}
+          disabled={busy || !code.trim()}
+        >
+          {busy ? 'Checking...' : submitLabel}
+        </Button>
+        <Button type="button" variant="outline" onClick={reset} disabled={busy}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <Skeleton className="h-10 w-full" />;
+    }
+
+    if (step === 'setup' && setup) {
+      return (
+        <div className="space-y-4">
+          <ol className="list-decimal list-inside space-y-1 text-sm text-muted-foreground">
+            <li>Open an authenticator app such as Google Authenticator, 1Password or Authy.</li>
+            <li>Add TradeMentor with the link below, or type in the setup key.</li>
+            <li>Enter the 6-digit code the app shows.</li>
+          </ol>
+
+          <Button variant="outline" className="w-full justify-start" asChild>
+            <a href={setup.otpauthUri}>
+              <Smartphone className="h-4 w-4 mr-2" />
+              Open in authenticator app
+            </a>
+          </Button>
+
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Setup key</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 rounded-md bg-muted px-3 py-2 text-sm font-mono break-all">
+                {formatSecret(setup.secret)}
+              </code>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => copyToClipboard(setup.secret, 'Setup key')}
+                aria-label="Copy setup key"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {codeForm('Verify and turn on', false)}
+        </div>
+      );
+    }
+
+    if (step === 'backup-codes') {
+      return (
+        <div className="space-y-4">
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+            Save these backup codes somewhere safe. Each one signs you in once if you lose your phone,
+            and they won&apos;t be shown again.
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {backupCodes.map(backupCode => (
+              <code key={backupCode} className="rounded-md bg-muted px-3 py-2 text-center text-sm font-mono">
+                {backupCode}
+              </code>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => copyToClipboard(backupCodes.join('\n'), 'Backup codes')}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy codes
+            </Button>
+            <Button
+              onClick={() => {
+                setBackupCodes([]);
+                setStep('idle');
+              }}
+            >
+              I&apos;ve saved them
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (!status?.enabled) {
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Protect your journal with a code from an authenticator app in addition to your password.
+          </p>
+          <Button onClick={() => setupMutation.mutate()} disabled={busy}>
+            {setupMutation.isPending ? 'Starting...' : 'Set up two-factor authentication'}
+          </Button>
+        </div>
+      );
+    }
+
+    if (step === 'confirm-regenerate') {
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Your current backup codes will stop working. Confirm with a code to continue.
+          </p>
+          {codeForm('Create new codes', true)}
+        </div>
+      );
+    }
+
+    if (step === 'confirm-disable') {
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Signing in will only need your password. Confirm with a code to turn 2FA off.
+          </p>
+          {codeForm('Turn off', true)}
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Backup codes left</span>
+          <Badge variant={status.backupCodesRemaining <= 2 ? 'destructive' : 'outline'}>
+            {status.backupCodesRemaining}
+          </Badge>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => setStep('confirm-regenerate')}>
+            <KeyRound className="h-4 w-4 mr-2" />
+            New backup codes
+          </Button>
+          <Button variant="outline" onClick={() => setStep('confirm-disable')}>
+            Turn off
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+          {status?.enabled && <Badge variant="default">On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Require a code from your phone when signing in
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {renderContent()}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Check, Sparkles, X } from 'lucide-react';
+
+interface DraftSuggestionProps {
+  bullets: string[];
+  onAccept: () => void;
+  onDismiss: () => void;
+}
+
+// Suggested bullets for one reflection field; accepting copies them into the field for editing
+export function DraftSuggestion({ bullets, onAccept, onDismiss }: DraftSuggestionProps) {
+  if (bullets.length === 0) return null;
+
+  return (
+    <div className="rounded-md border border-dashed border-blue-200 bg-blue-50/50 p-3 space-y-2">
+      <p className="flex items-center gap-1 text-xs font-medium text-blue-700">
+        <Sparkles className="h-3 w-3" />
+        Suggested from this week&apos;s data
+      </p>
+      <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+        {bullets.map(bullet => <li key={bullet}>{bullet}</li>)}
+      </ul>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" className="h-7" onClick={onAccept}>
+          <Check className="h-3 w-3 mr-1" />
+          Use
+        </Button>
+        <Button type="button" variant="ghost" size="sm" className="h-7 text-muted-foreground" onClick={onDismiss}>
+          <X className="h-3 w-3 mr-1" />
+          Dismiss
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { DailyRollup } from '@/lib/analytics/daily-session';
+import { getTradePnL, getTradeTime } from '@/lib/trade-metrics';
+import { cn, formatCurrency, getEmotionColor, getEmotionLabel } from '@/lib/utils';
+import { Activity, AlertTriangle } from 'lucide-react';
+
+interface DailyRollupCardProps {
+  rollup: DailyRollup;
+  isLoading?: boolean;
+}
+
+function formatTime(value: Date | string): string {
+  return new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function Stat({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="rounded-md bg-gray-50 p-3 text-center">
+      <div className={cn('text-lg font-semibold', className)}>{value}</div>
+      <div className="text-xs text-muted-foreground">{label}</div>
+    </div>
+  );
+}
+
+// The day's emotion checks and trades, gathered automatically for the review
+export function DailyRollupCard({ rollup, isLoading }: DailyRollupCardProps) {
+  const timeline = [
+    ...rollup.checks.map(check => ({ kind: 'check' as const, time: new Date(check.timestamp).getTime(), check })),
+    ...rollup.trades.map(trade => ({ kind: 'trade' as const, time: new Date(getTradeTime(trade)).getTime(), trade })),
+  ].sort((a, b) => a.time - b.time);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Day Roll-up
+        </CardTitle>
+        <CardDescription>
+          {isLoading ? "Loading the day's activity..." : 'Emotion checks and trades logged on this day'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+          <Stat label="Checks" value={rollup.checks.length.toString()} />
+          <Stat
+            label="Avg pre-trade level"
+            value={rollup.preTradeAverage !== null ? rollup.preTradeAverage.toFixed(1) : '—'}
+          />
+          <Stat
+            label="Trades / win rate"
+            value={rollup.winRate !== null ? `${rollup.trades.length} • ${Math.round(rollup.winRate)}%` : '0'}
+          />
+          <Stat
+            label="P&L"
+            value={formatCurrency(rollup.totalPnL)}
+            className={rollup.totalPnL > 0 ? 'text-green-600' : rollup.totalPnL < 0 ? 'text-red-600' : undefined}
+          />
+        </div>
+
+        {(rollup.maxLossBreached || rollup.offWatchlistTrades.length > 0) && (
+          <div className="space-y-1 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+            {rollup.maxLossBreached && (
+              <p className="flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                Losses went past the planned max loss.
+              </p>
+            )}
+            {rollup.offWatchlistTrades.length > 0 && (
+              <p className="flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                {rollup.offWatchlistTrades.length} trade{rollup.offWatchlistTrades.length === 1 ? '' : 's'} off the watchlist:{' '}
+                {rollup.offWatchlistTrades.map(trade => trade.symbol).join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        {timeline.length > 0 ? (
+          <ul className="space-y-2">
+            {timeline.map(entry => entry.kind === 'check' ? (
+              <li key={`check-${entry.check.id}`} className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2">
+                  <span className="w-12 text-muted-foreground">{formatTime(entry.check.timestamp)}</span>
+                  <span
+                    className="h-2 w-2 rounded-full"
+                    style={{ backgroundColor: getEmotionColor(entry.check.level) }}
+                  />
+                  {getEmotionLabel(entry.check.level)} ({entry.check.level}/10)
+                </span>
+                <Badge variant="outline">{entry.check.context}</Badge>
+              </li>
+            ) : (
+              <li key={`trade-${entry.trade.id}`} className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2">
+                  <span className="w-12 text-muted-foreground">{formatTime(getTradeTime(entry.trade))}</span>
+                  <span className="font-medium">{entry.trade.symbol}</span>
+                  <span className="text-muted-foreground">{entry.trade.type}</span>
+                </span>
+                <span className={cn(
+                  'font-medium',
+                  entry.trade.outcome === 'win' && 'text-green-600',
+                  entry.trade.outcome === 'loss' && 'text-red-600'
+                )}>
+                  {getTradePnL(entry.trade) !== null ? formatCurrency(getTradePnL(entry.trade)!) : entry.trade.outcome}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          !isLoading && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              Nothing logged for this day yet.
+            </p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
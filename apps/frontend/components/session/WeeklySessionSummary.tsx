@@ -0,0 +1,43 @@
+'use client';
+
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { WeeklySessionSummary as Summary } from '@/lib/analytics/daily-session';
+import { formatCurrency } from '@/lib/utils';
+
+// What the week's daily sessions add up to, shown alongside a weekly reflection
+export function WeeklySessionSummary({ summary }: { summary: Summary }) {
+  if (summary.daysPlanned === 0 && summary.daysReviewed === 0 && summary.daysTraded === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">📅 Daily Sessions</Label>
+      <div className="bg-gray-50 p-3 rounded-md space-y-1 text-sm text-muted-foreground">
+        <p>
+          {summary.daysTraded} trading day{summary.daysTraded === 1 ? '' : 's'}
+          {' • '}{summary.daysPlanned} planned{' • '}{summary.daysReviewed} reviewed{' • '}
+          <span className={summary.totalPnL >= 0 ? 'text-green-600' : 'text-red-600'}>
+            {formatCurrency(summary.totalPnL)}
+          </span>
+        </p>
+        {summary.averageAdherence !== null && (
+          <p>Average plan adherence: {summary.averageAdherence.toFixed(1)}/5</p>
+        )}
+        {(summary.offWatchlistTrades > 0 || summary.maxLossBreaches > 0) && (
+          <p>
+            {summary.offWatchlistTrades} off-watchlist trade{summary.offWatchlistTrades === 1 ? '' : 's'}
+            {' • '}
+            {summary.maxLossBreaches} day{summary.maxLossBreaches === 1 ? '' : 's'} past max loss
+          </p>
+        )}
+        {summary.topMistakes.length > 0 && (
+          <p>
+            Top mistakes: {summary.topMistakes.map(m => `${m.mistake} (${m.count})`).join(', ')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
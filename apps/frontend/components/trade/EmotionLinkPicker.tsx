@@ -0,0 +1,111 @@
+'use client';
+
+import React from 'react';
+import { Select, SelectContent, SelectItem } from '@/components/ui/select';
+import { LINK_WINDOW_OPTIONS } from '@/lib/analytics/trade-linking';
+import { EmotionCheck } from '@/lib/types';
+import { formatRelativeTime, getEmotionLabel } from '@/lib/utils';
+import { Link2, Link2Off } from 'lucide-react';
+
+// 'auto' follows the nearest suggestion, 'none' leaves the trade unlinked, anything else is a check id
+export type EmotionLinkChoice = 'auto' | 'none' | string;
+
+interface EmotionLinkPickerProps {
+  candidates: EmotionCheck[];
+  suggested: EmotionCheck | null;
+  selected: EmotionCheck | null;
+  value: EmotionLinkChoice;
+  onChange: (value: EmotionLinkChoice) => void;
+  windowMinutes: number;
+  onWindowChange: (minutes: number) => void;
+  disabled?: boolean;
+}
+
+function formatWindow(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 1440) return `${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+  return `${minutes / 1440} day${minutes === 1440 ? '' : 's'}`;
+}
+
+function describeCheck(check: EmotionCheck): string {
+  return [
+    `Level ${check.level} (${getEmotionLabel(check.level)})`,
+    check.symbol,
+    formatRelativeTime(new Date(check.timestamp)),
+  ].filter(Boolean).join(' · ');
+}
+
+export function EmotionLinkPicker({
+  candidates,
+  suggested,
+  selected,
+  value,
+  onChange,
+  windowMinutes,
+  onWindowChange,
+  disabled,
+}: EmotionLinkPickerProps) {
+  return (
+    <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg space-y-2">
+      <div className="flex items-start gap-2">
+        {selected ? (
+          <Link2 className="h-4 w-4 text-blue-700 mt-0.5 flex-shrink-0" />
+        ) : (
+          <Link2Off className="h-4 w-4 text-blue-700 mt-0.5 flex-shrink-0" />
+        )}
+        <p className="text-sm text-blue-800">
+          {selected ? (
+            <>
+              <span className="font-medium">Linked to pre-trade check:</span>{' '}
+              {describeCheck(selected)}
+              {value === 'auto' && <span className="text-blue-600"> (suggested)</span>}
+            </>
+          ) : value === 'none' ? (
+            <span className="font-medium">Not linked to an emotion check</span>
+          ) : (
+            <>
+              <span className="font-medium">No pre-trade check found</span> within {formatWindow(windowMinutes)}
+            </>
+          )}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Select
+          aria-label="Emotion check to link"
+          value={value}
+          onValueChange={onChange}
+          disabled={disabled}
+          className="h-9 text-xs bg-white"
+        >
+          <SelectContent>
+            <SelectItem value="auto">
+              {suggested ? 'Nearest check (auto)' : 'Auto-link when available'}
+            </SelectItem>
+            {candidates.map(check => (
+              <SelectItem key={check.id} value={check.id}>
+                {describeCheck(check)}
+              </SelectItem>
+            ))}
+            <SelectItem value="none">Don&apos;t link</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          aria-label="Link window"
+          value={windowMinutes.toString()}
+          onValueChange={(minutes) => onWindowChange(parseInt(minutes, 10))}
+          disabled={disabled}
+          className="h-9 text-xs bg-white"
+        >
+          <SelectContent>
+            {LINK_WINDOW_OPTIONS.map(minutes => (
+              <SelectItem key={minutes} value={minutes.toString()}>
+                Within {formatWindow(minutes)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { EmotionSlider } from '@/components/EmotionSlider';
+import { useToast } from '@/hooks/use-toast';
+import { apiClient } from '@/lib/api-client';
+import { Trade } from '@/lib/types';
+import { X } from 'lucide-react';
+
+interface PostTradeCheckPromptProps {
+  trade: Trade;
+  onDone: () => void;
+}
+
+// Asks for a post-trade emotion check right after logging and links it to the trade
+export function PostTradeCheckPrompt({ trade, onDone }: PostTradeCheckPromptProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [level, setLevel] = useState(5);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const check = await apiClient.createEmotionCheck({
+        level,
+        context: 'post-trade',
+        symbol: trade.symbol,
+      });
+      await apiClient.updateTrade(trade.id, { postEmotionCheckId: check.id });
+      return check;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['emotions'] });
+      queryClient.invalidateQueries({ queryKey: ['trades'] });
+      toast({
+        title: 'Post-trade check saved',
+        description: `Linked to your ${trade.symbol} trade.`,
+      });
+      onDone();
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Could not save check',
+        description: error?.message || 'Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Card className="border-2 border-primary/30">
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="text-lg">How do you feel after this trade?</CardTitle>
+            <CardDescription>
+              A quick post-trade check shows how {trade.symbol} moved your emotions.
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onDone} aria-label="Skip">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <EmotionSlider value={level} onChange={setLevel} size="sm" disabled={saveMutation.isPending} />
+        <div className="flex gap-2">
+          <Button className="flex-1" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : 'Save Check'}
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href={`/trade/${trade.id}`}>View Trade</Link>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { BreathingGuide } from '@/components/ui/breathing-guide';
+import { ReadinessResult } from '@/lib/analytics/readiness';
+import { AlertTriangle, HeartPulse, ShieldCheck, Wind } from 'lucide-react';
+
+interface ReadinessGateProps {
+  result: ReadinessResult;
+  onBreathingComplete: () => void;
+  onOverride: () => void;
+}
+
+// Shown above the trade form while readiness rules fail
+export function ReadinessGate({ result, onBreathingComplete, onOverride }: ReadinessGateProps) {
+  const [showBreathing, setShowBreathing] = useState(false);
+  const needsBreathing = result.violations.some(violation => violation.action === 'breathe');
+  const needsCheckIn = result.violations.some(violation => violation.action === 'checkIn');
+
+  return (
+    <Card className="border-2 border-amber-300 bg-amber-50/50 mb-6">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-lg text-amber-900">
+          <AlertTriangle className="h-5 w-5 text-amber-600" />
+          Not ready to trade yet
+        </CardTitle>
+        <CardDescription>
+          Your readiness rules flagged {result.violations.length === 1 ? 'an issue' : `${result.violations.length} issues`}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="space-y-2">
+          {result.violations.map(violation => (
+            <li key={violation.ruleId} className="flex items-start gap-2 text-sm text-amber-900">
+              <span className="mt-1.5 h-1.5 w-1.5 rounded-full bg-amber-500 flex-shrink-0" />
+              {violation.message}
+            </li>
+          ))}
+        </ul>
+
+        {showBreathing && (
+          <BreathingGuide
+            duration={60}
+            onComplete={() => {
+              setShowBreathing(false);
+              onBreathingComplete();
+            }}
+          />
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {needsBreathing && !showBreathing && (
+            <Button type="button" onClick={() => setShowBreathing(true)}>
+              <Wind className="h-4 w-4 mr-2" />
+              Start breathing exercise
+            </Button>
+          )}
+          {needsCheckIn && (
+            <Button type="button" variant="outline" asChild>
+              <Link href="/emotion">
+                <HeartPulse className="h-4 w-4 mr-2" />
+                Check in now
+              </Link>
+            </Button>
+          )}
+          <Button type="button" variant="ghost" className="text-muted-foreground" onClick={onOverride}>
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Log anyway
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Logging a trade you already took? &ldquo;Log anyway&rdquo; skips the rules for this entry only.
+          Rules can be changed under Profile &rsaquo; Settings.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
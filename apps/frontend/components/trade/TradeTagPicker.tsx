@@ -0,0 +1,115 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { cn } from '@/lib/utils';
+import { useTradeTagStore } from '@/lib/trade-tag-store';
+import { getTagLabel, TradeTag } from '@/lib/trade-tags';
+
+export interface TradeTagSelection {
+  mistakeTags: string[];
+  setupTag?: string;
+}
+
+export const EMPTY_TAG_SELECTION: TradeTagSelection = { mistakeTags: [] };
+
+interface TradeTagPickerProps {
+  value: TradeTagSelection;
+  onChange: (value: TradeTagSelection) => void;
+  disabled?: boolean;
+}
+
+function TagChip({
+  label,
+  selected,
+  tone,
+  disabled,
+  onClick,
+}: {
+  label: string;
+  selected: boolean;
+  tone: 'mistake' | 'setup';
+  disabled?: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      aria-pressed={selected}
+      className={cn(
+        'px-3 py-1 rounded-full border text-xs font-medium transition-colors disabled:opacity-50',
+        selected
+          ? tone === 'mistake'
+            ? 'border-red-300 bg-red-50 text-red-700'
+            : 'border-blue-300 bg-blue-50 text-blue-700'
+          : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+      )}
+    >
+      {label}
+    </button>
+  );
+}
+
+// Active tags from the taxonomy, plus any archived or unknown ones already on the trade
+function visibleTags(tags: TradeTag[], kind: TradeTag['kind'], selected: string[]): { id: string; label: string }[] {
+  const active = tags.filter(tag => tag.kind === kind && !tag.archived);
+  const extra = selected
+    .filter(id => !active.some(tag => tag.id === id))
+    .map(id => ({ id, label: getTagLabel(id, tags) }));
+  return active.map(tag => ({ id: tag.id, label: tag.label })).concat(extra);
+}
+
+export function TradeTagPicker({ value, onChange, disabled }: TradeTagPickerProps) {
+  const tags = useTradeTagStore(state => state.tags);
+
+  const toggleMistake = (id: string) => {
+    const mistakeTags = value.mistakeTags.indexOf(id) === -1
+      ? [...value.mistakeTags, id]
+      : value.mistakeTags.filter(tagId => tagId !== id);
+    onChange({ ...value, mistakeTags });
+  };
+
+  const toggleSetup = (id: string) => {
+    onChange({ ...value, setupTag: value.setupTag === id ? undefined : id });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-700">Setup</p>
+        <div className="flex flex-wrap gap-2">
+          {visibleTags(tags, 'setup', value.setupTag ? [value.setupTag] : []).map(tag => (
+            <TagChip
+              key={tag.id}
+              label={tag.label}
+              tone="setup"
+              selected={value.setupTag === tag.id}
+              disabled={disabled}
+              onClick={() => toggleSetup(tag.id)}
+            />
+          ))}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-700">Mistakes</p>
+        <div className="flex flex-wrap gap-2">
+          {visibleTags(tags, 'mistake', value.mistakeTags).map(tag => (
+            <TagChip
+              key={tag.id}
+              label={tag.label}
+              tone="mistake"
+              selected={value.mistakeTags.indexOf(tag.id) !== -1}
+              disabled={disabled}
+              onClick={() => toggleMistake(tag.id)}
+            />
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Edit your tags in <Link href="/profile" className="underline">Profile settings</Link>.
+      </p>
+    </div>
+  );
+}
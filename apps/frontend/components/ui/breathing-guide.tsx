@@ -1,94 +1,99 @@
 'use client';
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Button } from './button';
 import { Card } from './card';
-import { Play, Pause, RotateCcw } from 'lucide-react';
+import { Select, SelectContent, SelectItem } from './select';
+import { Play, Pause, RotateCcw, Volume2, VolumeX, Vibrate } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import {
+  BREATHING_PROTOCOLS,
+  getBreathingProtocol,
+  getCycleSeconds,
+  getStepAt,
+  playAudioCue,
+  playHapticCue,
+} from '@/lib/breathing';
+import { useBreathingStore } from '@/lib/breathing-store';
+import { useSettingsStore } from '@/lib/settings-store';
+import { BreathingProtocolId, BreathingSessionRequest } from '@/lib/types';
 
 interface BreathingGuideProps {
   className?: string;
-  onComplete?: () => void;
+  onComplete?: (session: BreathingSessionRequest) => void;
   duration?: number; // in seconds
 }
 
-type BreathingPhase = 'inhale' | 'hold' | 'exhale' | 'pause';
+const TICKS_PER_SECOND = 10;
 
-export function BreathingGuide({ 
-  className, 
-  onComplete, 
+export function BreathingGuide({
+  className,
+  onComplete,
   duration = 60 // 1 minute default
 }: BreathingGuideProps) {
+  const {
+    breathingProtocol,
+    setBreathingProtocol,
+    customBreathing,
+    breathingAudioCues,
+    setBreathingAudioCues,
+    breathingHapticCues,
+    setBreathingHapticCues,
+  } = useSettingsStore();
+  const logSession = useBreathingStore(state => state.logSession);
+
   const [isActive, setIsActive] = useState(false);
-  const [timeLeft, setTimeLeft] = useState(duration);
-  const [currentPhase, setCurrentPhase] = useState<BreathingPhase>('inhale');
-  const [cycleProgress, setCycleProgress] = useState(0);
-
-  // 4-7-8 breathing pattern (in seconds)
-  const breathingPattern = useMemo(() => ({
-    inhale: 4,
-    hold: 7,
-    exhale: 8,
-    pause: 1
-  }), []);
-
-  const totalCycleTime = useMemo(() => 
-    Object.values(breathingPattern).reduce((a, b) => a + b, 0),
-    [breathingPattern]
+  const [ticks, setTicks] = useState(0);
+  const startedAtRef = useRef<string | null>(null);
+  const lastStepRef = useRef(-1);
+
+  const protocol = useMemo(
+    () => getBreathingProtocol(breathingProtocol, customBreathing),
+    [breathingProtocol, customBreathing]
   );
+  const { steps } = protocol;
+
+  const totalTicks = duration * TICKS_PER_SECOND;
+  const elapsed = ticks / TICKS_PER_SECOND;
+  const timeLeft = Math.ceil(duration - elapsed);
+  const { index: stepIndex, progress } = getStepAt(steps, elapsed);
+  const currentStep = steps[stepIndex];
 
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    let phaseInterval: NodeJS.Timeout;
-
-    if (isActive && timeLeft > 0) {
-      // Main timer
-      interval = setInterval(() => {
-        setTimeLeft(prev => {
-          if (prev <= 1) {
-            setIsActive(false);
-            onComplete?.();
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-
-      // Breathing cycle timer
-      let phaseTime = 0;
-      phaseInterval = setInterval(() => {
-        phaseTime += 0.1;
-        const cyclePosition = phaseTime % totalCycleTime;
-        
-        let currentPhaseTime = 0;
-        let phase: BreathingPhase = 'inhale';
-        
-        if (cyclePosition < breathingPattern.inhale) {
-          phase = 'inhale';
-          currentPhaseTime = cyclePosition;
-        } else if (cyclePosition < breathingPattern.inhale + breathingPattern.hold) {
-          phase = 'hold';
-          currentPhaseTime = cyclePosition - breathingPattern.inhale;
-        } else if (cyclePosition < breathingPattern.inhale + breathingPattern.hold + breathingPattern.exhale) {
-          phase = 'exhale';
-          currentPhaseTime = cyclePosition - breathingPattern.inhale - breathingPattern.hold;
-        } else {
-          phase = 'pause';
-          currentPhaseTime = cyclePosition - breathingPattern.inhale - breathingPattern.hold - breathingPattern.exhale;
-        }
-
-        setCurrentPhase(phase);
-        setCycleProgress((currentPhaseTime / breathingPattern[phase]) * 100);
-      }, 100);
+    if (!isActive) return;
+    const interval = setInterval(() => {
+      setTicks(prev => Math.min(prev + 1, totalTicks));
+    }, 1000 / TICKS_PER_SECOND);
+    return () => clearInterval(interval);
+  }, [isActive, totalTicks]);
+
+  // Cue the start of every step while running
+  useEffect(() => {
+    if (!isActive) {
+      lastStepRef.current = -1;
+      return;
     }
+    if (stepIndex === lastStepRef.current) return;
+    lastStepRef.current = stepIndex;
+    if (breathingAudioCues) playAudioCue(steps[stepIndex].phase);
+    if (breathingHapticCues) playHapticCue(steps[stepIndex].phase);
+  }, [isActive, stepIndex, steps, breathingAudioCues, breathingHapticCues]);
 
-    return () => {
-      if (interval) clearInterval(interval);
-      if (phaseInterval) clearInterval(phaseInterval);
-    };
-  }, [isActive, timeLeft, onComplete, breathingPattern, totalCycleTime]);
+  useEffect(() => {
+    if (!isActive || ticks < totalTicks) return;
+    setIsActive(false);
+    const session = logSession({
+      protocol: protocol.id,
+      durationSeconds: duration,
+      cycles: Math.floor(duration / getCycleSeconds(steps)),
+      startedAt: startedAtRef.current || new Date(Date.now() - duration * 1000).toISOString(),
+      completedAt: new Date().toISOString(),
+    });
+    onComplete?.(session);
+  }, [isActive, ticks, totalTicks, duration, protocol.id, steps, logSession, onComplete]);
 
   const handleStart = () => {
+    if (!startedAtRef.current) startedAtRef.current = new Date().toISOString();
     setIsActive(true);
   };
 
@@ -98,37 +103,37 @@ export function BreathingGuide({
 
   const handleReset = () => {
     setIsActive(false);
-    setTimeLeft(duration);
-    setCurrentPhase('inhale');
-    setCycleProgress(0);
+    setTicks(0);
+    startedAtRef.current = null;
   };
 
-  const getPhaseInstruction = () => {
-    switch (currentPhase) {
-      case 'inhale':
-        return 'Breathe in slowly...';
-      case 'hold':
-        return 'Hold your breath...';
-      case 'exhale':
-        return 'Breathe out slowly...';
-      case 'pause':
-        return 'Rest...';
-    }
+  const handleProtocolChange = (id: BreathingProtocolId) => {
+    setBreathingProtocol(id);
+    handleReset();
   };
 
   const getCircleScale = () => {
-    switch (currentPhase) {
-      case 'inhale':
-        return 0.5 + (cycleProgress / 100) * 0.5; // Scale from 0.5 to 1
-      case 'hold':
-        return 1; // Stay at full size
-      case 'exhale':
-        return 1 - (cycleProgress / 100) * 0.5; // Scale from 1 to 0.5
-      case 'pause':
-        return 0.5; // Stay at small size
-    }
+    if (!isActive && ticks === 0) return 0.5;
+    if (currentStep.phase === 'hold') return 1; // Stay at full size
+    if (currentStep.phase === 'pause') return 0.5; // Stay at small size
+
+    // Back-to-back steps of the same phase (the sigh's double inhale) fill the circle together
+    let first = stepIndex;
+    while (first > 0 && steps[first - 1].phase === currentStep.phase) first--;
+    let last = stepIndex;
+    while (last < steps.length - 1 && steps[last + 1].phase === currentStep.phase) last++;
+
+    const run = steps.slice(first, last + 1);
+    const done = getCycleSeconds(steps.slice(first, stepIndex)) + progress * currentStep.seconds;
+    const fraction = done / getCycleSeconds(run);
+    return currentStep.phase === 'inhale'
+      ? 0.5 + fraction * 0.5 // Scale from 0.5 to 1
+      : 1 - fraction * 0.5; // Scale from 1 to 0.5
   };
 
+  const phase = currentStep.phase;
+  const isFinished = ticks >= totalTicks;
+
   return (
     <Card className={cn('p-6 bg-gradient-to-br from-blue-50 to-indigo-50', className)}>
       <div className="text-center space-y-6">
@@ -137,10 +142,45 @@ export function BreathingGuide({
             Breathing Exercise
           </h3>
           <p className="text-sm text-gray-600">
-            Take a moment to center yourself with guided breathing
+            {protocol.description}
           </p>
         </div>
 
+        <div className="flex items-center justify-center gap-2">
+          <Select
+            value={protocol.id}
+            onValueChange={(value) => handleProtocolChange(value as BreathingProtocolId)}
+            disabled={isActive}
+            aria-label="Breathing protocol"
+          >
+            <SelectContent>
+              {BREATHING_PROTOCOLS.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-9 w-9 p-0"
+            onClick={() => setBreathingAudioCues(!breathingAudioCues)}
+            aria-pressed={breathingAudioCues}
+            aria-label={breathingAudioCues ? 'Turn sound cues off' : 'Turn sound cues on'}
+          >
+            {breathingAudioCues ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4 text-gray-400" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-9 w-9 p-0"
+            onClick={() => setBreathingHapticCues(!breathingHapticCues)}
+            aria-pressed={breathingHapticCues}
+            aria-label={breathingHapticCues ? 'Turn vibration cues off' : 'Turn vibration cues on'}
+          >
+            <Vibrate className={cn('h-4 w-4', !breathingHapticCues && 'text-gray-400')} />
+          </Button>
+        </div>
+
         {/* Breathing Circle Animation */}
         <div className="flex justify-center items-center h-48">
           <div className="relative">
@@ -148,10 +188,10 @@ export function BreathingGuide({
               className={cn(
                 'w-32 h-32 rounded-full border-4 transition-all duration-1000 ease-in-out',
                 'flex items-center justify-center',
-                currentPhase === 'inhale' && 'border-blue-400 bg-blue-100',
-                currentPhase === 'hold' && 'border-purple-400 bg-purple-100',
-                currentPhase === 'exhale' && 'border-green-400 bg-green-100',
-                currentPhase === 'pause' && 'border-gray-400 bg-gray-100'
+                phase === 'inhale' && 'border-blue-400 bg-blue-100',
+                phase === 'hold' && 'border-purple-400 bg-purple-100',
+                phase === 'exhale' && 'border-green-400 bg-green-100',
+                phase === 'pause' && 'border-gray-400 bg-gray-100'
               )}
               style={{
                 transform: `scale(${getCircleScale()})`,
@@ -162,11 +202,11 @@ export function BreathingGuide({
                   {Math.floor(timeLeft / 60)}:{(timeLeft % 60).toString().padStart(2, '0')}
                 </div>
                 <div className="text-xs text-gray-600 mt-1">
-                  {isActive ? getPhaseInstruction() : 'Ready to begin'}
+                  {isActive ? currentStep.instruction : 'Ready to begin'}
                 </div>
               </div>
             </div>
-            
+
             {/* Progress ring */}
             <div className="absolute inset-0">
               <svg className="w-full h-full -rotate-90" viewBox="0 0 36 36">
@@ -177,13 +217,13 @@ export function BreathingGuide({
                   fill="none"
                   stroke="currentColor"
                   strokeWidth="2"
-                  strokeDasharray={`${cycleProgress}, 100`}
+                  strokeDasharray={`${isActive ? progress * 100 : 0}, 100`}
                   className={cn(
                     'transition-all duration-300',
-                    currentPhase === 'inhale' && 'text-blue-500',
-                    currentPhase === 'hold' && 'text-purple-500',
-                    currentPhase === 'exhale' && 'text-green-500',
-                    currentPhase === 'pause' && 'text-gray-500'
+                    phase === 'inhale' && 'text-blue-500',
+                    phase === 'hold' && 'text-purple-500',
+                    phase === 'exhale' && 'text-green-500',
+                    phase === 'pause' && 'text-gray-500'
                   )}
                 />
               </svg>
@@ -197,10 +237,10 @@ export function BreathingGuide({
             <Button
               onClick={handleStart}
               className="bg-blue-600 hover:bg-blue-700 text-white"
-              disabled={timeLeft === 0}
+              disabled={isFinished}
             >
               <Play className="w-4 h-4 mr-2" />
-              {timeLeft === duration ? 'Start' : 'Resume'}
+              {ticks === 0 ? 'Start' : 'Resume'}
             </Button>
           ) : (
             <Button
@@ -212,7 +252,7 @@ export function BreathingGuide({
               Pause
             </Button>
           )}
-          
+
           <Button
             onClick={handleReset}
             variant="outline"
@@ -223,13 +263,13 @@ export function BreathingGuide({
           </Button>
         </div>
 
-        {timeLeft === 0 && (
+        {isFinished && (
           <div className="text-center p-4 bg-green-50 rounded-lg border border-green-200">
             <p className="text-green-800 font-medium">
               Great job! You&apos;ve completed your breathing exercise.
             </p>
             <p className="text-green-600 text-sm mt-1">
-              Take a moment to notice how you feel now.
+              Take a moment to notice how you feel now, then record an emotion check.
             </p>
           </div>
         )}
@@ -1,11 +1,16 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
-import { useWeeklyPromptStore, useIsSunday } from '@/lib/weekly-prompt-store';
+import { PromptDataContext, WeeklyPrompt, useWeeklyPromptStore, useIsReflectionDay } from '@/lib/weekly-prompt-store';
+import { fetchAllEmotionChecks, fetchAllTrades } from '@/lib/analytics/pattern-analytics';
+import { PROMPT_THEMES } from '@/lib/analytics/prompt-selection';
+import { useSettingsStore } from '@/lib/settings-store';
+import { WEEKDAY_NAMES } from '@/lib/calendar';
 import { 
   MessageCircle, 
   Send, 
@@ -13,9 +18,61 @@ import {
   Calendar,
   CheckCircle,
   Clock,
-  Lightbulb
+  Lightbulb,
+  Sparkles
 } from 'lucide-react';
 
+// Prompts arrive on the last day of the configured week
+function useReflectionDayName(): string {
+  const weekStartsOn = useSettingsStore(state => state.weekStartsOn);
+  return WEEKDAY_NAMES[(weekStartsOn + 6) % 7];
+}
+
+// The week's checks and trades for prompt selection; undefined until both have settled
+function usePromptData(enabled: boolean): PromptDataContext | undefined {
+  const checks = useQuery({
+    queryKey: ['emotions', 'all'],
+    queryFn: fetchAllEmotionChecks,
+    staleTime: 5 * 60 * 1000,
+    enabled,
+  });
+  const trades = useQuery({
+    queryKey: ['trades', 'all'],
+    queryFn: fetchAllTrades,
+    staleTime: 5 * 60 * 1000,
+    enabled,
+  });
+
+  const settled = enabled && !checks.isLoading && !trades.isLoading;
+  return useMemo(
+    // A failed fetch still yields a prompt, chosen by theme rotation alone
+    () => (settled ? { checks: checks.data || [], trades: trades.data || [] } : undefined),
+    [settled, checks.data, trades.data]
+  );
+}
+
+function PromptReason({ prompt }: { prompt: WeeklyPrompt }) {
+  if (!prompt.reason) return null;
+  const theme = PROMPT_THEMES.find(item => item.value === prompt.theme);
+
+  return (
+    <div className="flex items-start space-x-2 p-3 bg-blue-50 rounded-lg border border-blue-100">
+      <Sparkles className="h-4 w-4 text-blue-600 mt-0.5 flex-shrink-0" />
+      <div className="text-xs text-blue-800 space-y-1">
+        <p className="font-medium">
+          Why this question
+          {theme && (
+            <Badge variant="outline" className="ml-2 text-[10px] py-0">
+              {theme.label}
+            </Badge>
+          )}
+        </p>
+        <p>{prompt.reason}</p>
+      </div>
+    </div>
+  );
+}
+
 export function WeeklyPromptModal() {
   const [answer, setAnswer] = useState('');
   const [isVisible, setIsVisible] = useState(false);
@@ -28,14 +85,16 @@ export function WeeklyPromptModal() {
     shouldShowPrompt,
   } = useWeeklyPromptStore();
   
-  const isSunday = useIsSunday();
+  const isReflectionDay = useIsReflectionDay();
+  const reflectionDayName = useReflectionDayName();
+  const promptData = usePromptData(isReflectionDay);
 
   useEffect(() => {
-    // Generate prompt on Sundays
-    if (isSunday) {
-      generateWeeklyPrompt();
+    // Generate prompt on the last day of the week, once the week's data is in
+    if (isReflectionDay && promptData) {
+      generateWeeklyPrompt(promptData);
     }
-  }, [isSunday, generateWeeklyPrompt]);
+  }, [isReflectionDay, promptData, generateWeeklyPrompt]);
 
   useEffect(() => {
     // Show modal if we should show prompt
@@ -78,7 +137,7 @@ export function WeeklyPromptModal() {
                 <CardTitle className="text-lg">Weekly Reflection</CardTitle>
                 <CardDescription className="flex items-center space-x-2">
                   <Calendar className="h-4 w-4" />
-                  <span>Sunday Check-in</span>
+                  <span>{reflectionDayName} Check-in</span>
                   <Badge variant="outline" className="ml-2">
                     Week {currentPrompt.week}
                   </Badge>
@@ -110,6 +169,7 @@ export function WeeklyPromptModal() {
             <h3 className="text-lg font-medium leading-relaxed">
               {currentPrompt.question}
             </h3>
+            <PromptReason prompt={currentPrompt} />
           </div>
 
           {/* Answer Input */}
@@ -167,15 +227,20 @@ export function WeeklyPromptCard() {
     generateWeeklyPrompt,
     answerPrompt,
     shouldShowPrompt,
-    getPromptHistory
+    getPromptHistory,
+    syncWithServer,
   } = useWeeklyPromptStore();
   
-  const isSunday = useIsSunday();
+  const isReflectionDay = useIsReflectionDay();
+  const reflectionDayName = useReflectionDayName();
   const promptHistory = getPromptHistory();
+  const promptData = usePromptData(true);
 
   useEffect(() => {
-    generateWeeklyPrompt();
-  }, [generateWeeklyPrompt]);
+    if (!promptData) return;
+    generateWeeklyPrompt(promptData);
+    syncWithServer();
+  }, [promptData, generateWeeklyPrompt, syncWithServer]);
 
   const handleSubmitAnswer = () => {
     if (answer.trim()) {
@@ -196,7 +261,7 @@ export function WeeklyPromptCard() {
                 <span>This Week&apos;s Reflection</span>
               </div>
               <div className="flex items-center space-x-2">
-                {isSunday && !currentPrompt.isAnswered && (
+                {isReflectionDay && !currentPrompt.isAnswered && (
                   <Badge variant="default" className="bg-blue-100 text-blue-800">
                     <Clock className="h-3 w-3 mr-1" />
                     New
@@ -211,13 +276,14 @@ export function WeeklyPromptCard() {
               </div>
             </CardTitle>
             <CardDescription>
-              Week {currentPrompt.week} • Sunday Reflection
+              Week {currentPrompt.week} • {reflectionDayName} Reflection
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <p className="text-sm leading-relaxed">
               {currentPrompt.question}
             </p>
+            <PromptReason prompt={currentPrompt} />
             
             {currentPrompt.isAnswered ? (
               <div className="p-4 bg-green-50 rounded-lg border border-green-200">
@@ -0,0 +1,153 @@
+// Daily session journal: rolls a day's emotion checks and trades up against
+// its pre-market plan, and aggregates a week of sessions for reflections.
+
+import { DailySession, DailySessionPlan, EmotionCheck, Trade } from '@/lib/types';
+import { getTradePnL, getTradeTime } from '@/lib/trade-metrics';
+import { addDays, getDayKey, WeekRange } from '@/lib/calendar';
+import { mean } from './statistics';
+
+export interface DailyRollup {
+  date: string;
+  checks: EmotionCheck[];
+  trades: Trade[];
+  averageLevel: number | null;
+  preTradeAverage: number | null;
+  wins: number;
+  losses: number;
+  winRate: number | null; // 0-100
+  totalPnL: number;
+  // Trades on symbols that weren't on the day's watchlist
+  offWatchlistTrades: Trade[];
+  maxLossBreached: boolean;
+}
+
+export interface MistakeCount {
+  mistake: string;
+  count: number;
+}
+
+export interface WeeklySessionSummary {
+  start: string;
+  end: string;
+  daysTraded: number;
+  daysPlanned: number;
+  daysReviewed: number;
+  averageAdherence: number | null; // 1-5
+  topMistakes: MistakeCount[];
+  offWatchlistTrades: number;
+  maxLossBreaches: number;
+  totalPnL: number;
+}
+
+export const ADHERENCE_LABELS = ['Ignored it', 'Mostly off-plan', 'Partly', 'Mostly on-plan', 'Followed it'];
+
+function normalizeSymbol(symbol: string): string {
+  return symbol.trim().toUpperCase();
+}
+
+// Splits free text like "AAPL, msft tsla" into clean, unique symbols
+export function parseWatchlist(input: string): string[] {
+  const symbols = input
+    .split(/[\s,;]+/)
+    .map(normalizeSymbol)
+    .filter(Boolean);
+  return symbols.filter((symbol, index) => symbols.indexOf(symbol) === index);
+}
+
+export function buildDailyRollup(
+  date: string,
+  checks: EmotionCheck[],
+  trades: Trade[],
+  timezone?: string,
+  plan?: DailySessionPlan
+): DailyRollup {
+  const dayChecks = checks
+    .filter(check => getDayKey(new Date(check.timestamp), timezone) === date)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const dayTrades = trades
+    .filter(trade => getDayKey(new Date(getTradeTime(trade)), timezone) === date)
+    .sort((a, b) => new Date(getTradeTime(a)).getTime() - new Date(getTradeTime(b)).getTime());
+
+  const preTrade = dayChecks.filter(check => check.context === 'pre-trade');
+  const wins = dayTrades.filter(trade => trade.outcome === 'win').length;
+  const losses = dayTrades.filter(trade => trade.outcome === 'loss').length;
+  const totalPnL = dayTrades.reduce((sum, trade) => sum + (getTradePnL(trade) ?? 0), 0);
+
+  const watchlist = plan ? plan.watchlist.map(normalizeSymbol) : [];
+  const offWatchlistTrades = watchlist.length > 0
+    ? dayTrades.filter(trade => watchlist.indexOf(normalizeSymbol(trade.symbol)) === -1)
+    : [];
+
+  return {
+    date,
+    checks: dayChecks,
+    trades: dayTrades,
+    averageLevel: dayChecks.length > 0 ? mean(dayChecks.map(check => check.level)) : null,
+    preTradeAverage: preTrade.length > 0 ? mean(preTrade.map(check => check.level)) : null,
+    wins,
+    losses,
+    winRate: dayTrades.length > 0 ? (wins / dayTrades.length) * 100 : null,
+    totalPnL,
+    offWatchlistTrades,
+    maxLossBreached: !!plan?.maxLoss && totalPnL <= -plan.maxLoss,
+  };
+}
+
+/** Mistakes across reviews, most frequent first; spelling variants of case and spacing are merged. */
+export function countMistakes(sessions: DailySession[]): MistakeCount[] {
+  const counts: Record<string, MistakeCount> = {};
+  sessions.forEach(session => {
+    (session.review?.mistakes || []).forEach(mistake => {
+      const key = mistake.trim().toLowerCase();
+      if (!key) return;
+      if (!counts[key]) counts[key] = { mistake: mistake.trim(), count: 0 };
+      counts[key].count++;
+    });
+  });
+  return Object.keys(counts)
+    .map(key => counts[key])
+    .sort((a, b) => b.count - a.count || a.mistake.localeCompare(b.mistake));
+}
+
+export function buildWeeklySessionSummary(
+  week: Pick<WeekRange, 'start' | 'end'>,
+  sessions: DailySession[],
+  checks: EmotionCheck[],
+  trades: Trade[],
+  timezone?: string
+): WeeklySessionSummary {
+  const weekSessions = sessions.filter(session => session.date >= week.start && session.date <= week.end);
+  const sessionsByDate: Record<string, DailySession> = {};
+  weekSessions.forEach(session => {
+    sessionsByDate[session.date] = session;
+  });
+
+  let daysTraded = 0;
+  let offWatchlistTrades = 0;
+  let maxLossBreaches = 0;
+  let totalPnL = 0;
+  for (let date = week.start; date <= week.end; date = addDays(date, 1)) {
+    const rollup = buildDailyRollup(date, checks, trades, timezone, sessionsByDate[date]?.plan);
+    if (rollup.trades.length > 0) daysTraded++;
+    offWatchlistTrades += rollup.offWatchlistTrades.length;
+    if (rollup.maxLossBreached) maxLossBreaches++;
+    totalPnL += rollup.totalPnL;
+  }
+
+  const reviewed = weekSessions.filter(session => !!session.review);
+
+  return {
+    start: week.start,
+    end: week.end,
+    daysTraded,
+    daysPlanned: weekSessions.filter(session => !!session.plan).length,
+    daysReviewed: reviewed.length,
+    averageAdherence: reviewed.length > 0
+      ? mean(reviewed.map(session => session.review!.planAdherence))
+      : null,
+    topMistakes: countMistakes(weekSessions).slice(0, 3),
+    offWatchlistTrades,
+    maxLossBreaches,
+    totalPnL,
+  };
+}
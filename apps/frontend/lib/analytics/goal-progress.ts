@@ -0,0 +1,225 @@
+// Measurable monthly goals: progress computed from the month's emotion checks
+// and trades, as of any day so the month can be replayed as a daily history.
+
+import { EmotionCheck, GoalMetric, MonthlyGoal, Trade } from '@/lib/types';
+import { getTradeTime } from '@/lib/trade-metrics';
+import { addDays, getDayKey } from '@/lib/calendar';
+import { getTagLabel, TradeTag } from '@/lib/trade-tags';
+import { pairTradesWithEmotions } from './pattern-analytics';
+import { DEFAULT_PAIRING_WINDOW_MS, findNearestPostTradeCheck } from './trade-linking';
+import { mean } from './statistics';
+
+export type GoalDirection = 'atLeast' | 'atMost';
+
+export interface GoalMetricDefinition {
+  metric: GoalMetric;
+  label: string;
+  unit: string;
+  direction: GoalDirection;
+  min: number;
+  max: number;
+  step: number;
+  defaultTarget: number;
+  needsTag?: boolean;
+  describe: (target: number, tagLabel: string) => string;
+}
+
+export const GOAL_METRICS: GoalMetricDefinition[] = [
+  {
+    metric: 'preTradeCheckRate',
+    label: 'Check in before trades',
+    unit: '%',
+    direction: 'atLeast',
+    min: 10,
+    max: 100,
+    step: 5,
+    defaultTarget: 90,
+    describe: target => `Emotion check before ${target}% of trades`,
+  },
+  {
+    metric: 'journaledTradeRate',
+    label: 'Log every trade',
+    unit: '%',
+    direction: 'atLeast',
+    min: 10,
+    max: 100,
+    step: 5,
+    defaultTarget: 100,
+    describe: target => target >= 100
+      ? 'Log every trade with a pre- and post-trade check'
+      : `Log ${target}% of trades with a pre- and post-trade check`,
+  },
+  {
+    metric: 'mistakeTagCount',
+    label: 'Limit a mistake',
+    unit: 'trades',
+    direction: 'atMost',
+    min: 0,
+    max: 50,
+    step: 1,
+    defaultTarget: 2,
+    needsTag: true,
+    describe: (target, tagLabel) => target === 0
+      ? `No ${tagLabel.toLowerCase()}-tagged trades`
+      : `Max ${target} ${tagLabel.toLowerCase()}-tagged trade${target === 1 ? '' : 's'}`,
+  },
+  {
+    metric: 'averagePreTradeLevel',
+    label: 'Calmer pre-trade state',
+    unit: 'level',
+    direction: 'atLeast',
+    min: 1,
+    max: 10,
+    step: 0.5,
+    defaultTarget: 6,
+    describe: target => `Average pre-trade level ≥ ${target}`,
+  },
+];
+
+export interface GoalContext {
+  checks: EmotionCheck[];
+  trades: Trade[];
+  timezone?: string;
+  windowMs?: number;
+  now?: Date;
+}
+
+export interface GoalEvaluation {
+  value: number | null; // null until there is data to measure
+  progress: number; // 0-100
+  met: boolean;
+  summary: string;
+}
+
+export interface GoalHistoryPoint {
+  date: string;
+  value: number | null;
+  progress: number;
+}
+
+export function getGoalDefinition(metric: GoalMetric): GoalMetricDefinition {
+  return GOAL_METRICS.find(definition => definition.metric === metric) || GOAL_METRICS[0];
+}
+
+export function isMeasurableGoal(goal: Pick<MonthlyGoal, 'metric' | 'target'>): boolean {
+  return !!goal.metric && goal.target !== undefined && goal.target !== null;
+}
+
+export function describeGoalTarget(metric: GoalMetric, target: number, tagId: string | undefined, tags: TradeTag[]): string {
+  return getGoalDefinition(metric).describe(target, tagId ? getTagLabel(tagId, tags) : 'mistake');
+}
+
+/** The YYYY-MM month a goal belongs to, even when the API sends a full timestamp. */
+export function getGoalMonth(goal: Pick<MonthlyGoal, 'targetMonth'>): string {
+  return goal.targetMonth.slice(0, 7);
+}
+
+/** First and last day (YYYY-MM-DD) of a YYYY-MM month. */
+export function getMonthRange(month: string): { start: string; end: string } {
+  const start = `${month}-01`;
+  const [year, monthNumber] = month.split('-').map(Number);
+  const next = monthNumber === 12 ? `${year + 1}-01-01` : `${year}-${(monthNumber + 1).toString().padStart(2, '0')}-01`;
+  return { start, end: addDays(next, -1) };
+}
+
+function formatValue(definition: GoalMetricDefinition, value: number): string {
+  if (definition.unit === '%') return `${Math.round(value)}%`;
+  if (definition.unit === 'level') return value.toFixed(1);
+  return value.toString();
+}
+
+/** Progress of a measurable goal using only data up to the end of `asOf` (defaults to today). */
+export function evaluateGoal(goal: MonthlyGoal, context: GoalContext, asOf?: string): GoalEvaluation {
+  const definition = getGoalDefinition(goal.metric || 'preTradeCheckRate');
+  const target = goal.target ?? definition.defaultTarget;
+  const { timezone, windowMs = DEFAULT_PAIRING_WINDOW_MS } = context;
+  const month = getMonthRange(getGoalMonth(goal));
+  const until = asOf || getDayKey(context.now || new Date(), timezone);
+
+  const inMonth = (day: string) => day >= month.start && day <= month.end && day <= until;
+  const trades = context.trades.filter(trade => inMonth(getDayKey(new Date(getTradeTime(trade)), timezone)));
+
+  let value: number | null = null;
+  let detail = '';
+  switch (definition.metric) {
+    case 'preTradeCheckRate': {
+      if (trades.length > 0) {
+        const checked = pairTradesWithEmotions(trades, context.checks, windowMs).length;
+        value = (checked / trades.length) * 100;
+        detail = `${checked} of ${trades.length} trades`;
+      }
+      break;
+    }
+    case 'journaledTradeRate': {
+      if (trades.length > 0) {
+        const checkedIds: Record<string, boolean> = {};
+        pairTradesWithEmotions(trades, context.checks, windowMs).forEach(pair => {
+          checkedIds[pair.trade.id] = true;
+        });
+        const journaled = trades.filter(trade => checkedIds[trade.id] &&
+          (!!trade.postEmotionCheckId || !!findNearestPostTradeCheck(context.checks, trade, windowMs))).length;
+        value = (journaled / trades.length) * 100;
+        detail = `${journaled} of ${trades.length} trades`;
+      }
+      break;
+    }
+    case 'mistakeTagCount': {
+      value = trades.filter(trade => !!goal.tagId && (trade.mistakeTags || []).indexOf(goal.tagId) !== -1).length;
+      detail = `${value} so far`;
+      break;
+    }
+    case 'averagePreTradeLevel': {
+      const levels = context.checks
+        .filter(check => check.context === 'pre-trade' && inMonth(getDayKey(new Date(check.timestamp), timezone)))
+        .map(check => check.level);
+      if (levels.length > 0) {
+        value = mean(levels);
+        detail = `over ${levels.length} check${levels.length === 1 ? '' : 's'}`;
+      }
+      break;
+    }
+  }
+
+  if (value === null) {
+    // An empty month has broken no limits yet, but hasn't reached any minimum either
+    return { value, progress: 0, met: false, summary: 'No data yet this month' };
+  }
+
+  const met = definition.direction === 'atLeast' ? value >= target : value <= target;
+  // Limits show the share of the allowance left; minimums show how close the value is to the target
+  const progress = definition.direction === 'atLeast'
+    ? Math.min(100, target > 0 ? (value / target) * 100 : 100)
+    : Math.max(0, ((target + 1 - value) / (target + 1)) * 100);
+
+  return {
+    value,
+    progress: Math.round(progress),
+    met,
+    summary: `${formatValue(definition, value)} (${detail})`,
+  };
+}
+
+/** One evaluation per day from the start of the goal's month through today or the month's end. */
+export function buildGoalHistory(goal: MonthlyGoal, context: GoalContext): GoalHistoryPoint[] {
+  const month = getMonthRange(getGoalMonth(goal));
+  const today = getDayKey(context.now || new Date(), context.timezone);
+  const last = today < month.end ? today : month.end;
+
+  // Only checks near the month can pair with its trades (link windows are at most a day)
+  const from = addDays(month.start, -2);
+  const to = addDays(month.end, 2);
+  const monthContext: GoalContext = {
+    ...context,
+    checks: context.checks.filter(check => {
+      const day = getDayKey(new Date(check.timestamp), context.timezone);
+      return day >= from && day <= to;
+    }),
+  };
+
+  const history: GoalHistoryPoint[] = [];
+  for (let date = month.start; date <= last; date = addDays(date, 1)) {
+    const { value, progress } = evaluateGoal(goal, monthContext, date);
+    history.push({ date, value, progress });
+  }
+  return history;
+}
@@ -0,0 +1,104 @@
+// What each mistake (and setup) tag has cost: P&L of the trades carrying it,
+// in total and month by month.
+
+import { Trade } from '@/lib/types';
+import { getTradePnL, getTradeTime } from '@/lib/trade-metrics';
+import { getDayKey } from '@/lib/calendar';
+import { formatCurrency } from '@/lib/utils';
+import { getTagLabel, TradeTag, TradeTagKind } from '@/lib/trade-tags';
+
+export interface TagMonth {
+  month: string; // YYYY-MM
+  pnl: number;
+  tradeCount: number;
+}
+
+export interface TagCost {
+  tagId: string;
+  label: string;
+  kind: TradeTagKind;
+  tradeCount: number;
+  totalPnL: number;
+  // Net loss of the tagged trades; zero when they came out ahead overall
+  cost: number;
+  averagePnL: number;
+  winRate: number; // 0-100
+  months: TagMonth[]; // Oldest first, only months with tagged trades
+}
+
+export function computeTagCosts(
+  trades: Trade[],
+  tags: TradeTag[],
+  kind?: TradeTagKind,
+  timezone?: string
+): TagCost[] {
+  const byTag: Record<string, { trades: Trade[]; kind: TradeTagKind }> = {};
+
+  trades.forEach(trade => {
+    const ids: { id: string; kind: TradeTagKind }[] = [];
+    if (kind !== 'setup') (trade.mistakeTags || []).forEach(id => ids.push({ id, kind: 'mistake' }));
+    if (kind !== 'mistake' && trade.setupTag) ids.push({ id: trade.setupTag, kind: 'setup' });
+
+    ids.forEach(({ id, kind: tagKind }) => {
+      if (!byTag[id]) byTag[id] = { trades: [], kind: tagKind };
+      // A tag listed twice on one trade still counts the trade once
+      if (byTag[id].trades.indexOf(trade) === -1) byTag[id].trades.push(trade);
+    });
+  });
+
+  return Object.keys(byTag).map(tagId => {
+    const tagged = byTag[tagId].trades;
+    const months: Record<string, TagMonth> = {};
+    let totalPnL = 0;
+
+    tagged.forEach(trade => {
+      const pnl = getTradePnL(trade) ?? 0;
+      const month = getDayKey(new Date(getTradeTime(trade)), timezone).slice(0, 7);
+      if (!months[month]) months[month] = { month, pnl: 0, tradeCount: 0 };
+      months[month].pnl += pnl;
+      months[month].tradeCount++;
+      totalPnL += pnl;
+    });
+
+    return {
+      tagId,
+      label: getTagLabel(tagId, tags),
+      kind: byTag[tagId].kind,
+      tradeCount: tagged.length,
+      totalPnL,
+      cost: Math.max(0, -totalPnL),
+      averagePnL: totalPnL / tagged.length,
+      winRate: (tagged.filter(trade => trade.outcome === 'win').length / tagged.length) * 100,
+      months: Object.keys(months).sort().map(month => months[month]),
+    };
+  });
+}
+
+/** Mistake tags that have lost money, most expensive first. */
+export function getMostExpensiveHabits(trades: Trade[], tags: TradeTag[], timezone?: string, limit = 5): TagCost[] {
+  return computeTagCosts(trades, tags, 'mistake', timezone)
+    .filter(cost => cost.cost > 0)
+    .sort((a, b) => b.cost - a.cost || b.tradeCount - a.tradeCount)
+    .slice(0, limit);
+}
+
+/** The most frequent mistakes on trades within a range of day keys, costliest first on ties. */
+export function getTopMistakes(
+  trades: Trade[],
+  tags: TradeTag[],
+  range: { start: string; end: string },
+  timezone?: string,
+  limit = 3
+): TagCost[] {
+  const inRange = trades.filter(trade => {
+    const day = getDayKey(new Date(getTradeTime(trade)), timezone);
+    return day >= range.start && day <= range.end;
+  });
+  return computeTagCosts(inRange, tags, 'mistake', timezone)
+    .sort((a, b) => b.tradeCount - a.tradeCount || a.totalPnL - b.totalPnL)
+    .slice(0, limit);
+}
+
+export function describeTagCost(cost: TagCost): string {
+  return `${cost.label}: ${cost.tradeCount} trade${cost.tradeCount === 1 ? '' : 's'}, ${formatCurrency(cost.totalPnL)}`;
+}
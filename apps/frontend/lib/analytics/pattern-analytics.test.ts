@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { fetchAllPages } from './pattern-analytics';
+
+// A list endpoint holding `total` numbered records
+function endpoint(total: number) {
+  const calls: number[] = [];
+  const fetchPage = async (limit: number, offset: number) => {
+    calls.push(offset);
+    return Array.from({ length: Math.max(0, Math.min(limit, total - offset)) }, (_, index) => offset + index);
+  };
+  return { calls, fetchPage };
+}
+
+describe('fetchAllPages', () => {
+  it('stops at the first short page', async () => {
+    const { calls, fetchPage } = endpoint(250);
+    expect(await fetchAllPages(fetchPage)).toHaveLength(250);
+    expect(calls).toEqual([0, 100, 200]);
+  });
+
+  it('caps screens at 20 pages but pages through everything when asked', async () => {
+    expect(await fetchAllPages(endpoint(2500).fetchPage)).toHaveLength(2000);
+
+    const all = await fetchAllPages(endpoint(2500).fetchPage, Infinity);
+    expect(all).toHaveLength(2500);
+    expect(all[2499]).toBe(2499);
+  });
+});
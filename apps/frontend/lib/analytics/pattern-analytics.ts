@@ -0,0 +1,433 @@
+import { apiClient } from '@/lib/api-client';
+import { EmotionCheck, Trade } from '@/lib/types';
+import { getTradeMetrics, getTradePnL, getTradeTime } from '@/lib/trade-metrics';
+import {
+  ConfidenceInterval,
+  CorrelationResult,
+  MIN_BUCKET_SAMPLE,
+  mean,
+  pearsonTest,
+  sampleSizeWarning,
+  spearmanTest,
+  winRateConfidenceInterval,
+} from './statistics';
+import { DEFAULT_PAIRING_WINDOW_MS, findNearestPreTradeCheck } from './trade-linking';
+import {
+  EmotionDimensionFilter,
+  isDimensionFilterActive,
+  matchesDimensionFilter,
+} from '@/lib/emotion-dimensions';
+import { dayKeyToDate, getWeekRange, WeekOptions, WeekRange } from '@/lib/calendar';
+
+export type DateRangeKey = '7d' | '30d' | '90d' | '1y' | 'all';
+
+export interface EmotionPerformancePoint {
+  emotionLevel: number;
+  pnl: number;
+  returnPercent: number | null;
+  rMultiple: number | null;
+  tradeType: 'win' | 'loss' | 'breakeven';
+  date: string;
+  symbol?: string;
+  size: number; // For bubble size in scatter plot
+  linked: boolean; // True when the trade references the check directly
+}
+
+export interface WeeklyTrendPoint {
+  week: string;
+  weekKey: string; // ISO week label shared with prompts and reflections
+  weekStart: string;
+  avgEmotion: number | null;
+  winRate: number | null;
+  totalTrades: number;
+  totalPnL: number;
+  avgReturn: number;
+}
+
+export interface PatternInsights {
+  highEmotionWinRate: number | null;
+  bestTradingDays: string[];
+  anxietyThreshold: number | null;
+  optimalEmotionRange: [number, number] | null;
+  correlation: number | null;
+  correlationStrength: number | null;
+  correlationTest: CorrelationResult;
+  rankCorrelationTest: CorrelationResult;
+  totalPatterns: number;
+}
+
+export interface EmotionLevelBucket {
+  emotionLevel: number;
+  tradeCount: number;
+  winRate: number;
+  winRateInterval: ConfidenceInterval;
+  errorY: [number, number]; // Distance from winRate to the interval bounds, for chart error bars
+  avgPnL: number;
+  warning: string | null;
+}
+
+export interface TradeEmotionPair {
+  trade: Trade;
+  check: EmotionCheck;
+  linked: boolean;
+}
+
+export interface CooldownGroup {
+  tradeCount: number;
+  winRate: number | null;
+  winRateInterval: ConfidenceInterval | null;
+  avgPnL: number | null;
+  avgEmotionLevel: number | null;
+  warning: string | null;
+}
+
+// Trades whose pre-trade check followed a breathing cool-down against those without one
+export interface CooldownComparison {
+  withCooldown: CooldownGroup;
+  withoutCooldown: CooldownGroup;
+  winRateDifference: number | null;
+}
+
+export interface PatternAnalysis {
+  points: EmotionPerformancePoint[];
+  buckets: EmotionLevelBucket[];
+  weeklyTrend: WeeklyTrendPoint[];
+  insights: PatternInsights;
+  cooldown: CooldownComparison;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_RANGE_DAYS: Record<DateRangeKey, number | null> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+  all: null,
+};
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Buckets with fewer trades than this are ignored when deriving insights
+export const MIN_BUCKET_TRADES = 3;
+
+const HIGH_EMOTION_LEVEL = 7;
+const OPTIMAL_RANGE_WIDTH = 3;
+
+const PAGE_SIZE = 100;
+const MAX_PAGES = 20;
+
+export function toTime(value: Date | string): number {
+  return new Date(value).getTime();
+}
+
+export function getRangeStart(range: DateRangeKey, now: Date = new Date()): Date | null {
+  const days = DATE_RANGE_DAYS[range];
+  return days === null ? null : new Date(now.getTime() - days * DAY_MS);
+}
+
+export function filterByDateRange<T>(
+  items: T[],
+  getDate: (item: T) => Date | string,
+  range: DateRangeKey,
+  now: Date = new Date()
+): T[] {
+  const start = getRangeStart(range, now);
+  if (!start) return items;
+
+  const startTime = start.getTime();
+  return items.filter(item => toTime(getDate(item)) >= startTime);
+}
+
+/**
+ * Pages through a list endpoint until it runs dry or `maxPages` is hit. The
+ * default cap suits screens; exports pass Infinity to get the whole history.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (limit: number, offset: number) => Promise<T[]>,
+  maxPages: number = MAX_PAGES
+): Promise<T[]> {
+  const results: T[] = [];
+
+  for (let page = 0; page < maxPages; page++) {
+    const batch = await fetchPage(PAGE_SIZE, page * PAGE_SIZE);
+    results.push(...batch);
+    if (batch.length < PAGE_SIZE) break;
+  }
+
+  return results;
+}
+
+export function fetchAllEmotionChecks(): Promise<EmotionCheck[]> {
+  return fetchAllPages((limit, offset) => apiClient.getEmotionChecks(limit, offset));
+}
+
+export function fetchAllTrades(): Promise<Trade[]> {
+  return fetchAllPages((limit, offset) => apiClient.getTrades(limit, offset));
+}
+
+/**
+ * Pair each trade with the emotion check that preceded it. An explicit
+ * `emotionCheckId` link always wins; otherwise the closest earlier pre-trade
+ * check within the window is used, preferring one for the same symbol.
+ * Checks the user linked to a trade are never guessed for a different one.
+ */
+export function pairTradesWithEmotions(
+  trades: Trade[],
+  checks: EmotionCheck[],
+  windowMs: number = DEFAULT_PAIRING_WINDOW_MS
+): TradeEmotionPair[] {
+  const checksById: Record<string, EmotionCheck> = {};
+  checks.forEach(check => {
+    checksById[check.id] = check;
+  });
+
+  const claimed: Record<string, boolean> = {};
+  trades.forEach(trade => {
+    if (trade.emotionCheckId && checksById[trade.emotionCheckId]) claimed[trade.emotionCheckId] = true;
+  });
+
+  const pairs: TradeEmotionPair[] = [];
+
+  trades.forEach(trade => {
+    const linkedCheck = trade.emotionCheckId ? checksById[trade.emotionCheckId] : undefined;
+    if (linkedCheck) {
+      pairs.push({ trade, check: linkedCheck, linked: true });
+      return;
+    }
+
+    const nearest = findNearestPreTradeCheck(checks, {
+      symbol: trade.symbol,
+      time: getTradeTime(trade),
+      windowMs,
+      exclude: claimed,
+    });
+    if (nearest) {
+      pairs.push({ trade, check: nearest, linked: false });
+    }
+  });
+
+  return pairs;
+}
+
+export function buildEmotionPerformancePoints(pairs: TradeEmotionPair[]): EmotionPerformancePoint[] {
+  return pairs.map(({ trade, check, linked }) => {
+    const metrics = getTradeMetrics(trade);
+    const pnl = metrics.pnl ?? 0;
+    return {
+      emotionLevel: check.level,
+      pnl,
+      returnPercent: metrics.returnPercent,
+      rMultiple: metrics.rMultiple,
+      tradeType: metrics.outcome ?? trade.outcome,
+      date: new Date(getTradeTime(trade)).toISOString(),
+      symbol: trade.symbol,
+      size: Math.abs(pnl) + 5,
+      linked,
+    };
+  });
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function winRate(trades: Trade[]): number | null {
+  if (trades.length === 0) return null;
+  return (trades.filter(trade => trade.outcome === 'win').length / trades.length) * 100;
+}
+
+export function buildWeeklyTrend(
+  checks: EmotionCheck[],
+  trades: Trade[],
+  weekOptions: WeekOptions = {}
+): WeeklyTrendPoint[] {
+  const weeks: Record<string, { range: WeekRange; checks: EmotionCheck[]; trades: Trade[] }> = {};
+  const getWeek = (value: Date | string) => {
+    const range = getWeekRange(value, weekOptions);
+    return weeks[range.start] || (weeks[range.start] = { range, checks: [], trades: [] });
+  };
+
+  checks.forEach(check => getWeek(check.timestamp).checks.push(check));
+  trades.forEach(trade => getWeek(getTradeTime(trade)).trades.push(trade));
+
+  // Keyed by start day so weeks sort chronologically
+  return Object.keys(weeks)
+    .sort()
+    .map(key => {
+      const week = weeks[key];
+      const totalPnL = week.trades.reduce((sum, trade) => sum + (getTradePnL(trade) ?? 0), 0);
+      return {
+        week: dayKeyToDate(week.range.start).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+        weekKey: week.range.key,
+        weekStart: week.range.start,
+        avgEmotion: average(week.checks.map(check => check.level)),
+        winRate: winRate(week.trades),
+        totalTrades: week.trades.length,
+        totalPnL,
+        avgReturn: week.trades.length > 0 ? totalPnL / week.trades.length : 0,
+      };
+    });
+}
+
+function pairWinRate(pairs: TradeEmotionPair[]): number | null {
+  return winRate(pairs.map(pair => pair.trade));
+}
+
+function findBestTradingDays(trades: Trade[], count = 2): string[] {
+  const byDay: Trade[][] = WEEKDAYS.map(() => []);
+  trades.forEach(trade => byDay[new Date(getTradeTime(trade)).getDay()].push(trade));
+
+  return byDay
+    .map((dayTrades, day) => ({ day: WEEKDAYS[day], trades: dayTrades.length, winRate: winRate(dayTrades) ?? 0 }))
+    .filter(entry => entry.trades >= MIN_BUCKET_TRADES)
+    .sort((a, b) => b.winRate - a.winRate)
+    .slice(0, count)
+    .map(entry => entry.day);
+}
+
+// Highest level at or below which trading clearly underperforms the overall win rate
+function findAnxietyThreshold(pairs: TradeEmotionPair[]): number | null {
+  const overall = pairWinRate(pairs);
+  if (overall === null) return null;
+
+  let threshold: number | null = null;
+  for (let level = 1; level < 10; level++) {
+    const atOrBelow = pairs.filter(pair => pair.check.level <= level);
+    const rate = pairWinRate(atOrBelow);
+    if (atOrBelow.length >= MIN_BUCKET_TRADES && rate !== null && rate < overall) {
+      threshold = level;
+    }
+  }
+
+  return threshold;
+}
+
+// Contiguous band of levels with the best win rate (ties broken by average P&L)
+function findOptimalRange(pairs: TradeEmotionPair[]): [number, number] | null {
+  let best: { range: [number, number]; winRate: number; avgPnL: number } | null = null;
+
+  for (let low = 1; low + OPTIMAL_RANGE_WIDTH - 1 <= 10; low++) {
+    const high = low + OPTIMAL_RANGE_WIDTH - 1;
+    const inRange = pairs.filter(pair => pair.check.level >= low && pair.check.level <= high);
+    if (inRange.length < MIN_BUCKET_TRADES) continue;
+
+    const rate = pairWinRate(inRange) ?? 0;
+    const avgPnL = average(inRange.map(pair => getTradePnL(pair.trade) ?? 0)) ?? 0;
+    if (!best || rate > best.winRate || (rate === best.winRate && avgPnL > best.avgPnL)) {
+      best = { range: [low, high], winRate: rate, avgPnL };
+    }
+  }
+
+  return best ? best.range : null;
+}
+
+// Win rate per emotion level with bootstrap intervals; levels without trades are omitted
+export function buildEmotionLevelBuckets(pairs: TradeEmotionPair[]): EmotionLevelBucket[] {
+  const buckets: EmotionLevelBucket[] = [];
+
+  for (let level = 1; level <= 10; level++) {
+    const atLevel = pairs.filter(pair => pair.check.level === level);
+    if (atLevel.length === 0) continue;
+
+    const interval = winRateConfidenceInterval(
+      atLevel.map(pair => (pair.trade.outcome === 'win' ? 1 : 0))
+    );
+
+    buckets.push({
+      emotionLevel: level,
+      tradeCount: atLevel.length,
+      winRate: interval.estimate,
+      winRateInterval: interval,
+      errorY: [interval.estimate - interval.lower, interval.upper - interval.estimate],
+      avgPnL: mean(atLevel.map(pair => getTradePnL(pair.trade) ?? 0)),
+      warning: sampleSizeWarning(atLevel.length, MIN_BUCKET_SAMPLE),
+    });
+  }
+
+  return buckets;
+}
+
+function buildCooldownGroup(pairs: TradeEmotionPair[]): CooldownGroup {
+  if (pairs.length === 0) {
+    return { tradeCount: 0, winRate: null, winRateInterval: null, avgPnL: null, avgEmotionLevel: null, warning: null };
+  }
+
+  const interval = winRateConfidenceInterval(pairs.map(pair => (pair.trade.outcome === 'win' ? 1 : 0)));
+  return {
+    tradeCount: pairs.length,
+    winRate: interval.estimate,
+    winRateInterval: interval,
+    avgPnL: mean(pairs.map(pair => getTradePnL(pair.trade) ?? 0)),
+    avgEmotionLevel: mean(pairs.map(pair => pair.check.level)),
+    warning: sampleSizeWarning(pairs.length, MIN_BUCKET_SAMPLE),
+  };
+}
+
+export function compareCooldownOutcomes(pairs: TradeEmotionPair[]): CooldownComparison {
+  const withCooldown = buildCooldownGroup(pairs.filter(pair => !!pair.check.breathingSessionId));
+  const withoutCooldown = buildCooldownGroup(pairs.filter(pair => !pair.check.breathingSessionId));
+
+  return {
+    withCooldown,
+    withoutCooldown,
+    winRateDifference: withCooldown.winRate !== null && withoutCooldown.winRate !== null
+      ? withCooldown.winRate - withoutCooldown.winRate
+      : null,
+  };
+}
+
+export function computePatternInsights(pairs: TradeEmotionPair[], trades: Trade[]): PatternInsights {
+  const withPnL = pairs.filter(pair => getTradePnL(pair.trade) !== null);
+  const levels = withPnL.map(pair => pair.check.level);
+  const pnls = withPnL.map(pair => getTradePnL(pair.trade) as number);
+  const correlationTest = pearsonTest(levels, pnls);
+  const correlation = correlationTest.coefficient;
+
+  return {
+    highEmotionWinRate: pairWinRate(pairs.filter(pair => pair.check.level >= HIGH_EMOTION_LEVEL)),
+    bestTradingDays: findBestTradingDays(trades),
+    anxietyThreshold: findAnxietyThreshold(pairs),
+    optimalEmotionRange: findOptimalRange(pairs),
+    correlation,
+    correlationStrength: correlation === null ? null : Math.abs(correlation),
+    correlationTest,
+    rankCorrelationTest: spearmanTest(levels, pnls),
+    totalPatterns: pairs.length,
+  };
+}
+
+/**
+ * Full pattern analysis for a date range. A dimension filter narrows the
+ * analysis to trades whose pre-trade check matches it (and to matching checks
+ * in the weekly trend); pairing itself always runs against every check.
+ */
+export function analyzePatterns(
+  checks: EmotionCheck[],
+  trades: Trade[],
+  range: DateRangeKey,
+  now: Date = new Date(),
+  windowMs: number = DEFAULT_PAIRING_WINDOW_MS,
+  filter: EmotionDimensionFilter = {},
+  weekOptions: WeekOptions = {}
+): PatternAnalysis {
+  const rangeChecks = filterByDateRange(checks, check => check.timestamp, range, now);
+  const rangeTrades = filterByDateRange(trades, getTradeTime, range, now);
+
+  // Pair against every check so trades at the start of the range keep their pre-trade check
+  const allPairs = pairTradesWithEmotions(rangeTrades, checks, windowMs);
+
+  const filtering = isDimensionFilterActive(filter);
+  const pairs = filtering ? allPairs.filter(pair => matchesDimensionFilter(pair.check, filter)) : allPairs;
+  const scopedChecks = filtering ? rangeChecks.filter(check => matchesDimensionFilter(check, filter)) : rangeChecks;
+  const scopedTrades = filtering ? pairs.map(pair => pair.trade) : rangeTrades;
+
+  return {
+    points: buildEmotionPerformancePoints(pairs),
+    buckets: buildEmotionLevelBuckets(pairs),
+    weeklyTrend: buildWeeklyTrend(scopedChecks, scopedTrades, weekOptions),
+    insights: computePatternInsights(pairs, scopedTrades),
+    cooldown: compareCooldownOutcomes(pairs),
+  };
+}
@@ -0,0 +1,41 @@
+import { EmotionCheck, Trade } from '@/lib/types';
+import { getTradeMetrics } from '@/lib/trade-metrics';
+import { calculateStreaks, StreakOptions } from './streaks';
+
+export interface ProfileStats {
+  totalTrades: number;
+  totalEmotionChecks: number;
+  avgEmotionLevel: number | null;
+  winRate: number | null; // 0-1
+  totalPnL: number;
+  bestStreak: number;
+  currentStreak: number;
+  // Share of trades that had an emotion check linked to them
+  checkedTradeRate: number | null;
+}
+
+export function computeProfileStats(
+  checks: EmotionCheck[],
+  trades: Trade[],
+  streakOptions: StreakOptions = {}
+): ProfileStats {
+  const outcomes = trades.map(trade => getTradeMetrics(trade).outcome ?? trade.outcome);
+  const wins = outcomes.filter(outcome => outcome === 'win').length;
+  const totalPnL = trades.reduce((sum, trade) => sum + (getTradeMetrics(trade).pnl ?? 0), 0);
+  const streaks = calculateStreaks(checks.map(check => check.timestamp), streakOptions);
+
+  return {
+    totalTrades: trades.length,
+    totalEmotionChecks: checks.length,
+    avgEmotionLevel: checks.length > 0
+      ? checks.reduce((sum, check) => sum + check.level, 0) / checks.length
+      : null,
+    winRate: trades.length > 0 ? wins / trades.length : null,
+    totalPnL,
+    bestStreak: streaks.best,
+    currentStreak: streaks.current,
+    checkedTradeRate: trades.length > 0
+      ? trades.filter(trade => !!trade.emotionCheckId).length / trades.length
+      : null,
+  };
+}
@@ -0,0 +1,330 @@
+// Picks the weekly reflection question from the user's own week: a losing
+// streak, anxious pre-trade checks or piling into one symbol each point at a
+// themed question filled in with the specifics. Quiet weeks rotate themes.
+
+import { EmotionCheck, Trade } from '@/lib/types';
+import { getTradePnL, getTradeTime } from '@/lib/trade-metrics';
+import { formatCurrency } from '@/lib/utils';
+import { addDays, getDayKey, getWeekRange, WeekOptions } from '@/lib/calendar';
+import { pairTradesWithEmotions } from './pattern-analytics';
+
+export type PromptTheme = 'risk' | 'discipline' | 'emotion' | 'preparation';
+
+export type PromptSignalKey =
+  | 'losingStreak'
+  | 'costlyTrade'
+  | 'anxiousChecks'
+  | 'symbolFocus'
+  | 'overtrading'
+  | 'skippedChecks';
+
+export interface PromptQuestion {
+  id: string;
+  theme: PromptTheme;
+  text: string; // May contain {placeholders} filled from the triggering signal
+  signal?: PromptSignalKey;
+}
+
+export interface PromptSignal {
+  key: PromptSignalKey;
+  theme: PromptTheme;
+  score: number; // 0-1, how strongly the week shows the pattern
+  reason: string;
+  values: Record<string, string>;
+}
+
+export interface PromptSelection {
+  questionId: string;
+  question: string;
+  theme: PromptTheme;
+  reason: string;
+  signal?: PromptSignalKey;
+}
+
+export interface PromptHistoryEntry {
+  question: string;
+  templateId?: string;
+  theme?: PromptTheme;
+  answeredAt?: Date | string;
+}
+
+export interface PromptSelectionInput {
+  checks: EmotionCheck[];
+  trades: Trade[];
+  history: PromptHistoryEntry[];
+  weekOptions?: WeekOptions;
+  now?: Date;
+  random?: () => number;
+}
+
+export const PROMPT_THEMES: { value: PromptTheme; label: string }[] = [
+  { value: 'risk', label: 'Risk' },
+  { value: 'discipline', label: 'Discipline' },
+  { value: 'emotion', label: 'Emotion' },
+  { value: 'preparation', label: 'Preparation' },
+];
+
+export const WEEKLY_QUESTIONS: PromptQuestion[] = [
+  { id: 'proud-decision', theme: 'discipline', text: 'What trading decision this week are you most proud of, and what mindset led to that decision?' },
+  { id: 'advice-to-self', theme: 'preparation', text: 'If you could give advice to yourself at the beginning of this week, what would it be?' },
+  { id: 'emotion-pattern', theme: 'emotion', text: 'What pattern in your emotions did you notice this week that affected your trading?' },
+  { id: 'teaching-trade', theme: 'risk', text: 'Which trade this week taught you the most, regardless of its outcome?' },
+  { id: 'risk-evolution', theme: 'risk', text: 'How did your risk management evolve this week compared to last week?' },
+  { id: 'external-factor', theme: 'emotion', text: 'What external factor (news, market conditions, personal life) most influenced your trading mindset this week?' },
+  { id: 'three-words', theme: 'emotion', text: 'If you had to describe your emotional state while trading this week in three words, what would they be?' },
+  { id: 'habit-change', theme: 'discipline', text: 'What\'s one habit you developed or broke this week that impacted your trading?' },
+  { id: 'preparation-diff', theme: 'preparation', text: 'How did your pre-trade preparation differ this week from previous weeks?' },
+  { id: 'repeat-week', theme: 'preparation', text: 'What would you change about your trading approach if you could repeat this week?' },
+  { id: 'helpful-emotion', theme: 'emotion', text: 'Which emotion served you best this week while trading, and which held you back?' },
+  { id: 'self-lesson', theme: 'emotion', text: 'What\'s the most important lesson about yourself as a trader that you learned this week?' },
+  { id: 'money-relationship', theme: 'risk', text: 'How did your relationship with money/profit/loss evolve this week?' },
+  { id: 'mentor-view', theme: 'discipline', text: 'What would your best trading mentor say about your performance this week?' },
+  { id: 'one-insight', theme: 'preparation', text: 'If you could only keep one trading insight from this week, what would it be?' },
+  { id: 'patience', theme: 'discipline', text: 'How did your patience and discipline show up in your trading this week?' },
+  { id: 'emotional-surprise', theme: 'emotion', text: 'What surprised you most about your emotional responses to trades this week?' },
+  { id: 'uncertainty', theme: 'risk', text: 'How did you handle uncertainty in the markets this week?' },
+  { id: 'next-week-focus', theme: 'preparation', text: 'What\'s one thing about your trading psychology that you want to work on next week?' },
+  { id: 'movie-lesson', theme: 'discipline', text: 'If this week\'s trading was a movie, what would be the key lesson of the story?' },
+
+  // Data-driven questions, only asked when their signal fires
+  { id: 'losing-streak-stop', theme: 'risk', signal: 'losingStreak', text: 'You closed {count} losing trades in a row this week, ending with {symbol}. What was going through your mind before that last entry, and what would have made you stop sooner?' },
+  { id: 'losing-streak-rules', theme: 'risk', signal: 'losingStreak', text: 'After {count} losses in a row, which of your risk rules held up and which did you bend?' },
+  { id: 'costly-trade-setup', theme: 'risk', signal: 'costlyTrade', text: 'Your {symbol} trade cost {pnl}, your worst result this week. What did you see in the setup, and what did you ignore?' },
+  { id: 'costly-trade-exit', theme: 'risk', signal: 'costlyTrade', text: 'Walk through your exit on {symbol} this week, a {pnl} loss. At what point did the plan stop being the plan?' },
+  { id: 'anxious-checks-trade', theme: 'emotion', signal: 'anxiousChecks', text: '{count} of your pre-trade check-ins this week were anxious or nervous. What was making you uneasy, and did you trade anyway?' },
+  { id: 'anxious-checks-settle', theme: 'emotion', signal: 'anxiousChecks', text: 'Your pre-trade mood dipped this week ({count} anxious check-ins). What helps you feel settled before you enter a trade?' },
+  { id: 'symbol-focus-draw', theme: 'discipline', signal: 'symbolFocus', text: '{count} of your {total} trades this week were in {symbol}. What kept drawing you back to it, and was each one a planned setup?' },
+  { id: 'symbol-focus-edge', theme: 'discipline', signal: 'symbolFocus', text: 'You traded {symbol} {count} times this week. Was there a real edge in every entry, or were you chasing the same move?' },
+  { id: 'overtrading-pace', theme: 'discipline', signal: 'overtrading', text: 'You placed {count} trades this week, about {ratio}x your usual pace. What pushed the extra activity?' },
+  { id: 'overtrading-filter', theme: 'discipline', signal: 'overtrading', text: 'With {count} trades this week, which ones would you cut if you could only keep your best setups?' },
+  { id: 'skipped-checks-why', theme: 'preparation', signal: 'skippedChecks', text: '{count} of your {total} trades this week had no pre-trade check-in. What got in the way of checking in before entering?' },
+  { id: 'skipped-checks-routine', theme: 'preparation', signal: 'skippedChecks', text: 'Several trades this week went in without a check-in. What would a pre-trade routine you actually follow look like?' },
+];
+
+const ANXIOUS_LEVEL = 4; // "Anxious" and "Nervous" on the 1-10 scale
+const MIN_STREAK = 3;
+const MIN_ANXIOUS_CHECKS = 3;
+const MIN_FOCUS_TRADES = 5;
+const FOCUS_SHARE = 0.6;
+const MIN_OVERTRADING_TRADES = 10;
+const OVERTRADING_RATIO = 2;
+const MIN_SKIP_TRADES = 4;
+const SKIP_SHARE = 0.5;
+const BASELINE_WEEKS = 4;
+// A data-driven question is not repeated within this many weeks
+const REPEAT_WINDOW = 8;
+
+function inDays<T>(items: T[], getDate: (item: T) => Date | string, start: string, end: string, timezone?: string): T[] {
+  return items.filter(item => {
+    const day = getDayKey(new Date(getDate(item)), timezone);
+    return day >= start && day <= end;
+  });
+}
+
+function byTime(a: Trade, b: Trade): number {
+  return new Date(getTradeTime(a)).getTime() - new Date(getTradeTime(b)).getTime();
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/** Patterns in this week's checks and trades worth asking about, strongest first. */
+export function detectPromptSignals(
+  checks: EmotionCheck[],
+  trades: Trade[],
+  weekOptions: WeekOptions = {},
+  now: Date = new Date()
+): PromptSignal[] {
+  const { timezone } = weekOptions;
+  const week = getWeekRange(now, weekOptions);
+  const weekTrades = inDays(trades, getTradeTime, week.start, week.end, timezone).sort(byTime);
+  const weekChecks = inDays(checks, check => check.timestamp, week.start, week.end, timezone);
+  const baselineTrades = inDays(trades, getTradeTime, addDays(week.start, -7 * BASELINE_WEEKS), addDays(week.start, -1), timezone);
+  const signals: PromptSignal[] = [];
+
+  // Longest run of consecutive losses
+  let run = 0;
+  let longest = 0;
+  let streakEnd: Trade | null = null;
+  for (const trade of weekTrades) {
+    run = trade.outcome === 'loss' ? run + 1 : 0;
+    if (run > longest) {
+      longest = run;
+      streakEnd = trade;
+    }
+  }
+  if (longest >= MIN_STREAK && streakEnd) {
+    signals.push({
+      key: 'losingStreak',
+      theme: 'risk',
+      score: Math.min(1, 0.5 + (longest - MIN_STREAK) * 0.15),
+      reason: `You had ${longest} losing trades in a row this week.`,
+      values: { count: String(longest), symbol: streakEnd.symbol },
+    });
+  }
+
+  // One loss that dominates the week
+  const losses = weekTrades
+    .map(trade => ({ trade, pnl: getTradePnL(trade) }))
+    .filter((item): item is { trade: Trade; pnl: number } => item.pnl !== null && item.pnl < 0);
+  if (losses.length > 0 && weekTrades.length >= MIN_STREAK) {
+    const worst = losses.reduce((a, b) => (b.pnl < a.pnl ? b : a));
+    const totalLoss = losses.reduce((sum, item) => sum + item.pnl, 0);
+    const share = worst.pnl / totalLoss;
+    if (losses.length === 1 || share >= 0.5) {
+      signals.push({
+        key: 'costlyTrade',
+        theme: 'risk',
+        score: 0.4 + share * 0.4,
+        reason: `Your ${worst.trade.symbol} trade made up ${percent(share)} of this week's losses.`,
+        values: { symbol: worst.trade.symbol, pnl: formatCurrency(Math.abs(worst.pnl)) },
+      });
+    }
+  }
+
+  // Spike in anxious pre-trade check-ins compared with recent weeks
+  const preTrade = weekChecks.filter(check => check.context === 'pre-trade');
+  const anxious = preTrade.filter(check => check.level <= ANXIOUS_LEVEL);
+  if (anxious.length >= MIN_ANXIOUS_CHECKS) {
+    const baselineChecks = inDays(checks, check => check.timestamp, addDays(week.start, -7 * BASELINE_WEEKS), addDays(week.start, -1), timezone)
+      .filter(check => check.context === 'pre-trade');
+    const share = anxious.length / preTrade.length;
+    const baselineShare = baselineChecks.length > 0
+      ? baselineChecks.filter(check => check.level <= ANXIOUS_LEVEL).length / baselineChecks.length
+      : 0;
+    if (share >= 0.4 && share - baselineShare >= 0.15) {
+      signals.push({
+        key: 'anxiousChecks',
+        theme: 'emotion',
+        score: Math.min(1, 0.4 + (share - baselineShare)),
+        reason: baselineChecks.length > 0
+          ? `${percent(share)} of your pre-trade check-ins were anxious or nervous, up from ${percent(baselineShare)} in recent weeks.`
+          : `${percent(share)} of your pre-trade check-ins this week were anxious or nervous.`,
+        values: { count: String(anxious.length), total: String(preTrade.length), share: percent(share) },
+      });
+    }
+  }
+
+  // Most of the week's trades in a single symbol
+  if (weekTrades.length >= MIN_FOCUS_TRADES) {
+    const counts: Record<string, number> = {};
+    weekTrades.forEach(trade => { counts[trade.symbol] = (counts[trade.symbol] || 0) + 1; });
+    const symbol = Object.keys(counts).reduce((a, b) => (counts[b] > counts[a] ? b : a));
+    const share = counts[symbol] / weekTrades.length;
+    // Someone who only ever trades one symbol is not "piling in"
+    if (share >= FOCUS_SHARE && Object.keys(counts).length > 1) {
+      signals.push({
+        key: 'symbolFocus',
+        theme: 'discipline',
+        score: share * 0.8,
+        reason: `${counts[symbol]} of your ${weekTrades.length} trades this week were in ${symbol}.`,
+        values: { symbol, count: String(counts[symbol]), total: String(weekTrades.length) },
+      });
+    }
+  }
+
+  // Far more trades than the recent weekly average
+  const baselinePace = baselineTrades.length / BASELINE_WEEKS;
+  if (weekTrades.length >= MIN_OVERTRADING_TRADES && baselinePace > 0) {
+    const ratio = weekTrades.length / baselinePace;
+    if (ratio >= OVERTRADING_RATIO) {
+      signals.push({
+        key: 'overtrading',
+        theme: 'discipline',
+        score: Math.min(1, 0.3 + ratio * 0.15),
+        reason: `You placed ${weekTrades.length} trades this week against a usual ${baselinePace.toFixed(1)} per week.`,
+        values: { count: String(weekTrades.length), ratio: ratio.toFixed(1) },
+      });
+    }
+  }
+
+  // Trades entered without a pre-trade check-in
+  if (weekTrades.length >= MIN_SKIP_TRADES) {
+    const paired = pairTradesWithEmotions(weekTrades, checks).length;
+    const skipped = weekTrades.length - paired;
+    const share = skipped / weekTrades.length;
+    if (share >= SKIP_SHARE) {
+      signals.push({
+        key: 'skippedChecks',
+        theme: 'preparation',
+        score: 0.2 + share * 0.5,
+        reason: `${skipped} of your ${weekTrades.length} trades this week had no pre-trade check-in.`,
+        values: { count: String(skipped), total: String(weekTrades.length) },
+      });
+    }
+  }
+
+  return signals.sort((a, b) => b.score - a.score);
+}
+
+export function fillTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(/\{(\w+)\}/g, (match, key) => (values[key] !== undefined ? values[key] : match));
+}
+
+function isUsed(question: PromptQuestion, history: PromptHistoryEntry[]): boolean {
+  return history.some(entry => entry.templateId === question.id || entry.question === question.text);
+}
+
+function newestFirst(history: PromptHistoryEntry[]): PromptHistoryEntry[] {
+  return history
+    .slice()
+    .sort((a, b) => new Date(b.answeredAt || 0).getTime() - new Date(a.answeredAt || 0).getTime());
+}
+
+// Theme of a past prompt, falling back to the question bank for older entries
+function getEntryTheme(entry: PromptHistoryEntry): PromptTheme | undefined {
+  if (entry.theme) return entry.theme;
+  const question = WEEKLY_QUESTIONS.find(q => q.id === entry.templateId || q.text === entry.question);
+  return question?.theme;
+}
+
+/**
+ * Chooses this week's question. The strongest signal whose questions were not
+ * asked recently wins; without one, the theme reflected on least recently is
+ * picked and an unused general question from it is drawn.
+ */
+export function selectWeeklyPrompt(input: PromptSelectionInput): PromptSelection {
+  const { checks, trades, history, weekOptions = {}, now = new Date(), random = Math.random } = input;
+  const recent = newestFirst(history).slice(0, REPEAT_WINDOW);
+
+  for (const signal of detectPromptSignals(checks, trades, weekOptions, now)) {
+    const candidates = WEEKLY_QUESTIONS.filter(q => q.signal === signal.key && !isUsed(q, recent));
+    if (candidates.length === 0) continue;
+
+    const question = candidates[Math.floor(random() * candidates.length)];
+    return {
+      questionId: question.id,
+      question: fillTemplate(question.text, signal.values),
+      theme: question.theme,
+      reason: signal.reason,
+      signal: signal.key,
+    };
+  }
+
+  // Quiet week: rotate to the theme that has gone longest without a question
+  const ordered = newestFirst(history);
+  const lastAsked = (theme: PromptTheme) => {
+    const index = ordered.findIndex(entry => getEntryTheme(entry) === theme);
+    return index === -1 ? Infinity : index;
+  };
+  const theme = PROMPT_THEMES
+    .map(item => item.value)
+    .reduce((a, b) => (lastAsked(b) > lastAsked(a) ? b : a));
+
+  const general = WEEKLY_QUESTIONS.filter(q => !q.signal);
+  const inTheme = general.filter(q => q.theme === theme);
+  const unused = inTheme.filter(q => !isUsed(q, history));
+  const pool = unused.length > 0 ? unused : inTheme;
+  const question = pool[Math.floor(random() * pool.length)];
+  const label = PROMPT_THEMES.find(item => item.value === theme)?.label.toLowerCase();
+
+  return {
+    questionId: question.id,
+    question: question.text,
+    theme,
+    reason: lastAsked(theme) === Infinity
+      ? `Nothing stood out in this week's data, and you haven't reflected on ${label} yet.`
+      : `Nothing stood out in this week's data, and ${label} is the theme you reflected on least recently.`,
+  };
+}
@@ -0,0 +1,193 @@
+// Pre-trade readiness: user-defined rules checked against the latest emotion
+// checks and today's trades before a new trade is logged.
+
+import { EmotionCheck, Trade } from '@/lib/types';
+import { getTradePnL, getTradeTime } from '@/lib/trade-metrics';
+import { formatCurrency } from '@/lib/utils';
+import { getDayKey } from '@/lib/calendar';
+
+export type ReadinessRuleKind =
+  | 'breathingBelowLevel'
+  | 'maxConsecutiveLosses'
+  | 'maxTradesPerDay'
+  | 'maxDailyLoss'
+  | 'recentCheckIn';
+
+export interface ReadinessRule {
+  id: string;
+  kind: ReadinessRuleKind;
+  value: number;
+  enabled: boolean;
+}
+
+// What the user can do to clear a failed rule, besides waiting for tomorrow
+export type ReadinessAction = 'breathe' | 'checkIn';
+
+export interface ReadinessViolation {
+  ruleId: string;
+  kind: ReadinessRuleKind;
+  message: string;
+  action?: ReadinessAction;
+}
+
+export interface ReadinessResult {
+  ready: boolean;
+  violations: ReadinessViolation[];
+}
+
+export interface ReadinessContext {
+  checks: EmotionCheck[];
+  trades: Trade[];
+  // Most recent completed breathing exercise
+  lastBreathingAt?: Date | string | null;
+  timezone?: string;
+  now?: Date;
+}
+
+export interface ReadinessRuleDefinition {
+  kind: ReadinessRuleKind;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+  describe: (value: number) => string;
+}
+
+export const READINESS_RULES: ReadinessRuleDefinition[] = [
+  {
+    kind: 'breathingBelowLevel',
+    label: 'Breathe when tense',
+    unit: 'level',
+    min: 2,
+    max: 10,
+    step: 1,
+    defaultValue: 4,
+    describe: value => `A pre-trade level below ${value} requires the breathing exercise`,
+  },
+  {
+    kind: 'maxConsecutiveLosses',
+    label: 'Stop after a losing run',
+    unit: 'losses',
+    min: 1,
+    max: 10,
+    step: 1,
+    defaultValue: 3,
+    describe: value => `No trading after ${value} consecutive loss${value === 1 ? '' : 'es'} today`,
+  },
+  {
+    kind: 'maxTradesPerDay',
+    label: 'Daily trade limit',
+    unit: 'trades',
+    min: 1,
+    max: 50,
+    step: 1,
+    defaultValue: 5,
+    describe: value => `Max ${value} trade${value === 1 ? '' : 's'} per day`,
+  },
+  {
+    kind: 'maxDailyLoss',
+    label: 'Daily loss limit',
+    unit: '$',
+    min: 10,
+    max: 100000,
+    step: 10,
+    defaultValue: 500,
+    describe: value => `No trading once today's losses reach ${formatCurrency(value)}`,
+  },
+  {
+    kind: 'recentCheckIn',
+    label: 'Check in first',
+    unit: 'minutes',
+    min: 5,
+    max: 240,
+    step: 5,
+    defaultValue: 60,
+    describe: value => `A pre-trade emotion check is required within ${value} minutes of trading`,
+  },
+];
+
+export const DEFAULT_READINESS_RULES: ReadinessRule[] = [
+  { id: 'default-breathing', kind: 'breathingBelowLevel', value: 4, enabled: true },
+  { id: 'default-losses', kind: 'maxConsecutiveLosses', value: 3, enabled: true },
+  { id: 'default-trades', kind: 'maxTradesPerDay', value: 5, enabled: true },
+];
+
+export function getRuleDefinition(kind: ReadinessRuleKind): ReadinessRuleDefinition {
+  return READINESS_RULES.find(rule => rule.kind === kind) || READINESS_RULES[0];
+}
+
+export function describeRule(rule: ReadinessRule): string {
+  return getRuleDefinition(rule.kind).describe(rule.value);
+}
+
+function time(value: Date | string): number {
+  return new Date(value).getTime();
+}
+
+/** Checks every enabled rule; the user is ready when none of them fail. */
+export function evaluateReadiness(rules: ReadinessRule[], context: ReadinessContext): ReadinessResult {
+  const { checks, timezone, now = new Date() } = context;
+  const today = getDayKey(now, timezone);
+
+  const todaysTrades = context.trades
+    .filter(trade => getDayKey(new Date(getTradeTime(trade)), timezone) === today)
+    .sort((a, b) => time(getTradeTime(a)) - time(getTradeTime(b)));
+
+  const latestCheck = checks
+    .filter(check => check.context === 'pre-trade' && time(check.timestamp) <= now.getTime())
+    .sort((a, b) => time(b.timestamp) - time(a.timestamp))[0];
+
+  const violations: ReadinessViolation[] = [];
+  const fail = (rule: ReadinessRule, message: string, action?: ReadinessAction) => {
+    violations.push({ ruleId: rule.id, kind: rule.kind, message, action });
+  };
+
+  rules.filter(rule => rule.enabled).forEach(rule => {
+    switch (rule.kind) {
+      case 'breathingBelowLevel': {
+        // Cleared by a cool-down tied to the check or one finished after it
+        const breathedSince = !!latestCheck && (!!latestCheck.breathingSessionId ||
+          (!!context.lastBreathingAt && time(context.lastBreathingAt) >= time(latestCheck.timestamp)));
+        if (latestCheck && getDayKey(new Date(latestCheck.timestamp), timezone) === today &&
+            latestCheck.level < rule.value && !breathedSince) {
+          fail(rule, `Your last pre-trade check was ${latestCheck.level}/10, below your limit of ${rule.value}. Take a breathing break first.`, 'breathe');
+        }
+        break;
+      }
+      case 'maxConsecutiveLosses': {
+        let losses = 0;
+        for (let i = todaysTrades.length - 1; i >= 0 && todaysTrades[i].outcome === 'loss'; i--) losses++;
+        if (losses >= rule.value) {
+          fail(rule, `You've had ${losses} losses in a row today. Your rule stops trading after ${rule.value}.`);
+        }
+        break;
+      }
+      case 'maxTradesPerDay': {
+        if (todaysTrades.length >= rule.value) {
+          fail(rule, `You've logged ${todaysTrades.length} trade${todaysTrades.length === 1 ? '' : 's'} today, reaching your limit of ${rule.value}.`);
+        }
+        break;
+      }
+      case 'maxDailyLoss': {
+        const pnl = todaysTrades.reduce((sum, trade) => sum + (getTradePnL(trade) ?? 0), 0);
+        if (pnl <= -rule.value) {
+          fail(rule, `You're down ${formatCurrency(Math.abs(pnl))} today, past your daily loss limit of ${formatCurrency(rule.value)}.`);
+        }
+        break;
+      }
+      case 'recentCheckIn': {
+        const age = latestCheck ? now.getTime() - time(latestCheck.timestamp) : Infinity;
+        if (age > rule.value * 60000) {
+          fail(rule, latestCheck
+            ? `Your last pre-trade check was over ${rule.value} minutes ago. Check in before trading.`
+            : 'Record a pre-trade emotion check before trading.', 'checkIn');
+        }
+        break;
+      }
+    }
+  });
+
+  return { ready: violations.length === 0, violations };
+}
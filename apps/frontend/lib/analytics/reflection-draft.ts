@@ -0,0 +1,208 @@
+// Drafts a weekly reflection from the week's own data: suggested bullet points
+// for each field that the user accepts or edits before saving.
+
+import { EmotionCheck, MonthlyGoal, Trade } from '@/lib/types';
+import { getTradePnL, getTradeTime } from '@/lib/trade-metrics';
+import { formatCurrency, getEmotionLabel } from '@/lib/utils';
+import { getDayKey, getWeekday, WEEKDAY_NAMES, WeekRange } from '@/lib/calendar';
+import { getTagLabel, TradeTag } from '@/lib/trade-tags';
+import { pairTradesWithEmotions, TradeEmotionPair } from './pattern-analytics';
+import { WeeklySessionSummary } from './daily-session';
+import { computeTagCosts, describeTagCost, getTopMistakes } from './mistake-costs';
+import { evaluateGoal, getGoalMonth, isMeasurableGoal } from './goal-progress';
+import { DEFAULT_PAIRING_WINDOW_MS } from './trade-linking';
+import { mean } from './statistics';
+
+export type ReflectionField = 'wins' | 'losses' | 'lessons' | 'emotionalInsights' | 'nextWeekGoals';
+
+export type ReflectionDraft = Record<ReflectionField, string[]>;
+
+export interface ReflectionDraftInput {
+  week: WeekRange;
+  checks: EmotionCheck[];
+  trades: Trade[];
+  goals: MonthlyGoal[];
+  tags: TradeTag[];
+  sessionSummary?: WeeklySessionSummary | null;
+  timezone?: string;
+  windowMs?: number;
+}
+
+export const REFLECTION_FIELDS: ReflectionField[] = ['wins', 'losses', 'lessons', 'emotionalInsights', 'nextWeekGoals'];
+
+const BEST_TRADES = 2;
+const CALM_LEVEL = 7;
+const NERVOUS_LEVEL = 4; // "Anxious" and "Nervous" on the 1-10 scale
+
+interface PricedTrade {
+  trade: Trade;
+  pnl: number;
+}
+
+function signedCurrency(amount: number): string {
+  return amount > 0 ? `+${formatCurrency(amount)}` : formatCurrency(amount);
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function weekdayOf(value: Date | string, timezone?: string): string {
+  return WEEKDAY_NAMES[getWeekday(getDayKey(new Date(value), timezone))];
+}
+
+function describeTrade({ trade, pnl }: PricedTrade, tags: TradeTag[], timezone?: string): string {
+  const side = trade.type === 'buy' ? 'long' : 'short';
+  const details: string[] = [];
+  if (trade.setupTag) details.push(`${getTagLabel(trade.setupTag, tags)} setup`);
+  if (trade.mistakeTags && trade.mistakeTags.length > 0) {
+    details.push(`tagged ${trade.mistakeTags.map(id => getTagLabel(id, tags).toLowerCase()).join(', ')}`);
+  }
+  const suffix = details.length > 0 ? ` (${details.join('; ')})` : '';
+  return `${trade.symbol} ${side} on ${weekdayOf(getTradeTime(trade), timezone)}: ${signedCurrency(pnl)}${suffix}`;
+}
+
+function describeOutcomes(pairs: TradeEmotionPair[]): string {
+  if (pairs.length === 0) return 'no trade followed';
+  const wins = pairs.filter(pair => pair.trade.outcome === 'win').length;
+  const losses = pairs.filter(pair => pair.trade.outcome === 'loss').length;
+  const net = pairs.reduce((sum, pair) => sum + (getTradePnL(pair.trade) ?? 0), 0);
+  if (pairs.length === 1) {
+    return `followed by ${pairs[0].trade.symbol}, a ${pairs[0].trade.outcome} of ${signedCurrency(net)}`;
+  }
+  return `followed by ${plural(pairs.length, 'trade')} (${wins}W/${losses}L, ${signedCurrency(net)})`;
+}
+
+function averagePnL(pairs: TradeEmotionPair[]): number {
+  return mean(pairs.map(pair => getTradePnL(pair.trade) ?? 0));
+}
+
+/** Suggested bullets per reflection field for the given week. Fields with nothing to say are empty. */
+export function buildReflectionDraft(input: ReflectionDraftInput): ReflectionDraft {
+  const { week, tags, sessionSummary, timezone, windowMs = DEFAULT_PAIRING_WINDOW_MS } = input;
+  const inWeek = (value: Date | string) => {
+    const day = getDayKey(new Date(value), timezone);
+    return day >= week.start && day <= week.end;
+  };
+
+  const trades = input.trades.filter(trade => inWeek(getTradeTime(trade)));
+  const checks = input.checks.filter(check => inWeek(check.timestamp));
+  const pairs = pairTradesWithEmotions(trades, input.checks, windowMs);
+  const priced = trades
+    .map(trade => ({ trade, pnl: getTradePnL(trade) }))
+    .filter((item): item is PricedTrade => item.pnl !== null);
+
+  const draft: ReflectionDraft = { wins: [], losses: [], lessons: [], emotionalInsights: [], nextWeekGoals: [] };
+
+  // Wins: the week's numbers, best trades, best setup and plan adherence
+  if (trades.length > 0) {
+    const wins = trades.filter(trade => trade.outcome === 'win').length;
+    const net = priced.reduce((sum, item) => sum + item.pnl, 0);
+    if (net > 0 || wins / trades.length >= 0.5) {
+      draft.wins.push(`${plural(trades.length, 'trade')}, ${Math.round((wins / trades.length) * 100)}% win rate, ${signedCurrency(net)} net`);
+    }
+  }
+  priced
+    .filter(item => item.pnl > 0)
+    .sort((a, b) => b.pnl - a.pnl)
+    .slice(0, BEST_TRADES)
+    .forEach(item => draft.wins.push(`Best trade: ${describeTrade(item, tags, timezone)}`));
+  const bestSetup = computeTagCosts(trades, tags, 'setup', timezone)
+    .filter(cost => cost.totalPnL > 0 && cost.tradeCount > 1)
+    .sort((a, b) => b.totalPnL - a.totalPnL)[0];
+  if (bestSetup) {
+    draft.wins.push(`${bestSetup.label} setups worked: ${plural(bestSetup.tradeCount, 'trade')}, ${signedCurrency(bestSetup.totalPnL)}`);
+  }
+  if (sessionSummary?.averageAdherence !== null && sessionSummary?.averageAdherence !== undefined && sessionSummary.averageAdherence >= 4) {
+    draft.wins.push(`Stuck to the plan: average adherence ${sessionSummary.averageAdherence.toFixed(1)}/5 over ${plural(sessionSummary.daysReviewed, 'reviewed day')}`);
+  }
+
+  // Losses: worst trades, most frequent mistakes and plan breaches
+  priced
+    .filter(item => item.pnl < 0)
+    .sort((a, b) => a.pnl - b.pnl)
+    .slice(0, BEST_TRADES)
+    .forEach(item => draft.losses.push(`Worst trade: ${describeTrade(item, tags, timezone)}`));
+  const topMistakes = getTopMistakes(trades, tags, week, timezone);
+  topMistakes.forEach(cost => draft.losses.push(`Mistake: ${describeTagCost(cost)}`));
+  (sessionSummary?.topMistakes || []).forEach(({ mistake, count }) => {
+    if (topMistakes.some(cost => cost.label.toLowerCase() === mistake.toLowerCase())) return;
+    draft.losses.push(`Mistake: ${mistake}, noted in ${plural(count, 'session review')}`);
+  });
+  if (sessionSummary && sessionSummary.offWatchlistTrades > 0) {
+    draft.losses.push(`${plural(sessionSummary.offWatchlistTrades, 'trade')} outside the day's watchlist`);
+  }
+  if (sessionSummary && sessionSummary.maxLossBreaches > 0) {
+    draft.losses.push(`Went past the daily max loss on ${plural(sessionSummary.maxLossBreaches, 'day')}`);
+  }
+
+  // Emotional insights: the average pre-trade state and what followed the extremes
+  const preTrade = checks.filter(check => check.context === 'pre-trade');
+  if (preTrade.length > 0) {
+    const average = mean(preTrade.map(check => check.level));
+    draft.emotionalInsights.push(
+      `Average pre-trade level ${average.toFixed(1)} (${getEmotionLabel(average)}) over ${plural(preTrade.length, 'check-in')}`
+    );
+  }
+  if (preTrade.length > 1) {
+    const lowest = preTrade.reduce((a, b) => (b.level < a.level ? b : a));
+    const highest = preTrade.reduce((a, b) => (b.level > a.level ? b : a));
+    if (lowest.level !== highest.level) {
+      [lowest, highest].forEach(check => {
+        const followed = pairs.filter(pair => pair.check.id === check.id);
+        const which = check === lowest ? 'Lowest' : 'Highest';
+        draft.emotionalInsights.push(
+          `${which}: level ${check.level} (${getEmotionLabel(check.level)}) on ${weekdayOf(check.timestamp, timezone)}, ${describeOutcomes(followed)}`
+        );
+      });
+    }
+  }
+  const calm = pairs.filter(pair => pair.check.level >= CALM_LEVEL);
+  const nervous = pairs.filter(pair => pair.check.level <= NERVOUS_LEVEL);
+  if (calm.length > 0 && nervous.length > 0) {
+    draft.emotionalInsights.push(
+      `Trades entered at level ${NERVOUS_LEVEL} or below averaged ${signedCurrency(averagePnL(nervous))}, ` +
+      `against ${signedCurrency(averagePnL(calm))} at ${CALM_LEVEL} and above`
+    );
+  }
+
+  // Lessons: what the data says would have made the biggest difference
+  const costliest = topMistakes.filter(cost => cost.cost > 0).sort((a, b) => b.cost - a.cost)[0];
+  if (costliest) {
+    draft.lessons.push(`Skipping trades tagged ${costliest.label.toLowerCase()} would have saved ${formatCurrency(costliest.cost)}`);
+  }
+  if (calm.length > 0 && nervous.length > 0 && averagePnL(nervous) < averagePnL(calm)) {
+    draft.lessons.push('Nervous entries did worse than calm ones; wait for a settled state before trading');
+  }
+  const unchecked = trades.length - pairs.length;
+  if (unchecked > 0 && trades.length > 0) {
+    draft.lessons.push(`${unchecked} of ${plural(trades.length, 'trade')} went in without a pre-trade check-in`);
+  }
+
+  // Next week: progress on this month's goals, and a focus for the top mistake
+  const month = week.end.slice(0, 7);
+  const context = { checks: input.checks, trades: input.trades, timezone, windowMs };
+  input.goals
+    .filter(goal => getGoalMonth(goal) === month || getGoalMonth(goal) === week.start.slice(0, 7))
+    .forEach(goal => {
+      if (isMeasurableGoal(goal)) {
+        const evaluation = evaluateGoal(goal, context, week.end);
+        const status = evaluation.value === null ? 'no data yet' : evaluation.met ? 'on track' : 'behind';
+        draft.nextWeekGoals.push(`${goal.goal}: ${status}, ${evaluation.summary}`);
+      } else if (!goal.isCompleted) {
+        draft.nextWeekGoals.push(`${goal.goal}: ${goal.progress || 0}% done`);
+      }
+    });
+  if (topMistakes.length > 0) {
+    draft.nextWeekGoals.push(`Fewer trades tagged ${topMistakes[0].label.toLowerCase()}`);
+  }
+  if (unchecked > 0) {
+    draft.nextWeekGoals.push('Check in before every trade');
+  }
+
+  return draft;
+}
+
+export function formatDraftBullets(bullets: string[]): string {
+  return bullets.map(bullet => `- ${bullet}`).join('\n');
+}
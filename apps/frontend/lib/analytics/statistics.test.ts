@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import {
+  bootstrapConfidenceInterval,
+  correlationPValue,
+  createSeededRandom,
+  mean,
+  pearsonCorrelation,
+  pearsonTest,
+  rank,
+  spearmanCorrelation,
+  spearmanTest,
+  studentTTwoSidedPValue,
+  winRateConfidenceInterval,
+} from './statistics';
+
+const OUTCOMES = [1, 0, 1, 1, 0, 1, 0, 1, 1, 1];
+
+describe('pearsonCorrelation', () => {
+  it('matches a hand-computed coefficient', () => {
+    // cov = 6, var(x) = 10, var(y) = 6, so r = 6 / sqrt(60)
+    expect(pearsonCorrelation([1, 2, 3, 4, 5], [2, 4, 5, 4, 5])).toBeCloseTo(0.7746, 4);
+    expect(pearsonCorrelation([1, 2, 3, 4], [8, 6, 4, 2])).toBeCloseTo(-1, 10);
+  });
+
+  it('returns null for fewer than two pairs', () => {
+    expect(pearsonCorrelation([], [])).toBeNull();
+    expect(pearsonCorrelation([3], [7])).toBeNull();
+  });
+
+  it('returns null when either side never varies', () => {
+    expect(pearsonCorrelation([1, 2, 3], [4, 4, 4])).toBeNull();
+    expect(pearsonCorrelation([5, 5, 5], [1, 2, 3])).toBeNull();
+  });
+});
+
+describe('spearmanCorrelation', () => {
+  it('gives tied values their average rank', () => {
+    expect(rank([10, 20, 20, 30])).toEqual([1, 2.5, 2.5, 4]);
+  });
+
+  it('is 1 for a monotonic but non-linear relationship', () => {
+    const xs = [1, 2, 3, 4, 5];
+    const ys = xs.map(x => x ** 3);
+    expect(spearmanCorrelation(xs, ys)).toBeCloseTo(1, 10);
+    expect(pearsonCorrelation(xs, ys)).toBeLessThan(1);
+  });
+
+  it('matches a hand-computed coefficient with ties', () => {
+    // Ranks of y are 1, 2, 3.5, 5, 3.5
+    expect(spearmanCorrelation([1, 2, 3, 4, 5], [5, 6, 7, 8, 7])).toBeCloseTo(0.8208, 4);
+  });
+
+  it('returns null for small or constant samples', () => {
+    expect(spearmanCorrelation([1], [2])).toBeNull();
+    expect(spearmanCorrelation([1, 2, 3, 4], [9, 9, 9, 9])).toBeNull();
+  });
+});
+
+describe('p-values', () => {
+  it('matches Student t tables', () => {
+    expect(studentTTwoSidedPValue(2, 10)).toBeCloseTo(0.0734, 4);
+    expect(studentTTwoSidedPValue(0, 10)).toBeCloseTo(1, 10);
+  });
+
+  it('gives p ≈ 0.0248 for r = 0.5 with 20 pairs', () => {
+    expect(correlationPValue(0.5, 20)).toBeCloseTo(0.0248, 4);
+    expect(correlationPValue(-0.5, 20)).toBeCloseTo(0.0248, 4);
+  });
+
+  it('is 0 for a perfect correlation and null below three pairs', () => {
+    expect(correlationPValue(1, 10)).toBe(0);
+    expect(correlationPValue(0.9, 2)).toBeNull();
+  });
+});
+
+describe('pearsonTest and spearmanTest', () => {
+  it('flags a significant correlation once the sample is large enough', () => {
+    const xs = Array.from({ length: 12 }, (_, i) => i + 1);
+    const ys = xs.map(x => x * 2 + (x % 3));
+    const result = pearsonTest(xs, ys);
+
+    expect(result.sampleSize).toBe(12);
+    expect(result.warning).toBeNull();
+    expect(result.pValue).toBeLessThan(0.05);
+    expect(result.isSignificant).toBe(true);
+    expect(spearmanTest(xs, ys).isSignificant).toBe(true);
+  });
+
+  it('is never significant below the minimum sample', () => {
+    const result = pearsonTest([1, 2, 3, 4, 5], [1, 2, 3, 4, 5]);
+
+    expect(result.coefficient).toBeCloseTo(1, 10);
+    expect(result.isSignificant).toBe(false);
+    expect(result.warning).toBe('Only 5 trades - log 5 more for a reliable result.');
+  });
+
+  it('reports no coefficient or p-value when one side never varies', () => {
+    const xs = Array.from({ length: 12 }, (_, i) => i + 1);
+    const result = spearmanTest(xs, xs.map(() => 250));
+
+    expect(result.coefficient).toBeNull();
+    expect(result.pValue).toBeNull();
+    expect(result.isSignificant).toBe(false);
+    expect(result.warning).toMatch(/no variation/);
+  });
+});
+
+describe('bootstrapConfidenceInterval', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const first = createSeededRandom(42);
+    const second = createSeededRandom(42);
+    const values = Array.from({ length: 5 }, () => first());
+
+    expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+    expect(createSeededRandom(43)()).not.toBe(values[0]);
+  });
+
+  it('gives the same interval for the same seed', () => {
+    const first = winRateConfidenceInterval(OUTCOMES, { random: createSeededRandom(7) });
+    const second = winRateConfidenceInterval(OUTCOMES, { random: createSeededRandom(7) });
+
+    expect(second).toEqual(first);
+    expect(first.estimate).toBe(70);
+    expect(first.confidence).toBe(0.95);
+    expect(first.lower).toBeLessThan(first.estimate);
+    expect(first.upper).toBeGreaterThan(first.estimate);
+    expect(first.lower).toBeGreaterThanOrEqual(0);
+    expect(first.upper).toBeLessThanOrEqual(100);
+  });
+
+  it('narrows as the confidence level drops', () => {
+    const wide = winRateConfidenceInterval(OUTCOMES, { random: createSeededRandom(1), confidence: 0.95 });
+    const narrow = winRateConfidenceInterval(OUTCOMES, { random: createSeededRandom(1), confidence: 0.5 });
+
+    expect(narrow.upper - narrow.lower).toBeLessThan(wide.upper - wide.lower);
+  });
+
+  it('collapses to the estimate for constant or empty samples', () => {
+    expect(bootstrapConfidenceInterval([4, 4, 4], mean)).toEqual({ estimate: 4, lower: 4, upper: 4, confidence: 0.95 });
+    expect(bootstrapConfidenceInterval([], mean)).toEqual({ estimate: 0, lower: 0, upper: 0, confidence: 0.95 });
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Statistics helpers for the emotion-performance analysis.
+ * Pure functions only - no data fetching or React dependencies.
+ */
+
+export interface CorrelationResult {
+  coefficient: number | null;
+  pValue: number | null;
+  sampleSize: number;
+  isSignificant: boolean;
+  warning: string | null;
+}
+
+export interface ConfidenceInterval {
+  estimate: number;
+  lower: number;
+  upper: number;
+  confidence: number;
+}
+
+export interface BootstrapOptions {
+  iterations?: number;
+  confidence?: number;
+  random?: () => number;
+}
+
+// Below these sample sizes results are shown as preliminary
+export const MIN_CORRELATION_SAMPLE = 10;
+export const MIN_BUCKET_SAMPLE = 5;
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Null when there is nothing to correlate: fewer than two pairs, or one side never varies
+export function pearsonCorrelation(xs: number[], ys: number[]): number | null {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 2) return null;
+
+  const meanX = mean(xs.slice(0, n));
+  const meanY = mean(ys.slice(0, n));
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+// Ranks starting at 1, with tied values sharing their average rank
+export function rank(values: number[]): number[] {
+  const order = values
+    .map((value, index) => ({ value, index }))
+    .sort((a, b) => a.value - b.value);
+
+  const ranks: number[] = new Array(values.length);
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) {
+      ranks[order[k].index] = averageRank;
+    }
+    i = j + 1;
+  }
+
+  return ranks;
+}
+
+export function spearmanCorrelation(xs: number[], ys: number[]): number | null {
+  const n = Math.min(xs.length, ys.length);
+  return pearsonCorrelation(rank(xs.slice(0, n)), rank(ys.slice(0, n)));
+}
+
+// Lanczos approximation of ln(Γ(x))
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (let i = 0; i < coefficients.length; i++) {
+    series += coefficients[i] / ++y;
+  }
+
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+}
+
+// Continued fraction for the incomplete beta function (Lentz's method)
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const maxIterations = 200;
+  const epsilon = 3e-14;
+  const tiny = 1e-300;
+
+  const qab = a + b;
+  const qap = a + 1;
+  const qam = a - 1;
+  let c = 1;
+  let d = 1 - (qab * x) / qap;
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= maxIterations; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((qam + m2) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (qab + m) * x) / ((a + m2) * (qap + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+
+    if (Math.abs(delta - 1) < epsilon) break;
+  }
+
+  return h;
+}
+
+export function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+
+  // Use the symmetry relation where the continued fraction converges faster
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(a, b, x)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+// Two-sided p-value for a Student's t statistic
+export function studentTTwoSidedPValue(t: number, degreesOfFreedom: number): number {
+  if (!isFinite(t)) return 0;
+  const x = degreesOfFreedom / (degreesOfFreedom + t * t);
+  return regularizedIncompleteBeta(x, degreesOfFreedom / 2, 0.5);
+}
+
+// p-value for H0: no correlation, using the t approximation (also used for Spearman).
+// Null below three pairs, where the test has no degrees of freedom.
+export function correlationPValue(r: number, n: number): number | null {
+  if (n < 3) return null;
+  if (Math.abs(r) >= 1) return 0;
+
+  const degreesOfFreedom = n - 2;
+  const t = r * Math.sqrt(degreesOfFreedom / (1 - r * r));
+  return studentTTwoSidedPValue(t, degreesOfFreedom);
+}
+
+export function sampleSizeWarning(sampleSize: number, minimum: number, subject = 'trades'): string | null {
+  if (sampleSize >= minimum) return null;
+  const needed = minimum - sampleSize;
+  return `Only ${sampleSize} ${subject} - log ${needed} more for a reliable result.`;
+}
+
+function buildCorrelationResult(coefficient: number | null, sampleSize: number): CorrelationResult {
+  const pValue = coefficient === null ? null : correlationPValue(coefficient, sampleSize);
+  const warning = sampleSizeWarning(sampleSize, MIN_CORRELATION_SAMPLE)
+    ?? (coefficient === null ? 'Every trade has the same value on one side - there is no variation to correlate yet.' : null);
+
+  return {
+    coefficient,
+    pValue,
+    sampleSize,
+    isSignificant: warning === null && pValue !== null && pValue < SIGNIFICANCE_LEVEL,
+    warning,
+  };
+}
+
+export function pearsonTest(xs: number[], ys: number[]): CorrelationResult {
+  return buildCorrelationResult(pearsonCorrelation(xs, ys), Math.min(xs.length, ys.length));
+}
+
+export function spearmanTest(xs: number[], ys: number[]): CorrelationResult {
+  return buildCorrelationResult(spearmanCorrelation(xs, ys), Math.min(xs.length, ys.length));
+}
+
+// Deterministic PRNG (mulberry32) so bootstrap intervals don't jitter between renders
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Percentile bootstrap interval for an arbitrary statistic of a sample.
+ */
+export function bootstrapConfidenceInterval(
+  sample: number[],
+  statistic: (values: number[]) => number,
+  options: BootstrapOptions = {}
+): ConfidenceInterval {
+  const { iterations = 1000, confidence = 0.95, random = createSeededRandom(sample.length) } = options;
+  const estimate = statistic(sample);
+
+  if (sample.length === 0) {
+    return { estimate, lower: estimate, upper: estimate, confidence };
+  }
+
+  const estimates: number[] = [];
+  const resample: number[] = new Array(sample.length);
+  for (let i = 0; i < iterations; i++) {
+    for (let j = 0; j < sample.length; j++) {
+      resample[j] = sample[Math.floor(random() * sample.length)];
+    }
+    estimates.push(statistic(resample));
+  }
+  estimates.sort((a, b) => a - b);
+
+  const alpha = (1 - confidence) / 2;
+  return {
+    estimate,
+    lower: percentile(estimates, alpha),
+    upper: percentile(estimates, 1 - alpha),
+    confidence,
+  };
+}
+
+// Win rate (0-100) with a bootstrap interval; outcomes are 1 for a win, 0 otherwise
+export function winRateConfidenceInterval(outcomes: number[], options: BootstrapOptions = {}): ConfidenceInterval {
+  return bootstrapConfidenceInterval(outcomes, values => mean(values) * 100, options);
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { addDays } from '@/lib/calendar';
+import { calculateStreaks, pruneDayKeys, summarizeDayKeys } from './streaks';
+
+const NEW_YORK = 'America/New_York';
+
+// Consecutive day keys ending on `lastDay`
+function daysEnding(lastDay: string, count: number): string[] {
+  return Array.from({ length: count }, (_, index) => addDays(lastDay, index - count + 1));
+}
+
+describe('calculateStreaks', () => {
+  it('counts days across the spring-forward change as consecutive', () => {
+    // 2024-03-10 is 23 hours long in New York
+    const checks = ['2024-03-09T14:00:00Z', '2024-03-10T14:00:00Z', '2024-03-11T13:00:00Z'];
+    const summary = calculateStreaks(checks, { timezone: NEW_YORK, now: new Date('2024-03-11T20:00:00Z') });
+    expect(summary).toMatchObject({ current: 3, best: 3, checkedInToday: true });
+  });
+
+  it('counts days across the fall-back change as consecutive', () => {
+    // 2024-11-03 is 25 hours long; 23:30 local on the 3rd is 04:30 UTC on the 4th
+    const checks = ['2024-11-02T16:00:00Z', '2024-11-04T04:30:00Z', '2024-11-04T15:00:00Z'];
+    const summary = calculateStreaks(checks, { timezone: NEW_YORK, now: new Date('2024-11-04T18:00:00Z') });
+    expect(summary).toMatchObject({ current: 3, lastActiveDay: '2024-11-04' });
+  });
+
+  it('puts check-ins either side of local midnight on different days', () => {
+    // 23:59 and 00:01 in New York, both on the same UTC day
+    const checks = ['2024-06-02T03:59:00Z', '2024-06-02T04:01:00Z'];
+    const summary = calculateStreaks(checks, { timezone: NEW_YORK, now: new Date('2024-06-02T12:00:00Z') });
+    expect(summary).toMatchObject({ current: 2, lastActiveDay: '2024-06-02' });
+
+    // In UTC they are the same day
+    expect(calculateStreaks(checks, { timezone: 'UTC', now: new Date('2024-06-02T12:00:00Z') }).current).toBe(1);
+  });
+
+  it('keeps the streak alive until the end of the next local day', () => {
+    const checks = ['2024-06-01T16:00:00Z'];
+    // 23:59 on June 2nd in New York
+    expect(calculateStreaks(checks, { timezone: NEW_YORK, now: new Date('2024-06-03T03:59:00Z') }).current).toBe(1);
+    // 00:01 on June 3rd
+    expect(calculateStreaks(checks, { timezone: NEW_YORK, now: new Date('2024-06-03T04:01:00Z') }).current).toBe(0);
+  });
+
+  it('finds the best streak anywhere in a long history', () => {
+    const early = daysEnding('2021-06-30', 45);
+    const recent = daysEnding('2024-06-02', 3);
+    const summary = summarizeDayKeys(early.concat(recent), '2024-06-02');
+    expect(summary).toMatchObject({ current: 3, best: 45 });
+  });
+});
+
+describe('pruneDayKeys', () => {
+  it('drops days past the cutoff that the current streak does not reach', () => {
+    const old = daysEnding('2023-01-10', 10);
+    const recent = daysEnding('2024-06-02', 5);
+    expect(pruneDayKeys(old.concat(recent), '2024-06-02', 400)).toEqual(recent);
+  });
+
+  it('keeps every day of a streak longer than the cutoff', () => {
+    const streak = daysEnding('2024-06-02', 450);
+    const pruned = pruneDayKeys(streak, '2024-06-02', 400);
+    expect(pruned).toHaveLength(450);
+    expect(summarizeDayKeys(pruned, '2024-06-02').current).toBe(450);
+  });
+
+  it('treats gaps bridged by grace days as part of the streak', () => {
+    const before = daysEnding('2023-03-01', 200);
+    const after = daysEnding('2024-06-02', 458); // Starts 2023-03-03, after one missed day
+    const pruned = pruneDayKeys(before.concat(after), '2024-06-02', 400, 1);
+    expect(summarizeDayKeys(pruned, '2024-06-02', 1).current).toBe(658);
+  });
+});
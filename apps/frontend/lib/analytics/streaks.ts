@@ -0,0 +1,138 @@
+// Daily check-in streaks, computed on calendar days in the user's timezone.
+// Shared by the emotion store, the profile stats and the server query layer.
+
+import { addDays, dayNumber, getDayKey } from '@/lib/calendar';
+
+export interface StreakOptions {
+  timezone?: string;
+  // Missed days in a row that can be bridged without breaking a streak ("streak freeze")
+  graceDays?: number;
+  now?: Date;
+}
+
+export interface StreakSummary {
+  current: number;
+  best: number;
+  lastActiveDay: string | null; // YYYY-MM-DD in the user's timezone
+  checkedInToday: boolean;
+  // Missed days bridged by grace inside the current streak
+  frozenDays: number;
+}
+
+export interface StreakMilestone {
+  days: number;
+  title: string;
+  detail: string;
+  icon: string;
+}
+
+export const STREAK_MILESTONES: StreakMilestone[] = [
+  {
+    days: 7,
+    title: 'Amazing! 7 days in a row! 🔥',
+    detail: 'One week of daily emotion checks! Consistency is the foundation of trading excellence.',
+    icon: '🔥',
+  },
+  {
+    days: 30,
+    title: 'Incredible! 30 day streak! 🏆',
+    detail: 'One month of consistent emotion tracking! You\'re building the habits of successful traders.',
+    icon: '🏆',
+  },
+  {
+    days: 100,
+    title: 'LEGENDARY! 100 day streak! 🚀',
+    detail: 'You\'ve achieved the ultimate trading discipline milestone. Your emotional awareness is extraordinary!',
+    icon: '🚀',
+  },
+];
+
+export const MAX_GRACE_DAYS = 3;
+
+/**
+ * Current and best streak of days with at least one check-in. Gaps of up to
+ * `graceDays` missed days are bridged but not counted, and the current streak
+ * stays alive through the day after the last check-in plus any grace days.
+ */
+export function calculateStreaks(dates: (Date | string)[], options: StreakOptions = {}): StreakSummary {
+  const { timezone, now = new Date() } = options;
+  const graceDays = Math.max(0, Math.min(options.graceDays ?? 0, MAX_GRACE_DAYS));
+
+  const days: Record<string, boolean> = {};
+  dates.forEach(date => { days[getDayKey(date, timezone)] = true; });
+  return summarizeDayKeys(Object.keys(days), getDayKey(now, timezone), graceDays);
+}
+
+/** Same as `calculateStreaks` for day keys that were already resolved in the user's timezone. */
+export function summarizeDayKeys(dayKeys: string[], todayKey: string, graceDays = 0): StreakSummary {
+  const sorted = dayKeys
+    .filter((key, index) => dayKeys.indexOf(key) === index)
+    .sort();
+
+  if (sorted.length === 0) {
+    return { current: 0, best: 0, lastActiveDay: null, checkedInToday: false, frozenDays: 0 };
+  }
+
+  let best = 1;
+  let run = 1;
+  let frozen = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    const missed = dayNumber(sorted[i]) - dayNumber(sorted[i - 1]) - 1;
+    if (missed <= graceDays) {
+      run += 1;
+      frozen += missed;
+    } else {
+      run = 1;
+      frozen = 0;
+    }
+    best = Math.max(best, run);
+  }
+
+  const lastActiveDay = sorted[sorted.length - 1];
+  const daysSinceLast = dayNumber(todayKey) - dayNumber(lastActiveDay);
+  const alive = daysSinceLast <= 1 + graceDays;
+
+  return {
+    current: alive ? run : 0,
+    best,
+    lastActiveDay,
+    checkedInToday: daysSinceLast === 0,
+    frozenDays: alive ? frozen : 0,
+  };
+}
+
+/**
+ * Drops day keys more than `keepDays` before today, except those the latest
+ * streak reaches back to, so a long streak is never cut short. The best
+ * streak has to be kept separately once its days are dropped.
+ */
+export function pruneDayKeys(dayKeys: string[], todayKey: string, keepDays: number, graceDays = 0): string[] {
+  const sorted = dayKeys
+    .filter((key, index) => dayKeys.indexOf(key) === index)
+    .sort();
+
+  let runStart = sorted.length - 1;
+  while (runStart > 0 && dayNumber(sorted[runStart]) - dayNumber(sorted[runStart - 1]) - 1 <= graceDays) {
+    runStart -= 1;
+  }
+
+  const cutoff = addDays(todayKey, -keepDays);
+  return sorted.filter((day, index) => day > cutoff || index >= runStart);
+}
+
+// Milestone hit exactly by moving from `previous` to `current`, if any
+export function getReachedMilestone(previous: number, current: number): StreakMilestone | null {
+  if (current <= previous) return null;
+  const reached = STREAK_MILESTONES.filter(milestone => milestone.days > previous && milestone.days <= current);
+  return reached.length > 0 ? reached[reached.length - 1] : null;
+}
+
+// Highest milestone at or below the streak, for celebration copy
+export function getMilestoneForStreak(streak: number): StreakMilestone | null {
+  const passed = STREAK_MILESTONES.filter(milestone => milestone.days <= streak);
+  return passed.length > 0 ? passed[passed.length - 1] : null;
+}
+
+export function getNextMilestone(streak: number): StreakMilestone | null {
+  return STREAK_MILESTONES.find(milestone => milestone.days > streak) || null;
+}
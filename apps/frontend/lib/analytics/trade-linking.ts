@@ -0,0 +1,123 @@
+import { EmotionCheck, Trade } from '@/lib/types';
+import { getTradeTime } from '@/lib/trade-metrics';
+
+// Pre-trade checks older than this are not considered related to a trade
+export const DEFAULT_PAIRING_WINDOW_MS = 4 * 60 * 60 * 1000;
+
+// Choices offered for the link window, in minutes
+export const LINK_WINDOW_OPTIONS = [30, 60, 120, 240, 480, 1440];
+
+export interface EmotionalDelta {
+  change: number; // post level minus pre level
+  direction: 'calmer' | 'more-anxious' | 'more-confident' | 'deflated' | 'unchanged';
+  summary: string;
+}
+
+export interface TradeEmotionLinks {
+  pre: EmotionCheck | null;
+  post: EmotionCheck | null;
+  preLinked: boolean; // False when the check was inferred from timing
+  postLinked: boolean;
+  delta: EmotionalDelta | null;
+}
+
+const NEUTRAL_LEVEL = 5.5;
+
+function toTime(value: Date | string): number {
+  return new Date(value).getTime();
+}
+
+// Same symbol wins; checks logged without a symbol are the fallback
+function pickBySymbol(candidates: EmotionCheck[], symbol?: string): EmotionCheck | null {
+  const normalized = symbol?.trim().toUpperCase();
+  const sameSymbol = normalized ? candidates.find(check => check.symbol === normalized) : undefined;
+  return sameSymbol || candidates.find(check => !check.symbol) || null;
+}
+
+/**
+ * The most recent pre-trade check at or before `time` and within the window.
+ * Checks listed in `exclude` (already linked elsewhere) are skipped.
+ */
+export function findNearestPreTradeCheck(
+  checks: EmotionCheck[],
+  options: { symbol?: string; time: Date | string; windowMs?: number; exclude?: Record<string, boolean> }
+): EmotionCheck | null {
+  const { symbol, time, windowMs = DEFAULT_PAIRING_WINDOW_MS, exclude = {} } = options;
+  const target = toTime(time);
+
+  const candidates = checks
+    .filter(check => {
+      if (check.context !== 'pre-trade' || exclude[check.id]) return false;
+      const checkTime = toTime(check.timestamp);
+      return checkTime <= target && target - checkTime <= windowMs;
+    })
+    .sort((a, b) => toTime(b.timestamp) - toTime(a.timestamp));
+
+  return pickBySymbol(candidates, symbol);
+}
+
+// The earliest post-trade check after the trade closed (or was logged) within the window
+export function findNearestPostTradeCheck(
+  checks: EmotionCheck[],
+  trade: Trade,
+  windowMs: number = DEFAULT_PAIRING_WINDOW_MS
+): EmotionCheck | null {
+  const closedAt = toTime(trade.exitTime || getTradeTime(trade));
+
+  const candidates = checks
+    .filter(check => {
+      if (check.context !== 'post-trade') return false;
+      const checkTime = toTime(check.timestamp);
+      return checkTime >= closedAt && checkTime - closedAt <= windowMs;
+    })
+    .sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+
+  return pickBySymbol(candidates, trade.symbol);
+}
+
+export function getEmotionalDelta(pre: EmotionCheck, post: EmotionCheck): EmotionalDelta {
+  const change = post.level - pre.level;
+  if (change === 0) {
+    return { change, direction: 'unchanged', summary: 'Your emotional state held steady through the trade.' };
+  }
+
+  // Below neutral the scale measures anxiety, above it confidence
+  const endedAnxious = post.level < NEUTRAL_LEVEL;
+  if (change > 0) {
+    return endedAnxious
+      ? { change, direction: 'calmer', summary: `You finished ${change} point${change > 1 ? 's' : ''} less anxious than you started.` }
+      : { change, direction: 'more-confident', summary: `Confidence rose ${change} point${change > 1 ? 's' : ''} - watch for overconfidence on the next trade.` };
+  }
+
+  const drop = Math.abs(change);
+  return endedAnxious
+    ? { change, direction: 'more-anxious', summary: `Anxiety increased by ${drop} point${drop > 1 ? 's' : ''} - consider a pause before trading again.` }
+    : { change, direction: 'deflated', summary: `Confidence dipped ${drop} point${drop > 1 ? 's' : ''} but stayed on the confident side.` };
+}
+
+/**
+ * Pre and post emotion checks for a single trade. Explicit links on the trade
+ * are used when present; otherwise the nearest checks by time are suggested.
+ */
+export function resolveTradeEmotionLinks(
+  trade: Trade,
+  checks: EmotionCheck[],
+  windowMs: number = DEFAULT_PAIRING_WINDOW_MS
+): TradeEmotionLinks {
+  const byId: Record<string, EmotionCheck> = {};
+  checks.forEach(check => { byId[check.id] = check; });
+
+  const linkedPre = trade.emotionCheckId ? byId[trade.emotionCheckId] : undefined;
+  const linkedPost = trade.postEmotionCheckId ? byId[trade.postEmotionCheckId] : undefined;
+
+  const pre = linkedPre || findNearestPreTradeCheck(checks, { symbol: trade.symbol, time: getTradeTime(trade), windowMs });
+  const post = linkedPost || findNearestPostTradeCheck(checks, trade, windowMs);
+
+  return {
+    pre,
+    post,
+    preLinked: !!linkedPre,
+    postLinked: !!linkedPost,
+    delta: pre && post ? getEmotionalDelta(pre, post) : null,
+  };
+}
@@ -4,86 +4,199 @@ import {
   Trade, 
   WeeklyReflection,
   MonthlyGoal,
-  AuthResponse, 
   LoginRequest, 
   RegisterRequest,
+  UserUpdateRequest,
   EmotionCheckRequest,
   TradeRequest,
   WeeklyReflectionRequest,
+  WeeklyPromptRecord,
+  WeeklyPromptAnswerRequest,
+  BreathingSession,
+  BreathingSessionRequest,
+  DailySession,
+  DailySessionRequest,
   MonthlyGoalRequest,
   PatternInsight,
   KeyInsight,
+  TwoFactorChallenge,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  SessionResponse,
   ApiError 
 } from './types';
+import { TradeTag } from './trade-tags';
+import { jwtManager } from './auth/jwt-manager';
+
+// Lets the server recognise a replayed write (e.g. from the offline outbox) and not apply it twice
+export interface WriteOptions {
+  idempotencyKey?: string;
+}
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5202/api';
 
 class ApiClient {
-  private getAuthHeaders(): Record<string, string> {
-    const token = localStorage.getItem('authToken');
+  private getAuthHeaders(token: string | null): Record<string, string> {
     return {
       'Content-Type': 'application/json',
       ...(token && { Authorization: `Bearer ${token}` }),
     };
   }
 
+  private getWriteHeaders(options?: WriteOptions): Record<string, string> {
+    return options?.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {};
+  }
+
   private async request<T>(
     endpoint: string, 
-    options: RequestInit = {}
+    options: RequestInit = {},
+    isRetry = false
   ): Promise<T> {
     const url = `${API_BASE_URL}${endpoint}`;
+
+    // Refreshes ahead of expiry, and waits if another request is already refreshing
+    const token = await jwtManager.getValidAccessToken();
     
     const response = await fetch(url, {
       ...options,
       headers: {
-        ...this.getAuthHeaders(),
+        ...this.getAuthHeaders(token),
         ...options.headers,
       },
     });
 
+    // Retry once with a fresh token; a concurrent request may already have rotated it
+    if (response.status === 401 && token && !isRetry) {
+      const current = jwtManager.getAccessToken();
+      const freshToken = current && current !== token
+        ? current
+        : await jwtManager.refreshAccessToken();
+
+      if (freshToken) {
+        return this.request<T>(endpoint, options, true);
+      }
+    } else if (response.status === 401 && token) {
+      jwtManager.expireSession();
+    }
+
     if (!response.ok) {
-      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-      try {
-        const errorData = await response.json();
-        if (errorData.message) {
-          errorMessage = errorData.message;
-        } else if (errorData.errors && Array.isArray(errorData.errors)) {
-          errorMessage = errorData.errors.join(', ');
-        }
-      } catch (e) {
-        // Use default error message
+      throw await this.toApiError(response);
+    }
+
+    return response.json();
+  }
+
+  private async toApiError(response: Response): Promise<ApiError> {
+    let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+    let code: string | undefined;
+    const retryHeader = Number(response.headers.get('Retry-After'));
+    let retryAfter = retryHeader > 0 ? retryHeader : undefined;
+    try {
+      const errorData = await response.json();
+      if (errorData.message) {
+        errorMessage = errorData.message;
+      } else if (Array.isArray(errorData.details) && errorData.details[0]?.message) {
+        // Zod issues from the app's validated routes
+        errorMessage = errorData.details[0].message;
+      } else if (typeof errorData.error === 'string') {
+        errorMessage = errorData.error;
+      } else if (errorData.errors && Array.isArray(errorData.errors)) {
+        errorMessage = errorData.errors.join(', ');
       }
-      
-      const error: ApiError = { message: errorMessage };
-      throw error;
+      code = errorData.code;
+      if (typeof errorData.retryAfter === 'number') retryAfter = errorData.retryAfter;
+    } catch (e) {
+      // Use default error message
+    }
+
+    return { message: errorMessage, status: response.status, code, retryAfter };
+  }
+
+  // The app's own Next.js routes (app/api), served from the same origin
+  private async appRequest<T>(
+    path: string,
+    { method = 'POST', body, auth = false }: { method?: string; body?: unknown; auth?: boolean } = {}
+  ): Promise<T> {
+    const token = auth ? await jwtManager.getValidAccessToken() : null;
+    const response = await fetch(path, {
+      method,
+      headers: this.getAuthHeaders(token),
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+
+    if (!response.ok) {
+      throw await this.toApiError(response);
     }
 
     return response.json();
   }
 
   // Auth endpoints
-  async login(credentials: LoginRequest): Promise<AuthResponse> {
-    return this.request<AuthResponse>('/auth/login', {
-      method: 'POST',
-      body: JSON.stringify(credentials),
-    });
+  // Signs in through the app's route, which applies lockouts and issues the tokens the API accepts.
+  // Accounts with 2FA get a challenge to finish with verifyTwoFactorLogin
+  async login(credentials: LoginRequest): Promise<SessionResponse | TwoFactorChallenge> {
+    return this.appRequest('/api/auth/login', { body: credentials });
   }
 
-  async register(userData: RegisterRequest): Promise<AuthResponse> {
-    return this.request<AuthResponse>('/auth/register', {
+  // The API creates the account; signing in goes through the app like any other login
+  async register(userData: RegisterRequest): Promise<SessionResponse> {
+    await this.request('/auth/register', {
       method: 'POST',
       body: JSON.stringify(userData),
     });
+    return this.appRequest('/api/auth/login', {
+      body: { email: userData.email, password: userData.password },
+    });
+  }
+
+  async requestPasswordReset(email: string): Promise<{ success: boolean; message: string }> {
+    return this.appRequest('/api/auth/password-reset/request', { body: { email } });
+  }
+
+  async confirmPasswordReset(token: string, password: string): Promise<{ success: boolean; message: string }> {
+    return this.appRequest('/api/auth/password-reset/confirm', { body: { token, password } });
+  }
+
+  async verifyTwoFactorLogin(challengeToken: string, code: string): Promise<SessionResponse> {
+    return this.appRequest('/api/auth/2fa/verify', { body: { challengeToken, code } });
+  }
+
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    return this.appRequest('/api/auth/2fa', { method: 'GET', auth: true });
+  }
+
+  async startTwoFactorSetup(): Promise<TwoFactorSetup> {
+    return this.appRequest('/api/auth/2fa/setup', { auth: true });
+  }
+
+  async enableTwoFactor(code: string): Promise<{ backupCodes: string[] }> {
+    return this.appRequest('/api/auth/2fa/enable', { body: { code }, auth: true });
+  }
+
+  async disableTwoFactor(code: string): Promise<void> {
+    await this.appRequest('/api/auth/2fa/disable', { body: { code }, auth: true });
+  }
+
+  async regenerateBackupCodes(code: string): Promise<{ backupCodes: string[] }> {
+    return this.appRequest('/api/auth/2fa/backup-codes', { body: { code }, auth: true });
   }
 
   async getCurrentUser(): Promise<User> {
     return this.request<User>('/auth/me');
   }
 
+  async updateCurrentUser(data: UserUpdateRequest): Promise<User> {
+    return this.request<User>('/auth/me', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
   // Emotion endpoints
-  async createEmotionCheck(data: EmotionCheckRequest): Promise<EmotionCheck> {
+  async createEmotionCheck(data: EmotionCheckRequest, options?: WriteOptions): Promise<EmotionCheck> {
     return this.request<EmotionCheck>('/emotion', {
       method: 'POST',
+      headers: this.getWriteHeaders(options),
       body: JSON.stringify(data),
     });
   }
@@ -97,9 +210,10 @@ class ApiClient {
   }
 
   // Trade endpoints
-  async createTrade(data: TradeRequest): Promise<Trade> {
+  async createTrade(data: TradeRequest, options?: WriteOptions): Promise<Trade> {
     return this.request<Trade>('/trade', {
       method: 'POST',
+      headers: this.getWriteHeaders(options),
       body: JSON.stringify(data),
     });
   }
@@ -143,9 +257,10 @@ class ApiClient {
   }
 
   // Weekly Reflection endpoints
-  async createWeeklyReflection(data: WeeklyReflectionRequest): Promise<WeeklyReflection> {
+  async createWeeklyReflection(data: WeeklyReflectionRequest, options?: WriteOptions): Promise<WeeklyReflection> {
     return this.request<WeeklyReflection>('/weeklyreflections', {
       method: 'POST',
+      headers: this.getWriteHeaders(options),
       body: JSON.stringify(data),
     });
   }
@@ -168,10 +283,81 @@ class ApiClient {
     });
   }
 
+  // Weekly Prompt endpoints - the server rotates questions so none repeat across devices
+  async getCurrentWeeklyPrompt(week: string): Promise<WeeklyPromptRecord> {
+    return this.request<WeeklyPromptRecord>(`/weeklyprompts/current?week=${encodeURIComponent(week)}`);
+  }
+
+  async getWeeklyPrompts(limit = 52): Promise<WeeklyPromptRecord[]> {
+    return this.request<WeeklyPromptRecord[]>(`/weeklyprompts?limit=${limit}`);
+  }
+
+  // Upserts the answer for a week, so replays and migrations are safe to repeat
+  async saveWeeklyPromptAnswer(
+    week: string,
+    data: WeeklyPromptAnswerRequest,
+    options?: WriteOptions
+  ): Promise<WeeklyPromptRecord> {
+    return this.request<WeeklyPromptRecord>(`/weeklyprompts/${encodeURIComponent(week)}`, {
+      method: 'PUT',
+      headers: this.getWriteHeaders(options),
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Breathing session endpoints
+  async createBreathingSession(data: BreathingSessionRequest, options?: WriteOptions): Promise<BreathingSession> {
+    return this.request<BreathingSession>('/breathingsessions', {
+      method: 'POST',
+      headers: this.getWriteHeaders(options),
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getBreathingSessions(limit = 100, offset = 0): Promise<BreathingSession[]> {
+    return this.request<BreathingSession[]>(`/breathingsessions?limit=${limit}&offset=${offset}`);
+  }
+
+  // Daily session endpoints
+  async getDailySessions(from?: string, to?: string): Promise<DailySession[]> {
+    const params = new URLSearchParams();
+    if (from) params.append('from', from);
+    if (to) params.append('to', to);
+    const query = params.toString();
+    return this.request<DailySession[]>(`/dailysessions${query ? `?${query}` : ''}`);
+  }
+
+  async getDailySession(date: string): Promise<DailySession> {
+    return this.request<DailySession>(`/dailysessions/${encodeURIComponent(date)}`);
+  }
+
+  // Upsert; the plan and review are saved separately, so a section left out keeps its stored value
+  async saveDailySession(date: string, data: DailySessionRequest, options?: WriteOptions): Promise<DailySession> {
+    return this.request<DailySession>(`/dailysessions/${encodeURIComponent(date)}`, {
+      method: 'PUT',
+      headers: this.getWriteHeaders(options),
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Trade tag endpoints - the list is saved whole, so the last save wins
+  async getTradeTags(): Promise<TradeTag[]> {
+    return this.request<TradeTag[]>('/tradetags');
+  }
+
+  async saveTradeTags(tags: TradeTag[], options?: WriteOptions): Promise<TradeTag[]> {
+    return this.request<TradeTag[]>('/tradetags', {
+      method: 'PUT',
+      headers: this.getWriteHeaders(options),
+      body: JSON.stringify({ tags }),
+    });
+  }
+
   // Monthly Goal endpoints
-  async createMonthlyGoal(data: MonthlyGoalRequest): Promise<MonthlyGoal> {
+  async createMonthlyGoal(data: MonthlyGoalRequest, options?: WriteOptions): Promise<MonthlyGoal> {
     return this.request<MonthlyGoal>('/monthlygoals', {
       method: 'POST',
+      headers: this.getWriteHeaders(options),
       body: JSON.stringify(data),
     });
   }
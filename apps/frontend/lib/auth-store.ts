@@ -1,12 +1,13 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { User } from './types';
+import { jwtManager } from './auth/jwt-manager';
 
 interface AuthState {
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
-  login: (token: string, user: User) => void;
+  login: (token: string, user: User, refreshToken?: string) => void;
   logout: () => void;
   updateUser: (user: Partial<User>) => void;
 }
@@ -18,8 +19,9 @@ export const useAuthStore = create<AuthState>()(
       token: null,
       isAuthenticated: false,
       
-      login: (token: string, user: User) => {
-        localStorage.setItem('authToken', token);
+      login: (token: string, user: User, refreshToken?: string) => {
+        // JWTManager owns the tokens; the API client reads them from there
+        jwtManager.setTokens({ accessToken: token, refreshToken: refreshToken || null });
         set({ 
           token, 
           user, 
@@ -28,7 +30,7 @@ export const useAuthStore = create<AuthState>()(
       },
       
       logout: () => {
-        localStorage.removeItem('authToken');
+        jwtManager.logout();
         set({ 
           token: null, 
           user: null, 
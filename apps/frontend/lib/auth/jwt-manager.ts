@@ -1,21 +1,20 @@
 'use client';
 
 import { jwtDecode } from 'jwt-decode';
-
-interface TokenPayload {
-  sub: string;
-  email: string;
-  exp: number;
-  iat: number;
-  type: 'access' | 'refresh';
-}
+import { TokenPayload } from '@/lib/types';
 
 interface AuthTokens {
   accessToken: string;
-  refreshToken: string;
-  expiresAt: number;
+  refreshToken: string | null; // Backends that don't issue refresh tokens end the session at expiry
+  expiresAt?: number;
 }
 
+// Fired when the session can no longer be renewed and the user has to sign in again
+export const SESSION_EXPIRED_EVENT = 'auth:session-expired';
+
+// Token key written by older builds through useAuthStore
+const LEGACY_TOKEN_KEY = 'authToken';
+
 class JWTManager {
   private static instance: JWTManager;
   private accessToken: string | null = null;
@@ -39,7 +38,7 @@ class JWTManager {
     if (typeof window === 'undefined') return;
     
     try {
-      this.accessToken = localStorage.getItem('accessToken');
+      this.accessToken = localStorage.getItem('accessToken') || localStorage.getItem(LEGACY_TOKEN_KEY);
       this.refreshToken = localStorage.getItem('refreshToken');
     } catch (error) {
       console.warn('Failed to load tokens from storage:', error);
@@ -51,8 +50,16 @@ class JWTManager {
     
     try {
       localStorage.setItem('accessToken', tokens.accessToken);
-      localStorage.setItem('refreshToken', tokens.refreshToken);
-      localStorage.setItem('tokenExpiresAt', tokens.expiresAt.toString());
+      if (tokens.refreshToken) {
+        localStorage.setItem('refreshToken', tokens.refreshToken);
+      } else {
+        localStorage.removeItem('refreshToken');
+      }
+      const expiresAt = tokens.expiresAt ?? this.getExpiry(tokens.accessToken);
+      if (expiresAt) {
+        localStorage.setItem('tokenExpiresAt', expiresAt.toString());
+      }
+      localStorage.removeItem(LEGACY_TOKEN_KEY);
     } catch (error) {
       console.error('Failed to save tokens to storage:', error);
     }
@@ -65,11 +72,20 @@ class JWTManager {
       localStorage.removeItem('accessToken');
       localStorage.removeItem('refreshToken');
       localStorage.removeItem('tokenExpiresAt');
+      localStorage.removeItem(LEGACY_TOKEN_KEY);
     } catch (error) {
       console.error('Failed to clear tokens from storage:', error);
     }
   }
 
+  private getExpiry(token: string): number | null {
+    try {
+      return jwtDecode<TokenPayload>(token).exp * 1000;
+    } catch {
+      return null;
+    }
+  }
+
   private isTokenExpired(token: string): boolean {
     try {
       const decoded = jwtDecode<TokenPayload>(token);
@@ -92,6 +108,11 @@ class JWTManager {
   }
 
   async getValidAccessToken(): Promise<string | null> {
+    // Requests made while a refresh is in flight wait for the new token
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+
     if (!this.accessToken) {
       return null;
     }
@@ -103,7 +124,7 @@ class JWTManager {
     }
 
     // If token is close to expiry, refresh proactively
-    if (this.shouldRefreshToken(this.accessToken)) {
+    if (this.refreshToken && this.shouldRefreshToken(this.accessToken)) {
       // Don't wait for refresh, return current token and refresh in background
       this.refreshAccessToken().catch(console.error);
     }
@@ -113,7 +134,7 @@ class JWTManager {
 
   async refreshAccessToken(): Promise<string | null> {
     if (!this.refreshToken) {
-      this.logout();
+      this.expireSession();
       return null;
     }
 
@@ -133,8 +154,9 @@ class JWTManager {
   }
 
   private async performTokenRefresh(): Promise<string | null> {
+    let response: Response;
     try {
-      const response = await fetch('/api/auth/refresh', {
+      response = await fetch('/api/auth/refresh', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -143,22 +165,32 @@ class JWTManager {
           refreshToken: this.refreshToken,
         }),
       });
+    } catch (error) {
+      // Offline or unreachable: keep the tokens and try again on the next request
+      console.warn('Token refresh failed:', error);
+      return null;
+    }
 
+    // Only a rejected refresh token ends the session; server errors are retried later
+    if (response.status === 401) {
+      this.expireSession();
+      return null;
+    }
+
+    try {
       if (!response.ok) {
         throw new Error(`Refresh failed: ${response.status}`);
       }
 
       const data = await response.json();
-      
-      if (data.success && data.tokens) {
-        this.setTokens(data.tokens);
-        return data.tokens.accessToken;
-      } else {
+      if (!data.success || !data.tokens) {
         throw new Error('Invalid refresh response');
       }
+
+      this.setTokens(data.tokens);
+      return data.tokens.accessToken;
     } catch (error) {
       console.error('Token refresh failed:', error);
-      this.logout();
       return null;
     }
   }
@@ -175,7 +207,25 @@ class JWTManager {
     this.clearTokensFromStorage();
     
     // Notify auth context about logout
-    window.dispatchEvent(new CustomEvent('auth:logout'));
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('auth:logout'));
+    }
+  }
+
+  // Unlike logout(), this was not the user's choice - listeners send them back to sign in
+  expireSession(): void {
+    const hadSession = this.accessToken !== null;
+    this.accessToken = null;
+    this.refreshToken = null;
+    this.clearTokensFromStorage();
+
+    if (hadSession && typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT));
+    }
+  }
+
+  getAccessToken(): string | null {
+    return this.accessToken;
   }
 
   isAuthenticated(): boolean {
@@ -193,9 +243,11 @@ class JWTManager {
   }
 
   private startTokenRefreshTimer(): void {
+    if (typeof window === 'undefined') return;
+
     // Check every minute for tokens that need refreshing
     setInterval(() => {
-      if (this.accessToken && this.shouldRefreshToken(this.accessToken)) {
+      if (this.accessToken && this.refreshToken && this.shouldRefreshToken(this.accessToken)) {
         this.refreshAccessToken().catch(console.error);
       }
     }, 60 * 1000);
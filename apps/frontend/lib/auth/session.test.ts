@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The persisted stores look for localStorage when they're created
+vi.hoisted(() => {
+  const items: Record<string, string> = {};
+  (globalThis as any).localStorage = {
+    getItem: (key: string) => (key in items ? items[key] : null),
+    setItem: (key: string, value: string) => { items[key] = value; },
+    removeItem: (key: string) => { delete items[key]; },
+  };
+});
+
+import { clearSession, resumeSession } from './session';
+import { useAuthStore } from '@/lib/auth-store';
+import { useBreathingStore } from '@/lib/breathing-store';
+import { useReadinessStore } from '@/lib/readiness-store';
+import { User } from '@/lib/types';
+
+function signIn(id: string) {
+  const user = { id, email: `${id}@example.com`, createdAt: new Date(), timezone: 'UTC', streakCount: 0 } as User;
+  useAuthStore.setState({ user, token: 'token', isAuthenticated: true });
+}
+
+// Leaves unsynced data in the stores an expired session should keep
+function recordLocalData() {
+  useReadinessStore.getState().addRule('maxTradesPerDay');
+  useBreathingStore.setState({ pendingSessionId: 'breathing-1' });
+}
+
+describe('clearSession', () => {
+  beforeEach(() => {
+    clearSession();
+    signIn('user-1');
+    recordLocalData();
+  });
+
+  it('keeps readiness rules and the pending cool-down when the session expires', () => {
+    const rules = useReadinessStore.getState().rules;
+
+    clearSession(undefined, 'expired');
+    expect(useAuthStore.getState().user).toBeNull();
+    expect(useReadinessStore.getState().rules).toEqual(rules);
+    expect(useBreathingStore.getState().pendingSessionId).toBe('breathing-1');
+
+    signIn('user-1');
+    resumeSession('user-1');
+    expect(useReadinessStore.getState().rules).toEqual(rules);
+    expect(useBreathingStore.getState().pendingSessionId).toBe('breathing-1');
+  });
+
+  it('drops the kept data when someone else signs in next', () => {
+    clearSession(undefined, 'expired');
+
+    signIn('user-2');
+    resumeSession('user-2');
+    expect(useReadinessStore.getState().rules).toEqual(useReadinessStore.getInitialState().rules);
+    expect(useBreathingStore.getState().pendingSessionId).toBeNull();
+  });
+
+  it('clears everything on sign-out', () => {
+    clearSession();
+    expect(useReadinessStore.getState().rules).toEqual(useReadinessStore.getInitialState().rules);
+    expect(useBreathingStore.getState().pendingSessionId).toBeNull();
+  });
+});
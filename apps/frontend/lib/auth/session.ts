@@ -0,0 +1,77 @@
+'use client';
+
+import { QueryClient } from '@tanstack/react-query';
+import { useAuthStore } from '@/lib/auth-store';
+import { useEmotionStore } from '@/lib/emotion-store';
+import { useImportPresetStore } from '@/lib/import-preset-store';
+import { useOutboxStore } from '@/lib/outbox-store';
+import { useReadinessStore } from '@/lib/readiness-store';
+import { useBreathingStore } from '@/lib/breathing-store';
+import { useTradeTagStore } from '@/lib/trade-tag-store';
+import { useWeeklyPromptStore } from '@/lib/weekly-prompt-store';
+
+// Persisted stores holding per-user data that must not leak into the next session
+const persistedUserStores = [
+  useEmotionStore,
+  useWeeklyPromptStore,
+  useImportPresetStore,
+  useReadinessStore,
+  useBreathingStore,
+  useTradeTagStore,
+];
+
+// Stores holding data that hasn't reached the server yet. An expired session
+// keeps them, so they're still there once the same user signs back in.
+const keptOnExpiry: Array<(typeof persistedUserStores)[number]> = [
+  useReadinessStore, // Rules exist only on this device
+  useBreathingStore, // The cool-down the next emotion check links to
+];
+
+// Id of the user whose data outlived an expired session
+const EXPIRED_SESSION_OWNER_KEY = 'expired-session-owner';
+
+export type SessionEndReason = 'logout' | 'expired';
+
+function resetStore(store: (typeof persistedUserStores)[number]) {
+  store.setState(store.getInitialState(), true);
+  store.persist.clearStorage();
+}
+
+/**
+ * Signs the current user out of this device: clears the auth store, JWT
+ * tokens, persisted per-user stores and all cached queries. Queued writes are
+ * set aside under the user's id, and when the session merely expired, stores
+ * with unsynced data are left for the next sign-in.
+ */
+export function clearSession(queryClient?: QueryClient, reason: SessionEndReason = 'logout'): void {
+  const userId = useAuthStore.getState().user?.id;
+  useAuthStore.getState().logout();
+  useOutboxStore.getState().park();
+
+  const kept = reason === 'expired' && userId ? keptOnExpiry : [];
+  persistedUserStores
+    .filter(store => kept.indexOf(store) === -1)
+    .forEach(resetStore);
+
+  if (kept.length > 0) {
+    localStorage.setItem(EXPIRED_SESSION_OWNER_KEY, userId!);
+  } else {
+    localStorage.removeItem(EXPIRED_SESSION_OWNER_KEY);
+  }
+
+  queryClient?.clear();
+}
+
+/**
+ * Runs after sign-in: picks up the user's queued writes, and keeps data from
+ * an expired session only if it belongs to this user.
+ */
+export function resumeSession(userId: string): void {
+  useOutboxStore.getState().activate(userId);
+
+  const owner = localStorage.getItem(EXPIRED_SESSION_OWNER_KEY);
+  if (owner === null) return;
+
+  if (owner !== userId) keptOnExpiry.forEach(resetStore);
+  localStorage.removeItem(EXPIRED_SESSION_OWNER_KEY);
+}
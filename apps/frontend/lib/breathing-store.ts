@@ -0,0 +1,50 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { COOL_DOWN_LINK_WINDOW_MS } from './breathing';
+import { useOutboxStore } from './outbox-store';
+import { BreathingSessionRequest } from './types';
+import { generateId } from './utils';
+
+interface BreathingState {
+  lastSession: BreathingSessionRequest | null;
+  // Completed session not yet attached to an emotion check
+  pendingSessionId: string | null;
+  logSession: (session: Omit<BreathingSessionRequest, 'id'>) => BreathingSessionRequest;
+  claimPendingSession: (now?: Date) => string | undefined;
+}
+
+export const useBreathingStore = create<BreathingState>()(
+  persist(
+    (set, get) => ({
+      lastSession: null,
+      pendingSessionId: null,
+
+      logSession: (data) => {
+        const session: BreathingSessionRequest = { id: generateId(), ...data };
+        set({ lastSession: session, pendingSessionId: session.id });
+        // Queued like any other write so sessions done offline are not lost
+        useOutboxStore.getState()
+          .submit('breathingSession.create', session)
+          .catch(error => console.error('Failed to log breathing session:', error));
+        return session;
+      },
+
+      // The next emotion check takes the pending session if it was recent enough
+      claimPendingSession: (now = new Date()) => {
+        const { pendingSessionId, lastSession } = get();
+        if (!pendingSessionId || !lastSession) return undefined;
+
+        set({ pendingSessionId: null });
+        const age = now.getTime() - new Date(lastSession.completedAt).getTime();
+        return age <= COOL_DOWN_LINK_WINDOW_MS ? pendingSessionId : undefined;
+      },
+    }),
+    {
+      name: 'breathing-store',
+      partialize: (state) => ({
+        lastSession: state.lastSession,
+        pendingSessionId: state.pendingSessionId,
+      }),
+    }
+  )
+);
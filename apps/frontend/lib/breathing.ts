@@ -0,0 +1,144 @@
+// Breathing protocols for the cool-down guide, plus the audio and vibration
+// cues played as each phase begins.
+
+import { BreathingProtocolId } from './types';
+
+export type BreathingPhase = 'inhale' | 'hold' | 'exhale' | 'pause';
+
+export interface BreathingStep {
+  phase: BreathingPhase;
+  seconds: number;
+  instruction: string;
+}
+
+export interface BreathingTimings {
+  inhale: number;
+  hold: number;
+  exhale: number;
+  pause: number;
+}
+
+export interface BreathingProtocol {
+  id: BreathingProtocolId;
+  name: string;
+  description: string;
+  steps: BreathingStep[];
+}
+
+export const DEFAULT_CUSTOM_TIMINGS: BreathingTimings = { inhale: 4, hold: 2, exhale: 6, pause: 0 };
+
+export const MAX_PHASE_SECONDS = 20;
+
+// A session finished within this long before an emotion check is tied to it
+export const COOL_DOWN_LINK_WINDOW_MS = 30 * 60 * 1000;
+
+// Steps for a simple inhale/hold/exhale/pause cycle; zero-length phases are dropped
+export function stepsFromTimings(timings: BreathingTimings): BreathingStep[] {
+  const steps: BreathingStep[] = [
+    { phase: 'inhale', seconds: timings.inhale, instruction: 'Breathe in slowly...' },
+    { phase: 'hold', seconds: timings.hold, instruction: 'Hold your breath...' },
+    { phase: 'exhale', seconds: timings.exhale, instruction: 'Breathe out slowly...' },
+    { phase: 'pause', seconds: timings.pause, instruction: 'Rest...' },
+  ];
+  return steps.filter(step => step.seconds > 0);
+}
+
+export const BREATHING_PROTOCOLS: BreathingProtocol[] = [
+  {
+    id: 'relax-478',
+    name: '4-7-8 Relax',
+    description: 'Long exhale that slows the heart rate',
+    steps: stepsFromTimings({ inhale: 4, hold: 7, exhale: 8, pause: 1 }),
+  },
+  {
+    id: 'box',
+    name: 'Box Breathing',
+    description: 'Equal four-second sides for steady focus',
+    steps: stepsFromTimings({ inhale: 4, hold: 4, exhale: 4, pause: 4 }),
+  },
+  {
+    id: 'physiological-sigh',
+    name: 'Physiological Sigh',
+    description: 'Double inhale and a long sigh out to release tension fast',
+    steps: [
+      { phase: 'inhale', seconds: 2, instruction: 'Breathe in through your nose...' },
+      { phase: 'inhale', seconds: 1, instruction: 'Top up with a second short inhale...' },
+      { phase: 'exhale', seconds: 6, instruction: 'Long sigh out through your mouth...' },
+    ],
+  },
+  {
+    id: 'custom',
+    name: 'Custom',
+    description: 'Your own timings',
+    steps: stepsFromTimings(DEFAULT_CUSTOM_TIMINGS),
+  },
+];
+
+export function getBreathingProtocol(id: BreathingProtocolId, custom: BreathingTimings = DEFAULT_CUSTOM_TIMINGS): BreathingProtocol {
+  const protocol = BREATHING_PROTOCOLS.find(p => p.id === id) || BREATHING_PROTOCOLS[0];
+  if (protocol.id !== 'custom') return protocol;
+
+  const steps = stepsFromTimings(custom);
+  return { ...protocol, steps: steps.length > 0 ? steps : stepsFromTimings(DEFAULT_CUSTOM_TIMINGS) };
+}
+
+export function getCycleSeconds(steps: BreathingStep[]): number {
+  return steps.reduce((total, step) => total + step.seconds, 0);
+}
+
+/** Step index and progress (0-1) through it at `elapsed` seconds into the exercise. */
+export function getStepAt(steps: BreathingStep[], elapsed: number): { index: number; progress: number } {
+  const cycle = getCycleSeconds(steps);
+  let position = cycle > 0 ? elapsed % cycle : 0;
+  for (let i = 0; i < steps.length; i++) {
+    if (position < steps[i].seconds) return { index: i, progress: position / steps[i].seconds };
+    position -= steps[i].seconds;
+  }
+  return { index: 0, progress: 0 };
+}
+
+// Rising tone to breathe in, falling to breathe out, a soft low note to hold
+const CUE_FREQUENCIES: Record<BreathingPhase, number> = {
+  inhale: 528,
+  hold: 396,
+  exhale: 330,
+  pause: 264,
+};
+
+const CUE_VIBRATIONS: Record<BreathingPhase, number[]> = {
+  inhale: [80],
+  hold: [40, 60, 40],
+  exhale: [200],
+  pause: [20],
+};
+
+let audioContext: AudioContext | null = null;
+
+export function playAudioCue(phase: BreathingPhase): void {
+  if (typeof window === 'undefined') return;
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  if (!AudioContextClass) return;
+
+  try {
+    audioContext = audioContext || new AudioContextClass();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    const start = audioContext.currentTime;
+
+    oscillator.frequency.value = CUE_FREQUENCIES[phase];
+    gain.gain.setValueAtTime(0.15, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.4);
+    oscillator.connect(gain);
+    gain.connect(audioContext.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.4);
+  } catch {
+    // Autoplay policies can refuse audio; the visual guide still works
+  }
+}
+
+export function playHapticCue(phase: BreathingPhase): void {
+  if (typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function') {
+    navigator.vibrate(CUE_VIBRATIONS[phase]);
+  }
+}
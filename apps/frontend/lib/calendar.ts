@@ -0,0 +1,128 @@
+// Calendar days and weeks in the user's timezone. Days are handled as
+// YYYY-MM-DD keys so arithmetic never depends on the device timezone or DST.
+
+export type WeekStartDay = 0 | 1 | 2 | 3 | 4 | 5 | 6; // 0 = Sunday, matching Date#getDay
+
+export interface WeekOptions {
+  timezone?: string;
+  weekStartsOn?: WeekStartDay;
+}
+
+export interface WeekRange {
+  key: string; // ISO-8601 week label, e.g. 2026-W42
+  start: string; // First day of the week (YYYY-MM-DD)
+  end: string; // Last day of the week (YYYY-MM-DD)
+}
+
+export const DEFAULT_WEEK_START: WeekStartDay = 1;
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dayFormatters: Record<string, Intl.DateTimeFormat> = {};
+
+export function getDeviceTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Unknown or missing zones fall back to the device zone rather than throwing
+export function resolveTimezone(timezone?: string | null): string {
+  return timezone && isValidTimezone(timezone) ? timezone : getDeviceTimezone();
+}
+
+function getDayFormatter(timeZone: string): Intl.DateTimeFormat {
+  if (!dayFormatters[timeZone]) {
+    dayFormatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    });
+  }
+  return dayFormatters[timeZone];
+}
+
+function isDayKey(value: Date | string): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) that an instant falls on in the given timezone.
+ * Bare day keys such as a reflection's `weekStartDate` are returned unchanged.
+ */
+export function getDayKey(value: Date | string, timezone?: string): string {
+  if (isDayKey(value)) return value;
+  const parts = getDayFormatter(resolveTimezone(timezone)).formatToParts(new Date(value));
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+// Day keys map onto UTC midnights so day differences are immune to DST shifts
+export function dayNumber(dayKey: string): number {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+export function addDays(dayKey: string, days: number): string {
+  return new Date((dayNumber(dayKey) + days) * DAY_MS).toISOString().slice(0, 10);
+}
+
+// 0 = Sunday
+export function getWeekday(dayKey: string): number {
+  return new Date(dayNumber(dayKey) * DAY_MS).getUTCDay();
+}
+
+// Local-midnight Date for a day key, for display with toLocaleDateString
+export function dayKeyToDate(dayKey: string): Date {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/** ISO-8601 week (Monday start, week 1 contains the first Thursday) of a day. */
+export function getIsoWeekKey(dayKey: string): string {
+  const isoWeekday = (getWeekday(dayKey) + 6) % 7; // Monday = 0
+  const thursday = addDays(dayKey, 3 - isoWeekday);
+  const year = Number(thursday.slice(0, 4));
+  const week = Math.floor((dayNumber(thursday) - dayNumber(`${year}-01-01`)) / 7) + 1;
+  return `${year}-W${week.toString().padStart(2, '0')}`;
+}
+
+export function getWeekStartKey(value: Date | string, options: WeekOptions = {}): string {
+  const day = getDayKey(value, options.timezone);
+  const weekStartsOn = options.weekStartsOn ?? DEFAULT_WEEK_START;
+  return addDays(day, -((getWeekday(day) - weekStartsOn + 7) % 7));
+}
+
+/**
+ * Week containing `value`. Weeks may start on any day; each is labelled with
+ * the ISO week of the Monday it contains so keys stay unique and comparable.
+ */
+export function getWeekRange(value: Date | string, options: WeekOptions = {}): WeekRange {
+  const start = getWeekStartKey(value, options);
+  const weekStartsOn = options.weekStartsOn ?? DEFAULT_WEEK_START;
+  const monday = addDays(start, (1 - weekStartsOn + 7) % 7);
+  return { key: getIsoWeekKey(monday), start, end: addDays(start, 6) };
+}
+
+export function getWeekKey(value: Date | string, options: WeekOptions = {}): string {
+  return getWeekRange(value, options).key;
+}
+
+export function isLastDayOfWeek(value: Date | string, options: WeekOptions = {}): boolean {
+  return getDayKey(value, options.timezone) === getWeekRange(value, options).end;
+}
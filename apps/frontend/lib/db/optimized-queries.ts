@@ -2,6 +2,7 @@ import { db } from './db';
 import { emotionEntries, tradeEntries } from './schema';
 import { and, eq, gte, lte, desc, asc, sql, count } from 'drizzle-orm';
 import { startOfDay, endOfDay, subDays, subWeeks, subMonths } from 'date-fns';
+import { calculateStreaks, StreakOptions } from '../analytics/streaks';
 
 // Cache for frequently accessed data
 const queryCache = new Map<string, { data: any; timestamp: number; ttl: number }>();
@@ -97,53 +98,26 @@ export const emotionQueries = {
       15 * 60 * 1000 // 15 minute cache for stats
     ),
 
-  // Get streak count with optimized consecutive day calculation
-  getStreakCount: (userId: string) => 
+  // Get the user's check-in streaks, bucketed into days in their timezone.
+  // Raw timestamps are read because SQL DATE() would use the server's timezone,
+  // and the whole history is needed for the best streak.
+  getStreakSummary: (userId: string, options: StreakOptions = {}) =>
     getCachedQuery(
-      `streak-${userId}`,
+      `streak-${userId}-${options.timezone || 'default'}-${options.graceDays ?? 0}`,
       async () => {
-        // Get unique dates with emotion entries, ordered by date desc
-        const dailyEntries = await db
-          .select({
-            date: sql<string>`DATE(${emotionEntries.createdAt})`
-          })
+        const entries = await db
+          .select({ createdAt: emotionEntries.createdAt })
           .from(emotionEntries)
           .where(eq(emotionEntries.userId, userId))
-          .groupBy(sql`DATE(${emotionEntries.createdAt})`)
-          .orderBy(desc(sql`DATE(${emotionEntries.createdAt})`))
-          .limit(365); // Only check last year for performance
-
-        if (dailyEntries.length === 0) return 0;
-
-        let streak = 0;
-        const today = new Date();
-        const yesterday = subDays(today, 1);
-        
-        // Check if there's an entry today or yesterday
-        const latestDate = new Date(dailyEntries[0].date);
-        if (
-          latestDate.toDateString() !== today.toDateString() && 
-          latestDate.toDateString() !== yesterday.toDateString()
-        ) {
-          return 0;
-        }
-
-        // Calculate consecutive days
-        let expectedDate = latestDate;
-        for (const entry of dailyEntries) {
-          const entryDate = new Date(entry.date);
-          if (entryDate.toDateString() === expectedDate.toDateString()) {
-            streak++;
-            expectedDate = subDays(expectedDate, 1);
-          } else {
-            break;
-          }
-        }
-
-        return streak;
+          .orderBy(desc(emotionEntries.createdAt));
+
+        return calculateStreaks(entries.map((entry: { createdAt: Date }) => entry.createdAt), options);
       },
       2 * 60 * 1000 // 2 minute cache for streaks
     ),
+
+  getStreakCount: (userId: string, options: StreakOptions = {}) =>
+    emotionQueries.getStreakSummary(userId, options).then(summary => summary.current),
 };
 
 // Optimized trade queries
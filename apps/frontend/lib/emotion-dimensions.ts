@@ -0,0 +1,101 @@
+import { EmotionCheck, EmotionDimensions, NamedEmotion } from './types';
+
+export const NAMED_EMOTIONS: { value: NamedEmotion; label: string; description: string }[] = [
+  { value: 'fear', label: 'Fear', description: 'Worried about losing or being wrong' },
+  { value: 'greed', label: 'Greed', description: 'Wanting more than the plan allows' },
+  { value: 'fomo', label: 'FOMO', description: 'Afraid of missing the move' },
+  { value: 'revenge', label: 'Revenge', description: 'Wanting to win back a loss' },
+  { value: 'boredom', label: 'Boredom', description: 'Trading for something to do' },
+];
+
+export type ScaleDimension = 'confidence' | 'focus' | 'physicalTension';
+
+export const SCALE_DIMENSIONS: { key: ScaleDimension; label: string; low: string; high: string }[] = [
+  { key: 'confidence', label: 'Confidence', low: 'Unsure', high: 'Certain' },
+  { key: 'focus', label: 'Focus', low: 'Scattered', high: 'Locked in' },
+  { key: 'physicalTension', label: 'Physical tension', low: 'Relaxed', high: 'Tense' },
+];
+
+export const MAX_SLEEP_HOURS = 24;
+
+// Below this many hours of sleep a check counts as short on rest
+export const SHORT_SLEEP_HOURS = 6;
+
+export type DimensionBand = 'low' | 'mid' | 'high';
+export type SleepBand = 'short' | 'rested';
+
+export const DIMENSION_BANDS: { value: DimensionBand; label: string }[] = [
+  { value: 'low', label: 'Low (1-3)' },
+  { value: 'mid', label: 'Mid (4-7)' },
+  { value: 'high', label: 'High (8-10)' },
+];
+
+export const SLEEP_BANDS: { value: SleepBand; label: string }[] = [
+  { value: 'short', label: `Under ${SHORT_SLEEP_HOURS}h` },
+  { value: 'rested', label: `${SHORT_SLEEP_HOURS}h or more` },
+];
+
+// Narrows pattern analysis to checks matching every set dimension
+export interface EmotionDimensionFilter {
+  emotion?: NamedEmotion;
+  confidence?: DimensionBand;
+  focus?: DimensionBand;
+  physicalTension?: DimensionBand;
+  sleep?: SleepBand;
+}
+
+export function getNamedEmotionLabel(emotion: NamedEmotion): string {
+  return NAMED_EMOTIONS.find(option => option.value === emotion)?.label || emotion;
+}
+
+export function getDimensionBand(value: number): DimensionBand {
+  if (value <= 3) return 'low';
+  if (value <= 7) return 'mid';
+  return 'high';
+}
+
+export function hasDimensions(dimensions: EmotionDimensions): boolean {
+  return (dimensions.emotions?.length ?? 0) > 0 ||
+    dimensions.confidence !== undefined ||
+    dimensions.focus !== undefined ||
+    dimensions.sleepHours !== undefined ||
+    dimensions.physicalTension !== undefined;
+}
+
+export function isDimensionFilterActive(filter: EmotionDimensionFilter): boolean {
+  return Object.keys(filter).some(key => filter[key as keyof EmotionDimensionFilter] !== undefined);
+}
+
+// Checks that did not record a filtered dimension never match it
+export function matchesDimensionFilter(check: EmotionCheck, filter: EmotionDimensionFilter): boolean {
+  if (filter.emotion && !(check.emotions || []).includes(filter.emotion)) return false;
+
+  const scales: ScaleDimension[] = ['confidence', 'focus', 'physicalTension'];
+  for (const key of scales) {
+    const band = filter[key];
+    if (!band) continue;
+    const value = check[key];
+    if (value === undefined || value === null || getDimensionBand(value) !== band) return false;
+  }
+
+  if (filter.sleep) {
+    if (check.sleepHours === undefined || check.sleepHours === null) return false;
+    const band: SleepBand = check.sleepHours < SHORT_SLEEP_HOURS ? 'short' : 'rested';
+    if (band !== filter.sleep) return false;
+  }
+
+  return true;
+}
+
+// Short labels for the dimensions recorded on a check, e.g. for list rows
+export function describeDimensions(dimensions: EmotionDimensions): string[] {
+  const parts = (dimensions.emotions || []).map(getNamedEmotionLabel);
+  SCALE_DIMENSIONS.forEach(({ key, label }) => {
+    const value = dimensions[key];
+    if (value !== undefined && value !== null) parts.push(`${label} ${value}/10`);
+  });
+  if (dimensions.sleepHours !== undefined && dimensions.sleepHours !== null) {
+    parts.push(`${dimensions.sleepHours}h sleep`);
+  }
+  return parts;
+}
@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The persisted stores look for localStorage when they're created
+vi.hoisted(() => {
+  const items: Record<string, string> = {};
+  (globalThis as any).localStorage = {
+    getItem: (key: string) => (key in items ? items[key] : null),
+    setItem: (key: string, value: string) => { items[key] = value; },
+    removeItem: (key: string) => { delete items[key]; },
+  };
+});
+
+vi.mock('./api-client', () => ({
+  apiClient: { getEmotionChecks: vi.fn() },
+}));
+
+import { apiClient } from './api-client';
+import { getDayKey } from './calendar';
+import { useEmotionStore } from './emotion-store';
+import { EmotionCheck } from './types';
+
+const getEmotionChecks = vi.mocked(apiClient.getEmotionChecks);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function checkDaysAgo(days: number): EmotionCheck {
+  return {
+    id: `check-${days}`,
+    userId: 'user-1',
+    level: 5,
+    context: 'pre-trade',
+    timestamp: new Date(Date.now() - days * DAY_MS),
+  };
+}
+
+describe('streak sync', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    useEmotionStore.setState({ checkInDays: [], streakCount: 0, bestStreak: 0, totalChecks: 0 });
+  });
+
+  it('rebuilds the streak from the server after a fresh sign-in', async () => {
+    getEmotionChecks.mockResolvedValue([checkDaysAgo(0), checkDaysAgo(1), checkDaysAgo(2)]);
+
+    await useEmotionStore.getState().syncStreakWithServer();
+
+    const state = useEmotionStore.getState();
+    expect(state.streakCount).toBe(3);
+    expect(state.bestStreak).toBe(3);
+    expect(state.totalChecks).toBe(3);
+    expect(state.checkInDays).toHaveLength(3);
+  });
+
+  it('keeps days whose checks are still queued on this device', async () => {
+    useEmotionStore.setState({ checkInDays: [getDayKey(new Date())], totalChecks: 1 });
+    getEmotionChecks.mockResolvedValue([checkDaysAgo(1), checkDaysAgo(2)]);
+
+    await useEmotionStore.getState().syncStreakWithServer();
+
+    expect(useEmotionStore.getState().streakCount).toBe(3);
+    expect(useEmotionStore.getState().totalChecks).toBe(2);
+  });
+
+  it('leaves the local streak alone when the history cannot be loaded', async () => {
+    const today = getDayKey(new Date());
+    useEmotionStore.setState({ checkInDays: [today], streakCount: 1, bestStreak: 4 });
+    getEmotionChecks.mockRejectedValue(new Error('offline'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await useEmotionStore.getState().syncStreakWithServer();
+
+    expect(useEmotionStore.getState()).toMatchObject({ checkInDays: [today], streakCount: 1, bestStreak: 4 });
+  });
+});
@@ -1,31 +1,39 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { EmotionState, EmotionCheck, EmotionCheckRequest } from './types';
-import { apiClient } from './api-client';
+import { EmotionState, EmotionCheck, EmotionCheckRequest, EmotionDimensions } from './types';
+import { useOutboxStore } from './outbox-store';
+import { useBreathingStore } from './breathing-store';
+import { emotionCheckRequestSchema, validateInput } from './security/input-validation';
+import { useAuthStore } from './auth-store';
+import { useSettingsStore } from './settings-store';
+import { getReachedMilestone, pruneDayKeys, StreakMilestone, summarizeDayKeys } from './analytics/streaks';
+import { fetchAllEmotionChecks } from './analytics/pattern-analytics';
+import { addDays, getDayKey } from './calendar';
 
 export type EmotionContext = 'pre-trade' | 'post-trade' | 'market-event';
 
-interface EmotionEntry {
-  id: string;
+// Shape of the offline queue persisted by version 0 of this store
+interface LegacyPendingEntry {
   level: number;
   context: EmotionContext;
   symbol?: string;
   notes?: string;
-  timestamp: Date;
-  synced: boolean;
 }
 
+// Check-in days older than this are dropped unless the current streak still
+// reaches them; bestStreak keeps the record once its days are gone
+const MAX_CHECK_IN_DAYS = 400;
+
 interface EnhancedEmotionState extends EmotionState {
   // Streak and history
+  checkInDays: string[]; // YYYY-MM-DD in the user's timezone
   streakCount: number;
-  lastCheckDate: string | null;
+  bestStreak: number;
   totalChecks: number;
   
-  // Offline queue
-  pendingEntries: EmotionEntry[];
-  
   // UI state
   showCelebration: boolean;
+  celebrationMilestone: StreakMilestone | null;
   isOnline: boolean;
 }
 
@@ -34,19 +42,15 @@ interface EmotionStore extends EnhancedEmotionState {
   setContext: (context: EmotionContext) => void;
   setNotes: (notes: string) => void;
   setSymbol: (symbol: string) => void;
+  setDimensions: (dimensions: Partial<EmotionDimensions>) => void;
   setSubmitting: (isSubmitting: boolean) => void;
   setOnlineStatus: (isOnline: boolean) => void;
   
-  // Entry management
-  addPendingEntry: (entry: Omit<EmotionEntry, 'id' | 'timestamp' | 'synced'>) => void;
-  markEntrySynced: (id: string) => void;
-  removePendingEntry: (id: string) => void;
-  getPendingEntries: () => EmotionEntry[];
-  
   // Streak management
   incrementStreak: () => void;
+  refreshStreak: () => void;
+  syncStreakWithServer: () => Promise<void>;
   resetStreak: () => void;
-  updateLastCheckDate: () => void;
   shouldShowCelebration: () => boolean;
   setCelebration: (show: boolean) => void;
   
@@ -54,9 +58,8 @@ interface EmotionStore extends EnhancedEmotionState {
   reset: () => void;
   canSubmit: () => boolean;
   
-  // API sync methods
-  submitEmotionCheck: () => Promise<void>;
-  syncPendingEntries: () => Promise<void>;
+  // Sends the check, or queues it in the outbox; resolves true when queued
+  submitEmotionCheck: () => Promise<boolean>;
 }
 
 const initialState: EnhancedEmotionState = {
@@ -64,21 +67,29 @@ const initialState: EnhancedEmotionState = {
   selectedContext: 'pre-trade',
   notes: '',
   symbol: '',
+  dimensions: {},
   isSubmitting: false,
   
   // Streak data
+  checkInDays: [],
   streakCount: 0,
-  lastCheckDate: null,
+  bestStreak: 0,
   totalChecks: 0,
   
-  // Offline queue
-  pendingEntries: [],
-  
   // UI state
   showCelebration: false,
+  celebrationMilestone: null,
   isOnline: true,
 };
 
+// Streaks follow the profile timezone and the configured grace days
+function getStreakContext(now: Date = new Date()) {
+  return {
+    todayKey: getDayKey(now, useAuthStore.getState().user?.timezone),
+    graceDays: useSettingsStore.getState().streakGraceDays,
+  };
+}
+
 export const useEmotionStore = create<EmotionStore>()(
   persist(
     (set, get) => ({
@@ -89,72 +100,74 @@ export const useEmotionStore = create<EmotionStore>()(
       setContext: (context: EmotionContext) => set({ selectedContext: context }),
       setNotes: (notes: string) => set({ notes }),
       setSymbol: (symbol: string) => set({ symbol }),
+      setDimensions: (dimensions: Partial<EmotionDimensions>) => set(state => ({
+        dimensions: { ...state.dimensions, ...dimensions },
+      })),
       setSubmitting: (isSubmitting: boolean) => set({ isSubmitting }),
       setOnlineStatus: (isOnline: boolean) => set({ isOnline }),
       
-      // Entry management
-      addPendingEntry: (entry) => {
-        const newEntry: EmotionEntry = {
-          ...entry,
-          id: `offline-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          timestamp: new Date(),
-          synced: false,
-        };
-        set((state) => ({
-          pendingEntries: [...state.pendingEntries, newEntry],
-        }));
-      },
-      
-      markEntrySynced: (id) => {
-        set((state) => ({
-          pendingEntries: state.pendingEntries.filter(entry => entry.id !== id),
-        }));
-      },
-      
-      removePendingEntry: (id) => {
-        set((state) => ({
-          pendingEntries: state.pendingEntries.filter(entry => entry.id !== id),
-        }));
-      },
-      
-      getPendingEntries: () => get().pendingEntries,
-      
       // Streak management
       incrementStreak: () => {
         const state = get();
-        const today = new Date().toDateString();
-        const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toDateString();
-        
-        let newStreakCount = state.streakCount;
-        
-        // Check if this is a new day
-        if (state.lastCheckDate !== today) {
-          if (state.lastCheckDate === yesterday) {
-            // Consecutive day - increment streak
-            newStreakCount = state.streakCount + 1;
-          } else if (state.lastCheckDate === null || state.lastCheckDate !== yesterday) {
-            // First check or broken streak - start new streak
-            newStreakCount = 1;
-          }
-        }
-        
-        // Check for celebration milestones (7, 30, 100 days)
-        const shouldCelebrate = [7, 30, 100].includes(newStreakCount);
+        const { todayKey, graceDays } = getStreakContext();
+        const previous = summarizeDayKeys(state.checkInDays, todayKey, graceDays);
+
+        const checkInDays = pruneDayKeys(state.checkInDays.concat(todayKey), todayKey, MAX_CHECK_IN_DAYS, graceDays);
+        const next = summarizeDayKeys(checkInDays, todayKey, graceDays);
+
+        // Celebrate only the check-in that crosses a milestone
+        const milestone = getReachedMilestone(previous.current, next.current);
         
         set({
-          streakCount: newStreakCount,
+          checkInDays,
+          streakCount: next.current,
+          bestStreak: Math.max(state.bestStreak, next.best),
           totalChecks: state.totalChecks + 1,
-          lastCheckDate: today,
-          showCelebration: shouldCelebrate,
+          showCelebration: !!milestone,
+          celebrationMilestone: milestone,
+        });
+      },
+
+      // Streaks lapse while the app is closed, so recompute against today
+      refreshStreak: () => {
+        const state = get();
+        const { todayKey, graceDays } = getStreakContext();
+        const summary = summarizeDayKeys(state.checkInDays, todayKey, graceDays);
+        set({
+          streakCount: summary.current,
+          bestStreak: Math.max(state.bestStreak, summary.best),
         });
       },
       
-      resetStreak: () => set({ streakCount: 0 }),
-      
-      updateLastCheckDate: () => {
-        const today = new Date().toDateString();
-        set({ lastCheckDate: today });
+      /**
+       * Rebuilds the check-in days from the user's emotion checks on the
+       * server, so the streak survives sign-out and carries across devices.
+       * Days on this device are kept too: their checks may still be queued.
+       */
+      syncStreakWithServer: async () => {
+        try {
+          const checks = await fetchAllEmotionChecks();
+          const state = get();
+          const { todayKey, graceDays } = getStreakContext();
+          const timezone = useAuthStore.getState().user?.timezone;
+
+          const days: Record<string, boolean> = {};
+          state.checkInDays.forEach(day => { days[day] = true; });
+          checks.forEach(check => { days[getDayKey(check.timestamp, timezone)] = true; });
+          const checkInDays = pruneDayKeys(Object.keys(days), todayKey, MAX_CHECK_IN_DAYS, graceDays);
+          const summary = summarizeDayKeys(checkInDays, todayKey, graceDays);
+          set({
+            checkInDays,
+            streakCount: summary.current,
+            bestStreak: Math.max(state.bestStreak, summary.best),
+            totalChecks: Math.max(state.totalChecks, checks.length),
+          });
+        } catch (error) {
+          console.error('Failed to load check-in history:', error);
+        }
       },
+
+      resetStreak: () => set({ checkInDays: [], streakCount: 0 }),
       
       shouldShowCelebration: () => get().showCelebration,
       
@@ -166,6 +179,7 @@ export const useEmotionStore = create<EmotionStore>()(
         selectedContext: 'pre-trade',
         notes: '',
         symbol: '',
+        dimensions: {},
         isSubmitting: false,
       }),
       
@@ -185,86 +199,79 @@ export const useEmotionStore = create<EmotionStore>()(
         set({ isSubmitting: true });
         
         try {
-          const emotionData: EmotionCheckRequest = {
+          const { emotions, ...scales } = state.dimensions;
+          // Throws a ValidationError the page maps back onto its fields
+          const emotionData: EmotionCheckRequest = validateInput(emotionCheckRequestSchema, {
             level: state.currentLevel,
             context: state.selectedContext,
             notes: state.notes || undefined,
             symbol: state.symbol || undefined,
-          };
+            ...scales,
+            emotions: emotions && emotions.length > 0 ? emotions : undefined,
+            // Ties a cool-down finished just before this check to it
+            breathingSessionId: useBreathingStore.getState().claimPendingSession(),
+          });
           
-          if (state.isOnline) {
-            // Submit directly to API
-            await apiClient.createEmotionCheck(emotionData);
-            
-            // Update streak and stats
-            get().incrementStreak();
-            get().updateLastCheckDate();
-            
-            // Reset form
-            get().reset();
-          } else {
-            // Add to pending queue for later sync
-            get().addPendingEntry(emotionData);
-            
-            // Still update streak and stats locally
-            get().incrementStreak();
-            get().updateLastCheckDate();
-            
-            // Reset form
-            get().reset();
-          }
-        } catch (error) {
-          // If online but API fails, add to pending queue
-          if (state.isOnline) {
-            get().addPendingEntry({
-              level: state.currentLevel,
-              context: state.selectedContext,
-              notes: state.notes || undefined,
-              symbol: state.symbol || undefined,
-            });
-          }
-          throw error;
+          // Offline or transient failures land in the outbox and replay later
+          const result = await useOutboxStore.getState().submit('emotionCheck.create', emotionData);
+          
+          // Update streak and stats whether or not the check reached the server yet
+          get().incrementStreak();
+          
+          // Reset form
+          get().reset();
+          return result.queued;
         } finally {
           set({ isSubmitting: false });
         }
       },
-      
-      syncPendingEntries: async () => {
-        const state = get();
-        
-        if (!state.isOnline || state.pendingEntries.length === 0) {
-          return;
-        }
-        
-        const entries = [...state.pendingEntries];
-        
-        try {
-          // Submit all pending entries
-          for (const entry of entries) {
-            await apiClient.createEmotionCheck({
+    }),
+    {
+      name: 'emotion-store',
+      partialize: (state) => ({
+        checkInDays: state.checkInDays,
+        streakCount: state.streakCount,
+        bestStreak: state.bestStreak,
+        totalChecks: state.totalChecks,
+      }),
+      version: 2,
+      migrate: (persisted: any, version) => {
+        // Version 0 kept its own offline queue; hand those entries to the shared outbox
+        if (version === 0 && Array.isArray(persisted?.pendingEntries)) {
+          const { enqueue } = useOutboxStore.getState();
+          (persisted.pendingEntries as LegacyPendingEntry[]).forEach(entry => {
+            enqueue('emotionCheck.create', {
               level: entry.level,
               context: entry.context,
               notes: entry.notes,
               symbol: entry.symbol,
             });
-            
-            // Mark as synced
-            get().markEntrySynced(entry.id);
+          });
+          delete persisted.pendingEntries;
+        }
+
+        // Versions before 2 stored only the streak length and a local toDateString() day;
+        // rebuild the run of check-in days that produced it
+        if (version < 2) {
+          const lastCheck = persisted?.lastCheckDate ? new Date(persisted.lastCheckDate) : null;
+          const streak = persisted?.streakCount || 0;
+          const checkInDays: string[] = [];
+          if (lastCheck && !isNaN(lastCheck.getTime())) {
+            const lastKey = [
+              lastCheck.getFullYear(),
+              String(lastCheck.getMonth() + 1).padStart(2, '0'),
+              String(lastCheck.getDate()).padStart(2, '0'),
+            ].join('-');
+            for (let offset = Math.max(streak, 1) - 1; offset >= 0; offset--) {
+              checkInDays.push(addDays(lastKey, -offset));
+            }
           }
-        } catch (error) {
-          console.error('Failed to sync pending entries:', error);
-          // Keep entries in queue for next attempt
+          persisted.checkInDays = checkInDays;
+          persisted.bestStreak = streak;
+          delete persisted.lastCheckDate;
         }
+        return persisted;
       },
-    }),
-    {
-      name: 'emotion-store',
-      partialize: (state) => ({
-        streakCount: state.streakCount,
-        lastCheckDate: state.lastCheckDate,
-        totalChecks: state.totalChecks,
-        pendingEntries: state.pendingEntries,
-      }),
     }
   )
 );
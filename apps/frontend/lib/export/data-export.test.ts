@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './data-export';
+
+describe('toCsv', () => {
+  it('turns cells that spreadsheets would run as formulas into text', () => {
+    const csv = toCsv(['notes'], [
+      { notes: '=HYPERLINK("http://evil.example","click")' },
+      { notes: '+1+cmd|\' /C calc\'!A0' },
+      { notes: '-2+3' },
+      { notes: '@SUM(A1:A2)' },
+    ]);
+
+    expect(csv.split('\r\n').slice(1, 5)).toEqual([
+      '"\'=HYPERLINK(""http://evil.example"",""click"")"',
+      '\'+1+cmd|\' /C calc\'!A0',
+      '\'-2+3',
+      '\'@SUM(A1:A2)',
+    ]);
+  });
+
+  it('leaves negative numbers as numbers', () => {
+    const csv = toCsv(['pnl', 'returnPercent'], [{ pnl: -12.5, returnPercent: '-3.20' }]);
+    expect(csv).toBe('pnl,returnPercent\r\n-12.5,-3.20\r\n');
+  });
+});
@@ -0,0 +1,520 @@
+import { z } from 'zod';
+import { apiClient } from '@/lib/api-client';
+import { fetchAllPages } from '@/lib/analytics/pattern-analytics';
+import { getGoalMonth } from '@/lib/analytics/goal-progress';
+import { dayKeyToDate, getWeekKey, getWeekRange, WeekOptions, WeekRange } from '@/lib/calendar';
+import { getWeekOptions } from '@/lib/settings-store';
+import { batchCreateTrades, isDuplicateTrade } from '@/lib/import/trade-import';
+import { getTradeMetrics, getTradeTime } from '@/lib/trade-metrics';
+import { EmotionCheck, MonthlyGoal, Trade, TradeRequest, WeeklyReflection } from '@/lib/types';
+import { formatCurrency, getEmotionLabel } from '@/lib/utils';
+import { WeeklyPrompt, useWeeklyPromptStore } from '@/lib/weekly-prompt-store';
+import { useOutboxStore } from '@/lib/outbox-store';
+import { ZipEntry, createZip } from './zip';
+
+export const EXPORT_FORMAT = 'tradementor-export';
+export const EXPORT_FORMAT_VERSION = 1;
+
+// The list endpoints for reflections and goals are not paged, so ask for years' worth
+const REFLECTION_EXPORT_LIMIT = 520;
+const GOAL_EXPORT_LIMIT = 240;
+
+export interface DataExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  emotionChecks: EmotionCheck[];
+  trades: Trade[];
+  weeklyReflections: WeeklyReflection[];
+  monthlyGoals: MonthlyGoal[];
+  weeklyPrompts: WeeklyPrompt[];
+}
+
+export interface RestoreResult {
+  trades: { created: number; skipped: number; failed: number };
+  weeklyReflections: { created: number; skipped: number; failed: number };
+  monthlyGoals: { created: number; skipped: number; failed: number };
+  weeklyPrompts: { merged: number };
+  // Check-ins are timestamped by the server on creation, so they cannot be restored faithfully
+  emotionChecksSkipped: number;
+}
+
+// Exports and restores page through the whole history, past the cap the screens use
+function fetchEveryEmotionCheck(): Promise<EmotionCheck[]> {
+  return fetchAllPages((limit, offset) => apiClient.getEmotionChecks(limit, offset), Infinity);
+}
+
+function fetchEveryTrade(): Promise<Trade[]> {
+  return fetchAllPages((limit, offset) => apiClient.getTrades(limit, offset), Infinity);
+}
+
+export async function collectExportData(): Promise<DataExport> {
+  const [emotionChecks, trades, weeklyReflections, monthlyGoals] = await Promise.all([
+    fetchEveryEmotionCheck(),
+    fetchEveryTrade(),
+    apiClient.getWeeklyReflections(REFLECTION_EXPORT_LIMIT),
+    apiClient.getMonthlyGoals(GOAL_EXPORT_LIMIT),
+  ]);
+
+  // Pull server-side answers into the prompt store first; skipped prompts carry no answer
+  await useWeeklyPromptStore.getState().syncWithServer();
+  const weeklyPrompts = useWeeklyPromptStore
+    .getState()
+    .answeredPrompts.filter(prompt => prompt.isAnswered && !!prompt.answer);
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    emotionChecks,
+    trades,
+    weeklyReflections,
+    monthlyGoals,
+    weeklyPrompts,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+
+function toIsoString(value: Date | string | undefined | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? '' : date.toISOString();
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  // A leading quote makes the cell plain text; plain numbers such as -12.50 stay numbers
+  if (FORMULA_PREFIX.test(text) && isNaN(Number(text))) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(columns: string[], rows: Record<string, unknown>[]): string {
+  const lines = [columns.map(escapeCsvValue).join(',')];
+  rows.forEach(row => lines.push(columns.map(column => escapeCsvValue(row[column])).join(',')));
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function buildCsvEntries(data: DataExport): ZipEntry[] {
+  return [
+    {
+      name: 'emotion-checks.csv',
+      content: toCsv(
+        ['id', 'timestamp', 'level', 'context', 'symbol', 'notes', 'emotions', 'confidence', 'focus',
+          'sleepHours', 'physicalTension', 'breathingSessionId'],
+        data.emotionChecks.map(check => ({
+          ...check,
+          timestamp: toIsoString(check.timestamp),
+          emotions: check.emotions?.join(';'),
+        }))
+      ),
+    },
+    {
+      name: 'trades.csv',
+      content: toCsv(
+        ['id', 'symbol', 'type', 'outcome', 'pnl', 'entryPrice', 'exitPrice', 'quantity', 'fees', 'stopLoss',
+          'entryTime', 'exitTime', 'timestamp', 'returnPercent', 'rMultiple', 'emotionCheckId', 'setupTag', 'mistakeTags'],
+        data.trades.map(trade => {
+          const metrics = getTradeMetrics(trade);
+          return {
+            ...trade,
+            pnl: metrics.pnl,
+            entryTime: toIsoString(trade.entryTime),
+            exitTime: toIsoString(trade.exitTime),
+            timestamp: toIsoString(trade.timestamp),
+            mistakeTags: trade.mistakeTags?.join(';'),
+            returnPercent: metrics.returnPercent !== null ? metrics.returnPercent.toFixed(2) : '',
+            rMultiple: metrics.rMultiple !== null ? metrics.rMultiple.toFixed(2) : '',
+          };
+        })
+      ),
+    },
+    {
+      name: 'weekly-reflections.csv',
+      content: toCsv(
+        ['id', 'weekStartDate', 'weekEndDate', 'wins', 'losses', 'lessons', 'emotionalInsights', 'nextWeekGoals',
+          'averageEmotionLevel', 'winRate', 'totalPnL', 'totalTrades', 'createdAt'],
+        data.weeklyReflections as unknown as Record<string, unknown>[]
+      ),
+    },
+    {
+      name: 'monthly-goals.csv',
+      content: toCsv(
+        ['id', 'targetMonth', 'goal', 'progress', 'isCompleted', 'createdAt', 'updatedAt'],
+        data.monthlyGoals as unknown as Record<string, unknown>[]
+      ),
+    },
+    {
+      name: 'weekly-prompts.csv',
+      content: toCsv(
+        ['id', 'week', 'question', 'answer', 'answeredAt'],
+        data.weeklyPrompts.map(prompt => ({ ...prompt, answeredAt: toIsoString(prompt.answeredAt) }))
+      ),
+    },
+  ];
+}
+
+export function buildCsvZip(data: DataExport): Blob {
+  return new Blob([createZip(buildCsvEntries(data))], { type: 'application/zip' });
+}
+
+// ---------------------------------------------------------------------------
+// JSON
+
+export function serializeDataExport(data: DataExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+const dataExportSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.number().int().min(1),
+  exportedAt: z.string(),
+  emotionChecks: z.array(z.object({ id: z.string(), level: z.number(), context: z.string() }).passthrough()),
+  trades: z.array(z.object({ id: z.string(), symbol: z.string(), type: z.enum(['buy', 'sell']) }).passthrough()),
+  weeklyReflections: z.array(z.object({ id: z.string(), weekStartDate: z.string() }).passthrough()),
+  monthlyGoals: z.array(z.object({ id: z.string(), goal: z.string(), targetMonth: z.string() }).passthrough()),
+  weeklyPrompts: z.array(z.object({ id: z.string(), week: z.string(), question: z.string() }).passthrough()).default([]),
+});
+
+/**
+ * Parses a JSON export and upgrades it to the current format version.
+ * Throws with a readable message when the file is not a TradeMentor export.
+ */
+export function parseDataExport(text: string): DataExport {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const result = dataExportSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Not a TradeMentor export (${issue.path.join('.') || 'root'}: ${issue.message})`);
+  }
+  if (result.data.version > EXPORT_FORMAT_VERSION) {
+    throw new Error(`This export was created by a newer version of TradeMentor (format v${result.data.version})`);
+  }
+
+  // Version 1 is the only format so far; future migrations go here
+  return { ...(result.data as unknown as DataExport), version: EXPORT_FORMAT_VERSION };
+}
+
+function tradeToRequest(trade: Trade): TradeRequest {
+  return {
+    symbol: trade.symbol,
+    type: trade.type,
+    outcome: trade.outcome,
+    pnl: trade.pnl ?? undefined,
+    entryPrice: trade.entryPrice ?? undefined,
+    exitPrice: trade.exitPrice ?? undefined,
+    quantity: trade.quantity ?? undefined,
+    fees: trade.fees ?? undefined,
+    stopLoss: trade.stopLoss ?? undefined,
+    // Keep the original trade time; emotion check ids do not survive a restore
+    entryTime: toIsoString(getTradeTime(trade)) || undefined,
+    exitTime: toIsoString(trade.exitTime) || undefined,
+    mistakeTags: trade.mistakeTags?.length ? trade.mistakeTags : undefined,
+    setupTag: trade.setupTag || undefined,
+  };
+}
+
+/**
+ * Re-creates exported records that are not already on the account. Existing
+ * trades are matched with the CSV import duplicate rules, reflections by week
+ * and goals by month and text, so restoring the same file twice is harmless.
+ */
+export async function restoreDataExport(
+  data: DataExport,
+  onProgress?: (message: string) => void
+): Promise<RestoreResult> {
+  const result: RestoreResult = {
+    trades: { created: 0, skipped: 0, failed: 0 },
+    weeklyReflections: { created: 0, skipped: 0, failed: 0 },
+    monthlyGoals: { created: 0, skipped: 0, failed: 0 },
+    weeklyPrompts: { merged: 0 },
+    emotionChecksSkipped: data.emotionChecks.length,
+  };
+
+  onProgress?.('Checking existing data...');
+  const [existingTrades, existingReflections, existingGoals] = await Promise.all([
+    fetchEveryTrade(),
+    apiClient.getWeeklyReflections(REFLECTION_EXPORT_LIMIT),
+    apiClient.getMonthlyGoals(GOAL_EXPORT_LIMIT),
+  ]);
+
+  const tradeRequests = data.trades.map(tradeToRequest);
+  const newTrades = tradeRequests.filter(request => !existingTrades.some(trade => isDuplicateTrade(request, trade)));
+  result.trades.skipped = tradeRequests.length - newTrades.length;
+  const tradeResult = await batchCreateTrades(newTrades, (completed, total) =>
+    onProgress?.(`Restoring trades (${completed}/${total})...`)
+  );
+  // Queued trades are created when the outbox replays them
+  result.trades.created = tradeResult.created.length + tradeResult.queued.length;
+  result.trades.failed = tradeResult.failed.length;
+
+  // weekStartDate is a calendar date; only its day part matters
+  const weekOf = (weekStartDate: string) => getWeekKey(weekStartDate.slice(0, 10), getWeekOptions());
+  const existingWeeks: Record<string, boolean> = {};
+  existingReflections.forEach(reflection => { existingWeeks[weekOf(reflection.weekStartDate)] = true; });
+  for (const reflection of data.weeklyReflections) {
+    if (existingWeeks[weekOf(reflection.weekStartDate)]) {
+      result.weeklyReflections.skipped++;
+      continue;
+    }
+    onProgress?.('Restoring weekly reflections...');
+    try {
+      await apiClient.createWeeklyReflection({
+        wins: reflection.wins,
+        losses: reflection.losses,
+        lessons: reflection.lessons,
+        emotionalInsights: reflection.emotionalInsights,
+        nextWeekGoals: reflection.nextWeekGoals,
+        weekStartDate: reflection.weekStartDate,
+      });
+      result.weeklyReflections.created++;
+    } catch {
+      result.weeklyReflections.failed++;
+    }
+  }
+
+  for (const goal of data.monthlyGoals) {
+    const exists = existingGoals.some(existing =>
+      getGoalMonth(existing) === getGoalMonth(goal) && existing.goal.trim() === goal.goal.trim()
+    );
+    if (exists) {
+      result.monthlyGoals.skipped++;
+      continue;
+    }
+    onProgress?.('Restoring monthly goals...');
+    try {
+      await apiClient.createMonthlyGoal({
+        goal: goal.goal,
+        progress: goal.progress,
+        isCompleted: goal.isCompleted,
+        targetMonth: getGoalMonth(goal),
+      });
+      result.monthlyGoals.created++;
+    } catch {
+      result.monthlyGoals.failed++;
+    }
+  }
+
+  // Merge prompt answers into the store and queue them for the server
+  const { answeredPrompts } = useWeeklyPromptStore.getState();
+  const missingPrompts = data.weeklyPrompts.filter(prompt => !answeredPrompts.some(p => p.week === prompt.week));
+  if (missingPrompts.length > 0) {
+    useWeeklyPromptStore.setState({ answeredPrompts: [...answeredPrompts, ...missingPrompts] });
+    onProgress?.('Restoring weekly prompts...');
+    for (const prompt of missingPrompts) {
+      await useOutboxStore.getState().submit('weeklyPrompt.answer', {
+        week: prompt.week,
+        question: prompt.question,
+        answer: prompt.answer,
+        skipped: !prompt.answer,
+        answeredAt: new Date(prompt.answeredAt || Date.now()).toISOString(),
+      });
+    }
+  }
+  result.weeklyPrompts.merged = missingPrompts.length;
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Printable journal
+
+interface JournalWeek {
+  range: WeekRange;
+  checks: EmotionCheck[];
+  trades: Trade[];
+  reflections: WeeklyReflection[];
+  prompts: WeeklyPrompt[];
+}
+
+function escapeHtml(value: string | undefined | null): string {
+  if (!value) return '';
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatJournalDate(value: Date | string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(value).toLocaleDateString('en-US', options);
+}
+
+function formatJournalTime(value: Date | string): string {
+  return new Date(value).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+}
+
+export function groupExportByWeek(data: DataExport, weekOptions: WeekOptions = getWeekOptions()): JournalWeek[] {
+  const weeks: Record<string, JournalWeek> = {};
+  const getWeek = (value: Date | string) => {
+    const range = getWeekRange(value, weekOptions);
+    if (!weeks[range.start]) weeks[range.start] = { range, checks: [], trades: [], reflections: [], prompts: [] };
+    return weeks[range.start];
+  };
+
+  data.emotionChecks.forEach(check => getWeek(check.timestamp).checks.push(check));
+  data.trades.forEach(trade => getWeek(getTradeTime(trade)).trades.push(trade));
+  data.weeklyReflections.forEach(reflection => getWeek(reflection.weekStartDate.slice(0, 10)).reflections.push(reflection));
+  data.weeklyPrompts
+    .filter(prompt => !!prompt.answeredAt)
+    .forEach(prompt => getWeek(prompt.answeredAt as Date).prompts.push(prompt));
+
+  const byTime = (a: Date | string, b: Date | string) => new Date(a).getTime() - new Date(b).getTime();
+  return Object.keys(weeks)
+    .sort()
+    .map(key => {
+      const week = weeks[key];
+      week.checks.sort((a, b) => byTime(a.timestamp, b.timestamp));
+      week.trades.sort((a, b) => byTime(getTradeTime(a), getTradeTime(b)));
+      return week;
+    });
+}
+
+function renderWeek(week: JournalWeek): string {
+  const start = dayKeyToDate(week.range.start);
+  const end = dayKeyToDate(week.range.end);
+
+  const pnl = week.trades.reduce((sum, trade) => sum + (getTradeMetrics(trade).pnl ?? 0), 0);
+  const wins = week.trades.filter(trade => (getTradeMetrics(trade).outcome ?? trade.outcome) === 'win').length;
+  const avgEmotion = week.checks.length > 0
+    ? week.checks.reduce((sum, check) => sum + check.level, 0) / week.checks.length
+    : null;
+
+  const summary = [
+    `${week.trades.length} trade${week.trades.length === 1 ? '' : 's'}`,
+    week.trades.length > 0 ? `${Math.round((wins / week.trades.length) * 100)}% win rate` : null,
+    week.trades.length > 0 ? `${formatCurrency(pnl)} P&amp;L` : null,
+    avgEmotion !== null ? `avg emotion ${avgEmotion.toFixed(1)}/10` : null,
+  ].filter(Boolean).join(' &middot; ');
+
+  const entries = [
+    ...week.checks.map(check => ({
+      time: new Date(check.timestamp).getTime(),
+      html: `<tr><td>${formatJournalDate(check.timestamp, { weekday: 'short', month: 'short', day: 'numeric' })} ${formatJournalTime(check.timestamp)}</td>` +
+        `<td>Emotion check</td><td>${check.level}/10 ${escapeHtml(getEmotionLabel(check.level))} &middot; ${escapeHtml(check.context)}${check.symbol ? ` &middot; ${escapeHtml(check.symbol)}` : ''}` +
+        `${check.notes ? `<div class="note">${escapeHtml(check.notes)}</div>` : ''}</td></tr>`,
+    })),
+    ...week.trades.map(trade => {
+      const time = getTradeTime(trade);
+      const metrics = getTradeMetrics(trade);
+      return {
+        time: new Date(time).getTime(),
+        html: `<tr><td>${formatJournalDate(time, { weekday: 'short', month: 'short', day: 'numeric' })} ${formatJournalTime(time)}</td>` +
+          `<td>Trade</td><td>${trade.type === 'buy' ? 'Long' : 'Short'} ${escapeHtml(trade.symbol)} &middot; ${escapeHtml(metrics.outcome ?? trade.outcome)}` +
+          `${metrics.pnl !== null ? ` &middot; ${formatCurrency(metrics.pnl)}` : ''}</td></tr>`,
+      };
+    }),
+  ].sort((a, b) => a.time - b.time);
+
+  const reflectionFields: [keyof WeeklyReflection, string][] = [
+    ['wins', 'Wins'],
+    ['losses', 'Losses'],
+    ['lessons', 'Lessons'],
+    ['emotionalInsights', 'Emotional insights'],
+    ['nextWeekGoals', 'Goals for next week'],
+  ];
+  const reflections = week.reflections.map(reflection =>
+    `<div class="reflection"><h3>Weekly reflection</h3>${reflectionFields
+      .filter(([field]) => !!reflection[field])
+      .map(([field, label]) => `<p><strong>${label}:</strong> ${escapeHtml(String(reflection[field]))}</p>`)
+      .join('')}</div>`
+  ).join('');
+
+  const prompts = week.prompts.map(prompt =>
+    `<div class="prompt"><p class="question">${escapeHtml(prompt.question)}</p><p>${escapeHtml(prompt.answer)}</p></div>`
+  ).join('');
+
+  return `<section class="week">
+<h2>Week of ${formatJournalDate(start, { month: 'long', day: 'numeric' })} &ndash; ${formatJournalDate(end, { month: 'long', day: 'numeric', year: 'numeric' })}</h2>
+<p class="summary">${summary}</p>
+${entries.length > 0 ? `<table><tbody>${entries.map(entry => entry.html).join('')}</tbody></table>` : ''}
+${reflections}${prompts}
+</section>`;
+}
+
+export function buildJournalHtml(data: DataExport): string {
+  const weeks = groupExportByWeek(data);
+  const goals = [...data.monthlyGoals].sort((a, b) => a.targetMonth.localeCompare(b.targetMonth));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>TradeMentor Journal</title>
+<style>
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1f2937; max-width: 800px; margin: 0 auto; padding: 32px; line-height: 1.5; }
+  h1 { margin-bottom: 4px; }
+  h2 { border-bottom: 1px solid #d1d5db; padding-bottom: 4px; margin-top: 32px; }
+  h3 { font-size: 1rem; margin: 16px 0 4px; }
+  .meta, .summary, .note { color: #6b7280; font-size: 0.9rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.9rem; }
+  td { border-bottom: 1px solid #f3f4f6; padding: 4px 8px 4px 0; vertical-align: top; }
+  td:first-child { white-space: nowrap; width: 1%; }
+  .question { font-style: italic; margin-bottom: 4px; }
+  .week { page-break-inside: avoid; }
+  @media print { body { padding: 0; } .week { break-before: auto; } }
+</style>
+</head>
+<body>
+<h1>TradeMentor Journal</h1>
+<p class="meta">Exported ${formatJournalDate(data.exportedAt, { year: 'numeric', month: 'long', day: 'numeric' })} &middot; ${data.trades.length} trades &middot; ${data.emotionChecks.length} emotion checks</p>
+${goals.length > 0 ? `<h2>Monthly goals</h2><ul>${goals.map(goal =>
+    `<li><strong>${escapeHtml(getGoalMonth(goal))}</strong> &ndash; ${escapeHtml(goal.goal)} (${goal.isCompleted ? 'completed' : `${goal.progress}%`})</li>`
+  ).join('')}</ul>` : ''}
+${weeks.length > 0 ? weeks.map(renderWeek).join('\n') : '<p>No journal entries yet.</p>'}
+</body>
+</html>
+`;
+}
+
+// ---------------------------------------------------------------------------
+// Browser helpers
+
+export function getExportFileName(extension: string, date: Date = new Date()): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `tradementor-export-${date.getFullYear()}-${month}-${day}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Opens the journal in a new window and triggers the print dialog. Falls back
+ * to downloading the HTML file when pop-ups are blocked.
+ */
+export function printJournal(html: string): void {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    downloadBlob(new Blob([html], { type: 'text/html' }), getExportFileName('html'));
+    return;
+  }
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
@@ -0,0 +1,65 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { ColumnMapping } from './import/trade-import';
+import { generateId } from './utils';
+
+export interface ImportPreset {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+  createdAt: string;
+}
+
+interface ImportPresetState {
+  presets: ImportPreset[];
+  savePreset: (name: string, mapping: ColumnMapping) => ImportPreset;
+  deletePreset: (id: string) => void;
+  findPresetForHeaders: (headers: string[]) => ImportPreset | undefined;
+}
+
+export const useImportPresetStore = create<ImportPresetState>()(
+  persist(
+    (set, get) => ({
+      presets: [],
+
+      savePreset: (name: string, mapping: ColumnMapping) => {
+        const trimmed = name.trim();
+        const existing = get().presets.find(p => p.name === trimmed);
+        const preset: ImportPreset = {
+          id: existing?.id || generateId(),
+          name: trimmed,
+          mapping,
+          createdAt: existing?.createdAt || new Date().toISOString(),
+        };
+
+        // Saving under an existing name overwrites that preset
+        set(state => ({
+          presets: [...state.presets.filter(p => p.id !== preset.id), preset],
+        }));
+        return preset;
+      },
+
+      deletePreset: (id: string) => {
+        set(state => ({
+          presets: state.presets.filter(p => p.id !== id),
+        }));
+      },
+
+      // First preset whose mapped columns all exist in the uploaded file
+      findPresetForHeaders: (headers: string[]) => {
+        return get().presets.find(preset => {
+          const columns = Object.keys(preset.mapping)
+            .map(field => preset.mapping[field as keyof ColumnMapping])
+            .filter((column): column is string => !!column);
+          return columns.length > 0 && columns.every(column => headers.indexOf(column) !== -1);
+        });
+      },
+    }),
+    {
+      name: 'import-preset-store',
+      partialize: (state) => ({
+        presets: state.presets,
+      }),
+    }
+  )
+);
@@ -0,0 +1,92 @@
+export interface ParsedCsv {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+// Pick the delimiter that splits the header line into the most columns
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/)[0] || '';
+  let best = ',';
+  let bestCount = 0;
+
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * RFC 4180 style parser: quoted fields, escaped quotes ("") and
+ * newlines inside quotes are supported.
+ */
+export function parseCsvRecords(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark, common in spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Drop blank lines
+  return records.filter(r => r.some(value => value.trim() !== ''));
+}
+
+export function parseCsv(text: string): ParsedCsv {
+  const [headerRecord, ...dataRecords] = parseCsvRecords(text);
+  if (!headerRecord) return { headers: [], rows: [] };
+
+  const headers = headerRecord.map((header, index) => header.trim() || `Column ${index + 1}`);
+  const rows = dataRecords.map(record => {
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = (record[index] ?? '').trim();
+    });
+    return row;
+  });
+
+  return { headers, rows };
+}
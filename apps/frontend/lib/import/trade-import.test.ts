@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The persisted outbox store looks for localStorage when it's created
+vi.hoisted(() => {
+  const items: Record<string, string> = {};
+  (globalThis as any).localStorage = {
+    getItem: (key: string) => (key in items ? items[key] : null),
+    setItem: (key: string, value: string) => { items[key] = value; },
+    removeItem: (key: string) => { delete items[key]; },
+  };
+});
+
+vi.mock('@/lib/api-client', () => ({
+  apiClient: { createTrade: vi.fn() },
+}));
+
+import { apiClient } from '@/lib/api-client';
+import { useOutboxStore } from '@/lib/outbox-store';
+import { batchCreateTrades, buildImportPreview, getImportableRequests, isDuplicateTrade } from './trade-import';
+import { Trade, TradeRequest } from '@/lib/types';
+
+const stored: Trade = {
+  id: 'trade-1',
+  userId: 'user-1',
+  symbol: 'AAPL',
+  type: 'buy',
+  outcome: 'win',
+  entryPrice: 190,
+  exitPrice: 195,
+  quantity: 10,
+  entryTime: new Date('2024-06-03T14:30:00Z'),
+  timestamp: new Date('2024-06-03T14:30:00Z'),
+};
+
+const row: TradeRequest = { symbol: 'AAPL', type: 'buy', outcome: 'win', entryPrice: 190, quantity: 10 };
+
+describe('isDuplicateTrade', () => {
+  it('does not flag a row without a time, however closely it matches', () => {
+    expect(isDuplicateTrade(row, stored)).toBe(false);
+  });
+
+  it('flags a row at the same time with matching details', () => {
+    expect(isDuplicateTrade({ ...row, entryTime: '2024-06-03T14:30:30Z' }, stored)).toBe(true);
+  });
+
+  it('does not flag the same setup on another day or with a different size', () => {
+    expect(isDuplicateTrade({ ...row, entryTime: '2024-06-04T14:30:00Z' }, stored)).toBe(false);
+    expect(isDuplicateTrade({ ...row, entryTime: '2024-06-03T14:30:00Z', quantity: 20 }, stored)).toBe(false);
+  });
+});
+
+describe('getImportableRequests', () => {
+  const mapping = { symbol: 'Symbol', type: 'Side', outcome: 'Result', entryPrice: 'Price', entryTime: 'Time' };
+  const rows = [
+    { Symbol: 'AAPL', Side: 'buy', Result: 'win', Price: '190', Time: '2024-06-03T14:30:00Z' },
+    { Symbol: 'MSFT', Side: 'sell', Result: 'loss', Price: '410', Time: '2024-06-03T15:00:00Z' },
+  ];
+
+  it('leaves out flagged rows unless the user keeps them', () => {
+    const preview = buildImportPreview(rows, mapping, [stored]);
+    expect(preview.map(r => r.duplicateOf)).toEqual(['existing', null]);
+
+    expect(getImportableRequests(preview).map(r => r.symbol)).toEqual(['MSFT']);
+    expect(getImportableRequests(preview, { 0: true }).map(r => r.symbol)).toEqual(['AAPL', 'MSFT']);
+  });
+});
+
+describe('batchCreateTrades', () => {
+  const createTrade = vi.mocked(apiClient.createTrade);
+
+  beforeEach(() => {
+    createTrade.mockReset();
+    useOutboxStore.setState({ operations: [], userId: null, parked: {} });
+  });
+
+  it('sends every row with its own idempotency key', async () => {
+    createTrade.mockImplementation(async request => ({ ...stored, symbol: request.symbol }));
+
+    const result = await batchCreateTrades([row, { ...row, symbol: 'MSFT' }]);
+
+    expect(result.created.map(trade => trade.symbol)).toEqual(['AAPL', 'MSFT']);
+    const keys = createTrade.mock.calls.map(([, options]) => options?.idempotencyKey);
+    expect(keys[0]).toBeTruthy();
+    expect(keys[1]).toBeTruthy();
+    expect(keys[0]).not.toBe(keys[1]);
+  });
+
+  it('queues rows that hit a transient failure and reports rejected ones', async () => {
+    createTrade
+      .mockRejectedValueOnce(Object.assign(new Error('Invalid symbol'), { status: 400 }))
+      .mockRejectedValueOnce(Object.assign(new Error('Service unavailable'), { status: 503 }));
+
+    const result = await batchCreateTrades([{ ...row, symbol: '???' }, row]);
+
+    expect(result.failed).toEqual([{ request: { ...row, symbol: '???' }, error: 'Invalid symbol' }]);
+    expect(result.queued).toEqual([row]);
+
+    // The queued row replays with the key its first attempt used
+    const [operation] = useOutboxStore.getState().operations;
+    expect(operation).toMatchObject({ type: 'trade.create', payload: row });
+    expect(operation.id).toBe(createTrade.mock.calls[1][1]?.idempotencyKey);
+  });
+});
@@ -0,0 +1,298 @@
+import { useOutboxStore } from '@/lib/outbox-store';
+import { symbolSchema, tradeActionSchema, tradeOutcomeSchema } from '@/lib/security/input-validation';
+import { calculatePnL, deriveOutcome, getTradePnL, getTradeTime } from '@/lib/trade-metrics';
+import { Trade, TradeRequest } from '@/lib/types';
+
+export type ImportField =
+  | 'symbol'
+  | 'type'
+  | 'outcome'
+  | 'pnl'
+  | 'entryPrice'
+  | 'exitPrice'
+  | 'quantity'
+  | 'fees'
+  | 'stopLoss'
+  | 'entryTime'
+  | 'exitTime';
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  aliases: string[]; // Lowercased header names seen in common broker exports
+}
+
+export interface ImportRow {
+  index: number;
+  raw: Record<string, string>;
+  request: TradeRequest | null;
+  errors: string[];
+  duplicateOf: 'existing' | 'file' | null;
+}
+
+export interface BatchImportResult {
+  created: Trade[];
+  // Saved to the outbox after a transient failure; they reach the server on replay
+  queued: TradeRequest[];
+  failed: { request: TradeRequest; error: string }[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'symbol', label: 'Symbol', required: true, aliases: ['symbol', 'ticker', 'instrument', 'underlying', 'security'] },
+  { field: 'type', label: 'Side (buy/sell)', required: true, aliases: ['side', 'type', 'action', 'direction', 'buy/sell', 'b/s'] },
+  { field: 'outcome', label: 'Outcome', required: false, aliases: ['outcome', 'result', 'win/loss'] },
+  { field: 'pnl', label: 'P&L', required: false, aliases: ['pnl', 'p&l', 'p/l', 'profit', 'realized p&l', 'realized pnl', 'net p&l', 'gain/loss'] },
+  { field: 'entryPrice', label: 'Entry Price', required: false, aliases: ['entry price', 'entry', 'open price', 'avg entry', 'buy price', 'price'] },
+  { field: 'exitPrice', label: 'Exit Price', required: false, aliases: ['exit price', 'exit', 'close price', 'avg exit', 'sell price'] },
+  { field: 'quantity', label: 'Quantity', required: false, aliases: ['quantity', 'qty', 'shares', 'size', 'contracts', 'units'] },
+  { field: 'fees', label: 'Fees', required: false, aliases: ['fees', 'fee', 'commission', 'commissions', 'comm'] },
+  { field: 'stopLoss', label: 'Stop Loss', required: false, aliases: ['stop loss', 'stop', 'sl'] },
+  { field: 'entryTime', label: 'Entry Time', required: false, aliases: ['entry time', 'open time', 'opened', 'date', 'time', 'date/time', 'trade date'] },
+  { field: 'exitTime', label: 'Exit Time', required: false, aliases: ['exit time', 'close time', 'closed'] },
+];
+
+const BUY_VALUES = ['buy', 'b', 'long', 'bot', 'bought', 'buy to open', 'btc'];
+const SELL_VALUES = ['sell', 's', 'short', 'sld', 'sold', 'sell short', 'sell to open', 'sto'];
+
+// Trades this close together (with matching details) are treated as the same execution
+const DUPLICATE_TIME_TOLERANCE_MS = 60 * 1000;
+
+export function autoDetectMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used: Record<string, boolean> = {};
+
+  IMPORT_FIELDS.forEach(definition => {
+    const match = headers.find(header => {
+      const normalized = header.trim().toLowerCase();
+      return !used[header] && definition.aliases.indexOf(normalized) !== -1;
+    });
+    if (match) {
+      mapping[definition.field] = match;
+      used[match] = true;
+    }
+  });
+
+  return mapping;
+}
+
+export function getMissingRequiredFields(mapping: ColumnMapping): ImportFieldDefinition[] {
+  return IMPORT_FIELDS.filter(definition => definition.required && !mapping[definition.field]);
+}
+
+// Accepts "$1,234.50", "-12", and accounting style "(12.50)"
+export function parseImportNumber(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+
+  const negative = /^\(.*\)$/.test(trimmed);
+  const cleaned = trimmed.replace(/[()$,\s]/g, '');
+  const num = parseFloat(cleaned);
+  if (isNaN(num)) return NaN;
+  return negative ? -Math.abs(num) : num;
+}
+
+function parseSide(value: string): string {
+  const normalized = value.trim().toLowerCase();
+  if (BUY_VALUES.indexOf(normalized) !== -1) return 'buy';
+  if (SELL_VALUES.indexOf(normalized) !== -1) return 'sell';
+  return normalized;
+}
+
+function parseDate(value: string): Date | null {
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function firstIssue(result: { success: boolean; error?: { issues: { message: string }[] } }): string {
+  return result.error?.issues[0]?.message || 'Invalid value';
+}
+
+export function mapRowToTradeRequest(
+  raw: Record<string, string>,
+  mapping: ColumnMapping
+): { request: TradeRequest | null; errors: string[] } {
+  const errors: string[] = [];
+  const read = (field: ImportField) => {
+    const column = mapping[field];
+    return column ? raw[column] ?? '' : '';
+  };
+
+  const symbolResult = symbolSchema.safeParse(read('symbol').toUpperCase().trim());
+  if (!symbolResult.success) errors.push(`Symbol: ${firstIssue(symbolResult)}`);
+
+  const sideResult = tradeActionSchema.safeParse(parseSide(read('type')));
+  if (!sideResult.success) errors.push(`Side: ${firstIssue(sideResult)}`);
+
+  const numbers: Partial<Record<ImportField, number>> = {};
+  (['pnl', 'entryPrice', 'exitPrice', 'quantity', 'fees', 'stopLoss'] as ImportField[]).forEach(field => {
+    const value = parseImportNumber(read(field));
+    if (value === undefined) return;
+    if (isNaN(value)) {
+      errors.push(`${IMPORT_FIELDS.filter(d => d.field === field)[0].label}: not a number`);
+      return;
+    }
+    if (field === 'quantity' && value % 1 !== 0) {
+      errors.push('Quantity: must be a whole number of units');
+      return;
+    }
+    // Brokers often report sell quantities and fees as negatives
+    numbers[field] = field === 'quantity' || field === 'fees' ? Math.abs(value) : value;
+  });
+
+  const times: Partial<Record<ImportField, string>> = {};
+  (['entryTime', 'exitTime'] as ImportField[]).forEach(field => {
+    const value = read(field);
+    if (!value) return;
+    const date = parseDate(value);
+    if (date) {
+      times[field] = date.toISOString();
+    } else {
+      errors.push(`${IMPORT_FIELDS.filter(d => d.field === field)[0].label}: unrecognized date "${value}"`);
+    }
+  });
+
+  if (!sideResult.success || !symbolResult.success) {
+    return { request: null, errors };
+  }
+
+  const computedPnl = calculatePnL({
+    type: sideResult.data,
+    entryPrice: numbers.entryPrice,
+    exitPrice: numbers.exitPrice,
+    quantity: numbers.quantity,
+    fees: numbers.fees,
+  });
+  const pnl = numbers.pnl ?? computedPnl ?? undefined;
+
+  let outcome: TradeRequest['outcome'] | undefined;
+  const rawOutcome = read('outcome');
+  if (rawOutcome) {
+    const outcomeResult = tradeOutcomeSchema.safeParse(rawOutcome.trim().toLowerCase());
+    if (outcomeResult.success) {
+      outcome = outcomeResult.data;
+    } else {
+      errors.push(`Outcome: ${firstIssue(outcomeResult)}`);
+    }
+  } else {
+    outcome = deriveOutcome(pnl ?? null) ?? undefined;
+    if (!outcome) errors.push('Outcome: map an outcome column or provide P&L/prices to derive it');
+  }
+
+  if (errors.length > 0 || !outcome) {
+    return { request: null, errors };
+  }
+
+  return {
+    request: {
+      symbol: symbolResult.data,
+      type: sideResult.data,
+      outcome,
+      pnl,
+      entryPrice: numbers.entryPrice,
+      exitPrice: numbers.exitPrice,
+      quantity: numbers.quantity,
+      fees: numbers.fees,
+      stopLoss: numbers.stopLoss,
+      entryTime: times.entryTime,
+      exitTime: times.exitTime,
+    },
+    errors,
+  };
+}
+
+function sameNumber(a: number | undefined | null, b: number | undefined | null): boolean {
+  if (a == null || b == null) return true; // Missing on either side is not a mismatch
+  return Math.abs(a - b) < 0.005;
+}
+
+/**
+ * Heuristic match between an import row and a stored trade. Symbol, side and
+ * entry time must match, and quantity, prices and P&L must not disagree. Rows
+ * without a time are never flagged: the same trade on different days is common.
+ */
+export function isDuplicateTrade(request: TradeRequest, trade: Trade): boolean {
+  if (request.symbol !== trade.symbol || request.type !== trade.type) return false;
+  if (!request.entryTime) return false;
+
+  const tradeTime = new Date(getTradeTime(trade)).getTime();
+  if (Math.abs(new Date(request.entryTime).getTime() - tradeTime) > DUPLICATE_TIME_TOLERANCE_MS) return false;
+
+  return sameNumber(request.quantity, trade.quantity) &&
+    sameNumber(request.entryPrice, trade.entryPrice) &&
+    sameNumber(request.exitPrice, trade.exitPrice) &&
+    sameNumber(request.pnl, getTradePnL(trade));
+}
+
+// Imported requests compared against each other use the same rules
+function requestAsTrade(request: TradeRequest, index: number): Trade {
+  return {
+    ...request,
+    id: `import-${index}`,
+    userId: '',
+    entryTime: request.entryTime ? new Date(request.entryTime) : undefined,
+    exitTime: request.exitTime ? new Date(request.exitTime) : undefined,
+    setupTag: request.setupTag ?? undefined,
+    timestamp: request.entryTime ? new Date(request.entryTime) : new Date(NaN),
+  };
+}
+
+export function buildImportPreview(
+  rows: Record<string, string>[],
+  mapping: ColumnMapping,
+  existingTrades: Trade[]
+): ImportRow[] {
+  const accepted: Trade[] = [];
+
+  return rows.map((raw, index) => {
+    const { request, errors } = mapRowToTradeRequest(raw, mapping);
+    let duplicateOf: ImportRow['duplicateOf'] = null;
+
+    if (request) {
+      if (existingTrades.some(trade => isDuplicateTrade(request, trade))) {
+        duplicateOf = 'existing';
+      } else if (accepted.some(trade => isDuplicateTrade(request, trade))) {
+        duplicateOf = 'file';
+      } else {
+        accepted.push(requestAsTrade(request, index));
+      }
+    }
+
+    return { index, raw, request, errors, duplicateOf };
+  });
+}
+
+/** Valid rows, leaving out duplicates unless the user chose to import them (by row index). */
+export function getImportableRequests(preview: ImportRow[], keptDuplicates: Record<number, boolean> = {}): TradeRequest[] {
+  return preview
+    .filter(row => row.request && row.errors.length === 0 && (!row.duplicateOf || keptDuplicates[row.index]))
+    .map(row => row.request as TradeRequest);
+}
+
+// Creates trades one at a time so a single bad row doesn't abort the batch. Each
+// row goes through the outbox, so a retry after a lost response reuses its key
+// and can't create the trade twice.
+export async function batchCreateTrades(
+  requests: TradeRequest[],
+  onProgress?: (completed: number, total: number) => void
+): Promise<BatchImportResult> {
+  const result: BatchImportResult = { created: [], queued: [], failed: [] };
+
+  for (let i = 0; i < requests.length; i++) {
+    try {
+      const submission = await useOutboxStore.getState().submit('trade.create', requests[i]);
+      if (submission.queued) {
+        result.queued.push(requests[i]);
+      } else {
+        result.created.push(submission.result as Trade);
+      }
+    } catch (error: any) {
+      result.failed.push({ request: requests[i], error: error?.message || 'Failed to create trade' });
+    }
+    onProgress?.(i + 1, requests.length);
+  }
+
+  return result;
+}
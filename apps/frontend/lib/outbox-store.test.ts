@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The persisted store looks for localStorage when it's created
+vi.hoisted(() => {
+  const items: Record<string, string> = {};
+  (globalThis as any).localStorage = {
+    getItem: (key: string) => (key in items ? items[key] : null),
+    setItem: (key: string, value: string) => { items[key] = value; },
+    removeItem: (key: string) => { delete items[key]; },
+  };
+});
+
+import { useOutboxStore } from './outbox-store';
+
+const goalProgress = { goalId: 'goal-1', progress: 40 };
+
+describe('outbox queues per user', () => {
+  beforeEach(() => {
+    useOutboxStore.setState({ operations: [], userId: null, parked: {} });
+  });
+
+  it('sets a queue aside on sign-out and hands it back to the same user', () => {
+    const store = useOutboxStore.getState();
+    store.activate('user-1');
+    const queued = store.enqueue('monthlyGoal.progress', goalProgress);
+
+    store.park();
+    expect(useOutboxStore.getState().operations).toEqual([]);
+
+    store.activate('user-2');
+    expect(useOutboxStore.getState().operations).toEqual([]);
+
+    store.activate('user-1');
+    expect(useOutboxStore.getState().operations.map(op => op.id)).toEqual([queued.id]);
+    expect(useOutboxStore.getState().parked).toEqual({});
+  });
+
+  it('keeps each user\'s writes out of the other\'s queue', () => {
+    const store = useOutboxStore.getState();
+    store.activate('user-1');
+    store.enqueue('monthlyGoal.progress', goalProgress);
+
+    store.activate('user-2');
+    const own = store.enqueue('monthlyGoal.progress', { goalId: 'goal-2', progress: 10 });
+    expect(useOutboxStore.getState().operations.map(op => op.id)).toEqual([own.id]);
+    expect(useOutboxStore.getState().parked['user-1']).toHaveLength(1);
+  });
+
+  it('gives operations queued before queues had owners to the first user', () => {
+    const legacy = useOutboxStore.getState().enqueue('monthlyGoal.progress', goalProgress);
+
+    useOutboxStore.getState().activate('user-1');
+    expect(useOutboxStore.getState().operations.map(op => op.id)).toEqual([legacy.id]);
+  });
+});
@@ -0,0 +1,317 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { apiClient } from './api-client';
+import {
+  BreathingSessionRequest,
+  DailySessionRequest,
+  EmotionCheckRequest,
+  MonthlyGoalRequest,
+  TradeRequest,
+  WeeklyPromptAnswerRequest,
+  WeeklyReflectionRequest,
+} from './types';
+import { TradeTag } from './trade-tags';
+import { generateId } from './utils';
+
+// Payload shape for each kind of write that can be queued while offline
+export interface OutboxPayloads {
+  'emotionCheck.create': EmotionCheckRequest;
+  'trade.create': TradeRequest;
+  'weeklyReflection.create': WeeklyReflectionRequest;
+  'monthlyGoal.create': MonthlyGoalRequest;
+  'monthlyGoal.progress': { goalId: string; progress: number };
+  'weeklyPrompt.answer': WeeklyPromptAnswerRequest & { week: string };
+  'breathingSession.create': BreathingSessionRequest;
+  'dailySession.save': DailySessionRequest & { date: string };
+  'tradeTags.save': { tags: TradeTag[] };
+}
+
+export type OutboxOperationType = keyof OutboxPayloads;
+
+export type OutboxStatus = 'pending' | 'conflict';
+
+export interface OutboxOperation<T extends OutboxOperationType = OutboxOperationType> {
+  id: string; // Doubles as the idempotency key sent on every replay
+  type: T;
+  payload: OutboxPayloads[T];
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  status: OutboxStatus;
+  lastError?: string;
+}
+
+interface OutboxHandler<T extends OutboxOperationType> {
+  label: string;
+  // Query keys to invalidate once an operation of this type reaches the server
+  queryKey: string[];
+  describe: (payload: OutboxPayloads[T]) => string;
+  replay: (payload: OutboxPayloads[T], idempotencyKey: string) => Promise<unknown>;
+}
+
+export const OUTBOX_HANDLERS: { [K in OutboxOperationType]: OutboxHandler<K> } = {
+  'emotionCheck.create': {
+    label: 'Emotion check',
+    queryKey: ['emotions'],
+    describe: (payload) => [`Level ${payload.level}`, payload.context.replace('-', ' '), payload.symbol]
+      .filter(Boolean).join(' • '),
+    replay: (payload, idempotencyKey) => apiClient.createEmotionCheck(payload, { idempotencyKey }),
+  },
+  'trade.create': {
+    label: 'Trade',
+    queryKey: ['trades'],
+    describe: (payload) => `${payload.type === 'buy' ? 'Long' : 'Short'} ${payload.symbol} • ${payload.outcome}`,
+    replay: (payload, idempotencyKey) => apiClient.createTrade(payload, { idempotencyKey }),
+  },
+  'weeklyReflection.create': {
+    label: 'Weekly reflection',
+    queryKey: ['weeklyReflections'],
+    describe: (payload) => `Week of ${payload.weekStartDate.slice(0, 10)}`,
+    replay: (payload, idempotencyKey) => apiClient.createWeeklyReflection(payload, { idempotencyKey }),
+  },
+  'monthlyGoal.create': {
+    label: 'Monthly goal',
+    queryKey: ['monthlyGoals'],
+    describe: (payload) => payload.goal,
+    replay: (payload, idempotencyKey) => apiClient.createMonthlyGoal(payload, { idempotencyKey }),
+  },
+  'monthlyGoal.progress': {
+    label: 'Goal progress',
+    queryKey: ['monthlyGoals'],
+    describe: (payload) => `Progress ${payload.progress}%`,
+    // Setting an absolute value is naturally idempotent
+    replay: (payload) => apiClient.updateGoalProgress(payload.goalId, payload.progress),
+  },
+  'weeklyPrompt.answer': {
+    label: 'Weekly prompt',
+    queryKey: ['weeklyPrompts'],
+    describe: (payload) => `Week ${payload.week}${payload.skipped ? ' • skipped' : ''}`,
+    replay: ({ week, ...answer }, idempotencyKey) => apiClient.saveWeeklyPromptAnswer(week, answer, { idempotencyKey }),
+  },
+  'breathingSession.create': {
+    label: 'Breathing session',
+    queryKey: ['breathingSessions'],
+    describe: (payload) => `${Math.round(payload.durationSeconds / 60)} min cool-down`,
+    replay: (payload, idempotencyKey) => apiClient.createBreathingSession(payload, { idempotencyKey }),
+  },
+  'dailySession.save': {
+    label: 'Daily session',
+    queryKey: ['dailySessions'],
+    describe: (payload) => `${payload.date}${payload.review ? ' • review' : payload.plan ? ' • plan' : ''}`,
+    replay: ({ date, ...session }, idempotencyKey) => apiClient.saveDailySession(date, session, { idempotencyKey }),
+  },
+  'tradeTags.save': {
+    label: 'Trade tags',
+    queryKey: ['tradeTags'],
+    describe: (payload) => `${payload.tags.length} tags`,
+    replay: (payload, idempotencyKey) => apiClient.saveTradeTags(payload.tags, { idempotencyKey }),
+  },
+};
+
+export function describeOperation(operation: OutboxOperation): { label: string; detail: string } {
+  const handler = OUTBOX_HANDLERS[operation.type] as OutboxHandler<OutboxOperationType>;
+  return { label: handler.label, detail: handler.describe(operation.payload) };
+}
+
+export const OUTBOX_SYNC_TAG = 'outbox-sync';
+
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY_MS);
+}
+
+// Network failures, timeouts, rate limits, auth hiccups and server errors are worth retrying
+export function isRetryableError(error: any): boolean {
+  const status: number | undefined = error?.status;
+  if (status === undefined) return true;
+  return status >= 500 || status === 401 || status === 408 || status === 429;
+}
+
+export interface OutboxFlushResult {
+  replayed: OutboxOperation[];
+  conflicts: OutboxOperation[];
+  remaining: number;
+}
+
+export type SubmitResult<T> = { queued: false; result: T } | { queued: true; operation: OutboxOperation };
+
+interface OutboxStore {
+  operations: OutboxOperation[]; // The signed-in user's queue
+  userId: string | null; // Owner of `operations`
+  parked: Record<string, OutboxOperation[]>; // Queues of users who signed out or whose session expired
+  isFlushing: boolean;
+
+  activate: (userId: string) => void;
+  park: () => void;
+  enqueue: <T extends OutboxOperationType>(type: T, payload: OutboxPayloads[T], id?: string) => OutboxOperation<T>;
+  remove: (id: string) => void;
+  retry: (id: string) => void;
+  flush: (options?: { force?: boolean }) => Promise<OutboxFlushResult>;
+  submit: <T extends OutboxOperationType>(type: T, payload: OutboxPayloads[T]) => Promise<SubmitResult<unknown>>;
+}
+
+// Shared across callers so the online listener, background sync and "Sync now" never replay concurrently
+let flushPromise: Promise<OutboxFlushResult> | null = null;
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+export const useOutboxStore = create<OutboxStore>()(
+  persist(
+    (set, get) => {
+      const update = (id: string, changes: Partial<OutboxOperation>) => {
+        set(state => ({
+          operations: state.operations.map(op => (op.id === id ? { ...op, ...changes } : op)),
+        }));
+      };
+
+      const runFlush = async (force: boolean): Promise<OutboxFlushResult> => {
+        const result: OutboxFlushResult = { replayed: [], conflicts: [], remaining: 0 };
+        const queue = get().operations
+          .filter(op => op.status === 'pending')
+          .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+        // Operations replay strictly in the order they were recorded; a retryable
+        // failure stops the run so later writes never overtake earlier ones
+        for (const operation of queue) {
+          if (isOffline()) break;
+          if (!force && new Date(operation.nextAttemptAt).getTime() > Date.now()) break;
+
+          const handler = OUTBOX_HANDLERS[operation.type] as OutboxHandler<OutboxOperationType>;
+          try {
+            await handler.replay(operation.payload, operation.id);
+            get().remove(operation.id);
+            result.replayed.push(operation);
+          } catch (error: any) {
+            const attempts = operation.attempts + 1;
+            const message = error?.message || 'Request failed';
+
+            if (error?.status === 409 || !isRetryableError(error)) {
+              update(operation.id, { attempts, status: 'conflict', lastError: message });
+              result.conflicts.push({ ...operation, attempts, status: 'conflict', lastError: message });
+              continue;
+            }
+
+            update(operation.id, {
+              attempts,
+              lastError: message,
+              nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)).toISOString(),
+            });
+            break;
+          }
+        }
+
+        result.remaining = get().operations.filter(op => op.status === 'pending').length;
+        return result;
+      };
+
+      return {
+        operations: [],
+        userId: null,
+        parked: {},
+        isFlushing: false,
+
+        /**
+         * Switches to the queue of the user who just signed in. Operations
+         * queued before queues had owners are adopted by the first user.
+         */
+        activate: (userId) => {
+          const state = get();
+          if (state.userId === userId) return;
+          if (state.userId !== null) get().park();
+
+          set(current => {
+            const { [userId]: queue = [], ...parked } = current.parked;
+            return { userId, operations: [...current.operations, ...queue], parked };
+          });
+        },
+
+        // Sets the queue aside on sign-out so it replays when the same user signs back in
+        park: () => {
+          set(state => {
+            if (state.userId === null || state.operations.length === 0) {
+              return { userId: null, operations: [] };
+            }
+            return {
+              userId: null,
+              operations: [],
+              parked: { ...state.parked, [state.userId]: state.operations },
+            };
+          });
+        },
+
+        enqueue: (type, payload, id) => {
+          const now = new Date().toISOString();
+          const operation = {
+            id: id || generateId(),
+            type,
+            payload,
+            createdAt: now,
+            attempts: 0,
+            nextAttemptAt: now,
+            status: 'pending' as OutboxStatus,
+          };
+          set(state => ({ operations: [...state.operations, operation] }));
+          return operation;
+        },
+
+        remove: (id) => {
+          set(state => ({ operations: state.operations.filter(op => op.id !== id) }));
+        },
+
+        retry: (id) => {
+          update(id, { status: 'pending', nextAttemptAt: new Date().toISOString(), lastError: undefined });
+        },
+
+        flush: (options = {}) => {
+          if (!flushPromise) {
+            set({ isFlushing: true });
+            flushPromise = runFlush(!!options.force).finally(() => {
+              flushPromise = null;
+              set({ isFlushing: false });
+            });
+          }
+          return flushPromise;
+        },
+
+        /**
+         * Sends a write straight away when possible and falls back to the outbox
+         * when offline or the failure is transient. The same id is used as the
+         * idempotency key for the first attempt and every replay.
+         */
+        submit: async (type, payload) => {
+          const id = generateId();
+          const hasQueuedWork = get().operations.some(op => op.status === 'pending');
+
+          // Queue behind earlier writes so ordering holds
+          if (isOffline() || hasQueuedWork) {
+            const operation = get().enqueue(type, payload, id);
+            if (!isOffline()) get().flush().catch(console.error);
+            return { queued: true, operation };
+          }
+
+          const handler = OUTBOX_HANDLERS[type] as OutboxHandler<OutboxOperationType>;
+          try {
+            return { queued: false, result: await handler.replay(payload, id) };
+          } catch (error) {
+            if (!isRetryableError(error)) throw error;
+            const operation = get().enqueue(type, payload, id);
+            update(id, { attempts: 1, nextAttemptAt: new Date(Date.now() + getRetryDelay(1)).toISOString() });
+            return { queued: true, operation };
+          }
+        },
+      };
+    },
+    {
+      name: 'outbox-store',
+      partialize: (state) => ({
+        operations: state.operations,
+        userId: state.userId,
+        parked: state.parked,
+      }),
+    }
+  )
+);
@@ -0,0 +1,53 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  DEFAULT_READINESS_RULES,
+  ReadinessRule,
+  ReadinessRuleKind,
+  getRuleDefinition,
+} from './analytics/readiness';
+import { generateId } from './utils';
+
+interface ReadinessState {
+  rules: ReadinessRule[];
+  addRule: (kind: ReadinessRuleKind) => void;
+  updateRule: (id: string, changes: Partial<Pick<ReadinessRule, 'value' | 'enabled'>>) => void;
+  removeRule: (id: string) => void;
+  resetRules: () => void;
+}
+
+export const useReadinessStore = create<ReadinessState>()(
+  persist(
+    (set) => ({
+      rules: DEFAULT_READINESS_RULES,
+
+      addRule: (kind: ReadinessRuleKind) => {
+        const rule: ReadinessRule = {
+          id: generateId(),
+          kind,
+          value: getRuleDefinition(kind).defaultValue,
+          enabled: true,
+        };
+        set(state => ({ rules: [...state.rules, rule] }));
+      },
+
+      updateRule: (id, changes) => {
+        set(state => ({
+          rules: state.rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)),
+        }));
+      },
+
+      removeRule: (id: string) => {
+        set(state => ({ rules: state.rules.filter(rule => rule.id !== id) }));
+      },
+
+      resetRules: () => set({ rules: DEFAULT_READINESS_RULES }),
+    }),
+    {
+      name: 'readiness-store',
+      partialize: (state) => ({
+        rules: state.rules,
+      }),
+    }
+  )
+);
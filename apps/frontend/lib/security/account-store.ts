@@ -0,0 +1,122 @@
+// Accounts the Next.js auth routes sign in against. They live in the .NET API
+// and are reached through its internal endpoints (ApiAccountStore, the
+// default); MemoryAccountStore holds accounts for tests and offline work.
+
+import { User } from '@/lib/types';
+import { PasswordSecurity, SecurityConfig } from './encryption';
+
+export interface AccountStore {
+  /** The account when the password matches, otherwise null. */
+  verifyCredentials(email: string, password: string): Promise<User | null>;
+  findByEmail(email: string): Promise<User | null>;
+  findById(userId: string): Promise<User | null>;
+  updatePassword(userId: string, password: string): Promise<void>;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Server-to-server address of the .NET API; falls back to the one the browser uses
+const INTERNAL_API_URL = process.env.INTERNAL_API_URL || process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5202/api';
+
+/**
+ * Reads and updates the accounts kept by the .NET API. Unknown accounts and
+ * wrong passwords come back as null; anything else unexpected throws, so a
+ * misconfigured key fails loudly instead of looking like a bad password.
+ */
+export class ApiAccountStore implements AccountStore {
+  constructor(
+    private baseUrl: string = INTERNAL_API_URL,
+    private apiKey: string = SecurityConfig.INTERNAL_API_KEY
+  ) {}
+
+  async verifyCredentials(email: string, password: string): Promise<User | null> {
+    return this.call<User>('POST', '/verify', { email, password });
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    return this.call<User>('GET', `/by-email?email=${encodeURIComponent(normalizeEmail(email))}`);
+  }
+
+  async findById(userId: string): Promise<User | null> {
+    return this.call<User>('GET', `/${encodeURIComponent(userId)}`);
+  }
+
+  async updatePassword(userId: string, password: string): Promise<void> {
+    const updated = await this.call('PUT', `/${encodeURIComponent(userId)}/password`, { password });
+    if (updated === null) throw new Error('Account not found');
+  }
+
+  private async call<T>(method: string, path: string, body?: unknown): Promise<T | null> {
+    const response = await fetch(`${this.baseUrl}/internal/accounts${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Internal-Api-Key': this.apiKey,
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+      cache: 'no-store',
+    });
+
+    // 401 is a failed credential check; a rejected key answers 403
+    if (response.status === 401 || response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Account API ${method} ${path.split('?')[0]} failed with ${response.status}`);
+    }
+
+    const result = await response.json();
+    return (result.data ?? result) as T;
+  }
+}
+
+// Compared against when the account doesn't exist, so unknown emails take as long as wrong passwords
+const UNKNOWN_ACCOUNT_HASH = `${'0'.repeat(64)}:${'0'.repeat(128)}`;
+
+export class MemoryAccountStore implements AccountStore {
+  private accounts: Record<string, { user: User; passwordHash: string }> = {};
+
+  async addAccount(account: Pick<User, 'id' | 'email'> & Partial<User>, password: string): Promise<User> {
+    const user: User = {
+      createdAt: new Date(),
+      timezone: 'UTC',
+      streakCount: 0,
+      isActive: true,
+      ...account,
+      email: normalizeEmail(account.email),
+    };
+    this.accounts[user.email] = { user, passwordHash: await PasswordSecurity.hashPassword(password) };
+    return user;
+  }
+
+  async verifyCredentials(email: string, password: string): Promise<User | null> {
+    const entry = this.accounts[normalizeEmail(email)];
+    const isValid = await PasswordSecurity.verifyPassword(password, entry?.passwordHash || UNKNOWN_ACCOUNT_HASH);
+    return entry && isValid ? entry.user : null;
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    return this.accounts[normalizeEmail(email)]?.user || null;
+  }
+
+  async findById(userId: string): Promise<User | null> {
+    const email = Object.keys(this.accounts).filter(key => this.accounts[key].user.id === userId)[0];
+    return email ? this.accounts[email].user : null;
+  }
+
+  async updatePassword(userId: string, password: string): Promise<void> {
+    const user = await this.findById(userId);
+    if (!user) throw new Error('Account not found');
+    this.accounts[user.email].passwordHash = await PasswordSecurity.hashPassword(password);
+  }
+}
+
+let accountStore: AccountStore = new ApiAccountStore();
+
+export function setAccountStore(store: AccountStore) {
+  accountStore = store;
+}
+
+export function getAccountStore(): AccountStore {
+  return accountStore;
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { apiRateLimit } from './rate-limiter';
+import { API_RATE_LIMIT, getClientIp, RateLimitPolicy, rateLimitFor } from './rate-limiter';
 import { validateInput, ValidationError } from './input-validation';
-import { jwtManager } from '@/lib/auth/jwt-manager';
+import { TokenError, verifyAccessToken } from './token-service';
+import { ensureSecurityStores } from './bootstrap';
 
 // CORS configuration
 const CORS_OPTIONS = {
@@ -25,7 +26,8 @@ const CORS_OPTIONS = {
 interface ApiMiddlewareOptions {
   requireAuth?: boolean;
   validateSchema?: any;
-  rateLimit?: boolean;
+  // A policy gives the route its own bucket; true (the default) uses the shared API policy
+  rateLimit?: boolean | RateLimitPolicy;
   cors?: boolean;
   methods?: string[];
 }
@@ -36,6 +38,8 @@ export function createApiHandler(
 ) {
   return async (request: NextRequest, context: any): Promise<NextResponse> => {
     try {
+      await ensureSecurityStores();
+
       // 1. CORS handling
       if (options.cors !== false) {
         const corsResponse = handleCORS(request);
@@ -50,15 +54,20 @@ export function createApiHandler(
         );
       }
 
-      // 3. Rate limiting
+      // 3. Authentication, resolved first so limits can key on the user
+      const authResult = options.requireAuth ? await validateAuthentication(request) : null;
+
+      // 4. Rate limiting, also counting requests that then fail authentication
       if (options.rateLimit !== false) {
-        const rateLimitResponse = await apiRateLimit(request);
-        if (rateLimitResponse) return rateLimitResponse;
+        const policy = typeof options.rateLimit === 'object' ? options.rateLimit : API_RATE_LIMIT;
+        const rateLimitResponse = await rateLimitFor(policy)(request, authResult?.user?.id);
+        if (rateLimitResponse) {
+          logSecurityEvent('rate_limit', request, { policy: policy.name, userId: authResult?.user?.id });
+          return rateLimitResponse;
+        }
       }
 
-      // 4. Authentication
-      if (options.requireAuth) {
-        const authResult = await validateAuthentication(request);
+      if (authResult) {
         if (!authResult.success) {
           return NextResponse.json(
             { error: authResult.error, code: 'UNAUTHORIZED' },
@@ -151,16 +160,12 @@ async function validateAuthentication(request: NextRequest): Promise<{
   const token = authHeader.substring(7);
   
   try {
-    // In a real implementation, you would verify the JWT token here
-    // For now, we'll use a simple validation
-    const user = jwtManager.getUserInfo();
-    
-    if (!user) {
-      return { success: false, error: 'Invalid token' };
-    }
-
-    return { success: true, user };
+    const payload = await verifyAccessToken(token);
+    return { success: true, user: { id: payload.sub, email: payload.email, sessionId: payload.sid } };
   } catch (error) {
+    if (error instanceof TokenError) {
+      return { success: false, error: error.code === 'TOKEN_EXPIRED' ? 'Token expired' : 'Invalid token' };
+    }
     return { success: false, error: 'Token validation failed' };
   }
 }
@@ -268,7 +273,7 @@ export function logSecurityEvent(
   const logEntry = {
     timestamp: new Date().toISOString(),
     type,
-    ip: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+    ip: getClientIp(request),
     userAgent: request.headers.get('user-agent') || 'unknown',
     url: request.url,
     method: request.method,
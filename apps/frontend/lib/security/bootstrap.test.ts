@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { installSecurityStores, openSecurityDatabase } from './bootstrap';
+import { getRateLimitStore, setRateLimitStore } from './rate-limiter';
+import { MemoryRateLimitStore, SqliteRateLimitStore } from './rate-limit-store';
+import { getLoginStateStore, MemoryLoginStateStore, setLoginStateStore, SqliteLoginStateStore } from './login-state-store';
+import { getTokenStore, MemoryTokenStore, setTokenStore, SqliteTokenStore } from './token-service';
+import { getTwoFactorStore, MemoryTwoFactorStore, setTwoFactorStore, SqliteTwoFactorStore } from './two-factor';
+import {
+  getPasswordResetStore,
+  MemoryPasswordResetStore,
+  setPasswordResetStore,
+  SqlitePasswordResetStore,
+} from './password-reset';
+
+const dirs: string[] = [];
+
+afterEach(() => {
+  setRateLimitStore(new MemoryRateLimitStore());
+  setLoginStateStore(new MemoryLoginStateStore());
+  setTokenStore(new MemoryTokenStore());
+  setTwoFactorStore(new MemoryTwoFactorStore());
+  setPasswordResetStore(new MemoryPasswordResetStore());
+  dirs.splice(0).forEach(dir => rmSync(dir, { recursive: true, force: true }));
+});
+
+describe('openSecurityDatabase', () => {
+  it('keeps the in-memory stores outside production when no path is set', async () => {
+    expect(await openSecurityDatabase(undefined)).toBeNull();
+  });
+
+  it('creates the database file and its directory', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'security-db-'));
+    dirs.push(dir);
+    const path = join(dir, 'nested', 'security.db');
+
+    const db = await openSecurityDatabase(path);
+    expect(db).not.toBeNull();
+    expect(existsSync(path)).toBe(true);
+
+    installSecurityStores(db!);
+    expect(getRateLimitStore()).toBeInstanceOf(SqliteRateLimitStore);
+    expect(getLoginStateStore()).toBeInstanceOf(SqliteLoginStateStore);
+    expect(getTokenStore()).toBeInstanceOf(SqliteTokenStore);
+    expect(getTwoFactorStore()).toBeInstanceOf(SqliteTwoFactorStore);
+    expect(getPasswordResetStore()).toBeInstanceOf(SqlitePasswordResetStore);
+  });
+});
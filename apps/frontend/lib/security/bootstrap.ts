@@ -0,0 +1,57 @@
+// Swaps the in-memory security stores for ones backed by a shared SQLite file,
+// so limits, lockouts, refresh tokens, 2FA enrollments and reset links hold
+// across every worker and survive restarts. createApiHandler awaits this before each request; the work happens
+// once per route bundle.
+
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { setRateLimitStore } from './rate-limiter';
+import { SqliteDatabase, SqliteRateLimitStore } from './rate-limit-store';
+import { setLoginStateStore, SqliteLoginStateStore } from './login-state-store';
+import { setTokenStore, SqliteTokenStore } from './token-service';
+import { setTwoFactorStore, SqliteTwoFactorStore } from './two-factor';
+import { setPasswordResetStore, SqlitePasswordResetStore } from './password-reset';
+
+/** Opens SECURITY_DB_PATH; in development the in-memory stores are kept when it isn't set. */
+export async function openSecurityDatabase(
+  path: string | undefined = process.env.SECURITY_DB_PATH
+): Promise<SqliteDatabase | null> {
+  if (!path) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('SECURITY_DB_PATH environment variable is required in production');
+    }
+    return null;
+  }
+
+  // Loaded on demand so nothing needs the native module unless a path is configured
+  const { default: Database } = await import('better-sqlite3');
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  // Workers wait for each other's transactions instead of failing with SQLITE_BUSY
+  db.pragma('busy_timeout = 5000');
+  return db;
+}
+
+export function installSecurityStores(db: SqliteDatabase) {
+  setRateLimitStore(new SqliteRateLimitStore(db));
+  setLoginStateStore(new SqliteLoginStateStore(db));
+  setTokenStore(new SqliteTokenStore(db));
+  setTwoFactorStore(new SqliteTwoFactorStore(db));
+  setPasswordResetStore(new SqlitePasswordResetStore(db));
+}
+
+let ready: Promise<void> | null = null;
+
+export function ensureSecurityStores(): Promise<void> {
+  if (!ready) {
+    ready = openSecurityDatabase().then(db => {
+      if (db) installSecurityStores(db);
+    });
+    // A failed open is retried on the next request rather than cached
+    ready.catch(() => {
+      ready = null;
+    });
+  }
+  return ready;
+}
@@ -5,11 +5,13 @@ const scryptAsync = promisify(scrypt);
 
 // Environment configuration with validation
 export class SecurityConfig {
+  // The .NET API validates our access tokens with the same secret, so the
+  // development fallback matches its Jwt:Secret in appsettings.json
   static readonly JWT_SECRET = process.env.JWT_SECRET || (() => {
     if (process.env.NODE_ENV === 'production') {
       throw new Error('JWT_SECRET environment variable is required in production');
     }
-    return 'development-jwt-secret-change-in-production';
+    return 'TradeMentor-SuperSecret-JWT-Key-For-Development-Only-256-Bit-Length-Required-For-Production-Security';
   })();
 
   static readonly JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || (() => {
@@ -23,14 +25,22 @@ export class SecurityConfig {
     if (process.env.NODE_ENV === 'production') {
       throw new Error('ENCRYPTION_KEY environment variable is required in production');
     }
-    return 'development-encryption-key-32-chars';
+    return 'development-encryption-key-32chr';
   })();
 
   static readonly DATABASE_ENCRYPTION_KEY = process.env.DATABASE_ENCRYPTION_KEY || (() => {
     if (process.env.NODE_ENV === 'production') {
       throw new Error('DATABASE_ENCRYPTION_KEY environment variable is required in production');
     }
-    return 'development-db-encryption-key-32c';
+    return 'development-db-encrypt-key-32chr';
+  })();
+
+  // Sent to the .NET API's internal account endpoints; matches its InternalApi:Key in development
+  static readonly INTERNAL_API_KEY = process.env.INTERNAL_API_KEY || (() => {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('INTERNAL_API_KEY environment variable is required in production');
+    }
+    return 'TradeMentor-Internal-Api-Key-For-Development-Only';
   })();
 
   static readonly BCRYPT_ROUNDS = parseInt(process.env.BCRYPT_ROUNDS || '12');
@@ -48,7 +58,8 @@ export class SecurityConfig {
       'JWT_REFRESH_SECRET', 
       'ENCRYPTION_KEY',
       'DATABASE_ENCRYPTION_KEY',
-      'SESSION_SECRET'
+      'SESSION_SECRET',
+      'INTERNAL_API_KEY'
     ];
 
     if (process.env.NODE_ENV === 'production') {
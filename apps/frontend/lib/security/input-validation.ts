@@ -96,6 +96,41 @@ export const contextSchema = z.enum([
   errorMap: () => ({ message: 'Invalid emotion context' })
 });
 
+// Emotion check schemas
+export const namedEmotionSchema = z.enum(['fear', 'greed', 'fomo', 'revenge', 'boredom'], {
+  errorMap: () => ({ message: 'Invalid emotion' })
+});
+
+const dimensionScaleSchema = (label: string) => z.number()
+  .int(`${label} must be an integer`)
+  .min(1, `${label} must be at least 1`)
+  .max(10, `${label} must be at most 10`);
+
+export const emotionDimensionsSchema = z.object({
+  emotions: z.array(namedEmotionSchema).max(5, 'Too many emotions selected').optional(),
+  confidence: dimensionScaleSchema('Confidence').optional(),
+  focus: dimensionScaleSchema('Focus').optional(),
+  sleepHours: z.number()
+    .min(0, 'Sleep hours cannot be negative')
+    .max(24, 'Sleep hours must be at most 24')
+    .multipleOf(0.5, 'Sleep hours must be in half-hour steps')
+    .optional(),
+  physicalTension: dimensionScaleSchema('Physical tension').optional(),
+});
+
+export const emotionCheckRequestSchema = emotionDimensionsSchema.extend({
+  level: emotionLevelSchema,
+  context: z.enum(['pre-trade', 'post-trade', 'market-event'], {
+    errorMap: () => ({ message: 'Invalid emotion context' })
+  }),
+  notes: z.string().max(500, 'Notes too long (max 500 characters)').optional(),
+  symbol: z.string()
+    .max(10, 'Symbol too long (max 10 characters)')
+    .regex(/^[A-Z0-9]*$/, 'Symbol can only contain letters and numbers')
+    .optional(),
+  breathingSessionId: z.string().max(64).optional(),
+}).strict();
+
 // Trade-specific schemas
 export const tradeActionSchema = z.enum(['buy', 'sell'], {
   errorMap: () => ({ message: 'Trade action must be buy or sell' })
@@ -174,3 +209,17 @@ export const passwordResetSchema = z.object({
   token: z.string().min(1, 'Reset token required'),
   password: passwordSchema,
 }).strict();
+
+// Two-factor schemas: a 6-digit authenticator code or a backup code
+export const twoFactorCodeSchema = z.string()
+  .trim()
+  .regex(/^[0-9A-Za-z\s-]{6,20}$/, 'Enter the 6-digit code from your app or a backup code');
+
+export const twoFactorCodeRequestSchema = z.object({
+  code: twoFactorCodeSchema,
+}).strict();
+
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token required'),
+  code: twoFactorCodeSchema,
+}).strict();
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FAILURE_WINDOW_MS,
+  getLockoutStatus,
+  LOCKOUT_STEPS_MS,
+  MAX_FAILED_ATTEMPTS,
+  recordFailedLogin,
+  recordSuccessfulLogin,
+} from './login-guard';
+import { LoginState } from './login-state-store';
+
+const START = Date.UTC(2024, 0, 1);
+const HOUR = 60 * 60 * 1000;
+
+function failTimes(state: LoginState | null, times: number, now: number): LoginState {
+  let current = state;
+  for (let i = 0; i < times; i++) current = recordFailedLogin(current, now);
+  return current!;
+}
+
+describe('recordFailedLogin', () => {
+  it('locks the account on the last allowed failure', () => {
+    const almost = failTimes(null, MAX_FAILED_ATTEMPTS - 1, START);
+    expect(getLockoutStatus(almost, START).locked).toBe(false);
+
+    const locked = recordFailedLogin(almost, START);
+    expect(getLockoutStatus(locked, START)).toEqual({
+      locked: true,
+      lockedUntil: START + LOCKOUT_STEPS_MS[0],
+      retryAfterMs: LOCKOUT_STEPS_MS[0],
+    });
+  });
+
+  it('starts counting again once the failure window has passed', () => {
+    const state = failTimes(null, MAX_FAILED_ATTEMPTS - 1, START);
+    const later = recordFailedLogin(state, START + FAILURE_WINDOW_MS + 1);
+    expect(later.failedAttempts).toBe(1);
+    expect(getLockoutStatus(later, START + FAILURE_WINDOW_MS + 1).locked).toBe(false);
+  });
+
+  it('makes each lockout longer while failures keep coming', () => {
+    const first = failTimes(null, MAX_FAILED_ATTEMPTS, START);
+    const afterFirst = START + LOCKOUT_STEPS_MS[0];
+    const second = failTimes(first, MAX_FAILED_ATTEMPTS, afterFirst);
+
+    expect(second.lockouts).toBe(2);
+    expect(second.lockedUntil).toBe(afterFirst + LOCKOUT_STEPS_MS[1]);
+  });
+
+  it('forgives earlier lockouts after a day without failures', () => {
+    const locked = failTimes(null, MAX_FAILED_ATTEMPTS, START);
+    expect(locked.lockouts).toBe(1);
+    expect(locked.lastFailureAt).toBe(START);
+
+    const nextDay = START + 25 * HOUR;
+    const again = failTimes(locked, MAX_FAILED_ATTEMPTS, nextDay);
+    expect(again.lockouts).toBe(1);
+    expect(again.lockedUntil).toBe(nextDay + LOCKOUT_STEPS_MS[0]);
+  });
+
+  it('keeps escalating when the last failure was within the day', () => {
+    const locked = failTimes(null, MAX_FAILED_ATTEMPTS, START);
+    const sameDay = START + 23 * HOUR;
+    const again = failTimes(locked, MAX_FAILED_ATTEMPTS, sameDay);
+    expect(again.lockedUntil).toBe(sameDay + LOCKOUT_STEPS_MS[1]);
+  });
+});
+
+describe('recordSuccessfulLogin', () => {
+  it('clears failures and only flags devices after the first login', () => {
+    const failed = failTimes(null, 2, START);
+    const first = recordSuccessfulLogin(failed, { device: 'laptop', ip: 'home' });
+    expect(first.state.failedAttempts).toBe(0);
+    expect(first.state.lastFailureAt).toBeNull();
+    expect(first.newDevice).toBe(false);
+
+    const second = recordSuccessfulLogin(first.state, { device: 'phone', ip: 'home' });
+    expect(second.newDevice).toBe(true);
+    expect(second.newIp).toBe(false);
+  });
+});
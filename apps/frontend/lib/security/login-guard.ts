@@ -0,0 +1,163 @@
+// Per-account lockout after repeated failed logins, growing with each lockout,
+// and recognition of the devices and addresses an account normally signs in from.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DataEncryption } from './encryption';
+import { normalizeEmail } from './account-store';
+import { getLoginStateStore, LoginState } from './login-state-store';
+import { getClientIp } from './rate-limiter';
+import { logSecurityEvent } from './api-middleware';
+import { issueTokens, IssuedTokens } from './token-service';
+
+export const MAX_FAILED_ATTEMPTS = 5;
+// Failures older than this no longer count towards a lockout
+export const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+// Length of the 1st, 2nd, 3rd... lockout; later ones repeat the last step
+export const LOCKOUT_STEPS_MS = [60 * 1000, 5 * 60 * 1000, 15 * 60 * 1000, 60 * 60 * 1000];
+// Lockouts are forgiven after a day without failures
+const LOCKOUT_MEMORY_MS = 24 * 60 * 60 * 1000;
+// Enough history to recognise regular devices without growing forever
+const MAX_KNOWN = 10;
+
+export interface LockoutStatus {
+  locked: boolean;
+  lockedUntil: number | null;
+  retryAfterMs: number;
+}
+
+export interface LoginContext {
+  device: string;
+  ip: string;
+}
+
+export function emptyLoginState(): LoginState {
+  return {
+    failedAttempts: 0,
+    firstFailureAt: null,
+    lastFailureAt: null,
+    lockouts: 0,
+    lockedUntil: null,
+    knownDevices: [],
+    knownIps: [],
+  };
+}
+
+export function getLoginStateKey(email: string): string {
+  return DataEncryption.hashIdentifier(`login:${email}`);
+}
+
+// Hashed so the stored history holds no raw user agents or addresses
+export function getLoginContext(request: NextRequest): LoginContext {
+  const userAgent = request.headers.get('user-agent') || '';
+  const language = request.headers.get('accept-language') || '';
+  return {
+    device: DataEncryption.hashIdentifier(`device:${userAgent}|${language}`),
+    ip: DataEncryption.hashIdentifier(`ip:${getClientIp(request)}`),
+  };
+}
+
+export function getLockoutStatus(state: LoginState | null, now: number): LockoutStatus {
+  if (!state || state.lockedUntil === null || state.lockedUntil <= now) {
+    return { locked: false, lockedUntil: null, retryAfterMs: 0 };
+  }
+  return { locked: true, lockedUntil: state.lockedUntil, retryAfterMs: state.lockedUntil - now };
+}
+
+/** Counts a failed attempt, locking the account once too many fall inside the window. */
+export function recordFailedLogin(current: LoginState | null, now: number): LoginState {
+  const state = { ...(current || emptyLoginState()) };
+
+  if (state.lastFailureAt !== null && now - state.lastFailureAt > LOCKOUT_MEMORY_MS) {
+    state.lockouts = 0;
+  }
+  if (state.firstFailureAt === null || now - state.firstFailureAt > FAILURE_WINDOW_MS) {
+    state.failedAttempts = 0;
+    state.firstFailureAt = now;
+  }
+
+  state.failedAttempts++;
+  state.lastFailureAt = now;
+  if (state.failedAttempts >= MAX_FAILED_ATTEMPTS) {
+    const step = LOCKOUT_STEPS_MS[Math.min(state.lockouts, LOCKOUT_STEPS_MS.length - 1)];
+    state.lockouts++;
+    state.lockedUntil = now + step;
+    state.failedAttempts = 0;
+    state.firstFailureAt = null;
+  }
+
+  return state;
+}
+
+function remember(list: string[], value: string): string[] {
+  return [value].concat(list.filter(item => item !== value)).slice(0, MAX_KNOWN);
+}
+
+/**
+ * Clears failures and lockouts and remembers the device and address. The first
+ * login on an account sets the baseline, so only later ones count as new.
+ */
+export function recordSuccessfulLogin(
+  current: LoginState | null,
+  context: LoginContext
+): { state: LoginState; newDevice: boolean; newIp: boolean } {
+  const previous = current || emptyLoginState();
+  const hasHistory = previous.knownDevices.length > 0 || previous.knownIps.length > 0;
+
+  return {
+    state: {
+      ...previous,
+      failedAttempts: 0,
+      firstFailureAt: null,
+      lastFailureAt: null,
+      lockouts: 0,
+      lockedUntil: null,
+      knownDevices: remember(previous.knownDevices, context.device),
+      knownIps: remember(previous.knownIps, context.ip),
+    },
+    newDevice: hasHistory && previous.knownDevices.indexOf(context.device) === -1,
+    newIp: hasHistory && previous.knownIps.indexOf(context.ip) === -1,
+  };
+}
+
+/**
+ * Finishes a sign-in once every factor has checked out: records it, flags a
+ * new device or address, and issues the session's tokens.
+ */
+export async function completeLogin(
+  request: NextRequest,
+  account: { id: string; email: string }
+): Promise<IssuedTokens> {
+  const store = getLoginStateStore();
+  const stateKey = getLoginStateKey(normalizeEmail(account.email));
+  const { state, newDevice, newIp } = recordSuccessfulLogin(await store.get(stateKey), getLoginContext(request));
+  await store.save(stateKey, state);
+
+  if (newDevice || newIp) {
+    logSecurityEvent('suspicious_activity', request, {
+      reason: newDevice && newIp ? 'new_device_and_ip' : newDevice ? 'new_device' : 'new_ip',
+      userId: account.id,
+    });
+  }
+
+  return issueTokens(account);
+}
+
+export function lockedResponse(lockout: LockoutStatus, headers?: HeadersInit): NextResponse {
+  const retryAfter = Math.ceil(lockout.retryAfterMs / 1000);
+  const lockedHeaders = new Headers(headers);
+  lockedHeaders.set('Retry-After', retryAfter.toString());
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Too many failed sign-in attempts. This account is temporarily locked.',
+      code: 'ACCOUNT_LOCKED',
+      retryAfter,
+      lockedUntil: new Date(lockout.lockedUntil!).toISOString(),
+    },
+    {
+      status: 423,
+      headers: lockedHeaders,
+    }
+  );
+}
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import Database from 'better-sqlite3';
+import { emptyLoginState, MAX_FAILED_ATTEMPTS, recordFailedLogin } from './login-guard';
+import { LoginStateStore, MemoryLoginStateStore, SqliteLoginStateStore } from './login-state-store';
+
+const START = Date.UTC(2024, 0, 1);
+
+const databases: Database.Database[] = [];
+
+afterEach(() => {
+  databases.splice(0).forEach(db => db.close());
+});
+
+function openDatabase() {
+  const db = new Database(':memory:');
+  databases.push(db);
+  return db;
+}
+
+const stores: Array<[string, () => LoginStateStore]> = [
+  ['MemoryLoginStateStore', () => new MemoryLoginStateStore()],
+  ['SqliteLoginStateStore', () => new SqliteLoginStateStore(openDatabase())],
+];
+
+describe.each(stores)('%s', (_name, createStore) => {
+  it('passes null for a key it has not seen and stores the result', async () => {
+    const store = createStore();
+    let seen: unknown = 'unset';
+    const state = await store.update('key', current => {
+      seen = current;
+      return recordFailedLogin(current, START);
+    });
+
+    expect(seen).toBeNull();
+    expect(state.failedAttempts).toBe(1);
+    expect(await store.get('key')).toEqual(state);
+  });
+
+  it('counts every one of several concurrent failures', async () => {
+    const store = createStore();
+    await Promise.all(
+      Array.from({ length: MAX_FAILED_ATTEMPTS - 1 }, () =>
+        store.update('key', current => recordFailedLogin(current, START))
+      )
+    );
+
+    expect((await store.get('key'))!.failedAttempts).toBe(MAX_FAILED_ATTEMPTS - 1);
+  });
+});
+
+describe('SqliteLoginStateStore', () => {
+  it('keeps the stored state when an update throws', async () => {
+    const store = new SqliteLoginStateStore(openDatabase());
+    await store.save('key', emptyLoginState());
+
+    await expect(store.update('key', () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(await store.get('key')).toEqual(emptyLoginState());
+
+    // The transaction was rolled back, so the next update can start its own
+    expect((await store.update('key', current => recordFailedLogin(current, START))).failedAttempts).toBe(1);
+  });
+});
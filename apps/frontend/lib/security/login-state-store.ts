@@ -0,0 +1,98 @@
+// Storage for per-login security state. It's keyed by the hashed email rather
+// than the account, so attempts on addresses with no account are tracked too.
+// Swapped for SqliteLoginStateStore at startup, like the rate-limit store.
+
+import { SqliteDatabase, SqliteStatement } from './rate-limit-store';
+
+// Failed attempts and the devices and addresses seen on successful logins
+export interface LoginState {
+  failedAttempts: number;
+  firstFailureAt: number | null; // Start of the current failure window
+  lastFailureAt: number | null; // Most recent failure, kept across lockouts
+  lockouts: number; // Lockouts since the last successful login, drives the lockout length
+  lockedUntil: number | null;
+  knownDevices: string[]; // Hashed device fingerprints
+  knownIps: string[]; // Hashed addresses
+}
+
+export interface LoginStateStore {
+  get(key: string): Promise<LoginState | null>;
+  save(key: string, state: LoginState): Promise<void>;
+  /**
+   * Replaces the state under `key` with `apply(current)` as one atomic step and
+   * returns the new state, so concurrent failures can't overwrite each other's count.
+   */
+  update(key: string, apply: (current: LoginState | null) => LoginState): Promise<LoginState>;
+}
+
+export class MemoryLoginStateStore implements LoginStateStore {
+  private states: Record<string, LoginState> = {};
+
+  async get(key: string): Promise<LoginState | null> {
+    return this.states[key] || null;
+  }
+
+  async save(key: string, state: LoginState): Promise<void> {
+    this.states[key] = state;
+  }
+
+  async update(key: string, apply: (current: LoginState | null) => LoginState): Promise<LoginState> {
+    const state = apply(this.states[key] || null);
+    this.states[key] = state;
+    return state;
+  }
+}
+
+/**
+ * Keeps each state as a JSON row in a SQLite database shared by all workers.
+ * Updates run in an immediate transaction, like the rate-limit store's.
+ */
+export class SqliteLoginStateStore implements LoginStateStore {
+  private select: SqliteStatement;
+  private upsert: SqliteStatement;
+
+  constructor(private db: SqliteDatabase, table = 'login_states') {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid login state table name: ${table}`);
+    }
+
+    db.exec(`CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, state TEXT NOT NULL)`);
+    this.select = db.prepare(`SELECT state FROM ${table} WHERE key = ?`);
+    this.upsert = db.prepare(
+      `INSERT INTO ${table} (key, state) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET state = excluded.state`
+    );
+  }
+
+  async get(key: string): Promise<LoginState | null> {
+    const row = this.select.get(key) as { state: string } | undefined;
+    return row ? JSON.parse(row.state) : null;
+  }
+
+  async save(key: string, state: LoginState): Promise<void> {
+    this.upsert.run(key, JSON.stringify(state));
+  }
+
+  async update(key: string, apply: (current: LoginState | null) => LoginState): Promise<LoginState> {
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      const row = this.select.get(key) as { state: string } | undefined;
+      const state = apply(row ? JSON.parse(row.state) : null);
+      this.upsert.run(key, JSON.stringify(state));
+      this.db.exec('COMMIT');
+      return state;
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+let loginStateStore: LoginStateStore = new MemoryLoginStateStore();
+
+export function setLoginStateStore(store: LoginStateStore) {
+  loginStateStore = store;
+}
+
+export function getLoginStateStore(): LoginStateStore {
+  return loginStateStore;
+}
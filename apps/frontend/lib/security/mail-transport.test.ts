@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { getSmtpSettings } from './mail-transport';
+
+describe('getSmtpSettings', () => {
+  it('leaves SMTP off when no host is configured', () => {
+    expect(getSmtpSettings({ NODE_ENV: 'test' })).toBeNull();
+  });
+
+  it('uses implicit TLS on port 465 and STARTTLS elsewhere', () => {
+    const base = { NODE_ENV: 'test', SMTP_HOST: 'smtp.example.com', MAIL_FROM: 'no-reply@example.com' } as const;
+
+    expect(getSmtpSettings({ ...base, SMTP_PORT: '465' })).toMatchObject({ port: 465, secure: true });
+    expect(getSmtpSettings(base)).toMatchObject({ port: 587, secure: false, user: undefined });
+    expect(getSmtpSettings({ ...base, SMTP_USER: 'mailer', SMTP_PASS: 'secret' }))
+      .toMatchObject({ user: 'mailer', password: 'secret' });
+  });
+
+  it('requires a sender address', () => {
+    expect(() => getSmtpSettings({ NODE_ENV: 'test', SMTP_HOST: 'smtp.example.com' })).toThrow('MAIL_FROM');
+  });
+});
@@ -0,0 +1,111 @@
+// Outgoing mail for the auth routes. SMTP_HOST selects the SMTP transport;
+// without it, local development prints messages or writes them to
+// MAIL_OUTBOX_DIR. setMailTransport swaps in anything else.
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    // Messages carry password reset links that must not end up in production logs
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('No mail transport configured; set SMTP_HOST or call setMailTransport at startup');
+    }
+    console.info(`Mail to ${message.to}: ${message.subject}\n\n${message.text}`);
+  }
+}
+
+/** Writes each message to its own file so links can be opened from the outbox folder. */
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const date = new Date();
+    const name = `${date.toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9.@-]/g, '_')}.txt`;
+    const content = [`To: ${message.to}`, `Subject: ${message.subject}`, `Date: ${date.toUTCString()}`, '', message.text].join('\n');
+    await writeFile(path.join(this.directory, name), content, 'utf8');
+  }
+}
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Promise<import('nodemailer').Transporter> | null = null;
+
+  constructor(private settings: SmtpSettings) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const transporter = await this.getTransporter();
+    await transporter.sendMail({ from: this.settings.from, ...message });
+  }
+
+  private getTransporter() {
+    if (!this.transporter) {
+      const { host, port, secure, user, password } = this.settings;
+      // Loaded on demand so nothing needs nodemailer unless SMTP is configured
+      this.transporter = import('nodemailer').then(({ default: nodemailer }) =>
+        nodemailer.createTransport({
+          host,
+          port,
+          secure,
+          ...(user && { auth: { user, pass: password } }),
+        })
+      );
+    }
+    return this.transporter;
+  }
+}
+
+/** SMTP settings from the environment, or null when SMTP_HOST isn't set. */
+export function getSmtpSettings(env: NodeJS.ProcessEnv = process.env): SmtpSettings | null {
+  if (!env.SMTP_HOST) return null;
+
+  const port = parseInt(env.SMTP_PORT || '587', 10);
+  if (!env.MAIL_FROM) {
+    throw new Error('MAIL_FROM environment variable is required when SMTP_HOST is set');
+  }
+
+  return {
+    host: env.SMTP_HOST,
+    port,
+    secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+    user: env.SMTP_USER || undefined,
+    password: env.SMTP_PASS || undefined,
+    from: env.MAIL_FROM,
+  };
+}
+
+function createMailTransport(): MailTransport {
+  const smtp = getSmtpSettings();
+  if (smtp) return new SmtpMailTransport(smtp);
+  if (process.env.MAIL_OUTBOX_DIR) return new FileMailTransport(process.env.MAIL_OUTBOX_DIR);
+  return new ConsoleMailTransport();
+}
+
+let mailTransport: MailTransport = createMailTransport();
+
+export function setMailTransport(transport: MailTransport) {
+  mailTransport = transport;
+}
+
+export function getMailTransport(): MailTransport {
+  return mailTransport;
+}
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import Database from 'better-sqlite3';
+import {
+  createPasswordResetToken,
+  MemoryPasswordResetStore,
+  redeemPasswordResetToken,
+  RESET_TOKEN_TTL_MS,
+  setPasswordResetStore,
+  SqlitePasswordResetStore,
+} from './password-reset';
+
+const START = Date.now();
+const account = { id: 'user-1', email: 'trader@example.com' };
+
+const databases: Database.Database[] = [];
+
+afterEach(() => {
+  setPasswordResetStore(new MemoryPasswordResetStore());
+  databases.splice(0).forEach(db => db.close());
+});
+
+function openDatabase() {
+  const db = new Database(':memory:');
+  databases.push(db);
+  return db;
+}
+
+describe('SqlitePasswordResetStore', () => {
+  it('redeems a link requested through another store on the same database once', async () => {
+    const db = openDatabase();
+    setPasswordResetStore(new SqlitePasswordResetStore(db));
+    const token = await createPasswordResetToken(account, START);
+
+    // The confirm route's bundle, or a restarted server, opens its own store
+    setPasswordResetStore(new SqlitePasswordResetStore(db));
+    expect(await redeemPasswordResetToken(token, START + 1000)).toEqual({ userId: account.id, email: account.email });
+    expect(await redeemPasswordResetToken(token, START + 2000)).toBeNull();
+  });
+
+  it('only honours the newest link and rejects expired ones', async () => {
+    setPasswordResetStore(new SqlitePasswordResetStore(openDatabase()));
+    const first = await createPasswordResetToken(account, START);
+    const second = await createPasswordResetToken(account, START);
+
+    expect(await redeemPasswordResetToken(first, START)).toBeNull();
+    expect(await redeemPasswordResetToken(second, START + RESET_TOKEN_TTL_MS)).toBeNull();
+  });
+
+  it('rejects a table name that is not a plain identifier', () => {
+    expect(() => new SqlitePasswordResetStore(openDatabase(), 'resets; DROP TABLE x'))
+      .toThrow('Invalid password reset table name');
+  });
+});
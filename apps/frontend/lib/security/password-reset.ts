@@ -0,0 +1,141 @@
+// Password reset tokens: random, stored only as a hash, valid for a short
+// time and for one use. Asking for a new link replaces any earlier one.
+
+import { DataEncryption } from './encryption';
+import { SqliteDatabase, SqliteStatement } from './rate-limit-store';
+
+export const RESET_TOKEN_TTL_MS = 30 * 60 * 1000; // 30 minutes
+
+export interface PasswordResetRecord {
+  tokenHash: string;
+  userId: string;
+  email: string;
+  expiresAt: number;
+}
+
+export interface PasswordResetStore {
+  save(record: PasswordResetRecord): Promise<void>;
+  /** Removes and returns the record in one step, so a token can only be redeemed once. */
+  take(tokenHash: string): Promise<PasswordResetRecord | null>;
+  removeForUser(userId: string): Promise<void>;
+}
+
+export class MemoryPasswordResetStore implements PasswordResetStore {
+  private records: Record<string, PasswordResetRecord> = {};
+
+  async save(record: PasswordResetRecord): Promise<void> {
+    this.records[record.tokenHash] = record;
+  }
+
+  async take(tokenHash: string): Promise<PasswordResetRecord | null> {
+    const record = this.records[tokenHash] || null;
+    delete this.records[tokenHash];
+    return record;
+  }
+
+  async removeForUser(userId: string): Promise<void> {
+    Object.keys(this.records).forEach(hash => {
+      if (this.records[hash].userId === userId) delete this.records[hash];
+    });
+  }
+}
+
+/** Keeps reset records in the SQLite database shared by all workers, so links work on any of them. */
+export class SqlitePasswordResetStore implements PasswordResetStore {
+  private insert: SqliteStatement;
+  private select: SqliteStatement;
+  private deleteToken: SqliteStatement;
+  private deleteForUser: SqliteStatement;
+  private prune: SqliteStatement;
+
+  constructor(private db: SqliteDatabase, table = 'password_resets') {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid password reset table name: ${table}`);
+    }
+
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS ${table} (` +
+      'token_hash TEXT PRIMARY KEY, user_id TEXT NOT NULL, email TEXT NOT NULL, expires_at INTEGER NOT NULL)'
+    );
+    db.exec(`CREATE INDEX IF NOT EXISTS ${table}_user_id ON ${table} (user_id)`);
+
+    this.insert = db.prepare(
+      `INSERT OR REPLACE INTO ${table} (token_hash, user_id, email, expires_at) VALUES (?, ?, ?, ?)`
+    );
+    this.select = db.prepare(`SELECT token_hash, user_id, email, expires_at FROM ${table} WHERE token_hash = ?`);
+    this.deleteToken = db.prepare(`DELETE FROM ${table} WHERE token_hash = ?`);
+    this.deleteForUser = db.prepare(`DELETE FROM ${table} WHERE user_id = ?`);
+    this.prune = db.prepare(`DELETE FROM ${table} WHERE expires_at <= ?`);
+  }
+
+  async save(record: PasswordResetRecord): Promise<void> {
+    this.prune.run(Date.now());
+    this.insert.run(record.tokenHash, record.userId, record.email, record.expiresAt);
+  }
+
+  async take(tokenHash: string): Promise<PasswordResetRecord | null> {
+    // Read and delete in one transaction so two workers can't both redeem the link
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      const row = this.select.get(tokenHash) as
+        | { token_hash: string; user_id: string; email: string; expires_at: number }
+        | undefined;
+      if (row) this.deleteToken.run(tokenHash);
+      this.db.exec('COMMIT');
+
+      return row
+        ? { tokenHash: row.token_hash, userId: row.user_id, email: row.email, expiresAt: row.expires_at }
+        : null;
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async removeForUser(userId: string): Promise<void> {
+    this.deleteForUser.run(userId);
+  }
+}
+
+let resetStore: PasswordResetStore = new MemoryPasswordResetStore();
+
+export function setPasswordResetStore(store: PasswordResetStore) {
+  resetStore = store;
+}
+
+export function getPasswordResetStore(): PasswordResetStore {
+  return resetStore;
+}
+
+function hashResetToken(token: string): string {
+  return DataEncryption.hashIdentifier(`password-reset:${token}`);
+}
+
+/** Returns the raw token for the reset link; only its hash is stored. */
+export async function createPasswordResetToken(
+  account: { id: string; email: string },
+  now: number = Date.now()
+): Promise<string> {
+  const token = DataEncryption.generateSecureToken(32);
+  await resetStore.removeForUser(account.id);
+  await resetStore.save({
+    tokenHash: hashResetToken(token),
+    userId: account.id,
+    email: account.email,
+    expiresAt: now + RESET_TOKEN_TTL_MS,
+  });
+  return token;
+}
+
+/** Redeems a token, returning whose password it resets, or null if it is unknown, used or expired. */
+export async function redeemPasswordResetToken(
+  token: string,
+  now: number = Date.now()
+): Promise<{ userId: string; email: string } | null> {
+  const record = await resetStore.take(hashResetToken(token));
+  if (!record || record.expiresAt <= now) return null;
+
+  // Any other outstanding link for the account dies with this one
+  await resetStore.removeForUser(record.userId);
+  return { userId: record.userId, email: record.email };
+}
@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import Database from 'better-sqlite3';
+import { checkRateLimit } from './rate-limiter';
+import { MemoryRateLimitStore, RateLimitStore, SqliteRateLimitStore } from './rate-limit-store';
+
+const policy = { windowMs: 60_000, max: 2 };
+const START = Date.UTC(2024, 0, 1);
+
+const databases: Database.Database[] = [];
+
+afterEach(() => {
+  databases.splice(0).forEach(db => db.close());
+});
+
+function openDatabase() {
+  const db = new Database(':memory:');
+  databases.push(db);
+  return db;
+}
+
+const stores: Array<[string, () => RateLimitStore]> = [
+  ['MemoryRateLimitStore', () => new MemoryRateLimitStore()],
+  ['SqliteRateLimitStore', () => new SqliteRateLimitStore(openDatabase())],
+];
+
+describe.each(stores)('%s', (_name, createStore) => {
+  it('returns null for a key it has not seen', async () => {
+    const store = createStore();
+    let seen: unknown = 'unset';
+    await store.update('key', current => {
+      seen = current;
+      return { tokens: 1, updatedAt: START };
+    }, policy.windowMs, START);
+    expect(seen).toBeNull();
+  });
+
+  it('keeps state until the ttl runs out', async () => {
+    const store = createStore();
+    await checkRateLimit('key', policy, store, START);
+    await checkRateLimit('key', policy, store, START);
+    expect((await checkRateLimit('key', policy, store, START + 1)).allowed).toBe(false);
+
+    // The entry expired, so the bucket starts full again
+    let seen: unknown = 'unset';
+    await store.update('key', current => {
+      seen = current;
+      return { tokens: 0, updatedAt: START + policy.windowMs };
+    }, policy.windowMs, START + 1 + policy.windowMs);
+    expect(seen).toBeNull();
+  });
+
+  it('forgets a key on reset', async () => {
+    const store = createStore();
+    await checkRateLimit('key', policy, store, START);
+    await checkRateLimit('key', policy, store, START);
+    await store.reset('key');
+    expect((await checkRateLimit('key', policy, store, START)).allowed).toBe(true);
+  });
+});
+
+describe('SqliteRateLimitStore', () => {
+  it('shares buckets between stores on the same database', async () => {
+    const db = openDatabase();
+    const first = new SqliteRateLimitStore(db);
+    const second = new SqliteRateLimitStore(db);
+
+    await checkRateLimit('key', policy, first, START);
+    await checkRateLimit('key', policy, second, START);
+    expect((await checkRateLimit('key', policy, first, START)).allowed).toBe(false);
+  });
+
+  it('rolls back when the update throws', async () => {
+    const store = new SqliteRateLimitStore(openDatabase());
+    await checkRateLimit('key', policy, store, START);
+
+    await expect(store.update('key', () => {
+      throw new Error('boom');
+    }, policy.windowMs, START)).rejects.toThrow('boom');
+
+    expect((await checkRateLimit('key', policy, store, START)).remaining).toBe(0);
+  });
+
+  it('rejects table names that are not identifiers', () => {
+    expect(() => new SqliteRateLimitStore(openDatabase(), 'limits; DROP TABLE x')).toThrow();
+  });
+});
@@ -0,0 +1,131 @@
+// Storage for rate-limit state. The limiter reads and writes opaque state per
+// key through `update`, which each store applies atomically, so counters stay
+// correct when several Next.js workers share one store.
+
+export interface RateLimitState {
+  tokens: number;
+  updatedAt: number; // ms since epoch
+}
+
+export interface RateLimitStore {
+  /**
+   * Replaces the state under `key` with `apply(current)` as one atomic step
+   * and returns the new state. Entries expire `ttlMs` after their last update.
+   */
+  update(
+    key: string,
+    apply: (current: RateLimitState | null) => RateLimitState,
+    ttlMs: number,
+    now: number
+  ): Promise<RateLimitState>;
+  reset(key: string): Promise<void>;
+}
+
+// Expired entries are swept at most this often, on the next update
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Per-process store; fine for a single server, but each worker counts separately. */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries: Record<string, { state: RateLimitState; expiresAt: number }> = {};
+  private lastSweep = 0;
+
+  async update(
+    key: string,
+    apply: (current: RateLimitState | null) => RateLimitState,
+    ttlMs: number,
+    now: number
+  ): Promise<RateLimitState> {
+    this.sweep(now);
+
+    const entry = this.entries[key];
+    const current = entry && entry.expiresAt > now ? entry.state : null;
+    const state = apply(current);
+    this.entries[key] = { state, expiresAt: now + ttlMs };
+    return state;
+  }
+
+  async reset(key: string): Promise<void> {
+    delete this.entries[key];
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+    Object.keys(this.entries).forEach(key => {
+      if (this.entries[key].expiresAt <= now) delete this.entries[key];
+    });
+  }
+}
+
+// The subset of a synchronous SQLite driver (e.g. better-sqlite3) the store needs
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+}
+
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+/**
+ * Store backed by a SQLite database file shared by all workers. Each update
+ * runs in an immediate transaction, so concurrent requests for one key queue
+ * on the database lock instead of overwriting each other.
+ */
+export class SqliteRateLimitStore implements RateLimitStore {
+  private select: SqliteStatement;
+  private upsert: SqliteStatement;
+  private remove: SqliteStatement;
+  private prune: SqliteStatement;
+  private lastSweep = 0;
+
+  constructor(private db: SqliteDatabase, table = 'rate_limits') {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid rate limit table name: ${table}`);
+    }
+
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS ${table} (` +
+      'key TEXT PRIMARY KEY, tokens REAL NOT NULL, updated_at INTEGER NOT NULL, expires_at INTEGER NOT NULL)'
+    );
+    db.exec(`CREATE INDEX IF NOT EXISTS ${table}_expires_at ON ${table} (expires_at)`);
+
+    this.select = db.prepare(`SELECT tokens, updated_at, expires_at FROM ${table} WHERE key = ?`);
+    this.upsert = db.prepare(
+      `INSERT INTO ${table} (key, tokens, updated_at, expires_at) VALUES (?, ?, ?, ?) ` +
+      'ON CONFLICT(key) DO UPDATE SET tokens = excluded.tokens, updated_at = excluded.updated_at, expires_at = excluded.expires_at'
+    );
+    this.remove = db.prepare(`DELETE FROM ${table} WHERE key = ?`);
+    this.prune = db.prepare(`DELETE FROM ${table} WHERE expires_at <= ?`);
+  }
+
+  async update(
+    key: string,
+    apply: (current: RateLimitState | null) => RateLimitState,
+    ttlMs: number,
+    now: number
+  ): Promise<RateLimitState> {
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      if (now - this.lastSweep >= SWEEP_INTERVAL_MS) {
+        this.lastSweep = now;
+        this.prune.run(now);
+      }
+
+      const row = this.select.get(key) as { tokens: number; updated_at: number; expires_at: number } | undefined;
+      const current = row && row.expires_at > now ? { tokens: row.tokens, updatedAt: row.updated_at } : null;
+      const state = apply(current);
+      this.upsert.run(key, state.tokens, state.updatedAt, now + ttlMs);
+      this.db.exec('COMMIT');
+      return state;
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    this.remove.run(key);
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { checkRateLimit, getClientIp, rateLimit } from './rate-limiter';
+import { MemoryRateLimitStore } from './rate-limit-store';
+
+const policy = { name: 'test', windowMs: 60_000, max: 3 };
+const START = Date.UTC(2024, 0, 1);
+
+function requestFrom(headers: Record<string, string> = {}, ip?: string) {
+  return new NextRequest('http://localhost/api/test', { headers, ip });
+}
+
+describe('checkRateLimit', () => {
+  it('allows a full bucket and then rejects', async () => {
+    const store = new MemoryRateLimitStore();
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await checkRateLimit('key', policy, store, START));
+    }
+
+    expect(results.map(result => result.allowed)).toEqual([true, true, true, false]);
+    expect(results[2].remaining).toBe(0);
+    expect(results[3].retryAfterMs).toBe(20_000);
+  });
+
+  it('refills one token per window / max', async () => {
+    const store = new MemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) await checkRateLimit('key', policy, store, START);
+
+    expect((await checkRateLimit('key', policy, store, START + 19_999)).allowed).toBe(false);
+    expect((await checkRateLimit('key', policy, store, START + 20_000)).allowed).toBe(true);
+    expect((await checkRateLimit('key', policy, store, START + 20_001)).allowed).toBe(false);
+  });
+
+  it('never holds more than a full bucket after a long idle', async () => {
+    const store = new MemoryRateLimitStore();
+    await checkRateLimit('key', policy, store, START);
+
+    const later = START + 10 * policy.windowMs;
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await checkRateLimit('key', policy, store, later));
+    expect(results.map(result => result.allowed)).toEqual([true, true, true, false]);
+  });
+
+  it('keeps separate buckets per key', async () => {
+    const store = new MemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) await checkRateLimit('a', policy, store, START);
+
+    expect((await checkRateLimit('a', policy, store, START)).allowed).toBe(false);
+    expect((await checkRateLimit('b', policy, store, START)).allowed).toBe(true);
+  });
+});
+
+describe('rateLimit', () => {
+  it('answers 429 with Retry-After once the bucket is empty', async () => {
+    let now = START;
+    const limiter = rateLimit({
+      ...policy,
+      message: 'Slow down',
+      standardHeaders: true,
+      store: new MemoryRateLimitStore(),
+      now: () => now,
+    });
+    const request = requestFrom({}, '203.0.113.5');
+
+    for (let i = 0; i < 3; i++) expect(await limiter(request)).toBeNull();
+
+    const response = await limiter(request);
+    expect(response?.status).toBe(429);
+    expect(response?.headers.get('Retry-After')).toBe('20');
+    expect(response?.headers.get('RateLimit-Remaining')).toBe('0');
+    expect(await response?.json()).toMatchObject({ code: 'RATE_LIMIT_EXCEEDED', retryAfter: 20 });
+
+    now += 20_000;
+    expect(await limiter(request)).toBeNull();
+  });
+
+  it('is not bypassed by rotating a client-supplied X-Forwarded-For', async () => {
+    const limiter = rateLimit({
+      ...policy,
+      message: 'Slow down',
+      store: new MemoryRateLimitStore(),
+      now: () => START,
+    });
+
+    const statuses = [];
+    for (let i = 0; i < 5; i++) {
+      const response = await limiter(requestFrom({ 'x-forwarded-for': `10.0.0.${i}, 198.51.100.7` }));
+      statuses.push(response?.status ?? 200);
+    }
+    expect(statuses).toEqual([200, 200, 200, 429, 429]);
+  });
+});
+
+describe('getClientIp', () => {
+  it('prefers the address the platform reports', () => {
+    expect(getClientIp(requestFrom({ 'x-forwarded-for': '10.0.0.1' }, '203.0.113.5'))).toBe('203.0.113.5');
+  });
+
+  it('takes the entry added by the trusted proxy, not the leftmost one', () => {
+    const request = requestFrom({ 'x-forwarded-for': '10.0.0.1, 198.51.100.7, 192.0.2.10' });
+    expect(getClientIp(request, 1)).toBe('192.0.2.10');
+    expect(getClientIp(request, 2)).toBe('198.51.100.7');
+  });
+
+  it('ignores forwarding headers when no proxy is trusted', () => {
+    const request = requestFrom({ 'x-forwarded-for': '10.0.0.1', 'x-real-ip': '10.0.0.2' });
+    expect(getClientIp(request, 0)).toBe('unknown');
+  });
+});
@@ -1,116 +1,190 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { MemoryRateLimitStore, RateLimitState, RateLimitStore } from './rate-limit-store';
 
-interface RateLimitConfig {
-  windowMs: number; // Time window in milliseconds
-  max: number; // Maximum requests per window
-  message: string; // Error message when limit exceeded
+// Token bucket: each key holds up to `max` tokens and refills at `max` per
+// `windowMs`, so bursts are capped at `max` and the sustained rate at `max`
+// per window without the double burst fixed windows allow at their edges.
+export interface RateLimitPolicy {
+  name: string; // Namespaces keys so routes don't share buckets
+  windowMs: number; // Time for an empty bucket to refill completely
+  max: number; // Bucket size
+  message?: string; // Error message when limit exceeded
+}
+
+interface RateLimitConfig extends RateLimitPolicy {
+  message: string;
   standardHeaders?: boolean; // Include rate limit headers
   legacyHeaders?: boolean; // Include legacy X-RateLimit headers
+  store?: RateLimitStore; // Defaults to the shared store, see setRateLimitStore
+  now?: () => number; // Clock, replaceable for deterministic tests
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // When the bucket is full again, ms since epoch
+  retryAfterMs: number; // 0 when allowed
+}
+
+let sharedStore: RateLimitStore = new MemoryRateLimitStore();
+
+/** Swap the store used by every limiter without its own, e.g. for a SqliteRateLimitStore at startup. */
+export function setRateLimitStore(store: RateLimitStore) {
+  sharedStore = store;
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  return sharedStore;
 }
 
-interface RateLimitStore {
-  [key: string]: {
-    count: number;
-    resetTime: number;
+/** Refills the bucket up to `now` and takes one token if there is one. */
+export function consumeToken(
+  current: RateLimitState | null,
+  policy: Pick<RateLimitPolicy, 'max' | 'windowMs'>,
+  now: number
+): { state: RateLimitState; result: RateLimitResult } {
+  const refillPerMs = policy.max / policy.windowMs;
+  const elapsed = current ? Math.max(0, now - current.updatedAt) : 0;
+  const available = current ? Math.min(policy.max, current.tokens + elapsed * refillPerMs) : policy.max;
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: policy.max,
+      remaining: Math.floor(tokens),
+      resetAt: now + Math.ceil((policy.max - tokens) / refillPerMs),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+    },
   };
 }
 
-// In-memory store (use Redis in production)
-const store: RateLimitStore = {};
+export async function checkRateLimit(
+  key: string,
+  policy: Pick<RateLimitPolicy, 'max' | 'windowMs'>,
+  store: RateLimitStore = sharedStore,
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  let result: RateLimitResult | null = null;
+  await store.update(key, current => {
+    const consumed = consumeToken(current, policy, now);
+    result = consumed.result;
+    return consumed.state;
+  }, policy.windowMs, now);
+  return result!;
+}
 
-// Cleanup expired entries every 5 minutes
-setInterval(() => {
-  const now = Date.now();
-  Object.keys(store).forEach(key => {
-    if (store[key].resetTime < now) {
-      delete store[key];
-    }
-  });
-}, 5 * 60 * 1000);
+// Reverse proxies in front of the app that each append the address they saw to
+// X-Forwarded-For. Anything to the left of their entries came from the client.
+const TRUSTED_PROXY_HOPS = Math.max(0, parseInt(process.env.TRUSTED_PROXY_HOPS ?? '1', 10) || 0);
+
+/**
+ * The address limits and lockouts are keyed on. The platform's `request.ip`
+ * wins; otherwise the X-Forwarded-For entry written by the outermost trusted
+ * proxy, never the client-controlled leftmost one.
+ */
+export function getClientIp(request: NextRequest, trustedProxyHops: number = TRUSTED_PROXY_HOPS): string {
+  if (request.ip) return request.ip;
+  if (trustedProxyHops === 0) return 'unknown';
+
+  const forwarded = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  return forwarded[Math.max(0, forwarded.length - trustedProxyHops)] || 'unknown';
+}
+
+// Authenticated requests are limited per user and address; anonymous ones per address
+export function getRateLimitKey(policy: Pick<RateLimitPolicy, 'name'>, request: NextRequest, userId?: string): string {
+  const ip = getClientIp(request);
+  return userId ? `${policy.name}:user:${userId}:ip:${ip}` : `${policy.name}:ip:${ip}`;
+}
 
 export function rateLimit(config: RateLimitConfig) {
-  return async (request: NextRequest): Promise<NextResponse | null> => {
-    const identifier = getClientIdentifier(request);
-    const now = Date.now();
-    const windowStart = now - config.windowMs;
-
-    // Initialize or get existing entry
-    if (!store[identifier] || store[identifier].resetTime < now) {
-      store[identifier] = {
-        count: 0,
-        resetTime: now + config.windowMs,
-      };
-    }
+  return async (request: NextRequest, userId?: string): Promise<NextResponse | null> => {
+    const now = config.now ? config.now() : Date.now();
+    const result = await checkRateLimit(
+      getRateLimitKey(config, request, userId),
+      config,
+      config.store || sharedStore,
+      now
+    );
 
-    const entry = store[identifier];
-    entry.count++;
+    if (result.allowed) return null;
 
-    // Prepare headers
     const headers = new Headers();
-    
+    const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+
     if (config.standardHeaders) {
-      headers.set('RateLimit-Limit', config.max.toString());
-      headers.set('RateLimit-Remaining', Math.max(0, config.max - entry.count).toString());
-      headers.set('RateLimit-Reset', Math.ceil(entry.resetTime / 1000).toString());
+      headers.set('RateLimit-Limit', result.limit.toString());
+      headers.set('RateLimit-Remaining', result.remaining.toString());
+      headers.set('RateLimit-Reset', Math.ceil((result.resetAt - now) / 1000).toString());
     }
 
     if (config.legacyHeaders) {
-      headers.set('X-RateLimit-Limit', config.max.toString());
-      headers.set('X-RateLimit-Remaining', Math.max(0, config.max - entry.count).toString());
-      headers.set('X-RateLimit-Reset', Math.ceil(entry.resetTime / 1000).toString());
+      headers.set('X-RateLimit-Limit', result.limit.toString());
+      headers.set('X-RateLimit-Remaining', result.remaining.toString());
+      headers.set('X-RateLimit-Reset', Math.ceil(result.resetAt / 1000).toString());
     }
 
-    // Check if limit exceeded
-    if (entry.count > config.max) {
-      headers.set('Retry-After', Math.ceil((entry.resetTime - now) / 1000).toString());
-      
-      return NextResponse.json(
-        {
-          error: config.message,
-          code: 'RATE_LIMIT_EXCEEDED',
-          retryAfter: Math.ceil((entry.resetTime - now) / 1000),
-        },
-        {
-          status: 429,
-          headers,
-        }
-      );
-    }
+    headers.set('Retry-After', retryAfter.toString());
 
-    return null; // No rate limit exceeded
+    return NextResponse.json(
+      {
+        error: config.message,
+        code: 'RATE_LIMIT_EXCEEDED',
+        retryAfter,
+      },
+      {
+        status: 429,
+        headers,
+      }
+    );
   };
 }
 
-function getClientIdentifier(request: NextRequest): string {
-  // Get client IP address
-  const forwarded = request.headers.get('x-forwarded-for');
-  const realIp = request.headers.get('x-real-ip');
-  const ip = forwarded?.split(',')[0] || realIp || 'unknown';
-  
-  // Include user agent for additional fingerprinting
-  const userAgent = request.headers.get('user-agent') || '';
-  
-  return `${ip}:${userAgent.slice(0, 50)}`; // Truncate user agent
-}
-
 // Specific rate limiters for different endpoints
-export const apiRateLimit = rateLimit({
+export const API_RATE_LIMIT: RateLimitPolicy = {
+  name: 'api',
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // 100 requests per window
   message: 'Too many API requests, please try again later.',
-  standardHeaders: true,
-});
+};
 
-export const authRateLimit = rateLimit({
+export const AUTH_RATE_LIMIT: RateLimitPolicy = {
+  name: 'auth',
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 5, // 5 login attempts per window
   message: 'Too many authentication attempts, please try again later.',
-  standardHeaders: true,
-});
+};
 
-export const passwordResetRateLimit = rateLimit({
+export const PASSWORD_RESET_RATE_LIMIT: RateLimitPolicy = {
+  name: 'password-reset',
   windowMs: 60 * 60 * 1000, // 1 hour
   max: 3, // 3 password reset attempts per hour
   message: 'Too many password reset attempts, please try again later.',
-  standardHeaders: true,
-});
+};
+
+export const TWO_FACTOR_RATE_LIMIT: RateLimitPolicy = {
+  name: 'two-factor',
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // 10 code attempts per window
+  message: 'Too many verification attempts, please try again later.',
+};
+
+export function rateLimitFor(policy: RateLimitPolicy) {
+  return rateLimit({
+    ...policy,
+    message: policy.message || 'Too many requests, please try again later.',
+    standardHeaders: true,
+  });
+}
+
+export const apiRateLimit = rateLimitFor(API_RATE_LIMIT);
+
+export const authRateLimit = rateLimitFor(AUTH_RATE_LIMIT);
+
+export const passwordResetRateLimit = rateLimitFor(PASSWORD_RESET_RATE_LIMIT);
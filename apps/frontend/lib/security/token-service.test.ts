@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import Database from 'better-sqlite3';
+import {
+  issueTokens,
+  MemoryTokenStore,
+  rotateRefreshToken,
+  setTokenStore,
+  SqliteTokenStore,
+  TokenStore,
+  verifyAccessToken,
+} from './token-service';
+
+const START = Date.now();
+const MINUTE = 60 * 1000;
+const user = { id: 'user-1', email: 'trader@example.com' };
+
+const databases: Database.Database[] = [];
+
+afterEach(() => {
+  setTokenStore(new MemoryTokenStore());
+  databases.splice(0).forEach(db => db.close());
+});
+
+function openDatabase() {
+  const db = new Database(':memory:');
+  databases.push(db);
+  return db;
+}
+
+const stores: Array<[string, () => TokenStore]> = [
+  ['MemoryTokenStore', () => new MemoryTokenStore()],
+  ['SqliteTokenStore', () => new SqliteTokenStore(openDatabase())],
+];
+
+describe.each(stores)('rotateRefreshToken with %s', (_name, createStore) => {
+  it('exchanges the refresh token from sign-in for a new pair in the same session', async () => {
+    setTokenStore(createStore());
+    const signedIn = await issueTokens(user, 'session-1', START);
+
+    const rotated = await rotateRefreshToken(signedIn.refreshToken, START + MINUTE);
+    const payload = await verifyAccessToken(rotated.accessToken, START + MINUTE);
+    expect(payload).toMatchObject({ sub: user.id, sid: 'session-1', type: 'access' });
+    expect(rotated.refreshToken).not.toBe(signedIn.refreshToken);
+  });
+
+  it('revokes the session when a refresh token is used twice', async () => {
+    setTokenStore(createStore());
+    const signedIn = await issueTokens(user, 'session-1', START);
+    const rotated = await rotateRefreshToken(signedIn.refreshToken, START + MINUTE);
+
+    await expect(rotateRefreshToken(signedIn.refreshToken, START + 2 * MINUTE))
+      .rejects.toMatchObject({ code: 'TOKEN_REUSED' });
+    await expect(rotateRefreshToken(rotated.refreshToken, START + 2 * MINUTE))
+      .rejects.toMatchObject({ code: 'TOKEN_REVOKED' });
+  });
+});
+
+describe('SqliteTokenStore', () => {
+  it('accepts refresh tokens issued before a restart', async () => {
+    const db = openDatabase();
+    setTokenStore(new SqliteTokenStore(db));
+    const signedIn = await issueTokens(user, 'session-1', START);
+
+    setTokenStore(new SqliteTokenStore(db));
+    const rotated = await rotateRefreshToken(signedIn.refreshToken, START + MINUTE);
+    expect((await verifyAccessToken(rotated.accessToken, START + MINUTE)).sub).toBe(user.id);
+  });
+
+  it('rejects a table prefix that is not a plain identifier', () => {
+    expect(() => new SqliteTokenStore(openDatabase(), 'auth; DROP TABLE x')).toThrow('Invalid token table prefix');
+  });
+});
@@ -0,0 +1,350 @@
+// Server-side issuing and verification of HS256 access and refresh tokens.
+// Refresh tokens rotate on every use; presenting one that was already used
+// means it leaked, so the whole session is revoked.
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { TokenPayload } from '@/lib/types';
+import { DataEncryption, SecurityConfig } from './encryption';
+import { SqliteDatabase, SqliteStatement } from './rate-limit-store';
+
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000; // 15 minutes
+export const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number; // Access token expiry, ms since epoch
+  refreshExpiresAt: number;
+}
+
+export interface RefreshTokenRecord {
+  jti: string;
+  sid: string;
+  userId: string;
+  expiresAt: number;
+  usedAt: number | null;
+}
+
+export interface TokenStore {
+  saveRefreshToken(record: RefreshTokenRecord): Promise<void>;
+  /** Marks the token used in one step and returns it as it was before, or null if unknown. */
+  consumeRefreshToken(jti: string, now: number): Promise<RefreshTokenRecord | null>;
+  // Revocation list of token (jti) and session (sid) ids, kept until the tokens would expire anyway
+  revoke(id: string, expiresAt: number): Promise<void>;
+  isRevoked(id: string, now: number): Promise<boolean>;
+  // Tokens a user was issued before this time (ms) are no longer accepted
+  setUserTokensValidFrom(userId: string, validFrom: number): Promise<void>;
+  getUserTokensValidFrom(userId: string): Promise<number | null>;
+}
+
+export type TokenErrorCode = 'INVALID_TOKEN' | 'TOKEN_EXPIRED' | 'TOKEN_REVOKED' | 'TOKEN_REUSED';
+
+export class TokenError extends Error {
+  constructor(message: string, public code: TokenErrorCode) {
+    super(message);
+  }
+}
+
+export class MemoryTokenStore implements TokenStore {
+  private refreshTokens: Record<string, RefreshTokenRecord> = {};
+  private revoked: Record<string, number> = {};
+  private userValidFrom: Record<string, number> = {};
+
+  async saveRefreshToken(record: RefreshTokenRecord): Promise<void> {
+    this.prune(Date.now());
+    this.refreshTokens[record.jti] = { ...record };
+  }
+
+  async consumeRefreshToken(jti: string, now: number): Promise<RefreshTokenRecord | null> {
+    const record = this.refreshTokens[jti];
+    if (!record) return null;
+
+    const previous = { ...record };
+    if (record.usedAt === null) record.usedAt = now;
+    return previous;
+  }
+
+  async revoke(id: string, expiresAt: number): Promise<void> {
+    this.revoked[id] = Math.max(expiresAt, this.revoked[id] || 0);
+  }
+
+  async isRevoked(id: string, now: number): Promise<boolean> {
+    return (this.revoked[id] || 0) > now;
+  }
+
+  async setUserTokensValidFrom(userId: string, validFrom: number): Promise<void> {
+    this.userValidFrom[userId] = validFrom;
+  }
+
+  async getUserTokensValidFrom(userId: string): Promise<number | null> {
+    return this.userValidFrom[userId] ?? null;
+  }
+
+  private prune(now: number) {
+    Object.keys(this.refreshTokens).forEach(jti => {
+      if (this.refreshTokens[jti].expiresAt <= now) delete this.refreshTokens[jti];
+    });
+    Object.keys(this.revoked).forEach(id => {
+      if (this.revoked[id] <= now) delete this.revoked[id];
+    });
+  }
+}
+
+/**
+ * Store backed by the shared security database, so refresh tokens survive
+ * restarts and any worker can rotate a token another one issued.
+ */
+export class SqliteTokenStore implements TokenStore {
+  private insertToken: SqliteStatement;
+  private selectToken: SqliteStatement;
+  private markUsed: SqliteStatement;
+  private upsertRevoked: SqliteStatement;
+  private selectRevoked: SqliteStatement;
+  private upsertValidFrom: SqliteStatement;
+  private selectValidFrom: SqliteStatement;
+  private pruneTokens: SqliteStatement;
+  private pruneRevoked: SqliteStatement;
+
+  constructor(private db: SqliteDatabase, prefix = 'auth') {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(prefix)) {
+      throw new Error(`Invalid token table prefix: ${prefix}`);
+    }
+
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS ${prefix}_refresh_tokens (` +
+      'jti TEXT PRIMARY KEY, sid TEXT NOT NULL, user_id TEXT NOT NULL, expires_at INTEGER NOT NULL, used_at INTEGER)'
+    );
+    db.exec(`CREATE TABLE IF NOT EXISTS ${prefix}_revoked (id TEXT PRIMARY KEY, expires_at INTEGER NOT NULL)`);
+    db.exec(`CREATE TABLE IF NOT EXISTS ${prefix}_user_valid_from (user_id TEXT PRIMARY KEY, valid_from INTEGER NOT NULL)`);
+
+    this.insertToken = db.prepare(
+      `INSERT OR REPLACE INTO ${prefix}_refresh_tokens (jti, sid, user_id, expires_at, used_at) VALUES (?, ?, ?, ?, ?)`
+    );
+    this.selectToken = db.prepare(
+      `SELECT jti, sid, user_id, expires_at, used_at FROM ${prefix}_refresh_tokens WHERE jti = ?`
+    );
+    this.markUsed = db.prepare(`UPDATE ${prefix}_refresh_tokens SET used_at = ? WHERE jti = ? AND used_at IS NULL`);
+    this.upsertRevoked = db.prepare(
+      `INSERT INTO ${prefix}_revoked (id, expires_at) VALUES (?, ?) ` +
+      'ON CONFLICT(id) DO UPDATE SET expires_at = MAX(expires_at, excluded.expires_at)'
+    );
+    this.selectRevoked = db.prepare(`SELECT expires_at FROM ${prefix}_revoked WHERE id = ?`);
+    this.upsertValidFrom = db.prepare(
+      `INSERT INTO ${prefix}_user_valid_from (user_id, valid_from) VALUES (?, ?) ` +
+      'ON CONFLICT(user_id) DO UPDATE SET valid_from = excluded.valid_from'
+    );
+    this.selectValidFrom = db.prepare(`SELECT valid_from FROM ${prefix}_user_valid_from WHERE user_id = ?`);
+    this.pruneTokens = db.prepare(`DELETE FROM ${prefix}_refresh_tokens WHERE expires_at <= ?`);
+    this.pruneRevoked = db.prepare(`DELETE FROM ${prefix}_revoked WHERE expires_at <= ?`);
+  }
+
+  async saveRefreshToken(record: RefreshTokenRecord): Promise<void> {
+    const now = Date.now();
+    this.pruneTokens.run(now);
+    this.pruneRevoked.run(now);
+    this.insertToken.run(record.jti, record.sid, record.userId, record.expiresAt, record.usedAt);
+  }
+
+  async consumeRefreshToken(jti: string, now: number): Promise<RefreshTokenRecord | null> {
+    // Read and mark in one transaction so two workers can't both see the token unused
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      const row = this.selectToken.get(jti) as
+        | { jti: string; sid: string; user_id: string; expires_at: number; used_at: number | null }
+        | undefined;
+      if (row) this.markUsed.run(now, jti);
+      this.db.exec('COMMIT');
+
+      return row
+        ? { jti: row.jti, sid: row.sid, userId: row.user_id, expiresAt: row.expires_at, usedAt: row.used_at }
+        : null;
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async revoke(id: string, expiresAt: number): Promise<void> {
+    this.upsertRevoked.run(id, expiresAt);
+  }
+
+  async isRevoked(id: string, now: number): Promise<boolean> {
+    const row = this.selectRevoked.get(id) as { expires_at: number } | undefined;
+    return !!row && row.expires_at > now;
+  }
+
+  async setUserTokensValidFrom(userId: string, validFrom: number): Promise<void> {
+    this.upsertValidFrom.run(userId, validFrom);
+  }
+
+  async getUserTokensValidFrom(userId: string): Promise<number | null> {
+    const row = this.selectValidFrom.get(userId) as { valid_from: number } | undefined;
+    return row ? row.valid_from : null;
+  }
+}
+
+let tokenStore: TokenStore = new MemoryTokenStore();
+
+export function setTokenStore(store: TokenStore) {
+  tokenStore = store;
+}
+
+export function getTokenStore(): TokenStore {
+  return tokenStore;
+}
+
+function base64UrlJson(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function sign(payload: TokenPayload, secret: string): string {
+  const body = `${base64UrlJson({ alg: 'HS256', typ: 'JWT' })}.${base64UrlJson(payload)}`;
+  const signature = createHmac('sha256', secret).update(body).digest('base64url');
+  return `${body}.${signature}`;
+}
+
+function decodeAndVerify(token: string, secret: string, type: TokenPayload['type'], now: number): TokenPayload {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new TokenError('Malformed token', 'INVALID_TOKEN');
+
+  const [header, body, signature] = parts;
+  const expected = createHmac('sha256', secret).update(`${header}.${body}`).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new TokenError('Invalid token signature', 'INVALID_TOKEN');
+  }
+
+  let payload: TokenPayload;
+  try {
+    // Only HS256 is accepted; the header can't switch verification to another algorithm
+    if (JSON.parse(Buffer.from(header, 'base64url').toString()).alg !== 'HS256') throw new Error();
+    payload = JSON.parse(Buffer.from(body, 'base64url').toString());
+  } catch {
+    throw new TokenError('Malformed token', 'INVALID_TOKEN');
+  }
+
+  if (payload.type !== type) throw new TokenError(`Expected a ${type} token`, 'INVALID_TOKEN');
+  if (typeof payload.exp !== 'number' || payload.exp * 1000 <= now) {
+    throw new TokenError('Token expired', 'TOKEN_EXPIRED');
+  }
+  return payload;
+}
+
+/** Issues an access and refresh token pair, starting a new session unless `sessionId` continues one. */
+export async function issueTokens(
+  user: { id: string; email: string },
+  sessionId: string = DataEncryption.generateSecureToken(16),
+  now: number = Date.now()
+): Promise<IssuedTokens> {
+  const iat = Math.floor(now / 1000);
+  const expiresAt = now + ACCESS_TOKEN_TTL_MS;
+  const refreshExpiresAt = now + REFRESH_TOKEN_TTL_MS;
+  const base = { sub: user.id, email: user.email, iat, sid: sessionId };
+
+  const refreshJti = DataEncryption.generateSecureToken(16);
+  await tokenStore.saveRefreshToken({
+    jti: refreshJti,
+    sid: sessionId,
+    userId: user.id,
+    expiresAt: refreshExpiresAt,
+    usedAt: null,
+  });
+
+  return {
+    accessToken: sign(
+      { ...base, type: 'access', jti: DataEncryption.generateSecureToken(16), exp: Math.floor(expiresAt / 1000) },
+      SecurityConfig.JWT_SECRET
+    ),
+    refreshToken: sign(
+      { ...base, type: 'refresh', jti: refreshJti, exp: Math.floor(refreshExpiresAt / 1000) },
+      SecurityConfig.JWT_REFRESH_SECRET
+    ),
+    expiresAt,
+    refreshExpiresAt,
+  };
+}
+
+async function assertNotRevoked(payload: TokenPayload, now: number) {
+  if (await tokenStore.isRevoked(payload.jti, now) || await tokenStore.isRevoked(payload.sid, now)) {
+    throw new TokenError('Token revoked', 'TOKEN_REVOKED');
+  }
+  const validFrom = await tokenStore.getUserTokensValidFrom(payload.sub);
+  if (validFrom !== null && payload.iat * 1000 < validFrom) {
+    throw new TokenError('Token revoked', 'TOKEN_REVOKED');
+  }
+}
+
+export async function verifyAccessToken(token: string, now: number = Date.now()): Promise<TokenPayload> {
+  const payload = decodeAndVerify(token, SecurityConfig.JWT_SECRET, 'access', now);
+  await assertNotRevoked(payload, now);
+  return payload;
+}
+
+/**
+ * Exchanges a refresh token for a new pair in the same session. A token can
+ * be exchanged once; a second attempt revokes the session, so both the thief
+ * and the user are signed out of it.
+ */
+export async function rotateRefreshToken(token: string, now: number = Date.now()): Promise<IssuedTokens> {
+  const payload = decodeAndVerify(token, SecurityConfig.JWT_REFRESH_SECRET, 'refresh', now);
+  await assertNotRevoked(payload, now);
+
+  const record = await tokenStore.consumeRefreshToken(payload.jti, now);
+  if (!record || record.sid !== payload.sid || record.userId !== payload.sub) {
+    throw new TokenError('Unknown refresh token', 'INVALID_TOKEN');
+  }
+  if (record.usedAt !== null) {
+    await revokeSession(payload.sid, now);
+    throw new TokenError('Refresh token reused', 'TOKEN_REUSED');
+  }
+
+  return issueTokens({ id: payload.sub, email: payload.email }, payload.sid, now);
+}
+
+// Every token in the session expires within a refresh lifetime of now
+export async function revokeSession(sessionId: string, now: number = Date.now()): Promise<void> {
+  await tokenStore.revoke(sessionId, now + REFRESH_TOKEN_TTL_MS);
+}
+
+/** Signs the user out everywhere, e.g. after a password change. */
+export async function revokeUserTokens(userId: string, now: number = Date.now()): Promise<void> {
+  // `iat` has whole seconds, so tokens from the same second as the revocation go too
+  await tokenStore.setUserTokensValidFrom(userId, (Math.floor(now / 1000) + 1) * 1000);
+}
+
+export const REFRESH_TOKEN_COOKIE = 'refreshToken';
+
+/**
+ * The `{ success, tokens }` body JWTManager expects, plus any `extra` fields
+ * such as the signed-in user. The refresh token is also set as an HTTP-only
+ * cookie for clients that don't keep it themselves.
+ */
+export function tokenResponse(tokens: IssuedTokens, headers?: HeadersInit, extra?: Record<string, unknown>): NextResponse {
+  const response = NextResponse.json(
+    {
+      ...extra,
+      success: true,
+      tokens: {
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        expiresAt: tokens.expiresAt,
+      },
+    },
+    { headers }
+  );
+
+  response.cookies.set(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: Math.floor((tokens.refreshExpiresAt - Date.now()) / 1000),
+    path: '/',
+  });
+
+  return response;
+}
+
+export async function revokeToken(payload: TokenPayload): Promise<void> {
+  await tokenStore.revoke(payload.jti, payload.exp * 1000);
+}
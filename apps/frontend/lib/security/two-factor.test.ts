@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import Database from 'better-sqlite3';
+import {
+  beginTwoFactorSetup,
+  createLoginChallenge,
+  enableTwoFactor,
+  findLoginChallenge,
+  isTwoFactorEnabled,
+  MemoryTwoFactorStore,
+  setTwoFactorStore,
+  SqliteTwoFactorStore,
+  verifyLoginChallenge,
+} from './two-factor';
+import { generateTotp, getTotpStep } from './totp';
+
+const START = Date.now();
+const account = { id: 'user-1', email: 'trader@example.com' };
+
+const databases: Database.Database[] = [];
+
+afterEach(() => {
+  setTwoFactorStore(new MemoryTwoFactorStore());
+  databases.splice(0).forEach(db => db.close());
+});
+
+function openDatabase() {
+  const db = new Database(':memory:');
+  databases.push(db);
+  return db;
+}
+
+describe('SqliteTwoFactorStore', () => {
+  it('shares enrollment and pending challenges between store instances', async () => {
+    const db = openDatabase();
+    setTwoFactorStore(new SqliteTwoFactorStore(db));
+    const { secret } = await beginTwoFactorSetup(account);
+    await enableTwoFactor(account.id, generateTotp(secret, getTotpStep(START)), START);
+    const { challengeToken } = await createLoginChallenge(account, START);
+
+    // Another route bundle, worker or restart opens its own store on the same file
+    setTwoFactorStore(new SqliteTwoFactorStore(db));
+    expect(await isTwoFactorEnabled(account.id)).toBe(true);
+
+    const challenge = await findLoginChallenge(challengeToken, START);
+    expect(challenge).toMatchObject({ userId: account.id, attempts: 0 });
+
+    const later = START + 60 * 1000;
+    expect(await verifyLoginChallenge(challenge!, generateTotp(secret, getTotpStep(later)), later)).toBe('totp');
+    expect(await findLoginChallenge(challengeToken, later)).toBeNull();
+  });
+
+  it('drops challenges once they expire', async () => {
+    setTwoFactorStore(new SqliteTwoFactorStore(openDatabase()));
+    const { challengeToken, expiresAt } = await createLoginChallenge(account, START);
+    expect(await findLoginChallenge(challengeToken, expiresAt)).toBeNull();
+  });
+
+  it('rejects a table prefix that is not a plain identifier', () => {
+    expect(() => new SqliteTwoFactorStore(openDatabase(), 'two_factor; DROP TABLE x'))
+      .toThrow('Invalid two-factor table prefix');
+  });
+});
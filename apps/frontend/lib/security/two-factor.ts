@@ -0,0 +1,351 @@
+// Optional TOTP second factor. Secrets are encrypted at rest with DataEncryption
+// and backup codes are kept only as PasswordSecurity hashes. Like the other
+// security stores, the backing store is swapped at startup (setTwoFactorStore).
+
+import { randomBytes } from 'crypto';
+import { NextResponse } from 'next/server';
+import { DataEncryption, PasswordSecurity } from './encryption';
+import { SqliteDatabase, SqliteStatement } from './rate-limit-store';
+import { base32Encode, generateTotpSecret, getOtpauthUri, verifyTotp } from './totp';
+
+export const BACKUP_CODE_COUNT = 10;
+export const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+// Wrong codes allowed per challenge before the password has to be entered again
+export const MAX_CHALLENGE_ATTEMPTS = 5;
+
+export interface TwoFactorRecord {
+  userId: string;
+  encryptedSecret: string;
+  enabledAt: number | null; // Null until the first code confirms the app is set up
+  backupCodeHashes: string[];
+  lastUsedStep: number | null; // A code can't be replayed within its 30 second window
+}
+
+// Issued after a correct password on an account with 2FA, in place of tokens
+export interface LoginChallenge {
+  challengeHash: string;
+  userId: string;
+  email: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+export interface TwoFactorStore {
+  get(userId: string): Promise<TwoFactorRecord | null>;
+  save(record: TwoFactorRecord): Promise<void>;
+  remove(userId: string): Promise<void>;
+  getChallenge(challengeHash: string): Promise<LoginChallenge | null>;
+  saveChallenge(challenge: LoginChallenge): Promise<void>;
+  removeChallenge(challengeHash: string): Promise<void>;
+}
+
+export type TwoFactorErrorCode = 'INVALID_CODE' | 'NOT_ENABLED' | 'ALREADY_ENABLED' | 'SETUP_REQUIRED';
+
+export class TwoFactorError extends Error {
+  constructor(message: string, public code: TwoFactorErrorCode) {
+    super(message);
+    this.name = 'TwoFactorError';
+  }
+}
+
+/** The JSON error the 2FA routes answer with; wrong codes are 400, the rest are state conflicts. */
+export function twoFactorErrorResponse(error: TwoFactorError): NextResponse {
+  return NextResponse.json(
+    { success: false, error: error.message, code: error.code },
+    { status: error.code === 'INVALID_CODE' ? 400 : 409 }
+  );
+}
+
+export class MemoryTwoFactorStore implements TwoFactorStore {
+  private records: Record<string, TwoFactorRecord> = {};
+  private challenges: Record<string, LoginChallenge> = {};
+
+  async get(userId: string): Promise<TwoFactorRecord | null> {
+    return this.records[userId] ? { ...this.records[userId] } : null;
+  }
+
+  async save(record: TwoFactorRecord): Promise<void> {
+    this.records[record.userId] = { ...record };
+  }
+
+  async remove(userId: string): Promise<void> {
+    delete this.records[userId];
+  }
+
+  async getChallenge(challengeHash: string): Promise<LoginChallenge | null> {
+    return this.challenges[challengeHash] ? { ...this.challenges[challengeHash] } : null;
+  }
+
+  async saveChallenge(challenge: LoginChallenge): Promise<void> {
+    this.prune(Date.now());
+    this.challenges[challenge.challengeHash] = { ...challenge };
+  }
+
+  async removeChallenge(challengeHash: string): Promise<void> {
+    delete this.challenges[challengeHash];
+  }
+
+  private prune(now: number) {
+    Object.keys(this.challenges).forEach(hash => {
+      if (this.challenges[hash].expiresAt <= now) delete this.challenges[hash];
+    });
+  }
+}
+
+/** Keeps records and pending challenges as JSON rows in the SQLite database shared by all workers. */
+export class SqliteTwoFactorStore implements TwoFactorStore {
+  private selectRecord: SqliteStatement;
+  private upsertRecord: SqliteStatement;
+  private deleteRecord: SqliteStatement;
+  private selectChallenge: SqliteStatement;
+  private upsertChallenge: SqliteStatement;
+  private deleteChallenge: SqliteStatement;
+  private pruneChallenges: SqliteStatement;
+
+  constructor(db: SqliteDatabase, prefix = 'two_factor') {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(prefix)) {
+      throw new Error(`Invalid two-factor table prefix: ${prefix}`);
+    }
+
+    db.exec(`CREATE TABLE IF NOT EXISTS ${prefix}_records (user_id TEXT PRIMARY KEY, record TEXT NOT NULL)`);
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS ${prefix}_challenges (` +
+      'challenge_hash TEXT PRIMARY KEY, expires_at INTEGER NOT NULL, challenge TEXT NOT NULL)'
+    );
+
+    this.selectRecord = db.prepare(`SELECT record FROM ${prefix}_records WHERE user_id = ?`);
+    this.upsertRecord = db.prepare(
+      `INSERT INTO ${prefix}_records (user_id, record) VALUES (?, ?) ON CONFLICT(user_id) DO UPDATE SET record = excluded.record`
+    );
+    this.deleteRecord = db.prepare(`DELETE FROM ${prefix}_records WHERE user_id = ?`);
+    this.selectChallenge = db.prepare(`SELECT challenge FROM ${prefix}_challenges WHERE challenge_hash = ?`);
+    this.upsertChallenge = db.prepare(
+      `INSERT INTO ${prefix}_challenges (challenge_hash, expires_at, challenge) VALUES (?, ?, ?) ` +
+      'ON CONFLICT(challenge_hash) DO UPDATE SET expires_at = excluded.expires_at, challenge = excluded.challenge'
+    );
+    this.deleteChallenge = db.prepare(`DELETE FROM ${prefix}_challenges WHERE challenge_hash = ?`);
+    this.pruneChallenges = db.prepare(`DELETE FROM ${prefix}_challenges WHERE expires_at <= ?`);
+  }
+
+  async get(userId: string): Promise<TwoFactorRecord | null> {
+    const row = this.selectRecord.get(userId) as { record: string } | undefined;
+    return row ? JSON.parse(row.record) : null;
+  }
+
+  async save(record: TwoFactorRecord): Promise<void> {
+    this.upsertRecord.run(record.userId, JSON.stringify(record));
+  }
+
+  async remove(userId: string): Promise<void> {
+    this.deleteRecord.run(userId);
+  }
+
+  async getChallenge(challengeHash: string): Promise<LoginChallenge | null> {
+    const row = this.selectChallenge.get(challengeHash) as { challenge: string } | undefined;
+    return row ? JSON.parse(row.challenge) : null;
+  }
+
+  async saveChallenge(challenge: LoginChallenge): Promise<void> {
+    this.pruneChallenges.run(Date.now());
+    this.upsertChallenge.run(challenge.challengeHash, challenge.expiresAt, JSON.stringify(challenge));
+  }
+
+  async removeChallenge(challengeHash: string): Promise<void> {
+    this.deleteChallenge.run(challengeHash);
+  }
+}
+
+let twoFactorStore: TwoFactorStore = new MemoryTwoFactorStore();
+
+export function setTwoFactorStore(store: TwoFactorStore) {
+  twoFactorStore = store;
+}
+
+export function getTwoFactorStore(): TwoFactorStore {
+  return twoFactorStore;
+}
+
+// Backup codes are compared without case, spaces or dashes
+function normalizeCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+function isTotpCode(code: string): boolean {
+  return /^\d{6}$/.test(code);
+}
+
+function generateBackupCodes(): string[] {
+  return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const code = base32Encode(randomBytes(5)).toLowerCase();
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+  });
+}
+
+function hashBackupCodes(codes: string[]): Promise<string[]> {
+  return Promise.all(codes.map(code => PasswordSecurity.hashPassword(normalizeCode(code))));
+}
+
+async function getEnabledRecord(userId: string): Promise<TwoFactorRecord> {
+  const record = await twoFactorStore.get(userId);
+  if (!record || record.enabledAt === null) {
+    throw new TwoFactorError('Two-factor authentication is not enabled', 'NOT_ENABLED');
+  }
+  return record;
+}
+
+/** Accepts a TOTP code or, unless `totpOnly`, an unused backup code, which is then spent. */
+async function checkCode(
+  record: TwoFactorRecord,
+  code: string,
+  now: number,
+  totpOnly = false
+): Promise<'totp' | 'backup' | null> {
+  const normalized = normalizeCode(code);
+
+  if (isTotpCode(normalized)) {
+    const secret = await DataEncryption.decrypt(record.encryptedSecret);
+    const step = verifyTotp(secret, normalized, now);
+    if (step === null || (record.lastUsedStep !== null && step <= record.lastUsedStep)) return null;
+    await twoFactorStore.save({ ...record, lastUsedStep: step });
+    return 'totp';
+  }
+
+  if (totpOnly) return null;
+
+  for (let i = 0; i < record.backupCodeHashes.length; i++) {
+    if (await PasswordSecurity.verifyPassword(normalized, record.backupCodeHashes[i])) {
+      const remaining = record.backupCodeHashes.filter((_, index) => index !== i);
+      await twoFactorStore.save({ ...record, backupCodeHashes: remaining });
+      return 'backup';
+    }
+  }
+  return null;
+}
+
+export async function getTwoFactorStatus(userId: string): Promise<{ enabled: boolean; backupCodesRemaining: number }> {
+  const record = await twoFactorStore.get(userId);
+  const enabled = !!record && record.enabledAt !== null;
+  return { enabled, backupCodesRemaining: enabled ? record!.backupCodeHashes.length : 0 };
+}
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  return (await getTwoFactorStatus(userId)).enabled;
+}
+
+/**
+ * Starts enrollment with a fresh secret. Nothing changes for sign-in until
+ * enableTwoFactor confirms a code from the app; starting again replaces the secret.
+ */
+export async function beginTwoFactorSetup(account: { id: string; email: string }): Promise<{ secret: string; otpauthUri: string }> {
+  if (await isTwoFactorEnabled(account.id)) {
+    throw new TwoFactorError('Two-factor authentication is already enabled', 'ALREADY_ENABLED');
+  }
+
+  const secret = generateTotpSecret();
+  await twoFactorStore.save({
+    userId: account.id,
+    encryptedSecret: await DataEncryption.encrypt(secret),
+    enabledAt: null,
+    backupCodeHashes: [],
+    lastUsedStep: null,
+  });
+
+  return { secret, otpauthUri: getOtpauthUri(secret, account.email) };
+}
+
+/** Turns 2FA on once the app produces a valid code. Returns the backup codes, shown once. */
+export async function enableTwoFactor(userId: string, code: string, now: number = Date.now()): Promise<string[]> {
+  const record = await twoFactorStore.get(userId);
+  if (!record) {
+    throw new TwoFactorError('Start two-factor setup first', 'SETUP_REQUIRED');
+  }
+  if (record.enabledAt !== null) {
+    throw new TwoFactorError('Two-factor authentication is already enabled', 'ALREADY_ENABLED');
+  }
+  if (!await checkCode(record, code, now, true)) {
+    throw new TwoFactorError('That code is not valid', 'INVALID_CODE');
+  }
+
+  const backupCodes = generateBackupCodes();
+  const current = await twoFactorStore.get(userId);
+  await twoFactorStore.save({
+    ...current!,
+    enabledAt: now,
+    backupCodeHashes: await hashBackupCodes(backupCodes),
+  });
+  return backupCodes;
+}
+
+export async function disableTwoFactor(userId: string, code: string, now: number = Date.now()): Promise<void> {
+  const record = await getEnabledRecord(userId);
+  if (!await checkCode(record, code, now)) {
+    throw new TwoFactorError('That code is not valid', 'INVALID_CODE');
+  }
+  await twoFactorStore.remove(userId);
+}
+
+/** Replaces every backup code; the old ones stop working. */
+export async function regenerateBackupCodes(userId: string, code: string, now: number = Date.now()): Promise<string[]> {
+  const record = await getEnabledRecord(userId);
+  if (!await checkCode(record, code, now)) {
+    throw new TwoFactorError('That code is not valid', 'INVALID_CODE');
+  }
+
+  const backupCodes = generateBackupCodes();
+  const current = await twoFactorStore.get(userId);
+  await twoFactorStore.save({ ...current!, backupCodeHashes: await hashBackupCodes(backupCodes) });
+  return backupCodes;
+}
+
+function hashChallenge(token: string): string {
+  return DataEncryption.hashIdentifier(`two-factor-challenge:${token}`);
+}
+
+/** Returns the raw challenge token for the client; only its hash is stored. */
+export async function createLoginChallenge(
+  account: { id: string; email: string },
+  now: number = Date.now()
+): Promise<{ challengeToken: string; expiresAt: number }> {
+  const challengeToken = DataEncryption.generateSecureToken(32);
+  const expiresAt = now + LOGIN_CHALLENGE_TTL_MS;
+  await twoFactorStore.saveChallenge({
+    challengeHash: hashChallenge(challengeToken),
+    userId: account.id,
+    email: account.email,
+    expiresAt,
+    attempts: 0,
+  });
+  return { challengeToken, expiresAt };
+}
+
+export async function findLoginChallenge(challengeToken: string, now: number = Date.now()): Promise<LoginChallenge | null> {
+  const challenge = await twoFactorStore.getChallenge(hashChallenge(challengeToken));
+  return challenge && challenge.expiresAt > now ? challenge : null;
+}
+
+/**
+ * Checks the code for a pending sign-in. A correct code uses up the challenge;
+ * wrong ones count against it until the password has to be entered again.
+ */
+export async function verifyLoginChallenge(
+  challenge: LoginChallenge,
+  code: string,
+  now: number = Date.now()
+): Promise<'totp' | 'backup' | null> {
+  const record = await twoFactorStore.get(challenge.userId);
+  if (!record || record.enabledAt === null) {
+    // Turned off since the password was checked; signing in again skips this step
+    await twoFactorStore.removeChallenge(challenge.challengeHash);
+    throw new TwoFactorError('Two-factor authentication is not enabled', 'NOT_ENABLED');
+  }
+
+  const method = await checkCode(record, code, now);
+  if (method) {
+    await twoFactorStore.removeChallenge(challenge.challengeHash);
+  } else if (challenge.attempts + 1 >= MAX_CHALLENGE_ATTEMPTS) {
+    await twoFactorStore.removeChallenge(challenge.challengeHash);
+  } else {
+    await twoFactorStore.saveChallenge({ ...challenge, attempts: challenge.attempts + 1 });
+  }
+  return method;
+}
@@ -0,0 +1,82 @@
+import { useMemo } from 'react';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DEFAULT_PAIRING_WINDOW_MS } from './analytics/trade-linking';
+import { DEFAULT_WEEK_START, WeekOptions, WeekStartDay } from './calendar';
+import { useAuthStore } from './auth-store';
+import { DEFAULT_CUSTOM_TIMINGS, BreathingTimings } from './breathing';
+import { BreathingProtocolId } from './types';
+
+interface SettingsState {
+  // How far back a pre-trade check may be and still be linked to a trade
+  linkWindowMinutes: number;
+  setLinkWindowMinutes: (minutes: number) => void;
+  // Missed days a check-in streak survives ("streak freeze")
+  streakGraceDays: number;
+  setStreakGraceDays: (days: number) => void;
+  // First day of the week for prompts, reflections and weekly charts
+  weekStartsOn: WeekStartDay;
+  setWeekStartsOn: (day: WeekStartDay) => void;
+  // Breathing guide protocol and cues
+  breathingProtocol: BreathingProtocolId;
+  setBreathingProtocol: (protocol: BreathingProtocolId) => void;
+  customBreathing: BreathingTimings;
+  setCustomBreathing: (timings: Partial<BreathingTimings>) => void;
+  breathingAudioCues: boolean;
+  setBreathingAudioCues: (enabled: boolean) => void;
+  breathingHapticCues: boolean;
+  setBreathingHapticCues: (enabled: boolean) => void;
+}
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      linkWindowMinutes: DEFAULT_PAIRING_WINDOW_MS / 60000,
+      setLinkWindowMinutes: (minutes: number) => set({ linkWindowMinutes: minutes }),
+      streakGraceDays: 0,
+      setStreakGraceDays: (days: number) => set({ streakGraceDays: days }),
+      weekStartsOn: DEFAULT_WEEK_START,
+      setWeekStartsOn: (day: WeekStartDay) => set({ weekStartsOn: day }),
+      breathingProtocol: 'relax-478',
+      setBreathingProtocol: (protocol: BreathingProtocolId) => set({ breathingProtocol: protocol }),
+      customBreathing: DEFAULT_CUSTOM_TIMINGS,
+      setCustomBreathing: (timings: Partial<BreathingTimings>) =>
+        set(state => ({ customBreathing: { ...state.customBreathing, ...timings } })),
+      breathingAudioCues: false,
+      setBreathingAudioCues: (enabled: boolean) => set({ breathingAudioCues: enabled }),
+      breathingHapticCues: true,
+      setBreathingHapticCues: (enabled: boolean) => set({ breathingHapticCues: enabled }),
+    }),
+    {
+      name: 'settings-store',
+      partialize: (state) => ({
+        linkWindowMinutes: state.linkWindowMinutes,
+        streakGraceDays: state.streakGraceDays,
+        weekStartsOn: state.weekStartsOn,
+        breathingProtocol: state.breathingProtocol,
+        customBreathing: state.customBreathing,
+        breathingAudioCues: state.breathingAudioCues,
+        breathingHapticCues: state.breathingHapticCues,
+      }),
+    }
+  )
+);
+
+// Pairing window in milliseconds, for the analytics helpers
+export function useLinkWindowMs(): number {
+  return useSettingsStore(state => state.linkWindowMinutes) * 60000;
+}
+
+// Week boundaries in the profile timezone, for code outside React
+export function getWeekOptions(): WeekOptions {
+  return {
+    timezone: useAuthStore.getState().user?.timezone,
+    weekStartsOn: useSettingsStore.getState().weekStartsOn,
+  };
+}
+
+export function useWeekOptions(): WeekOptions {
+  const timezone = useAuthStore(state => state.user?.timezone);
+  const weekStartsOn = useSettingsStore(state => state.weekStartsOn);
+  return useMemo(() => ({ timezone, weekStartsOn }), [timezone, weekStartsOn]);
+}
@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 
-export type TabKey = 'emotion' | 'trade' | 'patterns' | 'reflection' | 'profile';
+export type TabKey = 'emotion' | 'trade' | 'session' | 'patterns' | 'reflection' | 'profile';
 
 interface TabState {
   activeTab: TabKey;
@@ -0,0 +1,123 @@
+import { Trade } from './types';
+
+export type TradeDirection = 'buy' | 'sell';
+export type TradeOutcome = 'win' | 'loss' | 'breakeven';
+
+export interface TradeMetricsInput {
+  type: TradeDirection;
+  entryPrice?: number;
+  exitPrice?: number;
+  quantity?: number;
+  fees?: number;
+  stopLoss?: number;
+  entryTime?: Date | string;
+  exitTime?: Date | string;
+}
+
+export interface TradeMetrics {
+  pnl: number | null;
+  returnPercent: number | null;
+  rMultiple: number | null;
+  holdingMs: number | null;
+  outcome: TradeOutcome | null;
+}
+
+function isNumber(value: number | undefined | null): value is number {
+  return typeof value === 'number' && !isNaN(value);
+}
+
+// Buys profit when price rises, sells (shorts) when it falls; fees always reduce P&L
+export function calculatePnL(input: TradeMetricsInput): number | null {
+  const { type, entryPrice, exitPrice, quantity, fees = 0 } = input;
+  if (!isNumber(entryPrice) || !isNumber(exitPrice) || !isNumber(quantity)) return null;
+
+  const direction = type === 'buy' ? 1 : -1;
+  const gross = (exitPrice - entryPrice) * quantity * direction;
+  return roundCurrency(gross - (isNumber(fees) ? fees : 0));
+}
+
+export function calculateReturnPercent(pnl: number | null, entryPrice?: number, quantity?: number): number | null {
+  if (pnl === null || !isNumber(entryPrice) || !isNumber(quantity)) return null;
+
+  const costBasis = entryPrice * quantity;
+  if (costBasis === 0) return null;
+  return (pnl / costBasis) * 100;
+}
+
+// P&L expressed in units of the initial risk (distance to the stop loss)
+export function calculateRMultiple(pnl: number | null, input: TradeMetricsInput): number | null {
+  const { entryPrice, stopLoss, quantity } = input;
+  if (pnl === null || !isNumber(entryPrice) || !isNumber(stopLoss) || !isNumber(quantity)) return null;
+
+  const risk = Math.abs(entryPrice - stopLoss) * quantity;
+  if (risk === 0) return null;
+  return pnl / risk;
+}
+
+export function calculateHoldingDuration(entryTime?: Date | string, exitTime?: Date | string): number | null {
+  if (!entryTime || !exitTime) return null;
+
+  const duration = new Date(exitTime).getTime() - new Date(entryTime).getTime();
+  return isNaN(duration) || duration < 0 ? null : duration;
+}
+
+export function deriveOutcome(pnl: number | null): TradeOutcome | null {
+  if (pnl === null) return null;
+  if (pnl > 0) return 'win';
+  if (pnl < 0) return 'loss';
+  return 'breakeven';
+}
+
+export function computeTradeMetrics(input: TradeMetricsInput): TradeMetrics {
+  const pnl = calculatePnL(input);
+
+  return {
+    pnl,
+    returnPercent: calculateReturnPercent(pnl, input.entryPrice, input.quantity),
+    rMultiple: calculateRMultiple(pnl, input),
+    holdingMs: calculateHoldingDuration(input.entryTime, input.exitTime),
+    outcome: deriveOutcome(pnl),
+  };
+}
+
+// Stored P&L wins; otherwise fall back to what the prices imply
+export function getTradePnL(trade: Trade): number | null {
+  if (isNumber(trade.pnl)) return trade.pnl;
+  return calculatePnL(trade);
+}
+
+export function getTradeMetrics(trade: Trade): TradeMetrics {
+  const pnl = getTradePnL(trade);
+
+  return {
+    pnl,
+    returnPercent: calculateReturnPercent(pnl, trade.entryPrice, trade.quantity),
+    rMultiple: calculateRMultiple(pnl, trade),
+    holdingMs: calculateHoldingDuration(trade.entryTime, trade.exitTime),
+    outcome: deriveOutcome(pnl),
+  };
+}
+
+// When the trade was opened - older trades only carry a timestamp
+export function getTradeTime(trade: Trade): Date | string {
+  return trade.entryTime || trade.timestamp;
+}
+
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+
+  const days = Math.floor(hours / 24);
+  return `${days}d ${hours % 24}h`;
+}
+
+export function formatRMultiple(rMultiple: number): string {
+  return `${rMultiple > 0 ? '+' : ''}${rMultiple.toFixed(2)}R`;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
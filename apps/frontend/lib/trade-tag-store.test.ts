@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The persisted stores look for localStorage when they're created
+vi.hoisted(() => {
+  const items: Record<string, string> = {};
+  (globalThis as any).localStorage = {
+    getItem: (key: string) => (key in items ? items[key] : null),
+    setItem: (key: string, value: string) => { items[key] = value; },
+    removeItem: (key: string) => { delete items[key]; },
+  };
+});
+
+vi.mock('./api-client', () => ({
+  apiClient: { getTradeTags: vi.fn(), saveTradeTags: vi.fn() },
+}));
+
+import { apiClient } from './api-client';
+import { useOutboxStore } from './outbox-store';
+import { useTradeTagStore } from './trade-tag-store';
+import { DEFAULT_TRADE_TAGS, TradeTag } from './trade-tags';
+
+const getTradeTags = vi.mocked(apiClient.getTradeTags);
+const saveTradeTags = vi.mocked(apiClient.saveTradeTags);
+
+const serverTags: TradeTag[] = [
+  { id: 'fomo-entry', label: 'Chased it', kind: 'mistake' },
+  { id: 'orb', label: 'Opening range', kind: 'setup' },
+];
+
+describe('trade tag sync', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    saveTradeTags.mockImplementation(async tags => tags);
+    useOutboxStore.setState({ operations: [], userId: 'user-1', parked: {} });
+    useTradeTagStore.setState({ tags: DEFAULT_TRADE_TAGS, isSyncing: false });
+  });
+
+  it('saves every edit to the server', async () => {
+    useTradeTagStore.getState().addTag('setup', 'Opening range');
+    useTradeTagStore.getState().renameTag('fomo-entry', 'Chased it');
+
+    await vi.waitFor(() => expect(saveTradeTags).toHaveBeenCalledTimes(2));
+    expect(saveTradeTags.mock.calls[1][0]).toEqual(useTradeTagStore.getState().tags);
+  });
+
+  it('takes the server\'s list on a device that signed in fresh', async () => {
+    getTradeTags.mockResolvedValue(serverTags);
+    await useTradeTagStore.getState().syncWithServer();
+
+    expect(useTradeTagStore.getState().tags).toEqual(serverTags);
+    expect(saveTradeTags).not.toHaveBeenCalled();
+  });
+
+  it('uploads a list customised before tags synced', async () => {
+    getTradeTags.mockResolvedValue([]);
+    const custom = [...DEFAULT_TRADE_TAGS, { id: 'orb', label: 'Opening range', kind: 'setup' as const }];
+    useTradeTagStore.setState({ tags: custom });
+
+    await useTradeTagStore.getState().syncWithServer();
+    expect(saveTradeTags).toHaveBeenCalledWith(custom, expect.anything());
+  });
+
+  it('keeps a save still waiting in the outbox over the server\'s copy', async () => {
+    getTradeTags.mockResolvedValue(DEFAULT_TRADE_TAGS);
+    useOutboxStore.getState().enqueue('tradeTags.save', { tags: serverTags });
+    useTradeTagStore.setState({ tags: DEFAULT_TRADE_TAGS });
+
+    await useTradeTagStore.getState().syncWithServer();
+    expect(useTradeTagStore.getState().tags).toEqual(serverTags);
+  });
+});
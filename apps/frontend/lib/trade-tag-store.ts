@@ -0,0 +1,129 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { apiClient } from './api-client';
+import { OutboxPayloads, useOutboxStore } from './outbox-store';
+import {
+  DEFAULT_TRADE_TAGS,
+  MAX_TAG_LABEL_LENGTH,
+  TradeTag,
+  TradeTagKind,
+  uniqueTagId,
+} from './trade-tags';
+
+interface TradeTagState {
+  tags: TradeTag[];
+  isSyncing: boolean;
+  // Returns null when the label is empty or already used for that kind
+  addTag: (kind: TradeTagKind, label: string) => TradeTag | null;
+  renameTag: (id: string, label: string) => void;
+  setArchived: (id: string, archived: boolean) => void;
+  resetTags: () => void;
+  syncWithServer: () => Promise<void>;
+}
+
+function cleanLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LABEL_LENGTH);
+}
+
+function isDefaultList(tags: TradeTag[]): boolean {
+  return JSON.stringify(tags) === JSON.stringify(DEFAULT_TRADE_TAGS);
+}
+
+// The whole list is saved through the outbox so edits made offline reach the server later
+function uploadTags(tags: TradeTag[]) {
+  useOutboxStore.getState()
+    .submit('tradeTags.save', { tags })
+    .catch(error => console.error('Failed to save trade tags:', error));
+}
+
+// The newest list still waiting to reach the server, if any
+function getQueuedTags(): TradeTag[] | null {
+  const queued = useOutboxStore.getState().operations
+    .filter(op => op.type === 'tradeTags.save' && op.status === 'pending');
+  if (queued.length === 0) return null;
+  return (queued[queued.length - 1].payload as OutboxPayloads['tradeTags.save']).tags;
+}
+
+export const useTradeTagStore = create<TradeTagState>()(
+  persist(
+    (set, get) => ({
+      tags: DEFAULT_TRADE_TAGS,
+      isSyncing: false,
+
+      addTag: (kind: TradeTagKind, label: string) => {
+        const clean = cleanLabel(label);
+        const { tags } = get();
+        if (!clean || tags.some(tag => tag.kind === kind && tag.label.toLowerCase() === clean.toLowerCase())) {
+          return null;
+        }
+
+        const tag: TradeTag = { id: uniqueTagId(clean, tags), label: clean, kind };
+        set({ tags: [...tags, tag] });
+        uploadTags(get().tags);
+        return tag;
+      },
+
+      // Only the label changes, so trades already tagged keep pointing at it
+      renameTag: (id: string, label: string) => {
+        const clean = cleanLabel(label);
+        if (!clean || get().tags.some(tag => tag.id === id && tag.label === clean)) return;
+        set(state => ({
+          tags: state.tags.map(tag => (tag.id === id ? { ...tag, label: clean } : tag)),
+        }));
+        uploadTags(get().tags);
+      },
+
+      setArchived: (id: string, archived: boolean) => {
+        set(state => ({
+          tags: state.tags.map(tag => (tag.id === id ? { ...tag, archived } : tag)),
+        }));
+        uploadTags(get().tags);
+      },
+
+      resetTags: () => {
+        set({ tags: DEFAULT_TRADE_TAGS });
+        uploadTags(DEFAULT_TRADE_TAGS);
+      },
+
+      /**
+       * Pulls the user's list from the server. A save still queued in the
+       * outbox is newer, so it wins; a list customised on this device before
+       * tags synced is uploaded when the server has none yet.
+       */
+      syncWithServer: async () => {
+        if (get().isSyncing) return;
+
+        const queued = getQueuedTags();
+        if (queued) {
+          set({ tags: queued });
+          return;
+        }
+
+        set({ isSyncing: true });
+        const before = get().tags;
+        try {
+          const serverTags = await apiClient.getTradeTags();
+          // An edit made while the request was out is already on its way up
+          if (get().tags !== before) return;
+
+          if (serverTags.length > 0) {
+            set({ tags: serverTags });
+          } else if (!isDefaultList(before)) {
+            uploadTags(before);
+          }
+        } catch (error) {
+          // The cached list keeps working offline; the next sync catches up
+          console.error('Failed to sync trade tags:', error);
+        } finally {
+          set({ isSyncing: false });
+        }
+      },
+    }),
+    {
+      name: 'trade-tag-store',
+      partialize: (state) => ({
+        tags: state.tags,
+      }),
+    }
+  )
+);
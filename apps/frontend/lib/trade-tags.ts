@@ -0,0 +1,58 @@
+// Mistake and setup tags that can be attached to trades. Trades store tag ids,
+// which are slugs of the original label so they stay readable even on a device
+// that doesn't have the user's custom taxonomy.
+
+export type TradeTagKind = 'mistake' | 'setup';
+
+export interface TradeTag {
+  id: string;
+  label: string;
+  kind: TradeTagKind;
+  // Archived tags are hidden from pickers but still label older trades
+  archived?: boolean;
+}
+
+export const MAX_TAG_LABEL_LENGTH = 40;
+
+export const DEFAULT_TRADE_TAGS: TradeTag[] = [
+  { id: 'fomo-entry', label: 'FOMO entry', kind: 'mistake' },
+  { id: 'moved-stop', label: 'Moved stop', kind: 'mistake' },
+  { id: 'oversized', label: 'Oversized', kind: 'mistake' },
+  { id: 'revenge', label: 'Revenge trade', kind: 'mistake' },
+  { id: 'plan-violation', label: 'Plan violation', kind: 'mistake' },
+  { id: 'breakout', label: 'Breakout', kind: 'setup' },
+  { id: 'pullback', label: 'Pullback', kind: 'setup' },
+  { id: 'reversal', label: 'Reversal', kind: 'setup' },
+  { id: 'range-fade', label: 'Range fade', kind: 'setup' },
+];
+
+export const TAG_KIND_LABELS: Record<TradeTagKind, string> = {
+  mistake: 'Mistakes',
+  setup: 'Setups',
+};
+
+export function slugifyTag(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// "moved-stop" -> "Moved stop", for ids missing from this device's taxonomy
+export function humanizeTagId(id: string): string {
+  const words = id.replace(/-\d+$/, '').split('-').filter(Boolean).join(' ');
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : id;
+}
+
+export function getTagLabel(id: string, tags: TradeTag[]): string {
+  return tags.find(tag => tag.id === id)?.label || humanizeTagId(id);
+}
+
+/** A slug not yet used by any tag, suffixed when the plain slug is taken. */
+export function uniqueTagId(label: string, tags: TradeTag[]): string {
+  const base = slugifyTag(label) || 'tag';
+  let id = base;
+  for (let n = 2; tags.some(tag => tag.id === id); n++) id = `${base}-${n}`;
+  return id;
+}
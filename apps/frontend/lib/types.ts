@@ -10,7 +10,18 @@ export interface User {
   isActive: boolean;
 }
 
-export interface EmotionCheck {
+export type NamedEmotion = 'fear' | 'greed' | 'fomo' | 'revenge' | 'boredom';
+
+// Optional structured detail recorded alongside the overall level
+export interface EmotionDimensions {
+  emotions?: NamedEmotion[];
+  confidence?: number; // 1-10 scale
+  focus?: number; // 1-10 scale
+  sleepHours?: number;
+  physicalTension?: number; // 1-10 scale
+}
+
+export interface EmotionCheck extends EmotionDimensions {
   id: string;
   userId: string;
   level: number; // 1-10 scale
@@ -18,6 +29,8 @@ export interface EmotionCheck {
   timestamp: Date;
   notes?: string;
   symbol?: string;
+  // Cool-down completed just before this check
+  breathingSessionId?: string;
 }
 
 export interface Trade {
@@ -27,7 +40,18 @@ export interface Trade {
   type: 'buy' | 'sell';
   outcome: 'win' | 'loss' | 'breakeven';
   pnl?: number;
+  entryPrice?: number;
+  exitPrice?: number;
+  quantity?: number;
+  fees?: number;
+  stopLoss?: number;
+  entryTime?: Date;
+  exitTime?: Date;
   emotionCheckId?: string;
+  postEmotionCheckId?: string;
+  // Ids from the user's tag taxonomy (see lib/trade-tags)
+  mistakeTags?: string[];
+  setupTag?: string;
   timestamp: Date;
 }
 
@@ -55,6 +79,31 @@ export interface KeyInsight {
   improvement?: number;
 }
 
+// Weekly prompt as stored by the server; the server assigns each week's question
+export interface WeeklyPromptRecord {
+  id: string;
+  week: string; // ISO week key, e.g. 2026-W42
+  question: string;
+  // Set when the question came from the client's adaptive selection
+  templateId?: string;
+  theme?: string;
+  reason?: string;
+  isAnswered: boolean;
+  answer?: string;
+  answeredAt?: string;
+  createdAt: string;
+}
+
+export interface WeeklyPromptAnswerRequest {
+  question: string;
+  templateId?: string;
+  theme?: string;
+  reason?: string;
+  answer?: string;
+  skipped: boolean;
+  answeredAt: string;
+}
+
 export interface WeeklyReflection {
   id: string;
   userId: string;
@@ -73,6 +122,9 @@ export interface WeeklyReflection {
   updatedAt: string;
 }
 
+// Measurable goals whose progress is computed from checks and trades (see lib/analytics/goal-progress)
+export type GoalMetric = 'preTradeCheckRate' | 'journaledTradeRate' | 'mistakeTagCount' | 'averagePreTradeLevel';
+
 export interface MonthlyGoal {
   id: string;
   userId: string;
@@ -80,6 +132,10 @@ export interface MonthlyGoal {
   progress: number;
   isCompleted: boolean;
   targetMonth: string;
+  // Free-text goals have no metric and keep manual progress
+  metric?: GoalMetric;
+  target?: number;
+  tagId?: string; // Mistake tag counted by mistakeTagCount
   createdAt: string;
   updatedAt: string;
 }
@@ -99,22 +155,112 @@ export interface RegisterRequest {
   timezone?: string;
 }
 
-export interface AuthResponse {
+// Returned by /api/auth/login instead of tokens when the account has 2FA on
+export interface TwoFactorChallenge {
   success: boolean;
-  message: string;
-  data: {
-    token: string;
-    user: User;
+  requiresTwoFactor: true;
+  challengeToken: string; // Sent back with the code to /api/auth/2fa/verify
+  expiresAt: string;
+}
+
+// Issued by the app's own auth routes (lib/security/token-service)
+export interface TokenResponse {
+  success: boolean;
+  tokens: {
+    accessToken: string;
+    refreshToken: string;
+    expiresAt: number;
   };
-  errors: string[];
-  timestamp: string;
 }
 
-export interface EmotionCheckRequest {
+// Returned by /api/auth/login and /api/auth/2fa/verify once sign-in is complete
+export interface SessionResponse extends TokenResponse {
+  user: User;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  backupCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string; // Base32, for typing into an authenticator app by hand
+  otpauthUri: string;
+}
+
+// Claims of the access and refresh tokens issued by lib/security/token-service
+export interface TokenPayload {
+  sub: string; // User id
+  email: string;
+  exp: number; // Seconds since epoch
+  iat: number;
+  type: 'access' | 'refresh';
+  jti: string; // Unique per token
+  sid: string; // Session: shared by every token rotated from one login
+}
+
+export interface UserUpdateRequest {
+  firstName?: string;
+  lastName?: string;
+  timezone?: string;
+}
+
+export interface EmotionCheckRequest extends EmotionDimensions {
   level: number;
   context: 'pre-trade' | 'post-trade' | 'market-event';
   notes?: string;
   symbol?: string;
+  breathingSessionId?: string;
+}
+
+export type BreathingProtocolId = 'relax-478' | 'box' | 'physiological-sigh' | 'custom';
+
+// Ids are generated on the device so the next emotion check can reference a session still in the outbox
+export interface BreathingSessionRequest {
+  id: string;
+  protocol: BreathingProtocolId;
+  durationSeconds: number;
+  cycles: number;
+  startedAt: string;
+  completedAt: string;
+}
+
+export interface BreathingSession extends BreathingSessionRequest {
+  userId: string;
+  emotionCheckId?: string;
+}
+
+export type MarketBias = 'bullish' | 'bearish' | 'neutral';
+
+export interface DailySessionPlan {
+  bias: MarketBias;
+  watchlist: string[];
+  maxLoss?: number;
+  setupFocus?: string;
+}
+
+export interface DailySessionReview {
+  planAdherence: number; // 1-5
+  mistakes: string[];
+  notes?: string;
+  // Screenshot links or short descriptions of the charts
+  screenshots: string[];
+}
+
+// One journal entry per trading day, keyed by the day in the user's timezone
+export interface DailySession {
+  id: string;
+  userId: string;
+  date: string; // YYYY-MM-DD
+  plan?: DailySessionPlan;
+  review?: DailySessionReview;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DailySessionRequest {
+  plan?: DailySessionPlan;
+  review?: DailySessionReview;
 }
 
 export interface TradeRequest {
@@ -125,9 +271,14 @@ export interface TradeRequest {
   entryPrice?: number;
   exitPrice?: number;
   quantity?: number;
+  fees?: number;
+  stopLoss?: number;
   emotionCheckId?: string;
+  postEmotionCheckId?: string;
   entryTime?: string;
   exitTime?: string;
+  mistakeTags?: string[];
+  setupTag?: string | null; // null clears it on update
 }
 
 export interface WeeklyReflectionRequest {
@@ -144,12 +295,17 @@ export interface MonthlyGoalRequest {
   progress?: number;
   isCompleted?: boolean;
   targetMonth: string;
+  metric?: GoalMetric;
+  target?: number;
+  tagId?: string;
 }
 
 export interface ApiError {
   message: string;
+  status?: number;
   code?: string;
   details?: Record<string, string[]>;
+  retryAfter?: number; // Seconds until a rate-limited or locked request may be retried
 }
 
 // UI State types
@@ -158,6 +314,7 @@ export interface EmotionState {
   selectedContext: 'pre-trade' | 'post-trade' | 'market-event';
   notes: string;
   symbol: string;
+  dimensions: EmotionDimensions;
   isSubmitting: boolean;
 }
 
@@ -166,6 +323,13 @@ export interface TradeState {
   type: 'buy' | 'sell';
   outcome: 'win' | 'loss' | 'breakeven';
   pnl: string;
+  entryPrice: string;
+  exitPrice: string;
+  quantity: string;
+  fees: string;
+  stopLoss: string;
+  entryTime: string;
+  exitTime: string;
   isSubmitting: boolean;
 }
 
@@ -51,6 +51,14 @@ export const validationRules = {
     priority: 2
   },
 
+  // Matches the server's passwordSchema, which password resets are checked against
+  strongPassword: {
+    validate: (value: string) =>
+      /[a-z]/.test(value) && /[A-Z]/.test(value) && /\d/.test(value) && /[@$!%*?&]/.test(value),
+    message: 'Must contain an uppercase letter, a lowercase letter, a number and one of @$!%*?&',
+    priority: 2
+  },
+
   passwordMatch: (compareValue: string) => ({
     validate: (value: string) => value === compareValue,
     message: 'Passwords must match',
@@ -272,6 +280,25 @@ export const validationConfigs = {
     }
   },
 
+  forgotPasswordForm: {
+    email: {
+      rules: [validationRules.email],
+      required: true,
+      requiredMessage: 'Email is required'
+    }
+  },
+
+  resetPasswordForm: {
+    password: {
+      rules: [
+        validationRules.minLength(8),
+        validationRules.strongPassword
+      ],
+      required: true,
+      requiredMessage: 'Password is required'
+    }
+  },
+
   tradeForm: {
     symbol: {
       rules: [validationRules.symbol],
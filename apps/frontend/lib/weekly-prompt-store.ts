@@ -3,61 +3,94 @@
 import React from 'react';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { getWeekKey, isLastDayOfWeek } from './calendar';
+import { getWeekOptions, useWeekOptions } from './settings-store';
+import { apiClient } from './api-client';
+import { useOutboxStore } from './outbox-store';
+import { EmotionCheck, Trade, WeeklyPromptRecord } from './types';
+import { PromptSignalKey, PromptTheme, selectWeeklyPrompt } from './analytics/prompt-selection';
 
-interface WeeklyPrompt {
+export interface WeeklyPrompt {
   id: string;
   question: string;
   week: string;
+  templateId?: string;
+  theme?: PromptTheme;
+  // Why this question was chosen, shown with the prompt
+  reason?: string;
+  signal?: PromptSignalKey;
   isAnswered: boolean;
   answer?: string;
   answeredAt?: Date;
 }
 
+export interface PromptDataContext {
+  checks: EmotionCheck[];
+  trades: Trade[];
+}
+
 interface WeeklyPromptStore {
   currentPrompt: WeeklyPrompt | null;
   answeredPrompts: WeeklyPrompt[];
+  // Answers saved before prompts synced to the server have been uploaded from this device
+  migratedLocalAnswers: boolean;
+  isSyncing: boolean;
   
   // Actions
-  generateWeeklyPrompt: () => void;
+  generateWeeklyPrompt: (data?: PromptDataContext) => void;
   answerPrompt: (answer: string) => void;
   markPromptAsSkipped: () => void;
   shouldShowPrompt: () => boolean;
   getPromptHistory: () => WeeklyPrompt[];
+  syncWithServer: () => Promise<void>;
+}
+
+function fromRecord(record: WeeklyPromptRecord): WeeklyPrompt {
+  return {
+    id: record.id,
+    question: record.question,
+    week: record.week,
+    templateId: record.templateId,
+    theme: record.theme as PromptTheme | undefined,
+    reason: record.reason,
+    isAnswered: record.isAnswered,
+    answer: record.answer || undefined,
+    answeredAt: record.answeredAt ? new Date(record.answeredAt) : undefined,
+  };
 }
 
-// Thoughtful weekly reflection questions
-const WEEKLY_QUESTIONS = [
-  "What trading decision this week are you most proud of, and what mindset led to that decision?",
-  "If you could give advice to yourself at the beginning of this week, what would it be?",
-  "What pattern in your emotions did you notice this week that affected your trading?",
-  "Which trade this week taught you the most, regardless of its outcome?",
-  "How did your risk management evolve this week compared to last week?",
-  "What external factor (news, market conditions, personal life) most influenced your trading mindset this week?",
-  "If you had to describe your emotional state while trading this week in three words, what would they be?",
-  "What's one habit you developed or broke this week that impacted your trading?",
-  "How did your pre-trade preparation differ this week from previous weeks?",
-  "What would you change about your trading approach if you could repeat this week?",
-  "Which emotion served you best this week while trading, and which held you back?",
-  "What's the most important lesson about yourself as a trader that you learned this week?",
-  "How did your relationship with money/profit/loss evolve this week?",
-  "What would your best trading mentor say about your performance this week?",
-  "If you could only keep one trading insight from this week, what would it be?",
-  "How did your patience and discipline show up in your trading this week?",
-  "What surprised you most about your emotional responses to trades this week?",
-  "How did you handle uncertainty in the markets this week?",
-  "What's one thing about your trading psychology that you want to work on next week?",
-  "If this week's trading was a movie, what would be the key lesson of the story?"
-];
+function toAnswerPayload(prompt: WeeklyPrompt) {
+  return {
+    week: prompt.week,
+    question: prompt.question,
+    templateId: prompt.templateId,
+    theme: prompt.theme,
+    reason: prompt.reason,
+    answer: prompt.answer,
+    skipped: !prompt.answer,
+    answeredAt: new Date(prompt.answeredAt || Date.now()).toISOString(),
+  };
+}
+
+// Saved through the outbox so answers given offline reach the server later
+function uploadAnswer(prompt: WeeklyPrompt) {
+  useOutboxStore.getState()
+    .submit('weeklyPrompt.answer', toAnswerPayload(prompt))
+    .catch(error => console.error('Failed to save weekly prompt answer:', error));
+}
 
 export const useWeeklyPromptStore = create<WeeklyPromptStore>()(
   persist(
     (set, get) => ({
       currentPrompt: null,
       answeredPrompts: [],
+      migratedLocalAnswers: false,
+      isSyncing: false,
 
-      generateWeeklyPrompt: () => {
+      generateWeeklyPrompt: (data) => {
         const now = new Date();
-        const currentWeek = getWeekString(now);
+        const weekOptions = getWeekOptions();
+        const currentWeek = getWeekKey(now, weekOptions);
         
         // Check if we already have a prompt for this week
         const existingPrompt = get().answeredPrompts.find(p => p.week === currentWeek);
@@ -72,18 +105,23 @@ export const useWeeklyPromptStore = create<WeeklyPromptStore>()(
           return;
         }
 
-        // Generate new prompt for the week
-        const usedQuestions = get().answeredPrompts.map(p => p.question);
-        const availableQuestions = WEEKLY_QUESTIONS.filter(q => !usedQuestions.includes(q));
-        
-        // If we've used all questions, reset and use all again
-        const questionsPool = availableQuestions.length > 0 ? availableQuestions : WEEKLY_QUESTIONS;
-        const randomIndex = Math.floor(Math.random() * questionsPool.length);
-        
+        // Without the week's data only the theme rotation applies
+        const selection = selectWeeklyPrompt({
+          checks: data?.checks || [],
+          trades: data?.trades || [],
+          history: get().answeredPrompts,
+          weekOptions,
+          now,
+        });
+
         const newPrompt: WeeklyPrompt = {
           id: `${currentWeek}-${Date.now()}`,
-          question: questionsPool[randomIndex],
+          question: selection.question,
           week: currentWeek,
+          templateId: selection.questionId,
+          theme: selection.theme,
+          reason: selection.reason,
+          signal: selection.signal,
           isAnswered: false,
         };
 
@@ -105,6 +143,7 @@ export const useWeeklyPromptStore = create<WeeklyPromptStore>()(
           currentPrompt: answeredPrompt,
           answeredPrompts: [...state.answeredPrompts, answeredPrompt],
         }));
+        uploadAnswer(answeredPrompt);
       },
 
       markPromptAsSkipped: () => {
@@ -122,6 +161,7 @@ export const useWeeklyPromptStore = create<WeeklyPromptStore>()(
           currentPrompt: skippedPrompt,
           answeredPrompts: [...state.answeredPrompts, skippedPrompt],
         }));
+        uploadAnswer(skippedPrompt);
       },
 
       shouldShowPrompt: () => {
@@ -129,7 +169,7 @@ export const useWeeklyPromptStore = create<WeeklyPromptStore>()(
         if (!current) return false;
         
         // Show prompt if it's not answered and it's the current week
-        return !current.isAnswered && current.week === getWeekString(new Date());
+        return !current.isAnswered && current.week === getWeekKey(new Date(), getWeekOptions());
       },
 
       getPromptHistory: () => {
@@ -137,32 +177,89 @@ export const useWeeklyPromptStore = create<WeeklyPromptStore>()(
           new Date(b.answeredAt || 0).getTime() - new Date(a.answeredAt || 0).getTime()
         );
       },
+
+      /**
+       * Pulls this week's server-assigned prompt and the answer history. On the
+       * first sync from a device, answers that only lived in local storage are
+       * uploaded first. Answers still waiting in the outbox are kept locally.
+       */
+      syncWithServer: async () => {
+        if (get().isSyncing) return;
+        set({ isSyncing: true });
+
+        try {
+          if (!get().migratedLocalAnswers) {
+            const localAnswers = get().answeredPrompts.filter(prompt => prompt.isAnswered);
+            for (const prompt of localAnswers) {
+              await useOutboxStore.getState().submit('weeklyPrompt.answer', toAnswerPayload(prompt));
+            }
+            set({ migratedLocalAnswers: true });
+          }
+
+          const week = getWeekKey(new Date(), getWeekOptions());
+          const [currentRecord, history] = await Promise.all([
+            apiClient.getCurrentWeeklyPrompt(week),
+            apiClient.getWeeklyPrompts(),
+          ]);
+
+          const serverAnswered = history.filter(record => record.isAnswered).map(fromRecord);
+          const serverWeeks: Record<string, boolean> = {};
+          serverAnswered.forEach(prompt => { serverWeeks[prompt.week] = true; });
+          const pendingLocal = get().answeredPrompts.filter(prompt => !serverWeeks[prompt.week]);
+
+          // Until the server has an answer, a pending local answer or a question
+          // picked from this week's data wins over the server's rotation
+          const current = get().currentPrompt;
+          const keepLocal = !!current && current.week === week && !currentRecord.isAnswered &&
+            (current.isAnswered || !!current.signal);
+
+          set({
+            answeredPrompts: [...serverAnswered, ...pendingLocal],
+            currentPrompt: keepLocal ? current : fromRecord(currentRecord),
+          });
+        } catch (error) {
+          // Local prompts keep working offline; the next sync catches up
+          console.error('Failed to sync weekly prompts:', error);
+        } finally {
+          set({ isSyncing: false });
+        }
+      },
     }),
     {
       name: 'weekly-prompt-store',
-      version: 1,
+      partialize: (state) => ({
+        currentPrompt: state.currentPrompt,
+        answeredPrompts: state.answeredPrompts,
+        migratedLocalAnswers: state.migratedLocalAnswers,
+      }),
+      version: 2,
+      // Before version 2 weeks were counted from Jan 1 rather than ISO weeks; re-key them
+      migrate: (persisted: any, version) => {
+        if (version < 2 && persisted) {
+          const options = getWeekOptions();
+          const rekey = (prompt: WeeklyPrompt): WeeklyPrompt => {
+            // Prompt ids end with the creation timestamp
+            const createdAt = Number(prompt.id.split('-').pop());
+            const when = prompt.answeredAt || (isNaN(createdAt) ? null : new Date(createdAt));
+            return when ? { ...prompt, week: getWeekKey(when, options) } : prompt;
+          };
+          persisted.answeredPrompts = (persisted.answeredPrompts || []).map(rekey);
+          persisted.currentPrompt = persisted.currentPrompt ? rekey(persisted.currentPrompt) : null;
+        }
+        return persisted;
+      },
     }
   )
 );
 
-// Helper function to get week string (YYYY-WW format)
-function getWeekString(date: Date): string {
-  const year = date.getFullYear();
-  const start = new Date(year, 0, 1);
-  const diff = (date.getTime() - start.getTime() + ((start.getTimezoneOffset() - date.getTimezoneOffset()) * 60000));
-  const oneWeek = 604800000; // milliseconds in a week
-  const week = Math.floor(diff / oneWeek) + 1;
-  return `${year}-W${week.toString().padStart(2, '0')}`;
-}
-
-// Hook to check if it's Sunday (prompt day)
-export function useIsSunday(): boolean {
-  const [isSunday, setIsSunday] = React.useState(false);
+// Hook to check if today is the last day of the week (prompt day)
+export function useIsReflectionDay(): boolean {
+  const options = useWeekOptions();
+  const [isReflectionDay, setIsReflectionDay] = React.useState(false);
   
   React.useEffect(() => {
     const checkDay = () => {
-      const today = new Date();
-      setIsSunday(today.getDay() === 0); // Sunday is 0
+      setIsReflectionDay(isLastDayOfWeek(new Date(), options));
     };
     
     checkDay();
@@ -170,7 +267,7 @@ export function useIsSunday(): boolean {
     // Check every hour
     const interval = setInterval(checkDay, 3600000);
     return () => clearInterval(interval);
-  }, []);
+  }, [options]);
   
-  return isSunday;
+  return isReflectionDay;
 }
@@ -10,6 +10,10 @@ const nextConfig = {
   images: {
     domains: [],
   },
+  experimental: {
+    // Native module, loaded from node_modules at runtime instead of bundled
+    serverComponentsExternalPackages: ['better-sqlite3'],
+  },
 };
 
 module.exports = withPWA(nextConfig);
@@ -0,0 +1,14 @@
+// Custom service worker code, bundled into sw.js by next-pwa.
+//
+// The offline outbox lives in the page's localStorage, which a service worker
+// cannot read, so background sync just wakes any open TradeMentor window and
+// lets it replay the queue through the normal API client.
+self.addEventListener('sync', (event) => {
+  if (event.tag !== 'outbox-sync') return;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      clients.forEach((client) => client.postMessage({ type: 'OUTBOX_SYNC' }));
+    })
+  );
+});